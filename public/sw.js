@@ -64,6 +64,39 @@ self.addEventListener('fetch', (event) => {
   }
 });
 
+// Reminder notifications (see src/lib/reminderNotifications.ts). Snooze and
+// Dismiss are handed to an open tab, which owns the user's data; with no tab
+// open the note is opened with the action in its URL instead.
+self.addEventListener('notificationclick', (event) => {
+  const { notification } = event;
+  const data = notification.data || {};
+  notification.close();
+  if (!data.url) return;
+
+  event.waitUntil(handleReminderClick(event.action, data));
+});
+
+async function handleReminderClick(action, data) {
+  const windows = await self.clients.matchAll({ type: 'window' });
+
+  if (action === 'snooze' || action === 'dismiss') {
+    if (windows.length > 0) {
+      windows[0].postMessage({ type: 'tulis:reminder-action', reminderKey: data.reminderKey, action });
+      return;
+    }
+    await self.clients.openWindow(`${data.url}&reminderAction=${action}`);
+    return;
+  }
+
+  const client = windows.find((windowClient) => windowClient.focused) || windows[0];
+  if (client) {
+    const navigated = await client.navigate(data.url).catch(() => null);
+    await (navigated || client).focus();
+    return;
+  }
+  await self.clients.openWindow(data.url);
+}
+
 async function staleWhileRevalidate(request) {
   const cache = await caches.open(STATIC_CACHE);
   const cached = await cache.match(request);
@@ -0,0 +1,301 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useAuthGuard } from '@/hooks/useAuthGuard';
+import {
+  agendaItemsByDay,
+  agendaViewDays,
+  createAgendaIndex,
+  groupAgendaItems,
+  shiftAgendaAnchor,
+  type AgendaItem,
+  type AgendaView,
+} from '@/lib/agenda';
+import { formatJournalTitle, parseJournalDate, todayJournalDate } from '@/lib/journal';
+import { getNotesRepository } from '@/lib/notesRepository';
+import { reminderHref } from '@/lib/reminders';
+import { LoadingNotesScreen } from '@/components/LoadingNotesScreen';
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Chips listed in a month cell before it collapses to "+N more".
+const MONTH_CELL_ITEM_COUNT = 2;
+const COLLAPSED_OVERDUE_COUNT = 10;
+
+const VIEW_STORAGE_KEY = 'tulis:agenda-view';
+
+const timeFormatter = new Intl.DateTimeFormat('en-US', { hour: 'numeric', minute: '2-digit' });
+const shortDayFormatter = new Intl.DateTimeFormat('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+const monthFormatter = new Intl.DateTimeFormat('en-US', { month: 'long', year: 'numeric' });
+const weekDayFormatter = new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' });
+
+// Chips with a reminder open scrolled to the chip.
+const agendaItemHref = (item: AgendaItem) => (
+  item.reminderId ? reminderHref(item.noteId, item.reminderId) : `/notes/${encodeURIComponent(item.noteId)}`
+);
+
+const formatDay = (day: string) => {
+  const date = parseJournalDate(day);
+  return date ? shortDayFormatter.format(date) : day;
+};
+
+function AgendaItemRow({ item, showDay }: { item: AgendaItem; showDay: boolean }) {
+  return (
+    <li>
+      <Link
+        href={agendaItemHref(item)}
+        className="flex items-baseline gap-3 rounded-[var(--rSm)] px-3 py-2 transition-colors hover:bg-[color:var(--surface2)]"
+      >
+        <span className="w-24 shrink-0 text-xs tabular-nums text-[color:var(--text3)]">
+          {showDay ? formatDay(item.day) : item.reminderAtMs !== null ? timeFormatter.format(item.reminderAtMs) : 'All day'}
+        </span>
+        <span className="min-w-0 flex-1">
+          <span className="block truncate text-sm font-medium tulis-text">{item.noteTitle || 'Untitled'}</span>
+          {item.context && <span className="block truncate text-xs tulis-muted">{item.context}</span>}
+        </span>
+        {showDay && item.reminderAtMs !== null && (
+          <span className="shrink-0 text-[11px] text-[color:var(--text3)]">⏰ {timeFormatter.format(item.reminderAtMs)}</span>
+        )}
+      </Link>
+    </li>
+  );
+}
+
+function AgendaGroup({ title, items, count = items.length, emptyText, showDay, tone }: {
+  title: string;
+  items: AgendaItem[];
+  // Total in the group when only some items are shown.
+  count?: number;
+  emptyText: string;
+  showDay: boolean;
+  tone?: 'danger';
+}) {
+  return (
+    <section aria-label={title}>
+      <h2
+        className={`pl-3 text-[11px] font-semibold uppercase tracking-[0.15em] ${tone === 'danger' ? 'text-[color:var(--dangerText)]' : 'text-[color:var(--text3)]'}`}
+      >
+        {title}
+        {count > 0 && <span className="ml-1.5 tabular-nums">{count}</span>}
+      </h2>
+      {items.length === 0 ? (
+        <p className="mt-1.5 pl-3 text-xs tulis-muted">{emptyText}</p>
+      ) : (
+        <ul className="mt-1 space-y-0.5">
+          {items.map((item) => <AgendaItemRow key={item.key} item={item} showDay={showDay} />)}
+        </ul>
+      )}
+    </section>
+  );
+}
+
+export default function AgendaClient() {
+  const { user, loading } = useAuthGuard();
+  const agendaIndex = useMemo(() => createAgendaIndex(), []);
+  const [items, setItems] = useState<AgendaItem[] | null>(null);
+  const [view, setView] = useState<AgendaView>(() => {
+    if (typeof window === 'undefined') return 'month';
+    try {
+      return window.localStorage.getItem(VIEW_STORAGE_KEY) === 'week' ? 'week' : 'month';
+    } catch {
+      return 'month';
+    }
+  });
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+  const [showAllOverdue, setShowAllOverdue] = useState(false);
+  const today = todayJournalDate();
+
+  useEffect(() => {
+    if (!user) return;
+
+    return getNotesRepository().subscribeNotes(
+      user.uid,
+      (records) => setItems(agendaIndex.sync(records)),
+      (error) => {
+        console.error('Failed to load agenda:', error);
+        setItems((current) => current ?? []);
+      }
+    );
+  }, [agendaIndex, user]);
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(VIEW_STORAGE_KEY, view);
+    } catch {
+      // Ignore localStorage write failures.
+    }
+  }, [view]);
+
+  const itemsByDay = useMemo(() => agendaItemsByDay(items ?? []), [items]);
+  const groups = useMemo(() => groupAgendaItems(items ?? [], today), [items, today]);
+  const days = useMemo(() => agendaViewDays(view, anchor), [anchor, view]);
+
+  if (loading || !user || items === null) return <LoadingNotesScreen />;
+
+  const visibleMonth = anchor.getMonth();
+  const rangeLabel = view === 'month'
+    ? monthFormatter.format(anchor)
+    : `${weekDayFormatter.format(parseJournalDate(days[0]) ?? anchor)} – ${weekDayFormatter.format(parseJournalDate(days[6]) ?? anchor)}`;
+  const selectedItems = selectedDay ? itemsByDay.get(selectedDay) ?? [] : [];
+  const visibleOverdue = showAllOverdue ? groups.overdue : groups.overdue.slice(0, COLLAPSED_OVERDUE_COUNT);
+
+  const navButtonClassName = 'flex h-8 w-8 items-center justify-center rounded-[var(--rSm)] text-[color:var(--text3)] transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]';
+  const toggleButtonClassName = (isActive: boolean) => `rounded-[calc(var(--rSm)-4px)] px-2.5 py-1 text-xs font-medium transition-colors ${isActive
+    ? 'bg-[color:var(--surface)] tulis-text shadow-[var(--shadow1)]'
+    : 'text-[color:var(--text3)] hover:text-[color:var(--text)]'
+    }`;
+
+  return (
+    <main className="mx-auto w-full max-w-[1040px] px-4 pb-24 pt-8 md:px-8">
+      <header className="flex flex-wrap items-center gap-3">
+        <Link
+          href="/notes"
+          className="text-xs font-medium text-[color:var(--text3)] transition-colors hover:text-[color:var(--text)]"
+        >
+          ← Notes
+        </Link>
+        <h1 className="text-2xl font-bold tracking-tight tulis-text">Agenda</h1>
+
+        <div className="ml-auto flex items-center gap-1">
+          <div role="group" aria-label="Agenda view" className="mr-2 flex rounded-[var(--rSm)] bg-[color:var(--surface2)] p-0.5">
+            <button type="button" onClick={() => setView('month')} aria-pressed={view === 'month'} className={toggleButtonClassName(view === 'month')}>
+              Month
+            </button>
+            <button type="button" onClick={() => setView('week')} aria-pressed={view === 'week'} className={toggleButtonClassName(view === 'week')}>
+              Week
+            </button>
+          </div>
+          <button type="button" onClick={() => setAnchor((current) => shiftAgendaAnchor(view, current, -1))} className={navButtonClassName} aria-label={`Previous ${view}`}>
+            <svg className="h-3.5 w-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+              <polyline points="15 18 9 12 15 6" strokeLinecap="round" strokeLinejoin="round" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setAnchor(new Date());
+              setSelectedDay(today);
+            }}
+            className="rounded-[var(--rSm)] px-2 py-1 text-xs font-medium text-[color:var(--text3)] transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+          >
+            Today
+          </button>
+          <button type="button" onClick={() => setAnchor((current) => shiftAgendaAnchor(view, current, 1))} className={navButtonClassName} aria-label={`Next ${view}`}>
+            <svg className="h-3.5 w-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+              <polyline points="9 18 15 12 9 6" strokeLinecap="round" strokeLinejoin="round" />
+            </svg>
+          </button>
+        </div>
+      </header>
+
+      <p className="mt-4 text-sm font-medium tulis-text" aria-live="polite">{rangeLabel}</p>
+
+      <div className="mt-2 grid grid-cols-7 overflow-hidden rounded-[var(--rLg)] border tulis-border" role="grid" aria-label={`Dates in ${rangeLabel}`}>
+        {WEEKDAY_LABELS.map((label) => (
+          <span key={label} className="border-b tulis-border px-2 py-1.5 text-[11px] font-medium text-[color:var(--text3)]" aria-hidden="true">
+            {label}
+          </span>
+        ))}
+        {days.map((day) => {
+          const dayItems = itemsByDay.get(day) ?? [];
+          const date = parseJournalDate(day);
+          const isOutsideMonth = view === 'month' && date?.getMonth() !== visibleMonth;
+          const isSelected = day === selectedDay;
+          const cellItems = view === 'month' ? dayItems.slice(0, MONTH_CELL_ITEM_COUNT) : dayItems;
+          const hiddenCount = dayItems.length - cellItems.length;
+
+          return (
+            <div
+              key={day}
+              role="gridcell"
+              aria-selected={isSelected}
+              className={`flex flex-col gap-0.5 border-b border-r tulis-border p-1 ${view === 'month' ? 'min-h-[88px]' : 'min-h-[220px]'} ${isOutsideMonth ? 'bg-[color:var(--surface2)]/40' : ''}`}
+            >
+              <button
+                type="button"
+                onClick={() => setSelectedDay(isSelected ? null : day)}
+                aria-label={`${formatJournalTitle(day)}, ${dayItems.length} ${dayItems.length === 1 ? 'date' : 'dates'}`}
+                aria-current={day === today ? 'date' : undefined}
+                className={`flex h-6 w-6 items-center justify-center self-start rounded-full text-xs tabular-nums transition-colors ${isSelected
+                  ? 'bg-[color:var(--accent)] font-semibold text-white'
+                  : day === today
+                    ? 'font-semibold text-[color:var(--accent)] ring-1 ring-inset ring-[color:var(--accent)]'
+                    : isOutsideMonth
+                      ? 'text-[color:var(--text3)] hover:bg-[color:var(--surface2)]'
+                      : 'tulis-text hover:bg-[color:var(--surface2)]'
+                  }`}
+              >
+                {Number(day.slice(8))}
+              </button>
+              {cellItems.map((item) => (
+                <Link
+                  key={item.key}
+                  href={agendaItemHref(item)}
+                  title={item.context || item.noteTitle}
+                  className={`truncate rounded-[calc(var(--rSm)-4px)] px-1 py-0.5 text-[11px] transition-colors hover:bg-[color:var(--surface2)] ${day < today ? 'tulis-muted' : 'tulis-text'}`}
+                >
+                  {item.reminderAtMs !== null && <span className="tabular-nums text-[color:var(--text3)]">{timeFormatter.format(item.reminderAtMs)} </span>}
+                  {item.noteTitle || 'Untitled'}
+                </Link>
+              ))}
+              {hiddenCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setSelectedDay(day)}
+                  className="px-1 text-left text-[11px] font-medium text-[color:var(--text3)] transition-colors hover:text-[color:var(--text)]"
+                >
+                  +{hiddenCount} more
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-8 space-y-6">
+        {selectedDay ? (
+          <>
+            <AgendaGroup
+              title={formatJournalTitle(selectedDay)}
+              items={selectedItems}
+              emptyText="No dates on this day."
+              showDay={false}
+            />
+            <button
+              type="button"
+              onClick={() => setSelectedDay(null)}
+              className="pl-3 text-xs font-medium text-[color:var(--text3)] transition-colors hover:text-[color:var(--text)]"
+            >
+              Show all dates
+            </button>
+          </>
+        ) : (
+          <>
+            {groups.overdue.length > 0 && (
+              <div>
+                <AgendaGroup title="Overdue" items={visibleOverdue} count={groups.overdue.length} emptyText="" showDay tone="danger" />
+                {groups.overdue.length > COLLAPSED_OVERDUE_COUNT && (
+                  <button
+                    type="button"
+                    onClick={() => setShowAllOverdue((current) => !current)}
+                    className="mt-1 pl-3 text-xs font-medium text-[color:var(--text3)] transition-colors hover:text-[color:var(--text)]"
+                  >
+                    {showAllOverdue ? 'Show fewer' : `Show ${groups.overdue.length - visibleOverdue.length} more`}
+                  </button>
+                )}
+              </div>
+            )}
+            <AgendaGroup title="Today" items={groups.today} emptyText="Nothing dated today." showDay={false} />
+            <AgendaGroup
+              title="Upcoming"
+              items={groups.upcoming}
+              emptyText="No upcoming dates. Type /date in a note to add one."
+              showDay
+            />
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
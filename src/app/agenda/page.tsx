@@ -0,0 +1,14 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+import { LoadingNotesScreen } from '@/components/LoadingNotesScreen';
+
+// Every date chip across the user's notes, by month or week.
+const AgendaClient = dynamic(() => import('./AgendaClient'), {
+  ssr: false,
+  loading: () => <LoadingNotesScreen />,
+});
+
+export default function AgendaPage() {
+  return <AgendaClient />;
+}
@@ -10,6 +10,7 @@ import {
   signInWithRedirect,
   GoogleAuthProvider,
   sendPasswordResetEmail,
+  sendEmailVerification,
   onAuthStateChanged,
   getRedirectResult,
   updateProfile,
@@ -120,6 +121,10 @@ export default function Login() {
 
         const credential = await createUserWithEmailAndPassword(auth, trimmedEmail, password);
         await updateProfile(credential.user, { displayName: trimmedName });
+        // Others can only share notes with a verified address.
+        void sendEmailVerification(credential.user).catch((verificationError) => {
+          console.warn('Failed to send verification email:', verificationError);
+        });
         signedInUser = credential.user;
       } else {
         const credential = await signInWithEmailAndPassword(auth, trimmedEmail, password);
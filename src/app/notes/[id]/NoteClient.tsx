@@ -5,25 +5,78 @@ import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { NotesDrawer } from '@/components/notes/NotesDrawer';
 import { NotePageSkeleton } from '@/components/notes/NotePageSkeleton';
 import { useAuthGuard } from '@/hooks/useAuthGuard';
-import { db } from '@/lib/firebase';
-import { deleteDoc, deleteField, getDocs, onSnapshot, query, serverTimestamp, Timestamp, updateDoc, where, writeBatch } from 'firebase/firestore';
-import { appNoteDoc, appNotesCollection } from '@/lib/firestorePaths';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
 import { Editor, EditorContent, JSONContent, useEditor } from '@tiptap/react';
-import { redoDepth, undoDepth } from '@tiptap/pm/history';
+import type { Transaction } from '@tiptap/pm/state';
 import StarterKit from '@tiptap/starter-kit';
+import Collaboration, { isChangeOrigin } from '@tiptap/extension-collaboration';
+import { yUndoPluginKey } from '@tiptap/y-tiptap';
+import * as Y from 'yjs';
 import TaskList from '@tiptap/extension-task-list';
-import TaskItem from '@tiptap/extension-task-item';
 import { AbbrevExpand } from '@/editor/AbbrevExpand';
 import { SlashCommand } from '@/lib/editor/SlashCommand';
 import { TagChip } from '@/editor/TagChip';
-import { DateChip } from '@/editor/DateChip';
+import { DateChip, type DateChipEditRequest } from '@/editor/DateChip';
+import { NoteTaskItem, type TaskAttributesEditRequest } from '@/editor/NoteTaskItem';
+import { NoteLink } from '@/editor/NoteLink';
+import { NoteImage } from '@/editor/NoteImage';
+import { FileAttachment } from '@/editor/FileAttachment';
+import { AttachmentUpload } from '@/editor/AttachmentUpload';
+import { NoteLinkSuggestion } from '@/lib/editor/NoteLinkSuggestion';
 import { CodeBlock } from '@/editor/CodeBlock';
 import { DatePicker } from '@/components/editor/DatePicker';
+import { TaskAttributesPopover, type TaskAssigneeOption } from '@/components/editor/TaskAttributesPopover';
+import { NoteConflictBanner } from '@/components/notes/NoteConflictBanner';
+import { NoteContentView } from '@/components/notes/NoteContentView';
+import { NoteHistoryPanel } from '@/components/notes/NoteHistoryPanel';
+import { NoteBacklink, NoteBacklinks } from '@/components/notes/NoteBacklinks';
+import { PublishNoteDialog } from '@/components/notes/PublishNoteDialog';
+import { ShareNoteDialog } from '@/components/notes/ShareNoteDialog';
 import { offOpenDatePicker, onOpenDatePicker } from '@/lib/editor/datePickerEvent';
-import { normalizeLabel, normalizeLabels } from '@/lib/notes';
+import { collectLabels, normalizeLabel, normalizeLabels } from '@/lib/notes';
+import { reminderKey, type ReminderAction } from '@/lib/reminders';
+import { sortTaskItems } from '@/lib/taskAttributes';
+import { toTaskRecurrence } from '@/lib/taskRecurrence';
+import { labelColorOf, labelColorValue, type LabelColors } from '@/lib/labelColors';
 import { ensureUserHasNote } from '@/lib/notesLifecycle';
-
-type SyncStatus = 'loading' | 'syncing' | 'synced' | 'error';
+import { getNotesRepository, NoteCollaborator, repositoryErrorCode } from '@/lib/notesRepository';
+import { NoteAccess, resolveNoteAccess } from '@/lib/noteSharing';
+import { REPUBLISH_DELAY_MS, updatePublishedSnapshot } from '@/lib/notePublishing';
+import { AttachmentUploader, uploadNoteAttachment } from '@/lib/noteAttachments';
+import { markdownFileName, markdownToNote, noteToMarkdown } from '@/lib/noteMarkdown';
+import { listNoteTemplates, NoteTemplate, parseTemplateCursor } from '@/lib/noteTemplates';
+import { resolveTemplateCursor } from '@/lib/editor/insertTemplate';
+import { collectJournalEntries, formatJournalTitle, todayJournalDate } from '@/lib/journal';
+import { collectOutgoingLinks, NoteLinkTarget, setNoteLinkTitles } from '@/lib/noteLinks';
+import {
+  isNoteCollabDocEmpty,
+  NoteCollabStatus,
+  NOTE_COLLAB_FIELD,
+  seedNoteCollabDoc,
+  startNoteCollabSession,
+} from '@/lib/noteCollab';
+import { noteBlocks } from '@/lib/noteContent';
+import {
+  countQueuedNoteWrites,
+  dropQueuedNoteWrites,
+  queueNoteWrite,
+  type NoteOutboxBase,
+  replayNoteOutbox,
+  subscribeNoteOutbox,
+  writeNoteFields,
+} from '@/lib/noteOutbox';
+import { buildMergedNoteContent, mergeNoteBlocks, NoteMergeResult, reconcileRemoteContent } from '@/lib/noteMerge';
+import {
+  createNoteRevision,
+  getLatestNoteRevisionMillis,
+  NoteRevision,
+  NoteRevisionReason,
+  shouldCaptureRevision,
+} from '@/lib/noteRevisions';
+
+// `offline` and `queued` are derived from connectivity: offline with nothing
+// pending, or offline with writes waiting to replay.
+type SyncStatus = 'loading' | 'syncing' | 'synced' | 'queued' | 'offline' | 'error';
 type SelectionToolbarState = {
   visible: boolean;
   isMobile: boolean;
@@ -38,6 +91,17 @@ type CachedNoteMetadata = {
   isDeleted: boolean;
   deletedAtMs: number | null;
   updatedAtMs: number | null;
+  access: NoteAccess;
+};
+type PersistedNoteSnapshot = {
+  title: string;
+  content: string;
+  contentJson: JSONContent;
+};
+type PendingMergeConflict = {
+  result: NoteMergeResult;
+  // What the editor was set to after the merge (conflicts resolved as "mine").
+  appliedContent: JSONContent;
 };
 const PULL_REFRESH_TRIGGER_PX = 84;
 const PULL_REFRESH_MAX_PX = 132;
@@ -67,44 +131,8 @@ function measureDevPerf(name: string, startMark: string, endMark: string) {
   }
 }
 
-function isPlainObject(value: unknown): value is Record<string, unknown> {
-  if (value === null || typeof value !== 'object') return false;
-  const proto = Object.getPrototypeOf(value);
-  return proto === Object.prototype || proto === null;
-}
-
-function deepEqualJsonValue(a: unknown, b: unknown): boolean {
-  if (a === b) return true;
-  if (a === null || b === null) return a === b;
-
-  if (Array.isArray(a) || Array.isArray(b)) {
-    if (!Array.isArray(a) || !Array.isArray(b)) return false;
-    if (a.length !== b.length) return false;
-    for (let index = 0; index < a.length; index += 1) {
-      if (!deepEqualJsonValue(a[index], b[index])) return false;
-    }
-    return true;
-  }
-
-  if (isPlainObject(a) || isPlainObject(b)) {
-    if (!isPlainObject(a) || !isPlainObject(b)) return false;
-    const aKeys = Object.keys(a);
-    const bKeys = Object.keys(b);
-    if (aKeys.length !== bKeys.length) return false;
-    for (const key of aKeys) {
-      if (!Object.prototype.hasOwnProperty.call(b, key)) return false;
-      if (!deepEqualJsonValue(a[key], b[key])) return false;
-    }
-    return true;
-  }
-
-  return false;
-}
-
-function isEquivalentEditorContent(a: JSONContent, b: JSONContent): boolean {
-  return deepEqualJsonValue(a, b);
-}
-
+// Repeating items are kept even when checked: they are the chore, not one
+// instance of it.
 function stripCompletedTasksFromNode(node: JSONContent): { node: JSONContent | null; removedCount: number } {
   let removedCount = 0;
   const children = Array.isArray(node.content) ? node.content : null;
@@ -117,7 +145,7 @@ function stripCompletedTasksFromNode(node: JSONContent): { node: JSONContent | n
   let changed = false;
 
   for (const child of children) {
-    if (child.type === 'taskItem' && child.attrs?.checked === true) {
+    if (child.type === 'taskItem' && child.attrs?.checked === true && !toTaskRecurrence(child.attrs.recurrence)) {
       removedCount += 1;
       changed = true;
       continue;
@@ -189,6 +217,7 @@ function readCachedNoteMetadata(userId: string, noteId: string): CachedNoteMetad
       isDeleted: parsed.isDeleted === true,
       deletedAtMs: typeof parsed.deletedAtMs === 'number' && Number.isFinite(parsed.deletedAtMs) ? parsed.deletedAtMs : null,
       updatedAtMs: typeof parsed.updatedAtMs === 'number' && Number.isFinite(parsed.updatedAtMs) ? parsed.updatedAtMs : null,
+      access: parsed.access === 'viewer' || parsed.access === 'editor' ? parsed.access : 'owner',
     };
   } catch {
     return null;
@@ -210,16 +239,32 @@ export default function NoteClient() {
   const routeParams = useParams<{ id: string }>();
   const searchParams = useSearchParams();
   const { user, loading: authLoading } = useAuthGuard();
+  const isOnline = useOnlineStatus();
   const noteId = typeof routeParams?.id === 'string' ? routeParams.id : null;
   const [title, setTitle] = useState('');
   const [labels, setLabels] = useState<string[]>([]);
   const [labelInput, setLabelInput] = useState('');
   const [allUserLabels, setAllUserLabels] = useState<string[]>([]);
+  const [labelColors, setLabelColors] = useState<LabelColors>({});
   const [hasTrashNotes, setHasTrashNotes] = useState(false);
   const [hasLoadedUserNotes, setHasLoadedUserNotes] = useState(false);
   const [pinned, setPinned] = useState(false);
+  const [isTemplate, setIsTemplate] = useState(false);
+  const [journalDate, setJournalDate] = useState<string | null>(null);
+  // Journal day -> note id for the user's own entries.
+  const [journalEntries, setJournalEntries] = useState<Record<string, string>>({});
+  // The user's notes that may link here; backlinks are derived per open note.
+  const [linkSources, setLinkSources] = useState<Array<NoteBacklink & { outgoingLinks: string[] }>>([]);
   const [isDeleted, setIsDeleted] = useState(false);
-  const [deletedAt, setDeletedAt] = useState<Timestamp | null>(null);
+  const [deletedAtMs, setDeletedAtMs] = useState<number | null>(null);
+  // Null until the note (or its cached metadata) has loaded.
+  const [noteAccess, setNoteAccess] = useState<NoteAccess | null>(null);
+  const [noteOwnerUid, setNoteOwnerUid] = useState<string | null>(null);
+  const [collaborators, setCollaborators] = useState<Record<string, NoteCollaborator>>({});
+  const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+  const [publishedSlug, setPublishedSlug] = useState<string | null>(null);
+  const [autoRepublish, setAutoRepublish] = useState(false);
+  const [isPublishDialogOpen, setIsPublishDialogOpen] = useState(false);
   const [sidebarMode, setSidebarMode] = useState<SidebarMode>('notes');
   const [isSidebarOpen, setIsSidebarOpen] = useState(() => {
     if (typeof window === 'undefined') return true;
@@ -232,7 +277,12 @@ export default function NoteClient() {
   const [syncStatus, setSyncStatus] = useState<SyncStatus>('loading');
   const [isTitleFocused, setIsTitleFocused] = useState(false);
   const [datePickerOpen, setDatePickerOpen] = useState(false);
+  // The chip being edited; null while the picker inserts a new one.
+  const [dateChipEditTarget, setDateChipEditTarget] = useState<DateChipEditRequest | null>(null);
+  const [taskAttributesTarget, setTaskAttributesTarget] = useState<TaskAttributesEditRequest | null>(null);
   const [confirmPermanentDeleteOpen, setConfirmPermanentDeleteOpen] = useState(false);
+  const [historyCurrentContent, setHistoryCurrentContent] = useState<JSONContent | null>(null);
+  const [mergeConflict, setMergeConflict] = useState<PendingMergeConflict | null>(null);
   const [selectionToolbar, setSelectionToolbar] = useState<SelectionToolbarState>({
     visible: false,
     isMobile: false,
@@ -246,14 +296,33 @@ export default function NoteClient() {
   const [isPullRefreshing, setIsPullRefreshing] = useState(false);
   const [isPullClosing, setIsPullClosing] = useState(false);
   const [remoteContent, setRemoteContent] = useState<JSONContent | null>(null);
+  const [collabStatus, setCollabStatus] = useState<NoteCollabStatus>('connecting');
+  const [hasQueuedWrites, setHasQueuedWrites] = useState(false);
+  // Read by the /template slash command.
+  const noteTemplatesRef = useRef<NoteTemplate[]>([]);
+  // Read by the [[ note link picker.
+  const noteLinkTargetsRef = useRef<NoteLinkTarget[]>([]);
+  const openLinkedNoteRef = useRef<(noteId: string) => void>(() => {});
+  const taskAssigneeNameRef = useRef<(uid: string) => string | null>(() => null);
+  const attachmentUploaderRef = useRef<AttachmentUploader | null>(null);
   const hasHydratedContentRef = useRef(false);
+  const hasCheckedCollabSeedRef = useRef(false);
   const lastSubmittedContentRef = useRef<JSONContent | null>(null);
+  // Last contentJson seen from Firestore; the common ancestor for three-way merges.
+  const syncBaseContentRef = useRef<JSONContent | null>(null);
+  // Latest server copy, recorded with queued content writes for replay.
+  const outboxBaseRef = useRef<NoteOutboxBase | null>(null);
+  const persistedNoteRef = useRef<PersistedNoteSnapshot | null>(null);
+  const lastRevisionAtRef = useRef<number | null | undefined>(undefined);
+  const revisionCaptureInFlightRef = useRef(false);
   const changeVersionRef = useRef(0);
   const savedVersionRef = useRef(0);
   const contentSaveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const titleSaveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const pendingRepublishRef = useRef<{ timeout: ReturnType<typeof setTimeout>; run: () => void } | null>(null);
   const titleInputRef = useRef<HTMLInputElement | null>(null);
   const labelInputRef = useRef<HTMLInputElement | null>(null);
+  const markdownFileInputRef = useRef<HTMLInputElement | null>(null);
   const labelPopoverRef = useRef<HTMLDivElement | null>(null);
   const editorScrollRef = useRef<HTMLElement | null>(null);
   const editorColumnRef = useRef<HTMLDivElement | null>(null);
@@ -281,9 +350,89 @@ export default function NoteClient() {
     readyMarked: false,
   });
   const shouldFocusTitle = searchParams.get('focus') === 'title';
-  const isReadOnly = isDeleted || sidebarMode === 'trash';
+  const requestedCursorParam = searchParams.get('cursor');
+  const requestedSavedSearchId = searchParams.get('view');
+  // /notes/<id>?reminder=<reminderId> comes from a reminder notification.
+  const requestedReminderId = searchParams.get('reminder');
+  const requestedReminderActionParam = searchParams.get('reminderAction');
+  const requestedReminderAction = useMemo(() => {
+    const action = requestedReminderActionParam as ReminderAction | null;
+    if (!noteId || !requestedReminderId || (action !== 'snooze' && action !== 'dismiss')) return null;
+    return { reminderKey: reminderKey(noteId, requestedReminderId), action };
+  }, [noteId, requestedReminderActionParam, requestedReminderId]);
+  const scrolledToReminderRef = useRef<string | null>(null);
+  const placedTemplateCursorRef = useRef<string | null>(null);
+  const [previousRequestedSavedSearchId, setPreviousRequestedSavedSearchId] = useState<string | null>(null);
+  // A /notes?view=<id> link opens the drawer on that saved search.
+  if (previousRequestedSavedSearchId !== requestedSavedSearchId) {
+    setPreviousRequestedSavedSearchId(requestedSavedSearchId);
+    if (requestedSavedSearchId) {
+      setSidebarMode('notes');
+      setIsSidebarOpen(true);
+    }
+  }
+  const isSharedWithMe = noteAccess === 'viewer' || noteAccess === 'editor';
+  const isReadOnly = isDeleted || sidebarMode === 'trash' || noteAccess === 'viewer';
   const isTrashEmptyView = sidebarMode === 'trash' && hasLoadedUserNotes && !hasTrashNotes;
 
+  const backlinks = useMemo(() => (
+    noteId ? linkSources.filter((source) => source.id !== noteId && source.outgoingLinks.includes(noteId)) : []
+  ), [linkSources, noteId]);
+
+  useEffect(() => {
+    openLinkedNoteRef.current = (linkedNoteId) => router.push(`/notes/${linkedNoteId}`);
+  }, [router]);
+
+  // Tasks can be assigned on shared notes, to the owner or a collaborator.
+  const taskAssignees = useMemo<TaskAssigneeOption[]>(() => {
+    if (!noteOwnerUid || Object.keys(collaborators).length === 0) return [];
+    return [
+      { uid: noteOwnerUid, name: noteOwnerUid === user?.uid ? user.email ?? 'You' : 'Note owner' },
+      ...Object.entries(collaborators).map(([uid, collaborator]) => ({ uid, name: collaborator.email || uid })),
+    ];
+  }, [collaborators, noteOwnerUid, user]);
+
+  useEffect(() => {
+    taskAssigneeNameRef.current = (uid) => {
+      const assignee = taskAssignees.find((option) => option.uid === uid);
+      return assignee ? assignee.name.split('@')[0] : null;
+    };
+  }, [taskAssignees]);
+
+  // Attachments live in Firebase Storage under the note owner's folder, so
+  // uploads need a cloud note whose owner is known and that this user may edit.
+  useEffect(() => {
+    if (!noteId || !noteOwnerUid || isReadOnly || getNotesRepository().kind !== 'firestore') {
+      attachmentUploaderRef.current = null;
+      return;
+    }
+
+    attachmentUploaderRef.current = (file, onProgress) => uploadNoteAttachment({
+      ownerUid: noteOwnerUid,
+      noteId,
+      file,
+      onProgress,
+    });
+  }, [isReadOnly, noteId, noteOwnerUid]);
+
+  // Steps between existing entries rather than empty days; "next" from the
+  // latest past entry opens (or starts) today's.
+  const journalNavigation = useMemo(() => {
+    if (!journalDate || noteAccess !== 'owner') return null;
+
+    const dates = Object.keys(journalEntries).sort();
+    const previousDate = [...dates].reverse().find((date) => date < journalDate) ?? null;
+    const nextDate = dates.find((date) => date > journalDate) ?? null;
+    const today = todayJournalDate();
+
+    return {
+      previous: previousDate ? { href: `/notes/${journalEntries[previousDate]}`, label: formatJournalTitle(previousDate) } : null,
+      next: nextDate
+        ? { href: `/notes/${journalEntries[nextDate]}`, label: formatJournalTitle(nextDate) }
+        : journalDate < today ? { href: '/notes/today', label: 'Today' } : null,
+    };
+  }, [journalDate, journalEntries, noteAccess]);
+
   useEffect(() => {
     if (noteId) {
       setSyncStatus('loading');
@@ -292,8 +441,18 @@ export default function NoteClient() {
       setTitle('');
       setLabels([]);
       setPinned(false);
+      setIsTemplate(false);
+      setJournalDate(null);
       setIsDeleted(false);
-      setDeletedAt(null);
+      setDeletedAtMs(null);
+      setNoteAccess(null);
+      setNoteOwnerUid(null);
+      setCollaborators({});
+      setPublishedSlug(null);
+      setAutoRepublish(false);
+      // The next session reports its own status; until then the previous
+      // note's must not let the new note's content seed the new Yjs doc.
+      setCollabStatus('connecting');
       setShowJumpToTop(false);
       setPullRefreshDistance(0);
       setIsPullRefreshing(false);
@@ -304,10 +463,19 @@ export default function NoteClient() {
 
   useEffect(() => {
     hasHydratedContentRef.current = false;
+    hasCheckedCollabSeedRef.current = false;
     lastSubmittedContentRef.current = null;
+    syncBaseContentRef.current = null;
+    outboxBaseRef.current = null;
+    persistedNoteRef.current = null;
+    lastRevisionAtRef.current = undefined;
     changeVersionRef.current = 0;
     savedVersionRef.current = 0;
     setConfirmPermanentDeleteOpen(false);
+    setHistoryCurrentContent(null);
+    setMergeConflict(null);
+    setIsShareDialogOpen(false);
+    setIsPublishDialogOpen(false);
     setIsHeaderActionsMenuOpen(false);
     perfMarksRef.current.noteSnapshotMarked = false;
     perfMarksRef.current.contentAppliedMarked = false;
@@ -327,8 +495,9 @@ export default function NoteClient() {
     setLabels(cachedMetadata.labels);
     setPinned(cachedMetadata.pinned);
     setIsDeleted(cachedMetadata.isDeleted);
-    setDeletedAt(cachedMetadata.deletedAtMs !== null ? Timestamp.fromMillis(cachedMetadata.deletedAtMs) : null);
-    if (cachedMetadata.isDeleted) {
+    setDeletedAtMs(cachedMetadata.deletedAtMs);
+    setNoteAccess(cachedMetadata.access);
+    if (cachedMetadata.isDeleted && cachedMetadata.access === 'owner') {
       setSidebarMode('trash');
       setIsHeaderActionsMenuOpen(false);
       setIsLabelPopoverOpen(false);
@@ -378,67 +547,148 @@ export default function NoteClient() {
     }
   }, [user, noteId, router]);
 
+  // One Yjs document per open note; the editor is rebuilt around it on navigation.
+  const ydoc = useMemo(() => new Y.Doc({ guid: noteId ?? undefined }), [noteId]);
+  const pendingYdocDestroyRef = useRef<{ doc: Y.Doc; timer: number } | null>(null);
+
+  // The previous note's document is destroyed once it is replaced (or the page
+  // unmounts), dropping its observers and update history. Deferred a tick so
+  // React's development remount, which keeps the same document, can cancel it.
+  useEffect(() => {
+    const pending = pendingYdocDestroyRef.current;
+    if (pending?.doc === ydoc) {
+      window.clearTimeout(pending.timer);
+      pendingYdocDestroyRef.current = null;
+    }
+
+    return () => {
+      const timer = window.setTimeout(() => {
+        if (pendingYdocDestroyRef.current?.doc === ydoc) pendingYdocDestroyRef.current = null;
+        ydoc.destroy();
+      }, 0);
+      pendingYdocDestroyRef.current = { doc: ydoc, timer };
+    };
+  }, [ydoc]);
+
   const editor = useEditor({
     extensions: [
       StarterKit.configure({
         codeBlock: false,
+        undoRedo: false,
+      }),
+      Collaboration.configure({
+        document: ydoc,
+        field: NOTE_COLLAB_FIELD,
       }),
       CodeBlock,
       TaskList,
-      TaskItem.configure({ nested: true }),
+      NoteTaskItem.configure({
+        nested: true,
+        onEditAttributes: setTaskAttributesTarget,
+        getAssigneeName: (uid) => taskAssigneeNameRef.current(uid),
+      }),
       TagChip,
-      DateChip,
-      SlashCommand,
+      DateChip.configure({
+        onEdit: (request) => {
+          setDateChipEditTarget(request);
+          setDatePickerOpen(true);
+        },
+      }),
+      NoteLink.configure({
+        onOpenNote: (linkedNoteId) => openLinkedNoteRef.current(linkedNoteId),
+      }),
+      NoteLinkSuggestion.configure({
+        getNotes: () => noteLinkTargetsRef.current,
+      }),
+      NoteImage,
+      FileAttachment,
+      AttachmentUpload.configure({
+        getUploader: () => attachmentUploaderRef.current,
+      }),
+      SlashCommand.configure({
+        getTemplates: () => noteTemplatesRef.current,
+      }),
       AbbrevExpand,
     ],
-    content: '',
     autofocus: 'start',
     immediatelyRender: false,
-  });
+  }, [ydoc]);
+
+  useEffect(() => {
+    if (!noteId || !user) return;
+
+    const syncQueuedWrites = () => setHasQueuedWrites(countQueuedNoteWrites(user.uid, noteId) > 0);
+    syncQueuedWrites();
+    return subscribeNoteOutbox(syncQueuedWrites);
+  }, [noteId, user]);
+
+  useEffect(() => {
+    if (!user || !isOnline) return;
+    // Replays writes left over from an earlier session or queued while offline.
+    void replayNoteOutbox(user.uid);
+  }, [isOnline, user]);
+
+  useEffect(() => {
+    if (!noteId || !user || !noteAccess) return;
+    // Local vaults have no CRDT update log, and viewers may not append to it;
+    // both work on the stored document directly.
+    if (getNotesRepository().kind !== 'firestore' || noteAccess === 'viewer') {
+      setCollabStatus('unavailable');
+      return;
+    }
+
+    return startNoteCollabSession({
+      noteId,
+      ownerUid: user.uid,
+      ydoc,
+      onStatusChange: setCollabStatus,
+      onError: (error) => {
+        const code = typeof error === 'object' && error && 'code' in error
+          ? String((error as { code?: string }).code ?? '')
+          : '';
+        if (code === 'permission-denied') {
+          console.warn('Collaborative sync unavailable for this note; falling back to document sync.');
+          return;
+        }
+        console.error('Note collaboration sync error:', error);
+        setSyncStatus('error');
+      },
+    });
+  }, [noteAccess, noteId, user, ydoc]);
 
   useEffect(() => {
     if (!user) {
       setAllUserLabels([]);
       setHasTrashNotes(false);
       setHasLoadedUserNotes(false);
+      setJournalEntries({});
+      setLinkSources([]);
       return;
     }
     if (!ready) return;
 
-    const collectLabels = (docs: Array<{ data: () => Record<string, unknown> }>) => {
-      const deduped = new Set<string>();
-
-      docs.forEach((snapshotDoc) => {
-        const data = snapshotDoc.data();
-        if (data.isDeleted === true) return;
-        if (!Array.isArray(data.labels)) return;
-        data.labels.forEach((tag) => {
-          if (typeof tag !== 'string') return;
-          const normalized = normalizeLabel(tag);
-          if (normalized) deduped.add(normalized);
-        });
-      });
-
-      return [...deduped].sort((a, b) => a.localeCompare(b));
-    };
-
-    let ownerUidDocs: Array<{ data: () => Record<string, unknown> }> = [];
     let unsubscribeOwnerUid: (() => void) | null = null;
 
-    const sync = () => {
-      setAllUserLabels(collectLabels(ownerUidDocs));
-      setHasTrashNotes(ownerUidDocs.some((snapshotDoc) => snapshotDoc.data().isDeleted === true));
-      setHasLoadedUserNotes(true);
-    };
-
     const delayMs = 120;
     const timeoutId = window.setTimeout(() => {
-      const byOwnerUid = query(appNotesCollection(db), where('ownerUid', '==', user.uid));
-      unsubscribeOwnerUid = onSnapshot(byOwnerUid, (snapshot) => {
-        ownerUidDocs = snapshot.docs;
-        sync();
+      unsubscribeOwnerUid = getNotesRepository().subscribeNotes(user.uid, (records) => {
+        setAllUserLabels(collectLabels(records));
+        noteTemplatesRef.current = listNoteTemplates(records);
+        setJournalEntries(collectJournalEntries(records));
+        const linkable = records.filter((record) => !record.isDeleted);
+        noteLinkTargetsRef.current = linkable.map(({ id, title }) => ({ id, title }));
+        setNoteLinkTitles(noteLinkTargetsRef.current);
+        setLinkSources(linkable.map(({ id, title, content, updatedAtMs, outgoingLinks }) => ({
+          id,
+          title,
+          content,
+          updatedAtMs,
+          outgoingLinks,
+        })));
+        setHasTrashNotes(records.some((record) => record.isDeleted));
+        setHasLoadedUserNotes(true);
       }, (error) => {
-        if (error.code === 'permission-denied') {
+        if (repositoryErrorCode(error) === 'permission-denied') {
           console.warn('Label sync permission denied for ownerUid query.');
           return;
         }
@@ -453,12 +703,29 @@ export default function NoteClient() {
     };
   }, [ready, user]);
 
+  useEffect(() => {
+    if (!user || !ready) return;
+
+    const unsubscribe = getNotesRepository().subscribeUserSettings(user.uid, (settings) => {
+      setLabelColors(settings.labelColors);
+    }, (error) => {
+      if (repositoryErrorCode(error) === 'permission-denied') {
+        console.warn('User settings sync permission denied.');
+        return;
+      }
+      console.error('User settings sync error:', error);
+    });
+
+    return () => unsubscribe();
+  }, [ready, user]);
+
   useEffect(() => {
     if (!noteId || !user) return;
 
-    const noteRef = appNoteDoc(db, noteId);
-    const unsubscribe = onSnapshot(noteRef, (snapshot) => {
-      if (!snapshot.exists()) {
+    const unsubscribe = getNotesRepository().subscribeNote(noteId, (note, meta) => {
+      if (!note) {
+        // A cache miss while offline is not proof the note is gone; wait for the server.
+        if (meta.fromCache && !navigator.onLine) return;
         void redirectToAccessibleNote();
         return;
       }
@@ -469,38 +736,53 @@ export default function NoteClient() {
         measureDevPerf('notes-note:route-to-first-snapshot', 'notes-note:route-start', 'notes-note:first-snapshot');
       }
 
-      const data = snapshot.data();
-      const nextTitle = typeof data.title === 'string' ? data.title : '';
-      const nextPinned = Boolean(data.pinned);
-      const nextDeleted = data.isDeleted === true;
-      const nextDeletedAt = (data.deletedAt as Timestamp | null) || null;
-      const nextUpdatedAt = (data.updatedAt as Timestamp | null) || null;
-      const incomingLabels = Array.isArray(data.labels)
-        ? normalizeLabels(data.labels.filter((value): value is string => typeof value === 'string'))
-        : [];
+      const access = resolveNoteAccess(note, user.uid);
+      if (!access) {
+        void redirectToAccessibleNote();
+        return;
+      }
+
+      const nextTitle = note.title;
+      const nextDeleted = note.isDeleted;
+      const incomingLabels = note.labels;
 
       setTitle(nextTitle);
-      setPinned(nextPinned);
+      setPinned(note.pinned);
+      setIsTemplate(note.isTemplate);
+      setJournalDate(note.journalDate);
       setIsDeleted(nextDeleted);
-      setDeletedAt(nextDeletedAt);
+      setDeletedAtMs(note.deletedAtMs);
       setLabels(incomingLabels);
+      setNoteAccess(access);
+      setNoteOwnerUid(note.ownerUid);
+      setCollaborators(note.collaborators);
+      setPublishedSlug(note.publishedSlug);
+      setAutoRepublish(note.autoRepublish);
       setMetadataReady(true);
 
-      if (nextDeleted) {
+      // Trash belongs to the owner; collaborators just see the note read-only.
+      if (nextDeleted && access === 'owner') {
         setSidebarMode('trash');
         setIsHeaderActionsMenuOpen(false);
         setIsLabelPopoverOpen(false);
       }
 
-      setRemoteContent(data.contentJson || { type: 'doc', content: [] });
+      setRemoteContent(note.contentJson);
+      outboxBaseRef.current = { contentJson: note.contentJson, updatedAtMs: note.updatedAtMs };
+      persistedNoteRef.current = {
+        title: nextTitle,
+        content: note.content,
+        contentJson: note.contentJson,
+      };
 
       writeCachedNoteMetadata(user.uid, noteId, {
         title: nextTitle,
         labels: incomingLabels,
-        pinned: nextPinned,
+        pinned: note.pinned,
         isDeleted: nextDeleted,
-        deletedAtMs: nextDeletedAt?.toMillis?.() ?? null,
-        updatedAtMs: nextUpdatedAt?.toMillis?.() ?? null,
+        deletedAtMs: note.deletedAtMs,
+        updatedAtMs: note.updatedAtMs,
+        access,
       });
 
       try {
@@ -509,7 +791,8 @@ export default function NoteClient() {
         // Ignore localStorage write failures.
       }
     }, (error) => {
-      if (error.code === 'permission-denied' || error.code === 'not-found') {
+      const code = repositoryErrorCode(error);
+      if (code === 'permission-denied' || code === 'not-found') {
         void redirectToAccessibleNote();
         return;
       }
@@ -521,36 +804,56 @@ export default function NoteClient() {
 
   useEffect(() => {
     if (!editor || !remoteContent) return;
+    if (collabStatus === 'connecting') return;
 
-    const currentContent = editor.getJSON();
     const isInitialHydration = !hasHydratedContentRef.current;
-    const hasPendingLocalContent = changeVersionRef.current > savedVersionRef.current;
-    const remoteMatchesLastSubmitted =
-      !!lastSubmittedContentRef.current && isEquivalentEditorContent(remoteContent, lastSubmittedContentRef.current);
-    const remoteMatchesCurrentEditor = isEquivalentEditorContent(remoteContent, currentContent);
-    const isExpectedLocalContentEcho =
-      !isInitialHydration &&
-      remoteMatchesLastSubmitted;
-    const shouldApplyRemoteContent = isInitialHydration || !hasPendingLocalContent;
-
-    if (!remoteMatchesCurrentEditor && !isExpectedLocalContentEcho && shouldApplyRemoteContent) {
-      const selectionBefore = editor.state.selection;
-      editor
-        .chain()
-        .setMeta('addToHistory', false)
-        .setContent(remoteContent, { emitUpdate: false })
-        .run();
-
-      // Keep cursor position stable when syncing in-place to avoid jumping to the end.
-      if (editor.isFocused) {
-        const minPos = 1;
-        const maxPos = editor.state.doc.content.size;
-        const from = Math.max(minPos, Math.min(selectionBefore.from, maxPos));
-        const to = Math.max(minPos, Math.min(selectionBefore.to, maxPos));
-        editor.commands.setTextSelection({ from, to });
+
+    if (collabStatus === 'synced' || collabStatus === 'cached') {
+      // The Yjs doc is the source of truth; contentJson only seeds notes that
+      // predate collaborative sync, once the server's state is known.
+      if (collabStatus === 'synced' && !hasCheckedCollabSeedRef.current) {
+        hasCheckedCollabSeedRef.current = true;
+        seedNoteCollabDoc(ydoc, editor.schema, remoteContent);
+      }
+    } else {
+      // Document-level sync, used only without a Yjs session: local vaults,
+      // viewers (who follow contentJson) and notes whose CRDT log could not be
+      // read. See reconcileRemoteContent for the scope of the three-way merge.
+      const reconciliation = reconcileRemoteContent({
+        base: syncBaseContentRef.current,
+        local: editor.getJSON(),
+        remote: remoteContent,
+        lastSubmitted: lastSubmittedContentRef.current,
+        isInitialHydration,
+        hasUnsavedChanges: changeVersionRef.current > savedVersionRef.current,
+      });
+      const nextContent = reconciliation.content;
+      // The queued save still holds the pre-merge document; re-save the merged one.
+      const emitUpdate = reconciliation.resave;
+      if (reconciliation.conflict) {
+        setMergeConflict(reconciliation.conflict);
+      }
+
+      if (nextContent) {
+        const selectionBefore = editor.state.selection;
+        editor
+          .chain()
+          .setMeta('addToHistory', false)
+          .setContent(nextContent, { emitUpdate })
+          .run();
+
+        // Keep cursor position stable when syncing in-place to avoid jumping to the end.
+        if (editor.isFocused) {
+          const minPos = 1;
+          const maxPos = editor.state.doc.content.size;
+          const from = Math.max(minPos, Math.min(selectionBefore.from, maxPos));
+          const to = Math.max(minPos, Math.min(selectionBefore.to, maxPos));
+          editor.commands.setTextSelection({ from, to });
+        }
       }
     }
 
+    syncBaseContentRef.current = remoteContent;
     hasHydratedContentRef.current = true;
     if (isInitialHydration && !perfMarksRef.current.contentAppliedMarked) {
       perfMarksRef.current.contentAppliedMarked = true;
@@ -568,7 +871,7 @@ export default function NoteClient() {
     if (changeVersionRef.current === savedVersionRef.current) {
       setSyncStatus('synced');
     }
-  }, [editor, ready, remoteContent]);
+  }, [collabStatus, editor, ready, remoteContent, ydoc]);
 
   useEffect(() => {
     if (!editor) return;
@@ -581,6 +884,73 @@ export default function NoteClient() {
     }
   }, [editor, isReadOnly]);
 
+  const captureRevision = useCallback(async (
+    snapshot: PersistedNoteSnapshot | null,
+    reason: NoteRevisionReason,
+    options: { force?: boolean } = {},
+  ) => {
+    if (!noteId || !user || !snapshot) return;
+    // Revision history lives in Firestore only.
+    if (getNotesRepository().kind !== 'firestore') return;
+    if (revisionCaptureInFlightRef.current && !options.force) return;
+
+    revisionCaptureInFlightRef.current = true;
+    try {
+      if (!options.force) {
+        if (lastRevisionAtRef.current === undefined) {
+          lastRevisionAtRef.current = await getLatestNoteRevisionMillis(noteId);
+        }
+        if (!shouldCaptureRevision(lastRevisionAtRef.current, Date.now())) return;
+      }
+
+      lastRevisionAtRef.current = Date.now();
+      await createNoteRevision(noteId, {
+        ownerUid: user.uid,
+        title: snapshot.title,
+        content: snapshot.content,
+        contentJson: snapshot.contentJson,
+        reason,
+      });
+    } catch (error) {
+      console.error('Failed to save note revision:', error);
+    } finally {
+      revisionCaptureInFlightRef.current = false;
+    }
+  }, [noteId, user]);
+
+  // Pushes the saved note to its public page once edits settle. Whoever made
+  // the edit does this, so an open viewer tab never republishes.
+  const scheduleRepublish = useCallback(() => {
+    if (!publishedSlug || !autoRepublish) return;
+
+    const slug = publishedSlug;
+    const run = () => {
+      pendingRepublishRef.current = null;
+      const snapshot = persistedNoteRef.current;
+      if (!snapshot) return;
+
+      void updatePublishedSnapshot(slug, {
+        title: snapshot.title,
+        contentJson: snapshot.contentJson,
+      }).catch((error) => {
+        console.error('Failed to republish note:', error);
+      });
+    };
+
+    if (pendingRepublishRef.current) {
+      clearTimeout(pendingRepublishRef.current.timeout);
+    }
+    pendingRepublishRef.current = { timeout: setTimeout(run, REPUBLISH_DELAY_MS), run };
+  }, [autoRepublish, publishedSlug]);
+
+  // Leaving the note flushes a pending republish instead of dropping it.
+  useEffect(() => () => {
+    const pending = pendingRepublishRef.current;
+    if (!pending) return;
+    clearTimeout(pending.timeout);
+    pending.run();
+  }, [noteId]);
+
   const saveContentNow = useCallback(async ({
     content,
     plainText,
@@ -592,36 +962,36 @@ export default function NoteClient() {
   }) => {
     if (!noteId || !user || isReadOnly) return;
 
+    // Keep the version being overwritten, throttled to REVISION_INTERVAL_MS.
+    void captureRevision(persistedNoteRef.current, 'interval');
+
     try {
-      const noteRef = appNoteDoc(db, noteId);
       lastSubmittedContentRef.current = content;
-      await updateDoc(noteRef, {
+      await writeNoteFields(user.uid, noteId, {
         contentJson: content,
         content: plainText,
-        updatedAt: serverTimestamp(),
-      });
+        outgoingLinks: collectOutgoingLinks(content),
+      }, outboxBaseRef.current);
       markSaved(version);
+      scheduleRepublish();
     } catch (error) {
       console.error('Failed to save content:', error);
       setSyncStatus('error');
     }
-  }, [isReadOnly, noteId, user, markSaved]);
+  }, [captureRevision, isReadOnly, noteId, user, markSaved, scheduleRepublish]);
 
   const saveTitleNow = useCallback(async ({ newTitle, version }: { newTitle: string; version: number }) => {
     if (!noteId || !user || isReadOnly) return;
 
     try {
-      const noteRef = appNoteDoc(db, noteId);
-      await updateDoc(noteRef, {
-        title: newTitle,
-        updatedAt: serverTimestamp(),
-      });
+      await writeNoteFields(user.uid, noteId, { title: newTitle });
       markSaved(version);
+      scheduleRepublish();
     } catch (error) {
       console.error('Failed to save title:', error);
       setSyncStatus('error');
     }
-  }, [isReadOnly, noteId, user, markSaved]);
+  }, [isReadOnly, noteId, user, markSaved, scheduleRepublish]);
 
   const saveLabelsNow = useCallback(async (nextLabels: string[]) => {
     if (!noteId || !user || isReadOnly) return;
@@ -630,10 +1000,7 @@ export default function NoteClient() {
     setLabels(normalized);
 
     try {
-      await updateDoc(appNoteDoc(db, noteId), {
-        labels: normalized,
-        updatedAt: serverTimestamp(),
-      });
+      await writeNoteFields(user.uid, noteId, { labels: normalized });
     } catch (error) {
       console.error('Failed to save labels:', error);
       setSyncStatus('error');
@@ -641,40 +1008,120 @@ export default function NoteClient() {
   }, [isReadOnly, noteId, user]);
 
   const togglePinned = useCallback(async () => {
-    if (!noteId || !user || isReadOnly) return;
+    if (!noteId || !user || isReadOnly || noteAccess !== 'owner') return;
 
     const nextPinned = !pinned;
     setPinned(nextPinned);
 
     try {
-      await updateDoc(appNoteDoc(db, noteId), {
-        pinned: nextPinned,
-        updatedAt: serverTimestamp(),
-      });
+      await getNotesRepository().updateNote(noteId, { pinned: nextPinned });
     } catch (error) {
       console.error('Failed to toggle pin:', error);
       setSyncStatus('error');
       setPinned(!nextPinned);
     }
-  }, [isReadOnly, noteId, user, pinned]);
+  }, [isReadOnly, noteAccess, noteId, user, pinned]);
+
+  const toggleTemplate = useCallback(async () => {
+    if (!noteId || !user || isReadOnly || noteAccess !== 'owner') return;
+
+    setIsHeaderActionsMenuOpen(false);
+    const nextIsTemplate = !isTemplate;
+    setIsTemplate(nextIsTemplate);
+
+    try {
+      await getNotesRepository().updateNote(noteId, { isTemplate: nextIsTemplate });
+    } catch (error) {
+      console.error('Failed to toggle template:', error);
+      setSyncStatus('error');
+      setIsTemplate(!nextIsTemplate);
+    }
+  }, [isReadOnly, isTemplate, noteAccess, noteId, user]);
 
   const moveCurrentNoteToTrash = useCallback(async () => {
-    if (!noteId || !user || isReadOnly) return;
+    if (!noteId || !user || isReadOnly || noteAccess !== 'owner') return;
 
     setIsHeaderActionsMenuOpen(false);
     setIsLabelPopoverOpen(false);
 
     try {
-      await updateDoc(appNoteDoc(db, noteId), {
-        isDeleted: true,
-        deletedAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      });
+      await getNotesRepository().softDeleteNote(noteId);
     } catch (error) {
       console.error('Failed to move note to trash:', error);
       setSyncStatus('error');
     }
-  }, [isReadOnly, noteId, user]);
+  }, [isReadOnly, noteAccess, noteId, user]);
+
+  const openShareDialog = useCallback(() => {
+    if (noteAccess !== 'owner') return;
+    setIsHeaderActionsMenuOpen(false);
+    setIsLabelPopoverOpen(false);
+    setIsShareDialogOpen(true);
+  }, [noteAccess]);
+
+  const openPublishDialog = useCallback(() => {
+    if (noteAccess !== 'owner' || !editor) return;
+    setIsHeaderActionsMenuOpen(false);
+    setIsLabelPopoverOpen(false);
+    setIsPublishDialogOpen(true);
+  }, [editor, noteAccess]);
+
+  const getPublishSnapshot = useCallback(() => ({
+    title: title.trim() || 'Untitled',
+    contentJson: editor?.getJSON() ?? persistedNoteRef.current?.contentJson ?? { type: 'doc', content: [] },
+  }), [editor, title]);
+
+  const exportMarkdown = useCallback(() => {
+    setIsHeaderActionsMenuOpen(false);
+
+    const noteTitle = title.trim() || 'Untitled';
+    const markdown = noteToMarkdown({
+      title: noteTitle,
+      contentJson: editor?.getJSON() ?? persistedNoteRef.current?.contentJson ?? { type: 'doc', content: [] },
+    });
+    const url = URL.createObjectURL(new Blob([markdown], { type: 'text/markdown;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = markdownFileName(noteTitle);
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [editor, title]);
+
+  const openMarkdownImport = useCallback(() => {
+    setIsHeaderActionsMenuOpen(false);
+    markdownFileInputRef.current?.click();
+  }, []);
+
+  // Imports always create a new note rather than overwriting the open one.
+  const importMarkdownFile = useCallback(async (file: File) => {
+    if (!user) return;
+
+    try {
+      const markdown = await file.text();
+      const imported = markdownToNote(markdown, file.name.replace(/\.(md|markdown|txt)$/i, ''));
+      const importedNoteId = await getNotesRepository().createNote(user.uid, imported);
+      router.push(`/notes/${importedNoteId}`);
+    } catch (error) {
+      console.error('Failed to import Markdown:', error);
+      setSyncStatus('error');
+    }
+  }, [router, user]);
+
+  const leaveSharedNote = useCallback(async () => {
+    if (!noteId || !user || !isSharedWithMe) return;
+
+    setIsHeaderActionsMenuOpen(false);
+    setIsLabelPopoverOpen(false);
+
+    try {
+      await getNotesRepository().setNoteCollaborator(noteId, user.uid, null);
+      dropQueuedNoteWrites(user.uid, noteId);
+      void redirectToAccessibleNote();
+    } catch (error) {
+      console.error('Failed to leave shared note:', error);
+      setSyncStatus('error');
+    }
+  }, [isSharedWithMe, noteId, redirectToAccessibleNote, user]);
 
   const clearCompletedTasks = useCallback(() => {
     if (!editor || isReadOnly) return;
@@ -687,20 +1134,60 @@ export default function NoteClient() {
     }
 
     setIsHeaderActionsMenuOpen(false);
+    setIsLabelPopoverOpen(false);
+    void captureRevision({ title, content: editor.getText(), contentJson: currentDoc }, 'before-clear', { force: true });
+    editor.commands.setContent(nextDoc, { emitUpdate: true });
+    editor.commands.focus();
+  }, [captureRevision, editor, isReadOnly, title]);
+
+  const sortTasks = useCallback(() => {
+    setIsHeaderActionsMenuOpen(false);
+    if (!editor || isReadOnly) return;
+
+    const { doc: nextDoc, changed } = sortTaskItems(editor.getJSON());
+    if (!changed) return;
+
     setIsLabelPopoverOpen(false);
     editor.commands.setContent(nextDoc, { emitUpdate: true });
     editor.commands.focus();
   }, [editor, isReadOnly]);
 
+  const openHistoryPanel = useCallback(() => {
+    if (!editor || isReadOnly) return;
+    setIsHeaderActionsMenuOpen(false);
+    setIsLabelPopoverOpen(false);
+    setHistoryCurrentContent(editor.getJSON());
+  }, [editor, isReadOnly]);
+
+  const restoreRevision = useCallback(async (revision: NoteRevision) => {
+    if (!editor || isReadOnly) return;
+
+    const currentDoc = editor.getJSON();
+    await captureRevision({ title, content: editor.getText(), contentJson: currentDoc }, 'before-restore', { force: true });
+    editor.commands.setContent(revision.contentJson, { emitUpdate: true });
+    setHistoryCurrentContent(null);
+    editor.commands.focus('start');
+  }, [captureRevision, editor, isReadOnly, title]);
+
+  const resolveMergeConflictWithLocal = useCallback(() => {
+    setMergeConflict(null);
+  }, []);
+
+  const resolveMergeConflictWithRemote = useCallback(() => {
+    if (!editor || !mergeConflict || isReadOnly) return;
+
+    // Rebase onto the current editor so edits made since the merge survive.
+    const remoteResolution = buildMergedNoteContent(mergeConflict.result, 'remote');
+    const rebased = mergeNoteBlocks(mergeConflict.appliedContent, editor.getJSON(), remoteResolution);
+    editor.commands.setContent(buildMergedNoteContent(rebased, 'remote'), { emitUpdate: true });
+    setMergeConflict(null);
+  }, [editor, isReadOnly, mergeConflict]);
+
   const restoreNoteFromTrash = useCallback(async () => {
     if (!noteId || !user || !isDeleted) return;
 
     try {
-      await updateDoc(appNoteDoc(db, noteId), {
-        isDeleted: false,
-        deletedAt: deleteField(),
-        updatedAt: serverTimestamp(),
-      });
+      await getNotesRepository().restoreNote(noteId);
       setSidebarMode('notes');
       setConfirmPermanentDeleteOpen(false);
     } catch (error) {
@@ -716,25 +1203,15 @@ export default function NoteClient() {
     try {
       const retentionMs = 30 * 24 * 60 * 60 * 1000;
       const cutoffMs = Date.now() - retentionMs;
-      const snapshot = await getDocs(query(appNotesCollection(db), where('ownerUid', '==', user.uid)));
-
-      const expiredDocs = snapshot.docs.filter((docSnapshot) => {
-        const data = docSnapshot.data();
-        if (data.isDeleted !== true) return false;
-        const deletedAt = (data.deletedAt as Timestamp | null) || null;
-        if (!deletedAt?.toMillis) return false;
-        return deletedAt.toMillis() <= cutoffMs;
-      });
+      const notesRepository = getNotesRepository();
+      const records = await notesRepository.listNotes(user.uid);
 
-      if (expiredDocs.length === 0) return;
+      const expiredNoteIds = records
+        .filter((record) => record.isDeleted && record.deletedAtMs !== null && record.deletedAtMs <= cutoffMs)
+        .map((record) => record.id);
 
-      for (let index = 0; index < expiredDocs.length; index += 500) {
-        const batch = writeBatch(db);
-        expiredDocs.slice(index, index + 500).forEach((docSnapshot) => {
-          batch.delete(docSnapshot.ref);
-        });
-        await batch.commit();
-      }
+      if (expiredNoteIds.length === 0) return;
+      await notesRepository.purgeNotes(expiredNoteIds);
     } catch (error) {
       console.error('Failed to clean expired trash notes:', error);
     } finally {
@@ -746,22 +1223,15 @@ export default function NoteClient() {
     if (!noteId || !user) return;
 
     try {
-      await deleteDoc(appNoteDoc(db, noteId));
+      const notesRepository = getNotesRepository();
+      await notesRepository.purgeNotes([noteId]);
       setConfirmPermanentDeleteOpen(false);
 
       if (sidebarMode === 'trash') {
-        const snapshot = await getDocs(query(appNotesCollection(db), where('ownerUid', '==', user.uid)));
-        const remainingTrash = snapshot.docs
-          .map((docSnapshot) => {
-            const data = docSnapshot.data();
-            return {
-              id: docSnapshot.id,
-              isDeleted: data.isDeleted === true,
-              deletedAt: (data.deletedAt as Timestamp | null) || null,
-            };
-          })
-          .filter((item) => item.id !== noteId && item.isDeleted)
-          .sort((a, b) => (b.deletedAt?.toMillis?.() ?? 0) - (a.deletedAt?.toMillis?.() ?? 0));
+        const records = await notesRepository.listNotes(user.uid);
+        const remainingTrash = records
+          .filter((record) => record.id !== noteId && record.isDeleted)
+          .sort((a, b) => (b.deletedAtMs ?? 0) - (a.deletedAtMs ?? 0));
 
         if (remainingTrash.length > 0) {
           router.replace(`/notes/${remainingTrash[0].id}`);
@@ -784,22 +1254,33 @@ export default function NoteClient() {
   }, [cleanupExpiredTrashNotes, sidebarMode, user]);
 
   const scheduleContentSave = useCallback((payload: { content: JSONContent; plainText: string; version: number }) => {
+    // Record the edit right away so closing the tab inside the debounce window loses nothing.
+    if (noteId && user) {
+      queueNoteWrite(user.uid, noteId, {
+        contentJson: payload.content,
+        content: payload.plainText,
+        outgoingLinks: collectOutgoingLinks(payload.content),
+      }, outboxBaseRef.current);
+    }
     if (contentSaveTimeoutRef.current) {
       clearTimeout(contentSaveTimeoutRef.current);
     }
     contentSaveTimeoutRef.current = setTimeout(() => {
       void saveContentNow(payload);
     }, 800);
-  }, [saveContentNow]);
+  }, [noteId, saveContentNow, user]);
 
   const scheduleTitleSave = useCallback((payload: { newTitle: string; version: number }) => {
+    if (noteId && user) {
+      queueNoteWrite(user.uid, noteId, { title: payload.newTitle });
+    }
     if (titleSaveTimeoutRef.current) {
       clearTimeout(titleSaveTimeoutRef.current);
     }
     titleSaveTimeoutRef.current = setTimeout(() => {
       void saveTitleNow(payload);
     }, 600);
-  }, [saveTitleNow]);
+  }, [noteId, saveTitleNow, user]);
 
   const openLabelPopover = useCallback(() => {
     if (isReadOnly) return;
@@ -1092,8 +1573,10 @@ export default function NoteClient() {
   useEffect(() => {
     if (!editor) return;
 
-    const handler = ({ editor }: { editor: Editor }) => {
+    const handler = ({ editor, transaction }: { editor: Editor; transaction: Transaction }) => {
       if (isReadOnly) return;
+      // Edits replayed from other devices are persisted by the device that made them.
+      if (isChangeOrigin(transaction)) return;
       const version = markDirty();
       scheduleContentSave({ content: editor.getJSON(), plainText: editor.getText(), version });
     };
@@ -1112,6 +1595,7 @@ export default function NoteClient() {
 
     const handler = () => {
       if (isReadOnly) return;
+      setDateChipEditTarget(null);
       setDatePickerOpen(true);
     };
 
@@ -1496,18 +1980,92 @@ export default function NoteClient() {
     };
   }, [metadataReady, noteId, shouldFocusTitle]);
 
+  useEffect(() => {
+    const cursor = parseTemplateCursor(requestedCursorParam);
+    if (!editor || !ready || !noteId || !cursor || isReadOnly) return;
+    let frame = 0;
+
+    // Same as the /template command: the caret goes to the template's {{cursor}}.
+    // The content may only arrive with a later collaborative update.
+    const placeCursor = () => {
+      if (placedTemplateCursorRef.current === noteId) return;
+
+      const pos = resolveTemplateCursor(editor.state.doc, cursor);
+      if (pos === null) return;
+
+      placedTemplateCursorRef.current = noteId;
+      frame = window.requestAnimationFrame(() => {
+        editor.chain().setTextSelection(pos).focus().scrollIntoView().run();
+      });
+    };
+
+    placeCursor();
+    editor.on('update', placeCursor);
+    return () => {
+      editor.off('update', placeCursor);
+      window.cancelAnimationFrame(frame);
+    };
+  }, [editor, isReadOnly, noteId, ready, requestedCursorParam]);
+
+  useEffect(() => {
+    if (!editor || !ready || !noteId || !requestedReminderId) return;
+    const target = `${noteId}:${requestedReminderId}`;
+    let frame = 0;
+
+    // The chip may only arrive with a later collaborative update.
+    const scrollToChip = () => {
+      if (scrolledToReminderRef.current === target) return;
+
+      let chipPos: number | null = null;
+      editor.state.doc.descendants((node, pos) => {
+        if (chipPos !== null) return false;
+        if (node.type.name === 'dateChip' && node.attrs.reminderId === requestedReminderId) chipPos = pos;
+        return true;
+      });
+      if (chipPos === null) return;
+
+      scrolledToReminderRef.current = target;
+      const pos = chipPos;
+      frame = window.requestAnimationFrame(() => {
+        editor.commands.setNodeSelection(pos);
+        const chip = editor.view.nodeDOM(pos);
+        if (chip instanceof HTMLElement) chip.scrollIntoView({ block: 'center' });
+      });
+    };
+
+    scrollToChip();
+    editor.on('update', scrollToChip);
+    return () => {
+      editor.off('update', scrollToChip);
+      window.cancelAnimationFrame(frame);
+    };
+  }, [editor, noteId, ready, requestedReminderId]);
+
   const hasLabels = labels.length > 0;
   const displayTitle = isTrashEmptyView ? '' : title;
   const titlePlaceholder = isTrashEmptyView ? '' : 'Untitled';
   const autoDeleteDate = useMemo(() => {
-    if (!deletedAt?.toDate) return null;
-    const ms = deletedAt.toDate().getTime() + (30 * 24 * 60 * 60 * 1000);
+    if (deletedAtMs === null) return null;
+    const ms = deletedAtMs + (30 * 24 * 60 * 60 * 1000);
     return new Date(ms);
-  }, [deletedAt]);
+  }, [deletedAtMs]);
   const canTabLeft = canShiftListItem('left', 'taskItem') || canShiftListItem('left', 'listItem');
   const canTabRight = canShiftListItem('right', 'taskItem') || canShiftListItem('right', 'listItem');
-  const canUndo = !isReadOnly && !!editor && undoDepth(editor.state) > 0;
-  const canRedo = !isReadOnly && !!editor && redoDepth(editor.state) > 0;
+  // A legacy note opened offline before its collaborative state was ever
+  // cached cannot be seeded safely yet, so it is shown read-only.
+  const isAwaitingCollabServer = collabStatus === 'cached'
+    && noteBlocks(remoteContent).length > 0
+    && isNoteCollabDocEmpty(ydoc);
+  // Firestore keeps offline writes pending rather than failing them, so the
+  // badge reflects connectivity instead of the stalled save promise.
+  const displaySyncStatus: SyncStatus = isOnline || syncStatus === 'loading' || syncStatus === 'error'
+    ? syncStatus
+    : hasQueuedWrites || syncStatus === 'syncing'
+      ? 'queued'
+      : 'offline';
+  const undoState = editor ? yUndoPluginKey.getState(editor.state) : null;
+  const canUndo = !isReadOnly && !!undoState?.hasUndoOps;
+  const canRedo = !isReadOnly && !!undoState?.hasRedoOps;
   const runUndo = () => {
     if (!editor || isReadOnly) return false;
     if (!editor.isFocused) {
@@ -1678,6 +2236,9 @@ export default function NoteClient() {
         currentNoteId={noteId ?? ''}
         sidebarMode={sidebarMode}
         onSidebarModeChange={setSidebarMode}
+        requestedSavedSearchId={requestedSavedSearchId}
+        requestedReminderAction={requestedReminderAction}
+        onOpen={() => setIsSidebarOpen(true)}
         onClose={() => setIsSidebarOpen(false)}
       />
 
@@ -1717,48 +2278,86 @@ export default function NoteClient() {
               </button>
             </div>
 
-            <div className="min-w-0">
-              {showTitleSkeleton ? (
-                <div className="h-8 animate-pulse rounded-[var(--rSm)] bg-[color:var(--surface2)]" aria-hidden="true" />
-              ) : (
-                <input
-                  ref={titleInputRef}
-                  className={`min-w-0 w-full truncate rounded-[var(--rSm)] border px-2 py-1.5 text-[1.18rem] font-semibold tracking-tight placeholder:opacity-35 transition-colors focus:outline-none ${isTitleFocused
-                    ? 'border-[color:var(--accent)] bg-[color:var(--surface2)]'
-                    : 'border-transparent bg-transparent'
-                    }`}
-                  value={displayTitle}
-                  readOnly={isReadOnly}
-                  onChange={(event) => {
-                    if (isReadOnly) return;
-                    const value = event.target.value;
-                    setTitle(value);
-                    const version = markDirty();
-                    scheduleTitleSave({ newTitle: value, version });
+            <div className="flex min-w-0 items-center gap-1">
+              {journalNavigation && (
+                <button
+                  type="button"
+                  disabled={!journalNavigation.previous}
+                  onClick={() => {
+                    if (journalNavigation.previous) router.push(journalNavigation.previous.href);
                   }}
-                  onFocus={() => setIsTitleFocused(true)}
-                  onBlur={() => setIsTitleFocused(false)}
-                  placeholder={titlePlaceholder}
-                />
+                  aria-label={journalNavigation.previous ? `Previous entry: ${journalNavigation.previous.label}` : 'No earlier entry'}
+                  title={journalNavigation.previous?.label ?? 'No earlier entry'}
+                  className="flex h-8 w-8 shrink-0 items-center justify-center rounded-[var(--rSm)] text-[color:var(--text3)] transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text2)] disabled:pointer-events-none disabled:opacity-40"
+                >
+                  <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+                    <polyline points="15 18 9 12 15 6" strokeLinecap="round" strokeLinejoin="round" />
+                  </svg>
+                </button>
+              )}
+              <div className="min-w-0 flex-1">
+                {showTitleSkeleton ? (
+                  <div className="h-8 animate-pulse rounded-[var(--rSm)] bg-[color:var(--surface2)]" aria-hidden="true" />
+                ) : (
+                  <input
+                    ref={titleInputRef}
+                    className={`min-w-0 w-full truncate rounded-[var(--rSm)] border px-2 py-1.5 text-[1.18rem] font-semibold tracking-tight placeholder:opacity-35 transition-colors focus:outline-none ${isTitleFocused
+                      ? 'border-[color:var(--accent)] bg-[color:var(--surface2)]'
+                      : 'border-transparent bg-transparent'
+                      }`}
+                    value={displayTitle}
+                    readOnly={isReadOnly}
+                    onChange={(event) => {
+                      if (isReadOnly) return;
+                      const value = event.target.value;
+                      setTitle(value);
+                      const version = markDirty();
+                      scheduleTitleSave({ newTitle: value, version });
+                    }}
+                    onFocus={() => setIsTitleFocused(true)}
+                    onBlur={() => setIsTitleFocused(false)}
+                    placeholder={titlePlaceholder}
+                  />
+                )}
+              </div>
+              {journalNavigation && (
+                <button
+                  type="button"
+                  disabled={!journalNavigation.next}
+                  onClick={() => {
+                    if (journalNavigation.next) router.push(journalNavigation.next.href);
+                  }}
+                  aria-label={journalNavigation.next ? `Next entry: ${journalNavigation.next.label}` : 'No later entry'}
+                  title={journalNavigation.next?.label ?? 'No later entry'}
+                  className="flex h-8 w-8 shrink-0 items-center justify-center rounded-[var(--rSm)] text-[color:var(--text3)] transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text2)] disabled:pointer-events-none disabled:opacity-40"
+                >
+                  <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+                    <polyline points="9 18 15 12 9 6" strokeLinecap="round" strokeLinejoin="round" />
+                  </svg>
+                </button>
               )}
             </div>
 
             <div className="flex shrink-0 items-center justify-end gap-2">
               {canShowHeaderActions && ready && (
-                <span className={`hidden w-[6.25rem] shrink-0 items-center justify-end gap-1 text-[10px] font-semibold uppercase tracking-[0.12em] md:inline-flex ${syncStatus === 'error' ? 'text-[color:var(--dangerText)]' : 'tulis-muted'}`}>
-                  {syncStatus === 'loading'
+                <span className={`hidden w-[6.25rem] shrink-0 items-center justify-end gap-1 text-[10px] font-semibold uppercase tracking-[0.12em] md:inline-flex ${displaySyncStatus === 'error' ? 'text-[color:var(--dangerText)]' : 'tulis-muted'}`}>
+                  {displaySyncStatus === 'loading'
                     ? 'Loading'
-                    : syncStatus === 'syncing'
+                    : displaySyncStatus === 'syncing'
                       ? 'Syncing'
-                      : syncStatus === 'error'
-                        ? 'Failed'
-                        : 'Synced'}
+                      : displaySyncStatus === 'queued'
+                        ? 'Queued'
+                        : displaySyncStatus === 'offline'
+                          ? 'Offline'
+                          : displaySyncStatus === 'error'
+                            ? 'Failed'
+                            : 'Synced'}
                   <span
-                    className={`h-1.5 w-1.5 rounded-full ${syncStatus === 'syncing'
+                    className={`h-1.5 w-1.5 rounded-full ${displaySyncStatus === 'syncing' || displaySyncStatus === 'queued'
                       ? 'bg-[color:var(--text2)]'
-                      : syncStatus === 'loading'
+                      : displaySyncStatus === 'loading' || displaySyncStatus === 'offline'
                         ? 'bg-[color:var(--text3)]'
-                        : syncStatus === 'error'
+                        : displaySyncStatus === 'error'
                           ? 'bg-[color:var(--dangerSolid)]'
                           : 'bg-[color:var(--text2)]'
                       }`}
@@ -1848,6 +2447,18 @@ export default function NoteClient() {
                       </svg>
                     </button>
 
+                    <input
+                      ref={markdownFileInputRef}
+                      type="file"
+                      accept=".md,.markdown,.txt,text/markdown,text/plain"
+                      className="hidden"
+                      onChange={(event) => {
+                        const file = event.target.files?.[0];
+                        event.target.value = '';
+                        if (file) void importMarkdownFile(file);
+                      }}
+                    />
+
                     {isHeaderActionsMenuOpen && (
                       <div className="absolute right-0 top-10 z-50 min-w-[196px] rounded-[var(--rMd)] border border-[color:var(--border)] bg-[color:var(--surface)] p-1.5 shadow-sm">
                         <button
@@ -1864,32 +2475,113 @@ export default function NoteClient() {
                             </span>
                           ) : null}
                         </button>
+                        {noteAccess === 'owner' && (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setIsHeaderActionsMenuOpen(false);
+                              void togglePinned();
+                            }}
+                            className="mt-0.5 flex w-full items-center rounded-[calc(var(--rSm)-2px)] px-2.5 py-2 text-left text-xs tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+                          >
+                            {pinned ? 'Unpin note' : 'Pin note'}
+                          </button>
+                        )}
+                        {noteAccess === 'owner' && !isDeleted && (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              void toggleTemplate();
+                            }}
+                            className="mt-0.5 flex w-full items-center rounded-[calc(var(--rSm)-2px)] px-2.5 py-2 text-left text-xs tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+                          >
+                            {isTemplate ? 'Stop using as template' : 'Use as template'}
+                          </button>
+                        )}
+                        {noteAccess === 'owner' && getNotesRepository().kind === 'firestore' && (
+                          <button
+                            type="button"
+                            onClick={openShareDialog}
+                            className="mt-0.5 flex w-full items-center justify-between rounded-[calc(var(--rSm)-2px)] px-2.5 py-2 text-left text-xs tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+                          >
+                            <span>Share…</span>
+                            {Object.keys(collaborators).length > 0 ? (
+                              <span className="rounded-full border border-[color:var(--border2)] bg-[color:var(--surface2)] px-1.5 py-0.5 text-[10px] font-semibold text-[color:var(--text)]">
+                                {Object.keys(collaborators).length}
+                              </span>
+                            ) : null}
+                          </button>
+                        )}
+                        {noteAccess === 'owner' && !isDeleted && getNotesRepository().kind === 'firestore' && (
+                          <button
+                            type="button"
+                            onClick={openPublishDialog}
+                            className="mt-0.5 flex w-full items-center justify-between rounded-[calc(var(--rSm)-2px)] px-2.5 py-2 text-left text-xs tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+                          >
+                            <span>{publishedSlug ? 'Published…' : 'Publish…'}</span>
+                            {publishedSlug ? (
+                              <span className="h-1.5 w-1.5 rounded-full bg-[color:var(--accent)]" aria-hidden="true" />
+                            ) : null}
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={clearCompletedTasks}
+                          className="mt-0.5 flex w-full items-center rounded-[calc(var(--rSm)-2px)] px-2.5 py-2 text-left text-xs tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+                        >
+                          Clear completed tasks
+                        </button>
                         <button
                           type="button"
-                          onClick={() => {
-                            setIsHeaderActionsMenuOpen(false);
-                            void togglePinned();
-                          }}
+                          onClick={sortTasks}
                           className="mt-0.5 flex w-full items-center rounded-[calc(var(--rSm)-2px)] px-2.5 py-2 text-left text-xs tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
                         >
-                          {pinned ? 'Unpin note' : 'Pin note'}
+                          Sort tasks by due date & priority
                         </button>
                         <button
                           type="button"
-                          onClick={clearCompletedTasks}
+                          onClick={exportMarkdown}
                           className="mt-0.5 flex w-full items-center rounded-[calc(var(--rSm)-2px)] px-2.5 py-2 text-left text-xs tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
                         >
-                          Clear completed tasks
+                          Export as Markdown
                         </button>
                         <button
                           type="button"
-                          onClick={() => {
-                            void moveCurrentNoteToTrash();
-                          }}
-                          className="mt-0.5 flex w-full items-center rounded-[calc(var(--rSm)-2px)] px-2.5 py-2 text-left text-xs text-[color:var(--dangerText)] transition-colors hover:bg-[color:var(--surface2)]"
+                          onClick={openMarkdownImport}
+                          className="mt-0.5 flex w-full items-center rounded-[calc(var(--rSm)-2px)] px-2.5 py-2 text-left text-xs tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
                         >
-                          Move to Trash
+                          Import Markdown
                         </button>
+                        {getNotesRepository().kind === 'firestore' && (
+                          <button
+                            type="button"
+                            onClick={openHistoryPanel}
+                            className="mt-0.5 flex w-full items-center rounded-[calc(var(--rSm)-2px)] px-2.5 py-2 text-left text-xs tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+                          >
+                            Version history
+                          </button>
+                        )}
+                        {isSharedWithMe ? (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              void leaveSharedNote();
+                            }}
+                            className="mt-0.5 flex w-full items-center rounded-[calc(var(--rSm)-2px)] px-2.5 py-2 text-left text-xs text-[color:var(--dangerText)] transition-colors hover:bg-[color:var(--surface2)]"
+                          >
+                            Leave shared note
+                          </button>
+                        ) : (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              void moveCurrentNoteToTrash();
+                            }}
+                            className="mt-0.5 flex w-full items-center rounded-[calc(var(--rSm)-2px)] px-2.5 py-2 text-left text-xs text-[color:var(--dangerText)] transition-colors hover:bg-[color:var(--surface2)]"
+                          >
+                            Move to Trash
+                          </button>
+                        )}
                       </div>
                     )}
 
@@ -1912,27 +2604,39 @@ export default function NoteClient() {
 
                         {hasLabels && (
                           <div className="mb-2 flex flex-wrap gap-1.5">
-                            {labels.map((tag) => (
-                              <span
-                                key={tag}
-                                className="inline-flex items-center gap-1 rounded-full border border-[color:var(--border2)] bg-[color:var(--surface2)] px-2 py-1 text-xs font-medium tulis-text"
-                              >
-                                {tag}
-                                <button
-                                  type="button"
-                                  onClick={() => {
-                                    void saveLabelsNow(labels.filter((item) => item !== tag));
-                                  }}
-                                  className="rounded-full p-0.5 tulis-muted transition-colors hover:text-[color:var(--text)]"
-                                  aria-label={`Remove ${tag} label`}
+                            {labels.map((tag) => {
+                              const color = labelColorOf(labelColors, tag);
+
+                              return (
+                                <span
+                                  key={tag}
+                                  className="inline-flex items-center gap-1 rounded-full border border-[color:var(--border2)] bg-[color:var(--surface2)] px-2 py-1 text-xs font-medium tulis-text"
+                                  style={color ? { borderColor: labelColorValue(color) } : undefined}
                                 >
-                                  <svg className="h-3 w-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.25">
-                                    <line x1="6" y1="6" x2="18" y2="18" strokeLinecap="round" />
-                                    <line x1="18" y1="6" x2="6" y2="18" strokeLinecap="round" />
-                                  </svg>
-                                </button>
-                              </span>
-                            ))}
+                                  {color && (
+                                    <span
+                                      className="h-2 w-2 shrink-0 rounded-full"
+                                      style={{ backgroundColor: labelColorValue(color) }}
+                                      aria-hidden="true"
+                                    />
+                                  )}
+                                  {tag}
+                                  <button
+                                    type="button"
+                                    onClick={() => {
+                                      void saveLabelsNow(labels.filter((item) => item !== tag));
+                                    }}
+                                    className="rounded-full p-0.5 tulis-muted transition-colors hover:text-[color:var(--text)]"
+                                    aria-label={`Remove ${tag} label`}
+                                  >
+                                    <svg className="h-3 w-3" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.25">
+                                      <line x1="6" y1="6" x2="18" y2="18" strokeLinecap="round" />
+                                      <line x1="18" y1="6" x2="6" y2="18" strokeLinecap="round" />
+                                    </svg>
+                                  </button>
+                                </span>
+                              );
+                            })}
                           </div>
                         )}
 
@@ -1975,20 +2679,31 @@ export default function NoteClient() {
 
                         {labelSuggestions.length > 0 && (
                           <div className="mt-2 max-h-28 overflow-y-auto rounded-[var(--rSm)] border border-[color:var(--border2)] bg-[color:var(--surface2)] p-1">
-                            {labelSuggestions.map((tag) => (
-                              <button
-                                key={tag}
-                                type="button"
-                                onClick={() => {
-                                  if (labels.includes(tag) || labels.length >= 10) return;
-                                  void saveLabelsNow([...labels, tag]);
-                                  setLabelInput('');
-                                }}
-                                className="w-full rounded-[var(--rSm)] px-2 py-1 text-left text-xs tulis-muted transition-colors hover:bg-[color:var(--surface)] hover:text-[color:var(--text)]"
-                              >
-                                {tag}
-                              </button>
-                            ))}
+                            {labelSuggestions.map((tag) => {
+                              const color = labelColorOf(labelColors, tag);
+
+                              return (
+                                <button
+                                  key={tag}
+                                  type="button"
+                                  onClick={() => {
+                                    if (labels.includes(tag) || labels.length >= 10) return;
+                                    void saveLabelsNow([...labels, tag]);
+                                    setLabelInput('');
+                                  }}
+                                  className="flex w-full items-center gap-1.5 rounded-[var(--rSm)] px-2 py-1 text-left text-xs tulis-muted transition-colors hover:bg-[color:var(--surface)] hover:text-[color:var(--text)]"
+                                >
+                                  {color && (
+                                    <span
+                                      className="h-2 w-2 shrink-0 rounded-full"
+                                      style={{ backgroundColor: labelColorValue(color) }}
+                                      aria-hidden="true"
+                                    />
+                                  )}
+                                  {tag}
+                                </button>
+                              );
+                            })}
                           </div>
                         )}
                       </div>
@@ -2014,7 +2729,41 @@ export default function NoteClient() {
             editor.commands.focus('end');
           }}
         >
-          {isDeleted && (
+          {isSharedWithMe && (noteAccess === 'viewer' || isDeleted) && (
+            <div className="sticky top-3 z-30 mx-auto mb-4 max-w-[840px]" data-shared-banner>
+              <div className="rounded-[var(--rMd)] border border-[color:var(--border2)] bg-[color:var(--surface2)] px-3 py-2.5 shadow-md">
+                <div className="flex flex-col items-center justify-between gap-2 text-center sm:flex-row sm:items-center sm:text-left">
+                  <p className="text-xs tulis-muted">
+                    {isDeleted
+                      ? 'The owner moved this note to Trash.'
+                      : <>Shared with you • <span className="font-semibold text-[color:var(--text)]">View only</span></>}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      void leaveSharedNote();
+                    }}
+                    className="h-8 rounded-[var(--rSm)] border border-[color:var(--border)] px-2.5 text-xs font-medium tulis-text transition-colors hover:bg-[color:var(--surface2)]"
+                  >
+                    Leave note
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {isTemplate && !isDeleted && (
+            <div className="mx-auto mb-4 max-w-[840px]" data-template-banner>
+              <div className="rounded-[var(--rMd)] border border-[color:var(--border2)] bg-[color:var(--surface2)] px-3 py-2.5">
+                <p className="text-center text-xs tulis-muted sm:text-left">
+                  <span className="font-semibold text-[color:var(--text)]">Template</span> • {'{{date}}'}, {'{{time}}'} and {'{{weekday}}'} are filled in when used;
+                  {' '}{'{{cursor}}'} marks where typing starts.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {isDeleted && !isSharedWithMe && (
             <div className="sticky top-3 z-30 mx-auto mb-4 max-w-[840px]" data-trash-banner>
               <div className="rounded-[var(--rMd)] border border-[color:var(--border2)] bg-[color:var(--surface2)] px-3 py-2.5 shadow-md">
                 <div className="flex flex-col items-center justify-between gap-2 text-center sm:flex-row sm:items-center sm:text-left">
@@ -2050,6 +2799,14 @@ export default function NoteClient() {
             </div>
           )}
 
+          {mergeConflict && !isReadOnly && (
+            <NoteConflictBanner
+              conflicts={mergeConflict.result.conflicts}
+              onKeepMine={resolveMergeConflictWithLocal}
+              onUseTheirs={resolveMergeConflictWithRemote}
+            />
+          )}
+
           {isTrashEmptyView ? (
             <div className="mx-auto flex min-h-full max-w-[840px] min-w-0 items-center justify-center text-center">
               <div>
@@ -2069,12 +2826,20 @@ export default function NoteClient() {
                   <div className="h-4 w-[95%] animate-pulse rounded bg-[color:var(--surface2)]" />
                   <div className="h-4 w-[79%] animate-pulse rounded bg-[color:var(--surface2)]" />
                 </div>
+              ) : isAwaitingCollabServer && remoteContent ? (
+                <div>
+                  <p className="mb-3 text-xs tulis-muted">
+                    Showing the offline copy of this note. Reconnect to edit it.
+                  </p>
+                  <NoteContentView content={remoteContent} />
+                </div>
               ) : (
                 <EditorContent
                   editor={editor}
                   className="prose prose-lg dark:prose-invert max-w-none focus:outline-none tulis-text"
                 />
               )}
+              {ready && <NoteBacklinks backlinks={backlinks} />}
             </div>
           )}
         </main>
@@ -2177,15 +2942,65 @@ export default function NoteClient() {
 
       {datePickerOpen && (
         <DatePicker
-          onSelect={(date) => {
+          initialDate={dateChipEditTarget?.date ? new Date(dateChipEditTarget.date) : null}
+          initialReminderAt={dateChipEditTarget?.reminderAt ? new Date(dateChipEditTarget.reminderAt) : null}
+          onSelect={(date, reminderAt) => {
             if (isReadOnly) return;
-            editor?.chain().focus().setDateChip({ date: date.toISOString() }).run();
+            const attributes = { date: date.toISOString(), reminderAt: reminderAt?.toISOString() ?? null };
+            if (dateChipEditTarget) {
+              editor?.chain().focus().updateDateChip(dateChipEditTarget.pos, attributes).run();
+            } else {
+              editor?.chain().focus().setDateChip(attributes).run();
+            }
             setDatePickerOpen(false);
           }}
           onClose={() => setDatePickerOpen(false)}
         />
       )}
 
+      {taskAttributesTarget && (
+        <TaskAttributesPopover
+          attributes={taskAttributesTarget.attributes}
+          assignees={taskAssignees}
+          onSave={(attributes) => {
+            if (!isReadOnly) {
+              editor?.chain().focus().setTaskAttributes(taskAttributesTarget.pos, attributes).run();
+            }
+            setTaskAttributesTarget(null);
+          }}
+          onClose={() => setTaskAttributesTarget(null)}
+        />
+      )}
+
+      {historyCurrentContent && noteId && (
+        <NoteHistoryPanel
+          noteId={noteId}
+          currentContent={historyCurrentContent}
+          onRestore={restoreRevision}
+          onClose={() => setHistoryCurrentContent(null)}
+        />
+      )}
+
+      {isShareDialogOpen && noteId && noteOwnerUid && (
+        <ShareNoteDialog
+          noteId={noteId}
+          ownerUid={noteOwnerUid}
+          collaborators={collaborators}
+          onClose={() => setIsShareDialogOpen(false)}
+        />
+      )}
+
+      {isPublishDialogOpen && noteId && noteOwnerUid && (
+        <PublishNoteDialog
+          noteId={noteId}
+          ownerUid={noteOwnerUid}
+          publishedSlug={publishedSlug}
+          autoRepublish={autoRepublish}
+          getSnapshot={getPublishSnapshot}
+          onClose={() => setIsPublishDialogOpen(false)}
+        />
+      )}
+
       {confirmPermanentDeleteOpen && (
         <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/40 px-4">
           <div className="tulis-surface w-full max-w-[320px] rounded-[var(--rLg)] border tulis-border p-8">
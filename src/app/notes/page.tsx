@@ -39,6 +39,11 @@ export default function NotesEntry() {
   useEffect(() => {
     let hasNavigated = false;
     markDevPerf('notes-entry:mount');
+    // Saved search deep links (/notes?view=<id>) keep their view on the note route.
+    const savedSearchId = new URLSearchParams(window.location.search).get('view');
+    const withView = (href: string) => (
+      savedSearchId ? `${href}${href.includes('?') ? '&' : '?'}view=${encodeURIComponent(savedSearchId)}` : href
+    );
 
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
       if (hasNavigated) return;
@@ -71,7 +76,7 @@ export default function NotesEntry() {
           hasNavigated = true;
           markDevPerf('notes-entry:redirect-fast');
           measureDevPerf('notes-entry:auth-to-fast-redirect', 'notes-entry:auth-resolved', 'notes-entry:redirect-fast');
-          router.replace(`/notes/${preferredNoteId}`);
+          router.replace(withView(`/notes/${preferredNoteId}`));
           return;
         }
 
@@ -79,7 +84,7 @@ export default function NotesEntry() {
         hasNavigated = true;
         markDevPerf('notes-entry:redirect-fallback');
         measureDevPerf('notes-entry:auth-to-fallback-redirect', 'notes-entry:auth-resolved', 'notes-entry:redirect-fallback');
-        router.replace(created ? `/notes/${noteId}?focus=title` : `/notes/${noteId}`);
+        router.replace(withView(created ? `/notes/${noteId}?focus=title` : `/notes/${noteId}`));
       } catch (error) {
         console.error('Failed to ensure user has at least one note:', error);
       }
@@ -0,0 +1,64 @@
+'use client';
+
+import { Suspense, useEffect } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { onAuthStateChanged } from 'firebase/auth';
+import { auth } from '@/lib/firebase';
+import { getJournalTemplateId, parseJournalDate, todayJournalDate } from '@/lib/journal';
+import { ensureJournalNote } from '@/lib/notesLifecycle';
+import { resolveTulisRegistration } from '@/lib/userRegistration';
+import { LoadingNotesScreen } from '@/components/LoadingNotesScreen';
+
+// Opens (creating on first visit) the journal note for today, or for the day
+// given as ?date=YYYY-MM-DD.
+function JournalEntry() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const requestedDate = searchParams.get('date');
+
+  useEffect(() => {
+    let hasNavigated = false;
+
+    const unsubscribe = onAuthStateChanged(auth, async (user) => {
+      if (hasNavigated) return;
+
+      if (!user) {
+        hasNavigated = true;
+        router.replace('/login');
+        return;
+      }
+
+      try {
+        await resolveTulisRegistration(user);
+      } catch (error) {
+        console.error('Failed to resolve user app registration:', error);
+      }
+
+      const journalDate = requestedDate && parseJournalDate(requestedDate) ? requestedDate : todayJournalDate();
+
+      try {
+        const { noteId } = await ensureJournalNote(user.uid, journalDate, {
+          templateId: getJournalTemplateId(user.uid),
+        });
+        hasNavigated = true;
+        router.replace(`/notes/${noteId}`);
+      } catch (error) {
+        console.error('Failed to open journal note:', error);
+        hasNavigated = true;
+        router.replace('/notes');
+      }
+    });
+
+    return () => unsubscribe();
+  }, [requestedDate, router]);
+
+  return <LoadingNotesScreen />;
+}
+
+export default function JournalTodayPage() {
+  return (
+    <Suspense fallback={<LoadingNotesScreen />}>
+      <JournalEntry />
+    </Suspense>
+  );
+}
@@ -0,0 +1,56 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { NoteContentView } from '@/components/notes/NoteContentView';
+import { getPublishedNote } from '@/lib/notePublishing';
+
+// Always read the latest snapshot so unpublishing and republishing take effect immediately.
+export const dynamic = 'force-dynamic';
+
+type PublishedNotePageProps = {
+  params: Promise<{ slug: string }>;
+};
+
+const formatPublishedDate = (ms: number): string => (
+  new Date(ms).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+);
+
+export async function generateMetadata({ params }: PublishedNotePageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const note = await getPublishedNote(slug);
+  if (!note) return { title: 'Not found · Tulis' };
+
+  return {
+    title: `${note.title || 'Untitled'} · Tulis`,
+    // Published links are meant to be shared, not discovered.
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function PublishedNotePage({ params }: PublishedNotePageProps) {
+  const { slug } = await params;
+  const note = await getPublishedNote(slug);
+  if (!note) notFound();
+
+  const updatedAtMs = note.updatedAtMs ?? note.publishedAtMs;
+
+  return (
+    <main className="mx-auto w-full max-w-[840px] px-5 pb-24 pt-12 md:px-8">
+      <article>
+        <header className="mb-8">
+          <h1 className="text-3xl font-bold tracking-tight tulis-text md:text-4xl">{note.title || 'Untitled'}</h1>
+          {updatedAtMs !== null && (
+            <p className="mt-2 text-xs tulis-muted">Updated {formatPublishedDate(updatedAtMs)}</p>
+          )}
+        </header>
+        <NoteContentView content={note.contentJson} />
+      </article>
+      <footer className="mt-16 border-t border-[color:var(--divider)] pt-4 text-xs tulis-muted">
+        Published with{' '}
+        <Link href="/" className="font-semibold text-[color:var(--accent)] hover:underline">
+          Tulis
+        </Link>
+      </footer>
+    </main>
+  );
+}
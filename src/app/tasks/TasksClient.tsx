@@ -0,0 +1,276 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useAuthGuard } from '@/hooks/useAuthGuard';
+import { parseJournalDate, todayJournalDate } from '@/lib/journal';
+import { hasLabel, labelAncestry } from '@/lib/notes';
+import { getNotesRepository, type NoteRecord } from '@/lib/notesRepository';
+import { matchesTaskDateFilter, noteOpenTasks, setTaskChecked, type OpenTask, type TaskDateFilter } from '@/lib/noteTasks';
+import { formatTaskDue } from '@/lib/taskAttributes';
+import { describeTaskRecurrence } from '@/lib/taskRecurrence';
+import { LoadingNotesScreen } from '@/components/LoadingNotesScreen';
+
+const DATE_FILTER_OPTIONS: Array<{ value: TaskDateFilter; label: string }> = [
+  { value: 'all', label: 'Any date' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'Next 7 days' },
+  { value: 'dated', label: 'With a date' },
+  { value: 'undated', label: 'No date' },
+];
+
+const dayFormatter = new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' });
+
+// What a checked-off task must still look like to stay hidden. A repeating task
+// keeps its key but moves to a new date, which tells it apart.
+const taskFingerprint = (task: OpenTask): string => `${task.text}\n${task.due ?? ''}`;
+
+type CompletedTask = {
+  task: OpenTask;
+  // Set while the undo is being written.
+  isUndoing: boolean;
+};
+
+export default function TasksClient() {
+  const { user, loading } = useAuthGuard();
+  const [records, setRecords] = useState<NoteRecord[] | null>(null);
+  const [labelFilter, setLabelFilter] = useState('');
+  const [dateFilter, setDateFilter] = useState<TaskDateFilter>('all');
+  // Tasks being written back, by key, with how they looked when checked off.
+  // They stay hidden until a notes snapshot drops or changes them.
+  const [pendingTasks, setPendingTasks] = useState<Map<string, string>>(() => new Map());
+  const [lastCompleted, setLastCompleted] = useState<CompletedTask | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const today = todayJournalDate();
+
+  useEffect(() => {
+    if (!user) return;
+
+    return getNotesRepository().subscribeNotes(
+      user.uid,
+      (nextRecords) => {
+        setRecords(nextRecords);
+        setPendingTasks((current) => {
+          if (current.size === 0) return current;
+          const listed = new Map(nextRecords.flatMap(noteOpenTasks).map((task) => [task.key, taskFingerprint(task)]));
+          const next = new Map([...current].filter(([key, fingerprint]) => listed.get(key) === fingerprint));
+          return next.size === current.size ? current : next;
+        });
+      },
+      (error) => {
+        console.error('Failed to load tasks:', error);
+        setRecords((current) => current ?? []);
+      }
+    );
+  }, [user]);
+
+  // Templates hold example checklists, not work to do.
+  const tasks = useMemo(() => (
+    (records ?? []).filter((record) => !record.isDeleted && !record.isTemplate).flatMap(noteOpenTasks)
+  ), [records]);
+
+  const labelOptions = useMemo(() => (
+    [...new Set(tasks.flatMap((task) => task.noteLabels.flatMap(labelAncestry)))].sort((a, b) => a.localeCompare(b))
+  ), [tasks]);
+
+  const visibleTasks = useMemo(() => tasks.filter((task) => (
+    pendingTasks.get(task.key) !== taskFingerprint(task)
+    && (!labelFilter || hasLabel(task.noteLabels, labelFilter))
+    && matchesTaskDateFilter(task, dateFilter, today)
+  )), [dateFilter, labelFilter, pendingTasks, tasks, today]);
+
+  // One section per note, most recently updated first; tasks keep their order
+  // within the note.
+  const taskGroups = useMemo(() => {
+    const groups = new Map<string, OpenTask[]>();
+    visibleTasks.forEach((task) => {
+      const group = groups.get(task.noteId);
+      if (group) {
+        group.push(task);
+      } else {
+        groups.set(task.noteId, [task]);
+      }
+    });
+    return [...groups.values()];
+  }, [visibleTasks]);
+
+  if (loading || !user || records === null) return <LoadingNotesScreen />;
+
+  const updatePending = (task: OpenTask, isPending: boolean) => {
+    setPendingTasks((current) => {
+      const next = new Map(current);
+      if (isPending) {
+        next.set(task.key, taskFingerprint(task));
+      } else {
+        next.delete(task.key);
+      }
+      return next;
+    });
+  };
+
+  const completeTask = async (task: OpenTask) => {
+    setErrorMessage(null);
+    updatePending(task, true);
+    try {
+      await setTaskChecked(user.uid, task, true);
+      // A repeating task has already moved on to its next occurrence.
+      setLastCompleted(task.recurrence ? null : { task, isUndoing: false });
+    } catch (error) {
+      console.error('Failed to check off task:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Could not check off this task.');
+      updatePending(task, false);
+    }
+  };
+
+  const undoComplete = async () => {
+    if (!lastCompleted || lastCompleted.isUndoing) return;
+    setLastCompleted({ ...lastCompleted, isUndoing: true });
+    // The task comes back as it was, which would still match its pending entry.
+    updatePending(lastCompleted.task, false);
+    try {
+      await setTaskChecked(user.uid, lastCompleted.task, false);
+      setLastCompleted(null);
+    } catch (error) {
+      console.error('Failed to uncheck task:', error);
+      setErrorMessage(error instanceof Error ? error.message : 'Could not uncheck this task.');
+      setLastCompleted(null);
+    }
+  };
+
+  const selectClassName = 'h-9 rounded-[var(--rSm)] border border-[color:var(--border)] bg-[color:var(--surface)] px-2 text-xs tulis-text focus:border-[color:var(--accent)] focus:outline-none';
+
+  return (
+    <main className="mx-auto w-full max-w-[840px] px-4 pb-24 pt-8 md:px-8">
+      <header className="flex flex-wrap items-center gap-3">
+        <Link
+          href="/notes"
+          className="text-xs font-medium text-[color:var(--text3)] transition-colors hover:text-[color:var(--text)]"
+        >
+          ← Notes
+        </Link>
+        <h1 className="text-2xl font-bold tracking-tight tulis-text">Tasks</h1>
+        <span className="text-sm tabular-nums tulis-muted">{visibleTasks.length} open</span>
+
+        <div className="ml-auto flex items-center gap-2">
+          <select
+            value={labelFilter}
+            onChange={(event) => setLabelFilter(event.target.value)}
+            aria-label="Filter by label"
+            className={selectClassName}
+          >
+            <option value="">All labels</option>
+            {labelOptions.map((label) => (
+              <option key={label} value={label}>{label}</option>
+            ))}
+          </select>
+          <select
+            value={dateFilter}
+            onChange={(event) => setDateFilter(event.target.value as TaskDateFilter)}
+            aria-label="Filter by date"
+            className={selectClassName}
+          >
+            {DATE_FILTER_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </header>
+
+      <div aria-live="polite" className="mt-4 min-h-[1.5rem] text-xs">
+        {errorMessage ? (
+          <p className="text-[color:var(--dangerText)]">{errorMessage}</p>
+        ) : lastCompleted && (
+          <p className="tulis-muted">
+            Checked off “{lastCompleted.task.text || 'Untitled task'}”.{' '}
+            <button
+              type="button"
+              onClick={() => {
+                void undoComplete();
+              }}
+              disabled={lastCompleted.isUndoing}
+              className="font-medium text-[color:var(--accent)] hover:underline disabled:opacity-60"
+            >
+              Undo
+            </button>
+          </p>
+        )}
+      </div>
+
+      {taskGroups.length === 0 ? (
+        <p className="mt-6 text-sm tulis-muted">
+          {tasks.length === 0 ? 'No open tasks. Type /todo in a note to start a checklist.' : 'No open tasks match these filters.'}
+        </p>
+      ) : (
+        <div className="mt-2 space-y-6">
+          {taskGroups.map((group) => {
+            const { noteId, noteTitle } = group[0];
+
+            return (
+              <section key={noteId} aria-label={noteTitle || 'Untitled'}>
+                <Link
+                  href={`/notes/${encodeURIComponent(noteId)}`}
+                  className="pl-3 text-[11px] font-semibold uppercase tracking-[0.15em] text-[color:var(--text3)] transition-colors hover:text-[color:var(--text)]"
+                >
+                  {noteTitle || 'Untitled'}
+                </Link>
+                <ul className="mt-1 space-y-0.5">
+                  {group.map((task) => (
+                    <li
+                      key={task.key}
+                      className="flex items-start gap-3 rounded-[var(--rSm)] px-3 py-2 transition-colors hover:bg-[color:var(--surface2)]"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={false}
+                        onChange={() => {
+                          void completeTask(task);
+                        }}
+                        aria-label={`Check off ${task.text || 'task'}`}
+                        className="mt-0.5 h-4 w-4 shrink-0 cursor-pointer accent-[color:var(--accent)]"
+                      />
+                      <div className="min-w-0 flex-1">
+                        {task.parents.length > 0 && (
+                          <p className="truncate text-[11px] text-[color:var(--text3)]">{task.parents.join(' › ')}</p>
+                        )}
+                        <p className="text-sm tulis-text">{task.text || 'Untitled task'}</p>
+                      </div>
+                      {(task.priority || task.due || task.recurrence) && (
+                        <span className="flex shrink-0 gap-1">
+                          {task.priority && (
+                            <span className="task-badge" data-kind="priority" data-priority={task.priority}>P{task.priority}</span>
+                          )}
+                          {task.due && (
+                            <span className="task-badge" data-kind="due" data-overdue={task.due < today ? 'true' : undefined} title={`Due ${task.due}`}>
+                              {formatTaskDue(task.due, today)}
+                            </span>
+                          )}
+                          {task.recurrence && (
+                            <span className="task-badge" title={describeTaskRecurrence(task.recurrence)}>↻</span>
+                          )}
+                        </span>
+                      )}
+                      {task.days.length > 0 && (
+                        <span
+                          className={`shrink-0 text-[11px] tabular-nums ${task.days.some((day) => day < today)
+                            ? 'text-[color:var(--dangerText)]'
+                            : 'text-[color:var(--text3)]'
+                            }`}
+                        >
+                          {task.days.map((day) => {
+                            const date = parseJournalDate(day);
+                            return date ? dayFormatter.format(date) : day;
+                          }).join(', ')}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,14 @@
+'use client';
+
+import dynamic from 'next/dynamic';
+import { LoadingNotesScreen } from '@/components/LoadingNotesScreen';
+
+// Every open checklist item across the user's notes.
+const TasksClient = dynamic(() => import('./TasksClient'), {
+  ssr: false,
+  loading: () => <LoadingNotesScreen />,
+});
+
+export default function TasksPage() {
+  return <TasksClient />;
+}
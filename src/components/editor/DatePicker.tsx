@@ -3,17 +3,27 @@
 import { useEffect, useId, useMemo, useRef, useState } from 'react';
 
 interface DatePickerProps {
-  onSelect: (date: Date) => void;
+  // Set when editing an existing date chip.
+  initialDate?: Date | null;
+  initialReminderAt?: Date | null;
+  // reminderAt is the picked day at the reminder time, or null without one.
+  onSelect: (date: Date, reminderAt: Date | null) => void;
   onClose: () => void;
 }
 
-export const DatePicker = ({ onSelect, onClose }: DatePickerProps) => {
+const toTimeInputValue = (date: Date | null | undefined): string => (
+  date ? `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}` : ''
+);
+
+export const DatePicker = ({ initialDate = null, initialReminderAt = null, onSelect, onClose }: DatePickerProps) => {
   const today = useMemo(() => new Date(), []);
   const cancelButtonRef = useRef<HTMLButtonElement | null>(null);
   const headingId = useId();
   const helperTextId = useId();
-  const [viewDate, setViewDate] = useState(today);
-  const [selectedDate, setSelectedDate] = useState<Date | null>(today);
+  const reminderInputId = useId();
+  const [viewDate, setViewDate] = useState(initialDate ?? today);
+  const [selectedDate, setSelectedDate] = useState<Date | null>(initialDate ?? today);
+  const [reminderTime, setReminderTime] = useState(() => toTimeInputValue(initialReminderAt));
 
   const year = viewDate.getFullYear();
   const month = viewDate.getMonth();
@@ -56,6 +66,14 @@ export const DatePicker = ({ onSelect, onClose }: DatePickerProps) => {
     days.push(new Date(year, month, i));
   }
 
+  const selectDate = (date: Date) => {
+    const [hours, minutes] = reminderTime.split(':').map(Number);
+    const reminderAt = reminderTime && Number.isFinite(hours) && Number.isFinite(minutes)
+      ? new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes)
+      : null;
+    onSelect(date, reminderAt);
+  };
+
   const prevMonth = () => setViewDate(new Date(year, month - 1, 1));
   const nextMonth = () => setViewDate(new Date(year, month + 1, 1));
 
@@ -102,7 +120,7 @@ export const DatePicker = ({ onSelect, onClose }: DatePickerProps) => {
           </div>
 
           <p id={helperTextId} className="sr-only">
-            Choose a date and press enter to insert it.
+            {initialDate ? 'Choose a date to update the chip.' : 'Choose a date and press enter to insert it.'} Set a time to be reminded then.
           </p>
 
           <div className="mb-2 grid grid-cols-7 gap-1">
@@ -126,7 +144,7 @@ export const DatePicker = ({ onSelect, onClose }: DatePickerProps) => {
                   type="button"
                   onClick={() => {
                     setSelectedDate(date);
-                    onSelect(date);
+                    selectDate(date);
                   }}
                   aria-label={fullDateFormatter.format(date)}
                   aria-pressed={isSelected}
@@ -143,6 +161,29 @@ export const DatePicker = ({ onSelect, onClose }: DatePickerProps) => {
               );
             })}
           </div>
+
+          <div className="mt-5 flex items-center gap-2">
+            <label htmlFor={reminderInputId} className="text-xs font-bold tulis-muted">
+              Remind me at
+            </label>
+            <input
+              id={reminderInputId}
+              type="time"
+              value={reminderTime}
+              onChange={(event) => setReminderTime(event.target.value)}
+              className="h-8 min-w-0 flex-1 rounded-lg border tulis-border bg-[color:var(--surface)] px-2 text-xs tulis-text focus:border-[color:var(--accent)] focus:outline-none"
+            />
+            {reminderTime && (
+              <button
+                type="button"
+                onClick={() => setReminderTime('')}
+                className="rounded-lg px-2 py-1.5 text-xs font-bold tulis-muted transition-colors hover:text-[color:var(--text)]"
+                aria-label="Remove reminder"
+              >
+                Clear
+              </button>
+            )}
+          </div>
         </div>
 
         <div className="flex justify-end gap-2 border-t tulis-border p-4">
@@ -156,11 +197,20 @@ export const DatePicker = ({ onSelect, onClose }: DatePickerProps) => {
           </button>
           <button
             type="button"
-            onClick={() => onSelect(today)}
+            onClick={() => selectDate(today)}
             className="rounded-lg px-4 py-2 text-xs font-bold text-[color:var(--tulis-accent)] transition-colors hover:bg-[color:var(--tulis-accent)]/5"
           >
             Today
           </button>
+          {initialDate && (
+            <button
+              type="button"
+              onClick={() => selectDate(selectedDate ?? initialDate)}
+              className="rounded-lg bg-[color:var(--tulis-accent)] px-4 py-2 text-xs font-bold text-white transition-opacity hover:opacity-90"
+            >
+              Save
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,268 @@
+'use client';
+
+import { useEffect, useId, useRef, useState } from 'react';
+import { parseJournalDate, shiftJournalDate, todayJournalDate } from '@/lib/journal';
+import { TASK_PRIORITIES, type TaskAttributes, type TaskPriority } from '@/lib/taskAttributes';
+import { formatTaskRecurrence, parseTaskRecurrence, type TaskRecurrence } from '@/lib/taskRecurrence';
+
+type RepeatKind = 'none' | TaskRecurrence['kind'];
+
+const REPEAT_OPTIONS: Array<{ value: RepeatKind; label: string }> = [
+  { value: 'none', label: 'Does not repeat' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly on…' },
+  { value: 'monthly', label: 'Monthly on day…' },
+  { value: 'interval', label: 'Every N days' },
+];
+
+const WEEKDAY_OPTIONS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export type TaskAssigneeOption = {
+  uid: string;
+  name: string;
+};
+
+interface TaskAttributesPopoverProps {
+  attributes: TaskAttributes;
+  // People who can be assigned; the assignee field is hidden when empty.
+  assignees: TaskAssigneeOption[];
+  onSave: (attributes: TaskAttributes) => void;
+  onClose: () => void;
+}
+
+export const TaskAttributesPopover = ({ attributes, assignees, onSave, onClose }: TaskAttributesPopoverProps) => {
+  const headingId = useId();
+  const dueInputId = useId();
+  const assigneeInputId = useId();
+  const repeatInputId = useId();
+  const repeatValueInputId = useId();
+  const dueInputRef = useRef<HTMLInputElement | null>(null);
+  const [due, setDue] = useState(attributes.due ?? '');
+  const [priority, setPriority] = useState<TaskPriority | null>(attributes.priority);
+  const [assignee, setAssignee] = useState(attributes.assignee ?? '');
+  const today = todayJournalDate();
+  // Each repeat kind keeps its own settings while the user switches between
+  // them; the starting values follow the due day.
+  const [initialRecurrence] = useState(() => parseTaskRecurrence(attributes.recurrence));
+  const [startDate] = useState(() => parseJournalDate(attributes.due) ?? new Date());
+  const [repeatKind, setRepeatKind] = useState<RepeatKind>(initialRecurrence?.kind ?? 'none');
+  const [repeatWeekdays, setRepeatWeekdays] = useState<number[]>(
+    initialRecurrence?.kind === 'weekly' ? initialRecurrence.weekdays : [startDate.getDay()]
+  );
+  const [repeatMonthDay, setRepeatMonthDay] = useState(
+    String(initialRecurrence?.kind === 'monthly' ? initialRecurrence.day : startDate.getDate())
+  );
+  const [repeatIntervalDays, setRepeatIntervalDays] = useState(
+    String(initialRecurrence?.kind === 'interval' ? initialRecurrence.days : 2)
+  );
+
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      event.preventDefault();
+      onClose();
+    };
+
+    const frame = window.requestAnimationFrame(() => {
+      dueInputRef.current?.focus();
+    });
+    window.addEventListener('keydown', handleEscape);
+
+    return () => {
+      window.cancelAnimationFrame(frame);
+      window.removeEventListener('keydown', handleEscape);
+    };
+  }, [onClose]);
+
+  // An assignee who has since lost access stays selectable until changed.
+  const assigneeOptions = assignee && !assignees.some((option) => option.uid === assignee)
+    ? [...assignees, { uid: assignee, name: 'Former collaborator' }]
+    : assignees;
+
+  const recurrence = ((): TaskRecurrence | null => {
+    switch (repeatKind) {
+      case 'none':
+        return null;
+      case 'daily':
+        return { kind: 'daily' };
+      case 'weekly':
+        return repeatWeekdays.length > 0 ? { kind: 'weekly', weekdays: repeatWeekdays } : null;
+      case 'monthly': {
+        const day = Number(repeatMonthDay);
+        return Number.isInteger(day) && day >= 1 && day <= 31 ? { kind: 'monthly', day } : null;
+      }
+      case 'interval': {
+        const days = Number(repeatIntervalDays);
+        return Number.isInteger(days) && days >= 1 && days <= 365 ? { kind: 'interval', days } : null;
+      }
+    }
+  })();
+  const isRepeatInvalid = repeatKind !== 'none' && !recurrence;
+
+  const toggleRepeatWeekday = (weekday: number) => {
+    setRepeatWeekdays((current) => (
+      current.includes(weekday)
+        ? current.filter((value) => value !== weekday)
+        : [...current, weekday].sort((a, b) => a - b)
+    ));
+  };
+
+  const quickButtonClassName = 'rounded-lg px-2 py-1 text-[11px] font-bold tulis-muted transition-colors hover:bg-black/5 hover:text-[color:var(--text)] dark:hover:bg-white/5';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <form
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={headingId}
+        className="w-full max-w-[320px] rounded-[var(--rLg)] border tulis-border bg-[color:var(--surface)] shadow-lg"
+        onClick={(event) => event.stopPropagation()}
+        onSubmit={(event) => {
+          event.preventDefault();
+          if (isRepeatInvalid) return;
+          onSave({
+            due: due || null,
+            priority,
+            assignee: assignee || null,
+            recurrence: recurrence ? formatTaskRecurrence(recurrence) : null,
+          });
+        }}
+      >
+        <div className="space-y-5 p-6">
+          <h3 id={headingId} className="font-black tracking-tight tulis-text">Task details</h3>
+
+          <div>
+            <label htmlFor={dueInputId} className="text-xs font-bold tulis-muted">Due</label>
+            <input
+              ref={dueInputRef}
+              id={dueInputId}
+              type="date"
+              value={due}
+              onChange={(event) => setDue(event.target.value)}
+              className="mt-1.5 h-8 w-full rounded-lg border tulis-border bg-[color:var(--surface)] px-2 text-xs tulis-text focus:border-[color:var(--accent)] focus:outline-none"
+            />
+            <div className="mt-1.5 flex gap-1">
+              <button type="button" onClick={() => setDue(today)} className={quickButtonClassName}>Today</button>
+              <button type="button" onClick={() => setDue(shiftJournalDate(today, 1))} className={quickButtonClassName}>Tomorrow</button>
+              <button type="button" onClick={() => setDue(shiftJournalDate(today, 7))} className={quickButtonClassName}>Next week</button>
+              {due && (
+                <button type="button" onClick={() => setDue('')} className={quickButtonClassName} aria-label="Remove due date">
+                  Clear
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div role="group" aria-label="Priority">
+            <p className="text-xs font-bold tulis-muted">Priority</p>
+            <div className="mt-1.5 grid grid-cols-4 gap-1">
+              {[null, ...TASK_PRIORITIES].map((option) => (
+                <button
+                  key={option ?? 'none'}
+                  type="button"
+                  onClick={() => setPriority(option)}
+                  aria-pressed={priority === option}
+                  className={`rounded-lg py-1.5 text-xs font-bold transition-colors ${priority === option
+                    ? 'bg-[color:var(--tulis-accent)] text-white'
+                    : 'tulis-text hover:bg-black/5 dark:hover:bg-white/5'
+                    }`}
+                >
+                  {option ? `P${option}` : 'None'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor={repeatInputId} className="text-xs font-bold tulis-muted">Repeat</label>
+            <select
+              id={repeatInputId}
+              value={repeatKind}
+              onChange={(event) => setRepeatKind(event.target.value as RepeatKind)}
+              className="mt-1.5 h-8 w-full rounded-lg border tulis-border bg-[color:var(--surface)] px-2 text-xs tulis-text focus:border-[color:var(--accent)] focus:outline-none"
+            >
+              {REPEAT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {repeatKind === 'weekly' && (
+              <div role="group" aria-label="Repeat on" className="mt-1.5 grid grid-cols-7 gap-1">
+                {WEEKDAY_OPTIONS.map((letter, weekday) => (
+                  <button
+                    key={WEEKDAY_NAMES[weekday]}
+                    type="button"
+                    onClick={() => toggleRepeatWeekday(weekday)}
+                    aria-pressed={repeatWeekdays.includes(weekday)}
+                    aria-label={WEEKDAY_NAMES[weekday]}
+                    className={`rounded-lg py-1.5 text-xs font-bold transition-colors ${repeatWeekdays.includes(weekday)
+                      ? 'bg-[color:var(--tulis-accent)] text-white'
+                      : 'tulis-text hover:bg-black/5 dark:hover:bg-white/5'
+                      }`}
+                  >
+                    {letter}
+                  </button>
+                ))}
+              </div>
+            )}
+            {(repeatKind === 'monthly' || repeatKind === 'interval') && (
+              <div className="mt-1.5 flex items-center gap-2">
+                <label htmlFor={repeatValueInputId} className="text-xs tulis-muted">
+                  {repeatKind === 'monthly' ? 'Day of month' : 'Days between'}
+                </label>
+                <input
+                  id={repeatValueInputId}
+                  type="number"
+                  min={1}
+                  max={repeatKind === 'monthly' ? 31 : 365}
+                  value={repeatKind === 'monthly' ? repeatMonthDay : repeatIntervalDays}
+                  onChange={(event) => (repeatKind === 'monthly' ? setRepeatMonthDay : setRepeatIntervalDays)(event.target.value)}
+                  className="h-8 w-20 rounded-lg border tulis-border bg-[color:var(--surface)] px-2 text-xs tulis-text focus:border-[color:var(--accent)] focus:outline-none"
+                />
+              </div>
+            )}
+            {isRepeatInvalid && (
+              <p className="mt-1.5 text-[11px] text-[color:var(--dangerText)]">
+                {repeatKind === 'weekly' ? 'Pick at least one day.' : 'Enter a whole number in range.'}
+              </p>
+            )}
+          </div>
+
+          {assigneeOptions.length > 0 && (
+            <div>
+              <label htmlFor={assigneeInputId} className="text-xs font-bold tulis-muted">Assignee</label>
+              <select
+                id={assigneeInputId}
+                value={assignee}
+                onChange={(event) => setAssignee(event.target.value)}
+                className="mt-1.5 h-8 w-full rounded-lg border tulis-border bg-[color:var(--surface)] px-2 text-xs tulis-text focus:border-[color:var(--accent)] focus:outline-none"
+              >
+                <option value="">Unassigned</option>
+                {assigneeOptions.map((option) => (
+                  <option key={option.uid} value={option.uid}>{option.name}</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 border-t tulis-border p-4">
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-lg px-4 py-2 text-xs font-bold tulis-muted transition-colors hover:text-[color:var(--text)]"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={isRepeatInvalid}
+            className="rounded-lg bg-[color:var(--tulis-accent)] px-4 py-2 text-xs font-bold text-white transition-opacity hover:opacity-90 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
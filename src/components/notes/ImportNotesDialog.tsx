@@ -0,0 +1,329 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  commitImport,
+  IMPORT_SOURCE_NAMES,
+  prepareImport,
+  type ImportPreview,
+  type ImportResult,
+} from '@/lib/noteImporters';
+
+type ImportNotesDialogProps = {
+  ownerUid: string;
+  onClose: () => void;
+};
+
+type ImportStep = 'choose' | 'reading' | 'preview' | 'importing' | 'done';
+
+const ACCEPTED_FILES = '.zip,.json,.html,.enex,.md,.markdown,.csv';
+
+export function ImportNotesDialog({ ownerUid, onClose }: ImportNotesDialogProps) {
+  const [step, setStep] = useState<ImportStep>('choose');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  // Ids the user unticked in the preview.
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(() => new Set());
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDraggingOver, setIsDraggingOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+
+  const isBusy = step === 'reading' || step === 'importing';
+
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !isBusy) onClose();
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [isBusy, onClose]);
+
+  const selectedNotes = useMemo(
+    () => preview?.notes.filter((item) => !excludedIds.has(item.note.id)) ?? [],
+    [excludedIds, preview]
+  );
+
+  const sourceSummary = useMemo(() => {
+    const counts = new Map<string, number>();
+    preview?.notes.forEach((item) => {
+      const name = IMPORT_SOURCE_NAMES[item.source];
+      counts.set(name, (counts.get(name) ?? 0) + 1);
+    });
+    return Array.from(counts, ([name, count]) => `${count} from ${name}`).join(', ');
+  }, [preview]);
+
+  const readFiles = async (files: File[]) => {
+    if (files.length === 0 || isBusy) return;
+
+    setStep('reading');
+    setError(null);
+    try {
+      const nextPreview = await prepareImport(files);
+      setPreview(nextPreview);
+      setExcludedIds(new Set());
+      setStep('preview');
+    } catch (readError) {
+      console.error('Failed to read import files:', readError);
+      setError('Could not read these files. Try again.');
+      setStep('choose');
+    }
+  };
+
+  const runImport = async () => {
+    if (selectedNotes.length === 0 || isBusy) return;
+
+    setStep('importing');
+    setError(null);
+    try {
+      setResult(await commitImport(ownerUid, selectedNotes));
+      setStep('done');
+    } catch (importError) {
+      console.error('Failed to import notes:', importError);
+      setError('Could not import the notes. Nothing was changed; try again.');
+      setStep('preview');
+    }
+  };
+
+  const toggleNote = (noteId: string, included: boolean) => {
+    setExcludedIds((current) => {
+      const next = new Set(current);
+      if (included) next.delete(noteId);
+      else next.add(noteId);
+      return next;
+    });
+  };
+
+  const startOver = () => {
+    setPreview(null);
+    setResult(null);
+    setError(null);
+    setStep('choose');
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[170] flex items-center justify-center bg-black/40 px-3 py-6"
+      onClick={() => {
+        if (!isBusy) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Import notes"
+        onClick={(event) => event.stopPropagation()}
+        className="tulis-surface flex max-h-full w-full max-w-[520px] flex-col overflow-hidden rounded-[var(--rLg)] border tulis-border shadow-[var(--shadow2)]"
+      >
+        <div className="flex shrink-0 items-center justify-between gap-3 border-b border-[color:var(--divider)] px-4 py-3">
+          <h2 className="text-sm font-semibold tracking-tight tulis-text">Import from other apps</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isBusy}
+            className="flex h-8 w-8 items-center justify-center rounded-[var(--rSm)] text-[color:var(--text3)] transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text2)] disabled:opacity-60"
+            aria-label="Close import dialog"
+          >
+            <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+              <path d="M18 6 6 18" strokeLinecap="round" />
+              <path d="m6 6 12 12" strokeLinecap="round" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="min-h-0 flex-1 space-y-3 overflow-y-auto px-4 py-3">
+          {(step === 'choose' || step === 'reading') && (
+            <>
+              <p className="text-xs tulis-muted">
+                Choose a Google Keep Takeout (ZIP or its Keep folder), Evernote <code>.enex</code> files, or a
+                Notion &ldquo;Markdown &amp; CSV&rdquo; export. You can review everything before it is imported.
+              </p>
+              <div
+                onDragOver={(event) => {
+                  event.preventDefault();
+                  setIsDraggingOver(true);
+                }}
+                onDragLeave={() => setIsDraggingOver(false)}
+                onDrop={(event) => {
+                  event.preventDefault();
+                  setIsDraggingOver(false);
+                  void readFiles(Array.from(event.dataTransfer.files));
+                }}
+                className={`flex flex-col items-center gap-3 rounded-[var(--rMd)] border border-dashed px-4 py-6 text-center transition-colors ${isDraggingOver ? 'border-[color:var(--accent)] bg-[color:var(--surface2)]' : 'border-[color:var(--border)]'}`}
+              >
+                <p className="text-xs tulis-muted">
+                  {step === 'reading' ? 'Reading files…' : 'Drop files here, or'}
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    type="button"
+                    disabled={isBusy}
+                    onClick={() => fileInputRef.current?.click()}
+                    className="h-8 rounded-[var(--rSm)] border border-[color:var(--border)] px-3 text-xs font-medium tulis-text transition-colors hover:bg-[color:var(--surface2)] disabled:opacity-60"
+                  >
+                    Choose files
+                  </button>
+                  <button
+                    type="button"
+                    disabled={isBusy}
+                    onClick={() => folderInputRef.current?.click()}
+                    className="h-8 rounded-[var(--rSm)] border border-[color:var(--border)] px-3 text-xs font-medium tulis-text transition-colors hover:bg-[color:var(--surface2)] disabled:opacity-60"
+                  >
+                    Choose folder
+                  </button>
+                </div>
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                accept={ACCEPTED_FILES}
+                className="hidden"
+                onChange={(event) => {
+                  const files = Array.from(event.target.files ?? []);
+                  event.target.value = '';
+                  void readFiles(files);
+                }}
+              />
+              <input
+                ref={(input) => {
+                  folderInputRef.current = input;
+                  // Not in React's input typings; lets the picker return a whole Takeout folder.
+                  input?.setAttribute('webkitdirectory', '');
+                }}
+                type="file"
+                className="hidden"
+                onChange={(event) => {
+                  const files = Array.from(event.target.files ?? []);
+                  event.target.value = '';
+                  void readFiles(files);
+                }}
+              />
+            </>
+          )}
+
+          {(step === 'preview' || step === 'importing') && preview && (
+            <>
+              <p className="text-xs tulis-muted">
+                {preview.notes.length === 0
+                  ? 'No notes were found in these files.'
+                  : `Found ${preview.notes.length} ${preview.notes.length === 1 ? 'note' : 'notes'} (${sourceSummary}). Untick any you want to leave out.`}
+              </p>
+
+              {preview.notes.length > 0 && (
+                <ul className="divide-y divide-[color:var(--divider)] rounded-[var(--rMd)] border border-[color:var(--border)]">
+                  {preview.notes.map((item) => {
+                    const details = [
+                      IMPORT_SOURCE_NAMES[item.source],
+                      ...(item.note.pinned ? ['Pinned'] : []),
+                      ...(item.archived ? ['Archived'] : []),
+                      ...(item.note.isDeleted ? ['In Trash'] : []),
+                      ...(item.taskCount > 0 ? [`${item.taskCount} ${item.taskCount === 1 ? 'task' : 'tasks'}`] : []),
+                      ...item.note.labels.filter((label) => !(item.archived && label === 'archived')).map((label) => `#${label}`),
+                    ];
+                    return (
+                      <li key={item.note.id}>
+                        <label className="flex items-start gap-2 px-3 py-2">
+                          <input
+                            type="checkbox"
+                            checked={!excludedIds.has(item.note.id)}
+                            disabled={isBusy}
+                            onChange={(event) => toggleNote(item.note.id, event.target.checked)}
+                            className="mt-0.5 accent-[color:var(--accent)]"
+                          />
+                          <span className="min-w-0 flex-1">
+                            <span className="block truncate text-xs font-medium tulis-text" title={item.origin}>
+                              {item.note.title}
+                            </span>
+                            <span className="block truncate text-[11px] tulis-muted">{details.join(' · ')}</span>
+                            {item.warnings.map((warning) => (
+                              <span key={warning} className="block text-[11px] text-[color:var(--text3)]">
+                                {warning}
+                              </span>
+                            ))}
+                          </span>
+                        </label>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+
+              {preview.errors.length > 0 && (
+                <div>
+                  <p className="text-xs font-medium text-[color:var(--dangerText)]">
+                    {preview.errors.length} {preview.errors.length === 1 ? 'item' : 'items'} could not be read
+                  </p>
+                  <ul className="mt-1 space-y-1">
+                    {preview.errors.map((item) => (
+                      <li key={`${item.origin}:${item.message}`} className="text-[11px] tulis-muted">
+                        <span className="break-all tulis-text">{item.origin}</span>: {item.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+
+          {step === 'done' && result && (
+            <p className="text-xs tulis-text" aria-live="polite">
+              Imported {result.imported} {result.imported === 1 ? 'note' : 'notes'}.
+              {result.skipped > 0 && ` ${result.skipped} had already been imported and were skipped.`}
+            </p>
+          )}
+
+          {error && (
+            <p className="text-xs text-[color:var(--dangerText)]" aria-live="polite">{error}</p>
+          )}
+        </div>
+
+        <div className="flex shrink-0 items-center justify-end gap-2 border-t border-[color:var(--divider)] px-4 py-3">
+          {(step === 'preview' || step === 'importing') && (
+            <>
+              <button
+                type="button"
+                disabled={isBusy}
+                onClick={startOver}
+                className="h-8 rounded-[var(--rSm)] px-3 text-xs font-medium tulis-text transition-colors hover:bg-[color:var(--surface2)] disabled:opacity-60"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                disabled={isBusy || selectedNotes.length === 0}
+                onClick={() => {
+                  void runImport();
+                }}
+                className="h-8 rounded-[var(--rSm)] bg-[color:var(--accent)] px-3 text-xs font-semibold text-white transition-colors hover:bg-[color:var(--accentHover)] disabled:opacity-60"
+              >
+                {step === 'importing'
+                  ? 'Importing…'
+                  : `Import ${selectedNotes.length} ${selectedNotes.length === 1 ? 'note' : 'notes'}`}
+              </button>
+            </>
+          )}
+          {step === 'done' && (
+            <>
+              <button
+                type="button"
+                onClick={startOver}
+                className="h-8 rounded-[var(--rSm)] px-3 text-xs font-medium tulis-text transition-colors hover:bg-[color:var(--surface2)]"
+              >
+                Import more
+              </button>
+              <button
+                type="button"
+                onClick={onClose}
+                className="h-8 rounded-[var(--rSm)] bg-[color:var(--accent)] px-3 text-xs font-semibold text-white transition-colors hover:bg-[color:var(--accentHover)]"
+              >
+                Done
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { parseJournalDate, toJournalDate, todayJournalDate } from '@/lib/journal';
+
+type JournalCalendarProps = {
+  // Journal day (YYYY-MM-DD) -> note id.
+  entries: Record<string, string>;
+  // Day of the journal note currently open, if any.
+  activeDate: string | null;
+  isOpen: boolean;
+  onToggleOpen: () => void;
+  onSelectDate: (journalDate: string) => void;
+};
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+const startOfMonth = (date: Date) => new Date(date.getFullYear(), date.getMonth(), 1);
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${date.getMonth()}`;
+
+export function JournalCalendar({ entries, activeDate, isOpen, onToggleOpen, onSelectDate }: JournalCalendarProps) {
+  const today = todayJournalDate();
+  const [visibleMonth, setVisibleMonth] = useState(() => startOfMonth(parseJournalDate(activeDate) ?? new Date()));
+  const [followedDate, setFollowedDate] = useState(activeDate);
+
+  // Opening an entry from another month brings that month into view.
+  if (activeDate !== followedDate) {
+    setFollowedDate(activeDate);
+    const active = parseJournalDate(activeDate);
+    if (active && monthKey(active) !== monthKey(visibleMonth)) {
+      setVisibleMonth(startOfMonth(active));
+    }
+  }
+
+  const days = useMemo(() => {
+    const leadingBlanks = visibleMonth.getDay();
+    const dayCount = new Date(visibleMonth.getFullYear(), visibleMonth.getMonth() + 1, 0).getDate();
+    return [
+      ...Array.from({ length: leadingBlanks }, () => null),
+      ...Array.from({ length: dayCount }, (_, index) => (
+        toJournalDate(new Date(visibleMonth.getFullYear(), visibleMonth.getMonth(), index + 1))
+      )),
+    ];
+  }, [visibleMonth]);
+
+  const shiftMonth = (delta: number) => {
+    setVisibleMonth((month) => new Date(month.getFullYear(), month.getMonth() + delta, 1));
+  };
+
+  const monthLabel = new Intl.DateTimeFormat('en-US', { month: 'long', year: 'numeric' }).format(visibleMonth);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between pr-1">
+        <button
+          type="button"
+          onClick={onToggleOpen}
+          aria-expanded={isOpen}
+          className="flex items-center gap-1 pl-3 text-[11px] font-semibold uppercase tracking-[0.15em] text-[color:var(--text3)] transition-colors hover:text-[color:var(--text2)]"
+        >
+          Journal
+          <svg
+            className={`h-3 w-3 transition-transform ${isOpen ? 'rotate-90' : ''}`}
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2.4"
+          >
+            <polyline points="9 18 15 12 9 6" strokeLinecap="round" strokeLinejoin="round" />
+          </svg>
+        </button>
+        <button
+          type="button"
+          onClick={() => onSelectDate(today)}
+          className="rounded-[calc(var(--rSm)-4px)] px-1.5 py-1 text-[11px] font-medium text-[color:var(--text3)] transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+          title="Open today's journal entry"
+        >
+          Today
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-1.5 px-1">
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              onClick={() => shiftMonth(-1)}
+              className="flex h-7 w-7 items-center justify-center rounded-[calc(var(--rSm)-4px)] text-[color:var(--text3)] transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+              aria-label="Previous month"
+            >
+              <svg className="h-3.5 w-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+                <polyline points="15 18 9 12 15 6" strokeLinecap="round" strokeLinejoin="round" />
+              </svg>
+            </button>
+            <p className="text-xs font-medium tulis-text" aria-live="polite">{monthLabel}</p>
+            <button
+              type="button"
+              onClick={() => shiftMonth(1)}
+              className="flex h-7 w-7 items-center justify-center rounded-[calc(var(--rSm)-4px)] text-[color:var(--text3)] transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+              aria-label="Next month"
+            >
+              <svg className="h-3.5 w-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+                <polyline points="9 18 15 12 9 6" strokeLinecap="round" strokeLinejoin="round" />
+              </svg>
+            </button>
+          </div>
+
+          <div className="mt-1 grid grid-cols-7 gap-0.5 text-center" role="group" aria-label={`Journal entries in ${monthLabel}`}>
+            {WEEKDAY_LABELS.map((label, index) => (
+              <span key={index} className="py-1 text-[10px] font-medium text-[color:var(--text3)]" aria-hidden="true">
+                {label}
+              </span>
+            ))}
+            {days.map((journalDate, index) => {
+              if (!journalDate) return <span key={`blank-${index}`} />;
+
+              const hasEntry = Boolean(entries[journalDate]);
+              const isActive = journalDate === activeDate;
+              const isToday = journalDate === today;
+
+              return (
+                <button
+                  key={journalDate}
+                  type="button"
+                  onClick={() => onSelectDate(journalDate)}
+                  aria-label={`${journalDate}${hasEntry ? ', has entry' : ''}`}
+                  aria-current={isActive ? 'date' : undefined}
+                  className={`relative flex h-8 items-center justify-center rounded-[calc(var(--rSm)-4px)] text-xs tabular-nums transition-colors ${isActive
+                    ? 'bg-[color:var(--accent)] font-semibold text-white'
+                    : hasEntry
+                      ? 'font-semibold tulis-text hover:bg-[color:var(--surface2)]'
+                      : 'tulis-muted hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]'
+                    } ${isToday && !isActive ? 'ring-1 ring-inset ring-[color:var(--accent)]' : ''}`}
+                >
+                  {Number(journalDate.slice(8))}
+                  {hasEntry && (
+                    <span
+                      className={`absolute bottom-1 h-1 w-1 rounded-full ${isActive ? 'bg-white' : 'bg-[color:var(--accent)]'}`}
+                      aria-hidden="true"
+                    />
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,364 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  LABEL_COLOR_NAMES,
+  LABEL_COLORS,
+  labelColorChanges,
+  labelColorOf,
+  labelColorValue,
+  type LabelColor,
+  type LabelColors,
+} from '@/lib/labelColors';
+import {
+  flattenLabelTree,
+  LABEL_MAX_DEPTH,
+  LABEL_SEGMENT_MAX_LENGTH,
+  labelIncludes,
+  normalizeLabel,
+  renameLabelChanges,
+  type LabelChanges,
+  type LabelTreeNode,
+} from '@/lib/notes';
+import { getNotesRepository } from '@/lib/notesRepository';
+
+type LabelManagerDialogProps = {
+  ownerUid: string;
+  // Includes parents no note carries directly, so a whole branch can be renamed.
+  labelTree: LabelTreeNode[];
+  labelColors: LabelColors;
+  // Called after notes were rewritten, so filters can follow renamed labels.
+  onLabelsChanged: (changes: LabelChanges) => void;
+  onClose: () => void;
+};
+
+type LabelStatus = { tone: 'info' | 'error'; message: string };
+
+const INVALID_LABEL_MESSAGE = `Labels may use letters, numbers, - and _, with / for up to ${LABEL_MAX_DEPTH} levels of ${LABEL_SEGMENT_MAX_LENGTH} characters.`;
+const LABEL_INPUT_MAX_LENGTH = LABEL_MAX_DEPTH * (LABEL_SEGMENT_MAX_LENGTH + 1);
+
+const noteCountLabel = (count: number) => `${count} ${count === 1 ? 'note' : 'notes'}`;
+
+export function LabelManagerDialog({ ownerUid, labelTree, labelColors, onLabelsChanged, onClose }: LabelManagerDialogProps) {
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState<LabelStatus | null>(null);
+  const [renamingLabel, setRenamingLabel] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [colorPickerLabel, setColorPickerLabel] = useState<string | null>(null);
+  const [deleteArmedLabel, setDeleteArmedLabel] = useState<string | null>(null);
+  const [selectedLabels, setSelectedLabels] = useState<Set<string>>(() => new Set());
+  const [mergeTarget, setMergeTarget] = useState('');
+  const renameInputRef = useRef<HTMLInputElement | null>(null);
+
+  const nodes = flattenLabelTree(labelTree);
+  const labels = nodes.map((node) => node.label);
+  // Labels renamed or deleted elsewhere drop out of the selection.
+  const selection = labels.filter((label) => selectedLabels.has(label));
+
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !isBusy) onClose();
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [isBusy, onClose]);
+
+  useEffect(() => {
+    if (!renamingLabel) return;
+    renameInputRef.current?.focus();
+    renameInputRef.current?.select();
+  }, [renamingLabel]);
+
+  const applyChanges = async (changes: LabelChanges, summary: string) => {
+    if (isBusy || changes.size === 0) return;
+
+    setIsBusy(true);
+    setStatus(null);
+    try {
+      const repository = getNotesRepository();
+      const changedCount = await repository.relabelNotes(ownerUid, changes);
+      const colorUpdates = labelColorChanges(labelColors, changes);
+      if (Object.keys(colorUpdates).length > 0) {
+        await repository.updateLabelColors(ownerUid, colorUpdates);
+      }
+      onLabelsChanged(changes);
+      setSelectedLabels(new Set());
+      setStatus({ tone: 'info', message: `${summary} Updated ${noteCountLabel(changedCount)}.` });
+    } catch (error) {
+      console.error('Failed to update labels:', error);
+      setStatus({ tone: 'error', message: 'Could not update the labels. Some notes may still use the old name; try again.' });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const commitRename = () => {
+    const label = renamingLabel;
+    if (!label) return;
+    setRenamingLabel(null);
+
+    const next = normalizeLabel(draftName);
+    if (!next) {
+      setStatus({ tone: 'error', message: INVALID_LABEL_MESSAGE });
+      return;
+    }
+    if (next === label) return;
+
+    void applyChanges(
+      renameLabelChanges(labels, label, next),
+      labels.includes(next) ? `Merged ${label} into ${next}.` : `Renamed ${label} to ${next}.`
+    );
+  };
+
+  const mergeSelection = () => {
+    const target = normalizeLabel(mergeTarget);
+    if (!target) {
+      setStatus({ tone: 'error', message: INVALID_LABEL_MESSAGE });
+      return;
+    }
+
+    const sources = selection.filter((label) => label !== target);
+    void applyChanges(
+      new Map(sources.flatMap((label) => [...renameLabelChanges(labels, label, target)])),
+      `Merged ${sources.join(', ')} into ${target}.`
+    );
+  };
+
+  const setColor = async (label: string, color: LabelColor | null) => {
+    setColorPickerLabel(null);
+    try {
+      await getNotesRepository().updateLabelColors(ownerUid, { [label]: color });
+    } catch (error) {
+      console.error('Failed to update label color:', error);
+      setStatus({ tone: 'error', message: 'Could not save the label color. Try again.' });
+    }
+  };
+
+  const toggleSelected = (label: string, selected: boolean) => {
+    setSelectedLabels((current) => {
+      const next = new Set(current);
+      if (selected) next.add(label);
+      else next.delete(label);
+      return next;
+    });
+    if (selected && selection.length === 0) setMergeTarget(label);
+  };
+
+  const iconButtonClassName = 'h-7 rounded-[calc(var(--rSm)-2px)] px-2 text-[11px] font-medium tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)] disabled:opacity-60';
+
+  return (
+    <div
+      className="fixed inset-0 z-[170] flex items-center justify-center bg-black/40 px-3 py-6"
+      onClick={() => {
+        if (!isBusy) onClose();
+      }}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Manage labels"
+        onClick={(event) => event.stopPropagation()}
+        className="tulis-surface flex max-h-full w-full max-w-[480px] flex-col overflow-hidden rounded-[var(--rLg)] border tulis-border shadow-[var(--shadow2)]"
+      >
+        <div className="flex shrink-0 items-center justify-between gap-3 border-b border-[color:var(--divider)] px-4 py-3">
+          <h2 className="text-sm font-semibold tracking-tight tulis-text">Labels</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isBusy}
+            className="flex h-8 w-8 items-center justify-center rounded-[var(--rSm)] text-[color:var(--text3)] transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text2)] disabled:opacity-60"
+            aria-label="Close label manager"
+          >
+            <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+              <path d="M18 6 6 18" strokeLinecap="round" />
+              <path d="m6 6 12 12" strokeLinecap="round" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="min-h-0 flex-1 overflow-y-auto px-4 py-3">
+          {labels.length === 0 ? (
+            <p className="text-xs tulis-muted">No labels yet. Add one from a note&rsquo;s menu.</p>
+          ) : (
+            <ul className="divide-y divide-[color:var(--divider)] rounded-[var(--rMd)] border border-[color:var(--border)]">
+              {nodes.map(({ label, name, depth, count, children }) => {
+                const color = labelColorOf(labelColors, label);
+                const isRenaming = renamingLabel === label;
+
+                return (
+                  <li key={label} className="px-3 py-2">
+                    <div className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedLabels.has(label)}
+                        disabled={isBusy}
+                        onChange={(event) => toggleSelected(label, event.target.checked)}
+                        className="accent-[color:var(--accent)]"
+                        aria-label={`Select ${label}`}
+                      />
+                      <button
+                        type="button"
+                        disabled={isBusy}
+                        onClick={() => setColorPickerLabel((current) => (current === label ? null : label))}
+                        className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full border border-[color:var(--border2)]"
+                        aria-label={`Color for ${label}: ${color ? LABEL_COLOR_NAMES[color] : 'none'}`}
+                        aria-expanded={colorPickerLabel === label}
+                        title="Change color"
+                      >
+                        <span
+                          className="h-3 w-3 rounded-full"
+                          style={{ backgroundColor: color ? labelColorValue(color) : 'transparent' }}
+                        />
+                      </button>
+                      {isRenaming ? (
+                        <input
+                          ref={renameInputRef}
+                          value={draftName}
+                          maxLength={LABEL_INPUT_MAX_LENGTH}
+                          onChange={(event) => setDraftName(event.target.value)}
+                          onKeyDown={(event) => {
+                            if (event.key === 'Enter') {
+                              event.preventDefault();
+                              commitRename();
+                            } else if (event.key === 'Escape') {
+                              // Cancel the rename without closing the dialog.
+                              event.stopPropagation();
+                              setRenamingLabel(null);
+                            }
+                          }}
+                          onBlur={() => setRenamingLabel(null)}
+                          aria-label={`New name for ${label}`}
+                          autoCapitalize="none"
+                          autoCorrect="off"
+                          className="h-7 min-w-0 flex-1 rounded-[calc(var(--rSm)-2px)] border border-[color:var(--border)] bg-[color:var(--surface)] px-2 text-xs tulis-text focus:border-[color:var(--accent)] focus:outline-none"
+                        />
+                      ) : (
+                        <span
+                          className="min-w-0 flex-1 truncate text-xs font-medium tulis-text"
+                          style={{ paddingLeft: `${depth * 14}px` }}
+                          title={label}
+                        >
+                          {name}
+                        </span>
+                      )}
+                      <span className="shrink-0 text-[11px] tabular-nums tulis-muted">{count}</span>
+                      {!isRenaming && (
+                        <>
+                          <button
+                            type="button"
+                            disabled={isBusy}
+                            onClick={() => {
+                              setDeleteArmedLabel(null);
+                              setDraftName(label);
+                              setRenamingLabel(label);
+                            }}
+                            className={iconButtonClassName}
+                          >
+                            Rename
+                          </button>
+                          <button
+                            type="button"
+                            disabled={isBusy}
+                            onClick={() => {
+                              if (deleteArmedLabel !== label) {
+                                setDeleteArmedLabel(label);
+                                return;
+                              }
+                              setDeleteArmedLabel(null);
+                              void applyChanges(
+                                new Map(labels.filter((item) => labelIncludes(label, item)).map((item) => [item, null])),
+                                `Removed ${label}${children.length > 0 ? ' and its nested labels' : ''} from every note.`
+                              );
+                            }}
+                            className="h-7 rounded-[calc(var(--rSm)-2px)] px-2 text-[11px] font-medium text-[color:var(--dangerText)] transition-colors hover:bg-[color:var(--surface2)] disabled:opacity-60"
+                          >
+                            {deleteArmedLabel === label ? 'Confirm' : 'Delete'}
+                          </button>
+                        </>
+                      )}
+                    </div>
+                    {isRenaming && labels.includes(normalizeLabel(draftName) ?? '') && normalizeLabel(draftName) !== label && (
+                      <p className="mt-1 pl-12 text-[11px] tulis-muted">
+                        Press Enter to merge into the existing label {normalizeLabel(draftName)}.
+                      </p>
+                    )}
+                    {colorPickerLabel === label && (
+                      <div className="mt-2 flex flex-wrap items-center gap-1.5 pl-12" role="radiogroup" aria-label={`Color for ${label}`}>
+                        {LABEL_COLORS.map((option) => (
+                          <button
+                            key={option}
+                            type="button"
+                            role="radio"
+                            aria-checked={color === option}
+                            onClick={() => {
+                              void setColor(label, option);
+                            }}
+                            className={`h-5 w-5 rounded-full border-2 transition-transform hover:scale-110 ${color === option ? 'border-[color:var(--text)]' : 'border-transparent'}`}
+                            style={{ backgroundColor: labelColorValue(option) }}
+                            aria-label={LABEL_COLOR_NAMES[option]}
+                            title={LABEL_COLOR_NAMES[option]}
+                          />
+                        ))}
+                        <button
+                          type="button"
+                          role="radio"
+                          aria-checked={color === null}
+                          onClick={() => {
+                            void setColor(label, null);
+                          }}
+                          className="h-6 rounded-[calc(var(--rSm)-2px)] px-2 text-[11px] font-medium tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+                        >
+                          No color
+                        </button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {status && (
+            <p
+              className={`mt-3 text-xs ${status.tone === 'error' ? 'text-[color:var(--dangerText)]' : 'tulis-muted'}`}
+              aria-live="polite"
+            >
+              {status.message}
+            </p>
+          )}
+        </div>
+
+        {selection.length >= 2 && (
+          <form
+            className="flex shrink-0 items-center gap-2 border-t border-[color:var(--divider)] px-4 py-3"
+            onSubmit={(event) => {
+              event.preventDefault();
+              mergeSelection();
+            }}
+          >
+            <label className="flex min-w-0 flex-1 items-center gap-2 text-xs tulis-muted">
+              <span className="shrink-0">Merge {selection.length} into</span>
+              <input
+                value={mergeTarget}
+                maxLength={LABEL_INPUT_MAX_LENGTH}
+                disabled={isBusy}
+                onChange={(event) => setMergeTarget(event.target.value)}
+                autoCapitalize="none"
+                autoCorrect="off"
+                className="h-8 min-w-0 flex-1 rounded-[var(--rSm)] border border-[color:var(--border)] bg-[color:var(--surface)] px-2.5 text-xs tulis-text focus:border-[color:var(--accent)] focus:outline-none"
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={isBusy || !mergeTarget.trim()}
+              className="h-8 shrink-0 rounded-[var(--rSm)] bg-[color:var(--accent)] px-3 text-xs font-semibold text-white transition-colors hover:bg-[color:var(--accentHover)] disabled:opacity-60"
+            >
+              {isBusy ? 'Merging…' : 'Merge'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
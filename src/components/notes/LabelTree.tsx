@@ -0,0 +1,113 @@
+'use client';
+
+import { labelColorOf, labelColorValue, type LabelColors } from '@/lib/labelColors';
+import type { LabelTreeNode } from '@/lib/notes';
+
+type LabelTreeProps = {
+  tree: LabelTreeNode[];
+  activeLabel: string | null;
+  labelColors: LabelColors;
+  collapsedLabels: Set<string>;
+  onToggleCollapsed: (label: string) => void;
+  onSelect: (label: string | null) => void;
+  onManage: () => void;
+};
+
+export function LabelTree({
+  tree,
+  activeLabel,
+  labelColors,
+  collapsedLabels,
+  onToggleCollapsed,
+  onSelect,
+  onManage,
+}: LabelTreeProps) {
+  const renderNode = (node: LabelTreeNode) => {
+    const { label, name, depth, count, children } = node;
+    const isCollapsed = collapsedLabels.has(label);
+    const isActive = activeLabel === label;
+    const color = labelColorOf(labelColors, label);
+
+    return (
+      <li
+        key={label}
+        role="treeitem"
+        aria-level={depth + 1}
+        aria-selected={isActive}
+        aria-expanded={children.length > 0 ? !isCollapsed : undefined}
+      >
+        <div
+          className={`flex items-center rounded-[var(--rSm)] pr-1 transition-colors ${isActive
+            ? 'bg-[color:var(--surface2)] text-[color:var(--text)]'
+            : 'tulis-muted hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]'
+            }`}
+          style={{ paddingLeft: `${depth * 14}px` }}
+        >
+          <button
+            type="button"
+            onClick={() => onToggleCollapsed(label)}
+            className={`flex h-7 w-4 shrink-0 items-center justify-center ${children.length > 0 ? '' : 'invisible'}`}
+            aria-label={isCollapsed ? `Expand ${label}` : `Collapse ${label}`}
+            tabIndex={children.length > 0 ? 0 : -1}
+          >
+            <svg
+              className={`h-3 w-3 transition-transform ${isCollapsed ? '' : 'rotate-90'}`}
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2.4"
+            >
+              <polyline points="9 6 15 12 9 18" strokeLinecap="round" strokeLinejoin="round" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            onClick={() => onSelect(isActive ? null : label)}
+            className="flex min-w-0 flex-1 items-center gap-2 py-1.5 text-left text-xs font-medium"
+            title={children.length > 0 ? `${label} and nested labels` : label}
+          >
+            {color && (
+              <span
+                className="h-2 w-2 shrink-0 rounded-full"
+                style={{ backgroundColor: labelColorValue(color) }}
+                aria-hidden="true"
+              />
+            )}
+            <span className="min-w-0 truncate">{name}</span>
+          </button>
+          <span className="shrink-0 px-1 text-[11px] tabular-nums text-[color:var(--text3)]">{count}</span>
+        </div>
+
+        {children.length > 0 && !isCollapsed && (
+          <ul role="group" className="mt-0.5 space-y-0.5">
+            {children.map((child) => renderNode(child))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between pr-1">
+        <p className="pl-3 text-[11px] font-semibold uppercase tracking-[0.15em] text-[color:var(--text3)]">Labels</p>
+        <button
+          type="button"
+          onClick={onManage}
+          className="rounded-[calc(var(--rSm)-4px)] px-1.5 py-0.5 text-[11px] font-medium text-[color:var(--text3)] transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+          title="Rename, merge, recolor or delete labels"
+        >
+          Manage
+        </button>
+      </div>
+
+      {tree.length === 0 ? (
+        <p className="mt-1.5 pl-4 text-xs tulis-muted">No labels yet</p>
+      ) : (
+        <ul role="tree" aria-label="Labels" className="mt-1.5 space-y-0.5">
+          {tree.map((node) => renderNode(node))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import Link from 'next/link';
+import { notePreview } from '@/lib/notes';
+
+export type NoteBacklink = {
+  id: string;
+  title: string;
+  content: string;
+  updatedAtMs: number | null;
+};
+
+type NoteBacklinksProps = {
+  backlinks: NoteBacklink[];
+};
+
+// "Linked from" list under the editor: notes whose [[links]] point here.
+export function NoteBacklinks({ backlinks }: NoteBacklinksProps) {
+  if (backlinks.length === 0) return null;
+
+  return (
+    <section aria-label="Linked from" className="mt-10 border-t border-[color:var(--divider)] pt-4">
+      <h2 className="text-[11px] font-semibold uppercase tracking-[0.15em] text-[color:var(--text3)]">
+        Linked from {backlinks.length}
+      </h2>
+      <ul className="mt-2 space-y-1">
+        {backlinks.map((backlink) => (
+          <li key={backlink.id}>
+            <Link
+              href={`/notes/${backlink.id}`}
+              className="block rounded-[var(--rSm)] px-2.5 py-2 transition-colors hover:bg-[color:var(--surface2)]"
+            >
+              <span className="flex items-center justify-between gap-3">
+                <span className="min-w-0 truncate text-sm font-medium tulis-text">{backlink.title.trim() || 'Untitled'}</span>
+                {backlink.updatedAtMs !== null && (
+                  <span className="shrink-0 text-[11px] font-medium tulis-muted">
+                    {new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' }).format(new Date(backlink.updatedAtMs))}
+                  </span>
+                )}
+              </span>
+              {backlink.content && (
+                <span className="mt-0.5 block truncate text-xs tulis-muted">{notePreview(backlink.content)}</span>
+              )}
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+
+import { useState } from 'react';
+import { NoteContentView } from '@/components/notes/NoteContentView';
+import type { NoteMergeConflict } from '@/lib/noteMerge';
+
+type NoteConflictBannerProps = {
+  conflicts: NoteMergeConflict[];
+  onKeepMine: () => void;
+  onUseTheirs: () => void;
+};
+
+const BLOCK_VIEW_CLASS = 'prose prose-sm dark:prose-invert max-w-none tulis-text';
+
+function ConflictSide({ label, blocks }: { label: string; blocks: NoteMergeConflict['local'] }) {
+  return (
+    <div className="min-w-0 rounded-[var(--rSm)] border border-[color:var(--border)] bg-[color:var(--surface)] px-3 py-2">
+      <p className="mb-1 text-[11px] font-semibold uppercase tracking-wide tulis-muted">{label}</p>
+      {blocks.length === 0 ? (
+        <p className="text-xs italic tulis-muted">Deleted</p>
+      ) : (
+        <NoteContentView content={{ type: 'doc', content: blocks }} className={BLOCK_VIEW_CLASS} />
+      )}
+    </div>
+  );
+}
+
+export function NoteConflictBanner({ conflicts, onKeepMine, onUseTheirs }: NoteConflictBannerProps) {
+  const [showDetails, setShowDetails] = useState(true);
+  const count = conflicts.length;
+
+  return (
+    <div className="sticky top-3 z-30 mx-auto mb-4 max-w-[840px]" data-conflict-banner>
+      <div className="rounded-[var(--rMd)] border border-[color:var(--border2)] bg-[color:var(--surface2)] px-3 py-2.5 shadow-md">
+        <div className="flex flex-col items-center justify-between gap-2 text-center sm:flex-row sm:items-center sm:text-left">
+          <p className="text-xs tulis-muted">
+            This note changed on another device •{' '}
+            <span className="font-semibold text-[color:var(--text)]">
+              {count === 1 ? '1 section' : `${count} sections`} could not be merged
+            </span>
+            . Your version is shown in the editor.
+          </p>
+          <div className="flex w-full items-center justify-center gap-2 sm:w-auto">
+            <button
+              type="button"
+              onClick={() => setShowDetails((current) => !current)}
+              className="h-8 rounded-[var(--rSm)] px-2.5 text-xs font-medium tulis-muted transition-colors hover:bg-[color:var(--surface)] hover:text-[color:var(--text)]"
+            >
+              {showDetails ? 'Hide' : 'Compare'}
+            </button>
+            <button
+              type="button"
+              onClick={onUseTheirs}
+              className="h-8 rounded-[var(--rSm)] border border-[color:var(--border)] px-2.5 text-xs font-medium tulis-text transition-colors hover:bg-[color:var(--surface)]"
+            >
+              Use theirs
+            </button>
+            <button
+              type="button"
+              onClick={onKeepMine}
+              className="h-8 rounded-[var(--rSm)] bg-[color:var(--accent)] px-2.5 text-xs font-semibold text-white transition-colors hover:bg-[color:var(--accentHover)]"
+            >
+              Keep mine
+            </button>
+          </div>
+        </div>
+
+        {showDetails && (
+          <div className="mt-2.5 max-h-[45vh] space-y-2 overflow-y-auto">
+            {conflicts.map((conflict, index) => (
+              <div key={index} className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                <ConflictSide label="Yours" blocks={conflict.local} />
+                <ConflictSide label="Other device" blocks={conflict.remote} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
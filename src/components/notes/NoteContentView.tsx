@@ -0,0 +1,225 @@
+import type { ReactNode } from 'react';
+import Image from 'next/image';
+import type { JSONContent } from '@tiptap/core';
+import { editorLowlight, normalizeCodeLanguage } from '@/lib/editor/codeLowlight';
+import { formatAttachmentSize } from '@/lib/noteAttachments';
+import { formatTaskDue, taskAttributesOf } from '@/lib/taskAttributes';
+import { describeTaskRecurrence, parseTaskRecurrence } from '@/lib/taskRecurrence';
+
+type NoteContentViewProps = {
+  content: JSONContent;
+  className?: string;
+};
+
+type HighlightNode = {
+  type: string;
+  value?: string;
+  tagName?: string;
+  properties?: { className?: string[] | string };
+  children?: HighlightNode[];
+};
+
+// Static (non-editable) rendering of a TipTap document. Markup mirrors what the
+// editor produces so the `.ProseMirror` styles in globals.css apply unchanged.
+
+function renderHighlightNodes(nodes: HighlightNode[] | undefined, keyPrefix: string): ReactNode[] {
+  return (nodes ?? []).map((node, index) => {
+    const key = `${keyPrefix}-${index}`;
+    if (node.type === 'text') return node.value ?? '';
+    if (node.type !== 'element') return null;
+
+    const rawClassName = node.properties?.className;
+    const className = Array.isArray(rawClassName) ? rawClassName.join(' ') : rawClassName;
+    return (
+      <span key={key} className={className}>
+        {renderHighlightNodes(node.children, key)}
+      </span>
+    );
+  });
+}
+
+function renderCode(code: string, language: string | null): ReactNode {
+  if (!language || !editorLowlight.registered(language)) return code;
+
+  try {
+    const tree = editorLowlight.highlight(language, code) as unknown as HighlightNode;
+    return renderHighlightNodes(tree.children, 'hl');
+  } catch {
+    return code;
+  }
+}
+
+function formatChipDate(value: unknown): string {
+  const date = typeof value === 'string' ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) return 'Invalid Date';
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  }).format(date);
+}
+
+function renderText(node: JSONContent, key: string): ReactNode {
+  let rendered: ReactNode = node.text ?? '';
+
+  (node.marks ?? []).forEach((mark, index) => {
+    const markKey = `${key}-m${index}`;
+    if (mark.type === 'bold') rendered = <strong key={markKey}>{rendered}</strong>;
+    if (mark.type === 'italic') rendered = <em key={markKey}>{rendered}</em>;
+    if (mark.type === 'underline') rendered = <u key={markKey}>{rendered}</u>;
+    if (mark.type === 'strike') rendered = <s key={markKey}>{rendered}</s>;
+    if (mark.type === 'code') rendered = <code key={markKey}>{rendered}</code>;
+    if (mark.type === 'link' && typeof mark.attrs?.href === 'string') {
+      rendered = (
+        <a key={markKey} href={mark.attrs.href} target="_blank" rel="noopener noreferrer nofollow">
+          {rendered}
+        </a>
+      );
+    }
+  });
+
+  return <span key={key}>{rendered}</span>;
+}
+
+function renderChildren(node: JSONContent, key: string): ReactNode[] {
+  return (node.content ?? []).map((child, index) => renderNode(child, `${key}-${index}`));
+}
+
+function renderNode(node: JSONContent, key: string): ReactNode {
+  switch (node.type) {
+    case 'text':
+      return renderText(node, key);
+    case 'hardBreak':
+      return <br key={key} />;
+    case 'paragraph':
+      return <p key={key}>{renderChildren(node, key)}</p>;
+    case 'heading': {
+      const level = Math.min(6, Math.max(1, Number(node.attrs?.level) || 1));
+      const children = renderChildren(node, key);
+      if (level === 1) return <h1 key={key}>{children}</h1>;
+      if (level === 2) return <h2 key={key}>{children}</h2>;
+      if (level === 3) return <h3 key={key}>{children}</h3>;
+      if (level === 4) return <h4 key={key}>{children}</h4>;
+      if (level === 5) return <h5 key={key}>{children}</h5>;
+      return <h6 key={key}>{children}</h6>;
+    }
+    case 'blockquote':
+      return <blockquote key={key}>{renderChildren(node, key)}</blockquote>;
+    case 'bulletList':
+      return <ul key={key}>{renderChildren(node, key)}</ul>;
+    case 'orderedList':
+      return <ol key={key} start={Number(node.attrs?.start) || undefined}>{renderChildren(node, key)}</ol>;
+    case 'listItem':
+      return <li key={key}>{renderChildren(node, key)}</li>;
+    case 'taskList':
+      return <ul key={key} data-type="taskList">{renderChildren(node, key)}</ul>;
+    case 'taskItem': {
+      const checked = node.attrs?.checked === true;
+      const { due, priority, recurrence } = taskAttributesOf(node.attrs);
+      const rule = parseTaskRecurrence(recurrence);
+      return (
+        <li key={key} data-type="taskItem" data-checked={checked ? 'true' : 'false'}>
+          <label>
+            <input type="checkbox" checked={checked} disabled readOnly />
+            <span />
+          </label>
+          <div>{renderChildren(node, key)}</div>
+          {(priority || due || rule) && (
+            <span className="task-badges">
+              {priority && <span className="task-badge" data-priority={priority}>P{priority}</span>}
+              {due && <span className="task-badge" title={`Due ${due}`}>{formatTaskDue(due)}</span>}
+              {rule && <span className="task-badge">↻ {describeTaskRecurrence(rule)}</span>}
+            </span>
+          )}
+        </li>
+      );
+    }
+    case 'codeBlock': {
+      const language = normalizeCodeLanguage(typeof node.attrs?.language === 'string' ? node.attrs.language : null);
+      const code = (node.content ?? []).map((child) => child.text ?? '').join('');
+      return (
+        <div key={key} className="tulis-code-block" data-language={language ?? undefined} data-expanded="true" data-lines="false">
+          <div className="tulis-code-block-toolbar">
+            <span className="tulis-code-language">{language ?? 'Plain Text'}</span>
+          </div>
+          <div className="tulis-code-body">
+            <pre className="tulis-code-scroll">
+              <code className={`tulis-code-content${language ? ` language-${language}` : ''}`}>
+                {renderCode(code, language)}
+              </code>
+            </pre>
+          </div>
+        </div>
+      );
+    }
+    case 'horizontalRule':
+      return <hr key={key} />;
+    case 'tagChip':
+      return (
+        <span key={key} data-tag-chip="" data-color={typeof node.attrs?.color === 'string' ? node.attrs.color : 'accent'}>
+          <span className="tag-chip-text">{renderChildren(node, key)}</span>
+        </span>
+      );
+    case 'noteLink': {
+      const noteId = typeof node.attrs?.noteId === 'string' ? node.attrs.noteId : '';
+      return (
+        <a key={key} data-note-link="" className="note-link" href={`/notes/${encodeURIComponent(noteId)}`}>
+          {typeof node.attrs?.title === 'string' && node.attrs.title ? node.attrs.title : 'Untitled'}
+        </a>
+      );
+    }
+    case 'image': {
+      if (typeof node.attrs?.src !== 'string' || !node.attrs.src) return null;
+      // Uploads have no known intrinsic size; images without a chosen width
+      // keep their natural one, capped by the stylesheet.
+      const width = Number(node.attrs.width) || 0;
+      return (
+        <Image
+          key={key}
+          className="note-image"
+          src={node.attrs.src}
+          alt={typeof node.attrs.alt === 'string' ? node.attrs.alt : ''}
+          width={width}
+          height={0}
+          style={width ? { height: 'auto' } : { width: 'auto', height: 'auto' }}
+          unoptimized
+        />
+      );
+    }
+    case 'fileAttachment': {
+      const name = typeof node.attrs?.name === 'string' && node.attrs.name ? node.attrs.name : 'file';
+      const size = formatAttachmentSize(Number(node.attrs?.size));
+      return (
+        <div key={key} className="file-attachment-block">
+          <a
+            className="file-attachment"
+            data-file-attachment=""
+            href={typeof node.attrs?.url === 'string' ? node.attrs.url : undefined}
+            download={name}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            <span className="file-attachment-name">{name}</span>
+            {size && <span className="file-attachment-size">{size}</span>}
+          </a>
+        </div>
+      );
+    }
+    case 'dateChip':
+      return (
+        <span key={key} data-date-chip="" className="date-chip" data-date={typeof node.attrs?.date === 'string' ? node.attrs.date : undefined}>
+          {formatChipDate(node.attrs?.date)}
+        </span>
+      );
+    default:
+      return node.content ? <div key={key}>{renderChildren(node, key)}</div> : null;
+  }
+}
+
+export function NoteContentView({ content, className }: NoteContentViewProps) {
+  return (
+    <div className={className ?? 'prose prose-lg dark:prose-invert max-w-none tulis-text'}>
+      <div className="ProseMirror">{renderChildren(content, 'n')}</div>
+    </div>
+  );
+}
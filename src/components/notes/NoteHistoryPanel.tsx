@@ -0,0 +1,222 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { JSONContent } from '@tiptap/core';
+import { NoteContentView } from '@/components/notes/NoteContentView';
+import { diffNoteBlocks, summarizeNoteBlockDiff } from '@/lib/noteDiff';
+import { listNoteRevisions, NoteRevision, NoteRevisionReason } from '@/lib/noteRevisions';
+
+type NoteHistoryPanelProps = {
+  noteId: string;
+  currentContent: JSONContent;
+  onRestore: (revision: NoteRevision) => Promise<void> | void;
+  onClose: () => void;
+};
+
+type HistoryViewMode = 'preview' | 'changes';
+
+const REASON_LABELS: Record<NoteRevisionReason, string> = {
+  interval: 'Autosave',
+  'before-clear': 'Before clearing tasks',
+  'before-restore': 'Before restore',
+};
+
+function formatRevisionTime(revision: NoteRevision): string {
+  const date = revision.createdAt?.toDate?.();
+  if (!date) return 'Just now';
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  }).format(date);
+}
+
+export function NoteHistoryPanel({ noteId, currentContent, onRestore, onClose }: NoteHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<NoteRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<HistoryViewMode>('preview');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    void (async () => {
+      try {
+        const nextRevisions = await listNoteRevisions(noteId);
+        if (cancelled) return;
+        setRevisions(nextRevisions);
+        setSelectedId(nextRevisions[0]?.id ?? null);
+      } catch (error) {
+        console.error('Failed to load note history:', error);
+        if (!cancelled) setLoadFailed(true);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [noteId]);
+
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const selectedRevision = useMemo(
+    () => revisions.find((revision) => revision.id === selectedId) ?? null,
+    [revisions, selectedId],
+  );
+
+  const diffEntries = useMemo(
+    () => (selectedRevision ? diffNoteBlocks(selectedRevision.contentJson, currentContent) : []),
+    [currentContent, selectedRevision],
+  );
+  const diffSummary = useMemo(() => summarizeNoteBlockDiff(diffEntries), [diffEntries]);
+
+  const restoreSelected = async () => {
+    if (!selectedRevision || isRestoring) return;
+    setIsRestoring(true);
+    try {
+      await onRestore(selectedRevision);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[70] flex items-center justify-center bg-black/40 px-3 py-6"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Version history"
+        onClick={(event) => event.stopPropagation()}
+        className="tulis-surface flex h-full max-h-[720px] w-full max-w-[960px] flex-col overflow-hidden rounded-[var(--rLg)] border tulis-border shadow-[var(--shadow2)]"
+      >
+        <div className="flex shrink-0 items-center justify-between gap-3 border-b border-[color:var(--divider)] px-4 py-3">
+          <h2 className="text-sm font-semibold tracking-tight tulis-text">Version history</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex h-8 w-8 items-center justify-center rounded-[var(--rSm)] text-[color:var(--text3)] transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text2)]"
+            aria-label="Close version history"
+          >
+            <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+              <path d="M18 6 6 18" strokeLinecap="round" />
+              <path d="m6 6 12 12" strokeLinecap="round" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex min-h-0 flex-1 flex-col sm:flex-row">
+          <ul className="max-h-40 shrink-0 overflow-y-auto border-b border-[color:var(--divider)] p-2 sm:max-h-none sm:w-[220px] sm:border-b-0 sm:border-r">
+            {loading ? (
+              <li className="px-2 py-2 text-xs tulis-muted">Loading history…</li>
+            ) : loadFailed ? (
+              <li className="px-2 py-2 text-xs text-[color:var(--dangerText)]">Could not load history.</li>
+            ) : revisions.length === 0 ? (
+              <li className="px-2 py-2 text-xs tulis-muted">No earlier versions yet. Versions are saved every few minutes while you edit.</li>
+            ) : (
+              revisions.map((revision) => {
+                const isSelected = revision.id === selectedId;
+                return (
+                  <li key={revision.id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedId(revision.id)}
+                      className={`w-full rounded-[var(--rSm)] px-2.5 py-2 text-left transition-colors ${isSelected
+                        ? 'bg-[color:var(--surface2)] text-[color:var(--text)]'
+                        : 'tulis-muted hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]'
+                        }`}
+                    >
+                      <p className="text-xs font-semibold">{formatRevisionTime(revision)}</p>
+                      <p className="mt-0.5 truncate text-[11px] tulis-muted">{REASON_LABELS[revision.reason]}</p>
+                    </button>
+                  </li>
+                );
+              })
+            )}
+          </ul>
+
+          <div className="flex min-h-0 min-w-0 flex-1 flex-col">
+            {selectedRevision && (
+              <div className="flex shrink-0 flex-wrap items-center justify-between gap-2 border-b border-[color:var(--divider)] px-4 py-2">
+                <div
+                  role="tablist"
+                  aria-label="History view"
+                  className="inline-flex h-8 items-center rounded-[calc(var(--rSm)-2px)] border border-[color:var(--border2)] p-0.5"
+                >
+                  {(['preview', 'changes'] as const).map((mode) => (
+                    <button
+                      key={mode}
+                      type="button"
+                      role="tab"
+                      aria-selected={viewMode === mode}
+                      onClick={() => setViewMode(mode)}
+                      className={`h-full rounded-[calc(var(--rSm)-4px)] px-2.5 text-xs font-medium transition-colors ${viewMode === mode
+                        ? 'text-[color:var(--accent)]'
+                        : 'text-[color:var(--text2)] hover:text-[color:var(--text)]'
+                        }`}
+                      style={viewMode === mode ? { backgroundColor: 'var(--accentTintUi)' } : undefined}
+                    >
+                      {mode === 'preview' ? 'Preview' : `Changes (+${diffSummary.added} −${diffSummary.removed})`}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => {
+                    void restoreSelected();
+                  }}
+                  disabled={isRestoring}
+                  className="h-8 rounded-[var(--rSm)] bg-[color:var(--accent)] px-3 text-xs font-semibold text-white transition-colors hover:bg-[color:var(--accentHover)] disabled:opacity-60"
+                >
+                  {isRestoring ? 'Restoring…' : 'Restore this version'}
+                </button>
+              </div>
+            )}
+
+            <div className="min-h-0 flex-1 overflow-y-auto px-4 py-4">
+              {!selectedRevision ? null : viewMode === 'preview' ? (
+                <NoteContentView content={selectedRevision.contentJson} />
+              ) : (
+                <div className="space-y-1">
+                  {diffEntries.map((entry, index) => (
+                    <div
+                      key={index}
+                      className={`rounded-[var(--rSm)] border-l-2 px-3 py-1 ${entry.kind === 'added'
+                        ? 'border-[color:var(--tagGreen)] bg-[rgba(22,163,74,0.08)]'
+                        : entry.kind === 'removed'
+                          ? 'border-[color:var(--dangerSolid)] bg-[color:var(--dangerTint)] line-through decoration-[color:var(--dangerText)]/50'
+                          : 'border-transparent opacity-60'
+                        }`}
+                    >
+                      <NoteContentView
+                        content={{ type: 'doc', content: [entry.block] }}
+                        className="prose prose-sm dark:prose-invert max-w-none tulis-text"
+                      />
+                    </div>
+                  ))}
+                  {diffSummary.added === 0 && diffSummary.removed === 0 && (
+                    <p className="text-xs tulis-muted">This version matches the current note.</p>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
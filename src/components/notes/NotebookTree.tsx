@@ -0,0 +1,349 @@
+'use client';
+
+import { useEffect, useRef, useState, type DragEvent as ReactDragEvent, type KeyboardEvent as ReactKeyboardEvent } from 'react';
+import { NOTEBOOK_NAME_MAX_LENGTH, normalizeNotebookName, type NotebookTreeNode } from '@/lib/notebooks';
+
+// Drawer rows put the dragged note id under this type.
+export const NOTE_DRAG_TYPE = 'application/x-tulis-note';
+// Filter value for notes that are not filed in any notebook.
+export const UNFILED_NOTEBOOK_FILTER = 'unfiled';
+
+type NotebookEditState =
+  | { mode: 'create'; parentId: string | null }
+  | { mode: 'rename'; notebookId: string };
+
+type NotebookTreeProps = {
+  tree: NotebookTreeNode[];
+  // Non-deleted notes filed directly in each notebook; the null key counts unfiled notes.
+  directNoteCounts: Map<string | null, number>;
+  activeFilter: string | null;
+  collapsedIds: Set<string>;
+  onFilterChange: (filter: string | null) => void;
+  onToggleCollapsed: (notebookId: string) => void;
+  onCreateNotebook: (name: string, parentId: string | null) => void;
+  onRenameNotebook: (notebookId: string, name: string) => void;
+  onDeleteNotebook: (notebookId: string) => void;
+  onCreateNote: (notebookId: string) => void;
+  onMoveNote: (noteId: string, notebookId: string | null) => void;
+};
+
+const subtreeNoteCount = (node: NotebookTreeNode, directNoteCounts: Map<string | null, number>): number => (
+  node.children.reduce(
+    (total, child) => total + subtreeNoteCount(child, directNoteCounts),
+    directNoteCounts.get(node.notebook.id) ?? 0,
+  )
+);
+
+const hasDraggedNote = (event: ReactDragEvent) => event.dataTransfer.types.includes(NOTE_DRAG_TYPE);
+
+export function NotebookTree({
+  tree,
+  directNoteCounts,
+  activeFilter,
+  collapsedIds,
+  onFilterChange,
+  onToggleCollapsed,
+  onCreateNotebook,
+  onRenameNotebook,
+  onDeleteNotebook,
+  onCreateNote,
+  onMoveNote,
+}: NotebookTreeProps) {
+  const [editState, setEditState] = useState<NotebookEditState | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [openMenuId, setOpenMenuId] = useState<string | null>(null);
+  const [deleteArmedId, setDeleteArmedId] = useState<string | null>(null);
+  const [dropTargetKey, setDropTargetKey] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  // Set on Escape so the blur that follows does not commit the draft.
+  const editCancelledRef = useRef(false);
+
+  useEffect(() => {
+    if (!editState) return;
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [editState]);
+
+  useEffect(() => {
+    if (!openMenuId) return;
+
+    const handlePointerDown = (event: MouseEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('[data-notebook-menu]')) return;
+      setOpenMenuId(null);
+      setDeleteArmedId(null);
+    };
+
+    window.addEventListener('mousedown', handlePointerDown);
+    return () => window.removeEventListener('mousedown', handlePointerDown);
+  }, [openMenuId]);
+
+  const startEditing = (nextState: NotebookEditState, initialName: string) => {
+    setOpenMenuId(null);
+    setDeleteArmedId(null);
+    setDraftName(initialName);
+    editCancelledRef.current = false;
+    setEditState(nextState);
+  };
+
+  const commitEdit = () => {
+    if (!editState || editCancelledRef.current) return;
+    const name = normalizeNotebookName(draftName);
+    setEditState(null);
+    if (!name) return;
+
+    if (editState.mode === 'create') {
+      onCreateNotebook(name, editState.parentId);
+    } else {
+      onRenameNotebook(editState.notebookId, name);
+    }
+  };
+
+  const handleEditKeyDown = (event: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      commitEdit();
+      return;
+    }
+    if (event.key === 'Escape') {
+      // Keep the drawer's own Escape handler from closing the sidebar.
+      event.stopPropagation();
+      editCancelledRef.current = true;
+      setEditState(null);
+    }
+  };
+
+  const dropHandlers = (key: string, notebookId: string | null) => ({
+    onDragOver: (event: ReactDragEvent) => {
+      if (!hasDraggedNote(event)) return;
+      event.preventDefault();
+      event.dataTransfer.dropEffect = 'move';
+      setDropTargetKey(key);
+    },
+    onDragLeave: (event: ReactDragEvent) => {
+      if (event.currentTarget.contains(event.relatedTarget as Node | null)) return;
+      setDropTargetKey((current) => (current === key ? null : current));
+    },
+    onDrop: (event: ReactDragEvent) => {
+      const noteId = event.dataTransfer.getData(NOTE_DRAG_TYPE);
+      setDropTargetKey(null);
+      if (!noteId) return;
+      event.preventDefault();
+      onMoveNote(noteId, notebookId);
+    },
+  });
+
+  const renderNameInput = (depth: number) => (
+    <div className="py-0.5 pr-2" style={{ paddingLeft: `${16 + depth * 14}px` }}>
+      <input
+        ref={inputRef}
+        value={draftName}
+        maxLength={NOTEBOOK_NAME_MAX_LENGTH}
+        onChange={(event) => setDraftName(event.target.value)}
+        onKeyDown={handleEditKeyDown}
+        onBlur={commitEdit}
+        placeholder="Notebook name"
+        aria-label="Notebook name"
+        className="h-7 w-full rounded-[calc(var(--rSm)-2px)] border border-[color:var(--border)] bg-[color:var(--surface)] px-2 text-xs tulis-text placeholder:text-[color:var(--text3)] focus:border-[color:var(--accent)] focus:outline-none"
+      />
+    </div>
+  );
+
+  const rowClassName = (isActive: boolean, isDropTarget: boolean) => `group relative flex items-center rounded-[var(--rSm)] pr-1 transition-colors ${isDropTarget
+    ? 'bg-[color:var(--accentTintUi)] text-[color:var(--text)]'
+    : isActive
+      ? 'bg-[color:var(--surface2)] text-[color:var(--text)]'
+      : 'tulis-muted hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]'
+    }`;
+
+  const renderNode = (node: NotebookTreeNode) => {
+    const { notebook, depth, children } = node;
+    const isCollapsed = collapsedIds.has(notebook.id);
+    const isActive = activeFilter === notebook.id;
+    const isMenuOpen = openMenuId === notebook.id;
+    const isRenaming = editState?.mode === 'rename' && editState.notebookId === notebook.id;
+    const isCreatingChild = editState?.mode === 'create' && editState.parentId === notebook.id;
+    const showChildren = (children.length > 0 && !isCollapsed) || isCreatingChild;
+
+    return (
+      <li
+        key={notebook.id}
+        role="treeitem"
+        aria-level={depth + 1}
+        aria-selected={isActive}
+        aria-expanded={children.length > 0 ? !isCollapsed : undefined}
+      >
+        {isRenaming ? renderNameInput(depth) : (
+          <div
+            className={rowClassName(isActive, dropTargetKey === notebook.id)}
+            style={{ paddingLeft: `${depth * 14}px` }}
+            {...dropHandlers(notebook.id, notebook.id)}
+          >
+            <button
+              type="button"
+              onClick={() => onToggleCollapsed(notebook.id)}
+              className={`flex h-7 w-4 shrink-0 items-center justify-center ${children.length > 0 ? '' : 'invisible'}`}
+              aria-label={isCollapsed ? `Expand ${notebook.name}` : `Collapse ${notebook.name}`}
+              tabIndex={children.length > 0 ? 0 : -1}
+            >
+              <svg
+                className={`h-3 w-3 transition-transform ${isCollapsed ? '' : 'rotate-90'}`}
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2.4"
+              >
+                <polyline points="9 6 15 12 9 18" strokeLinecap="round" strokeLinejoin="round" />
+              </svg>
+            </button>
+            <button
+              type="button"
+              onClick={() => onFilterChange(isActive ? null : notebook.id)}
+              className="min-w-0 flex-1 truncate py-1.5 text-left text-xs font-medium"
+              title={notebook.name}
+            >
+              {notebook.name}
+            </button>
+            <span className={`shrink-0 px-1 text-[11px] tabular-nums text-[color:var(--text3)] ${isMenuOpen ? 'hidden' : 'group-hover:hidden'}`}>
+              {subtreeNoteCount(node, directNoteCounts)}
+            </span>
+            <div
+              className={`relative shrink-0 items-center ${isMenuOpen ? 'flex' : 'hidden group-hover:flex'}`}
+              data-notebook-menu
+            >
+              <button
+                type="button"
+                onClick={() => onCreateNote(notebook.id)}
+                className="rounded-[calc(var(--rSm)-4px)] p-1 transition-colors hover:bg-[color:var(--surface)] hover:text-[color:var(--text)]"
+                aria-label={`New note in ${notebook.name}`}
+                title={`New note in ${notebook.name}`}
+              >
+                <svg className="h-3.5 w-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+                  <line x1="12" y1="5" x2="12" y2="19" strokeLinecap="round" />
+                  <line x1="5" y1="12" x2="19" y2="12" strokeLinecap="round" />
+                </svg>
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setDeleteArmedId(null);
+                  setOpenMenuId(isMenuOpen ? null : notebook.id);
+                }}
+                className="rounded-[calc(var(--rSm)-4px)] p-1 transition-colors hover:bg-[color:var(--surface)] hover:text-[color:var(--text)]"
+                aria-haspopup="menu"
+                aria-expanded={isMenuOpen}
+                aria-label="Open notebook actions"
+                title="Notebook actions"
+              >
+                <svg className="h-3.5 w-3.5" viewBox="0 0 24 24" fill="currentColor">
+                  <circle cx="5" cy="12" r="1.8" />
+                  <circle cx="12" cy="12" r="1.8" />
+                  <circle cx="19" cy="12" r="1.8" />
+                </svg>
+              </button>
+
+              {isMenuOpen && (
+                <div className="absolute right-0 top-[calc(100%+0.35rem)] z-40 min-w-[164px] rounded-[var(--rSm)] border border-[color:var(--border2)] bg-[color:var(--surface)] p-1 shadow-sm">
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (isCollapsed) onToggleCollapsed(notebook.id);
+                      startEditing({ mode: 'create', parentId: notebook.id }, '');
+                    }}
+                    className="flex w-full items-center rounded-[calc(var(--rSm)-4px)] px-2 py-1.5 text-left text-xs tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+                  >
+                    New notebook inside
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => startEditing({ mode: 'rename', notebookId: notebook.id }, notebook.name)}
+                    className="mt-0.5 flex w-full items-center rounded-[calc(var(--rSm)-4px)] px-2 py-1.5 text-left text-xs tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+                  >
+                    Rename
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (deleteArmedId !== notebook.id) {
+                        setDeleteArmedId(notebook.id);
+                        return;
+                      }
+                      setOpenMenuId(null);
+                      setDeleteArmedId(null);
+                      onDeleteNotebook(notebook.id);
+                    }}
+                    className="mt-0.5 flex w-full items-center rounded-[calc(var(--rSm)-4px)] px-2 py-1.5 text-left text-xs text-[color:var(--dangerText)] transition-colors hover:bg-[color:var(--surface2)]"
+                    title="Notes and notebooks inside move up a level"
+                  >
+                    {deleteArmedId === notebook.id ? 'Click again to delete' : 'Delete notebook'}
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {showChildren && (
+          <ul role="group" className="mt-0.5 space-y-0.5">
+            {isCreatingChild && <li>{renderNameInput(depth + 1)}</li>}
+            {!isCollapsed && children.map((child) => renderNode(child))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  const isCreatingTopLevel = editState?.mode === 'create' && editState.parentId === null;
+  const isUnfiledActive = activeFilter === UNFILED_NOTEBOOK_FILTER;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between pr-1">
+        <p className="pl-3 text-[11px] font-semibold uppercase tracking-[0.15em] text-[color:var(--text3)]">Notebooks</p>
+        <button
+          type="button"
+          onClick={() => startEditing({ mode: 'create', parentId: null }, '')}
+          className="rounded-[calc(var(--rSm)-4px)] p-1 text-[color:var(--text3)] transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+          aria-label="New notebook"
+          title="New notebook"
+        >
+          <svg className="h-3.5 w-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+            <line x1="12" y1="5" x2="12" y2="19" strokeLinecap="round" />
+            <line x1="5" y1="12" x2="19" y2="12" strokeLinecap="round" />
+          </svg>
+        </button>
+      </div>
+
+      <ul role="tree" aria-label="Notebooks" className="mt-1.5 space-y-0.5">
+        {isCreatingTopLevel && <li>{renderNameInput(0)}</li>}
+        {tree.length === 0 && !isCreatingTopLevel ? (
+          <li>
+            <p className="pl-4 text-xs tulis-muted">No notebooks yet</p>
+          </li>
+        ) : (
+          tree.map((node) => renderNode(node))
+        )}
+        {tree.length > 0 && (
+          <li role="treeitem" aria-level={1} aria-selected={isUnfiledActive}>
+            <div
+              className={rowClassName(isUnfiledActive, dropTargetKey === UNFILED_NOTEBOOK_FILTER)}
+              {...dropHandlers(UNFILED_NOTEBOOK_FILTER, null)}
+            >
+              <span className="w-4 shrink-0" aria-hidden="true" />
+              <button
+                type="button"
+                onClick={() => onFilterChange(isUnfiledActive ? null : UNFILED_NOTEBOOK_FILTER)}
+                className="min-w-0 flex-1 truncate py-1.5 text-left text-xs font-medium italic"
+              >
+                Unfiled
+              </button>
+              <span className="shrink-0 px-1 text-[11px] tabular-nums text-[color:var(--text3)]">
+                {directNoteCounts.get(null) ?? 0}
+              </span>
+            </div>
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
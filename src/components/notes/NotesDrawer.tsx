@@ -3,49 +3,117 @@
 import { useCallback, useEffect, useMemo, useRef, useState, type TouchEvent as ReactTouchEvent } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import { FiLogOut, FiMonitor, FiMoon, FiSettings, FiSun } from 'react-icons/fi';
-import { db, auth } from '@/lib/firebase';
-import {
-  deleteDoc,
-  deleteField,
-  onSnapshot,
-  orderBy,
-  query,
-  serverTimestamp,
-  Timestamp,
-  updateDoc,
-  where,
-} from 'firebase/firestore';
+import { FiCloud, FiHardDrive, FiLogOut, FiMonitor, FiMoon, FiSettings, FiSun } from 'react-icons/fi';
+import { auth } from '@/lib/firebase';
 import { signOut } from 'firebase/auth';
-import { appNoteDoc, appNotesCollection } from '@/lib/firestorePaths';
-import { matchesNoteSearch, normalizeLabel, notePreview, parseSearchFilters } from '@/lib/notes';
-import { createEmptyNoteForUser, ensureUserHasNote } from '@/lib/notesLifecycle';
+import { buildNotebookTree, collectNotebookSubtreeIds, flattenNotebookTree } from '@/lib/notebooks';
+import {
+  applyLabelChanges,
+  buildLabelTree,
+  flattenLabelTree,
+  hasLabel,
+  matchesSearchNode,
+  notePreview,
+  parseSearchFilters,
+  type LabelChanges,
+  type SearchFilters,
+} from '@/lib/notes';
+import type { LabelColors } from '@/lib/labelColors';
+import {
+  noteReminders,
+  reminderHref,
+  reminderKey,
+  reminderStateChanges,
+  scheduleReminders,
+  type ChipReminder,
+  type NoteReminder,
+  type ReminderAction,
+  type ReminderStates,
+} from '@/lib/reminders';
+import { noteContentFeatures } from '@/lib/noteContent';
+import { countOpenTasks } from '@/lib/noteTasks';
+import { createNoteSearchIndex, type NoteSearchIndex } from '@/lib/noteSearchIndex';
+import { createEmptyNoteForUser, createNoteFromTemplate, ensureUserHasNote } from '@/lib/notesLifecycle';
+import {
+  getNotesRepository,
+  getNotesStorageMode,
+  repositoryErrorCode,
+  setNotesStorageMode,
+  type NotebookRecord,
+  type NoteRecord,
+  type NoteRole,
+  type NotesStorageMode,
+  type SavedSearchRecord,
+  type SavedSearchView,
+} from '@/lib/notesRepository';
+import { NOTE_ROLE_LABELS } from '@/lib/noteSharing';
+import { formatTemplateCursor, listNoteTemplates, type NoteTemplate } from '@/lib/noteTemplates';
+import { NOTE_DRAG_TYPE, NotebookTree, UNFILED_NOTEBOOK_FILTER } from '@/components/notes/NotebookTree';
+import { JournalCalendar } from '@/components/notes/JournalCalendar';
+import { ImportNotesDialog } from '@/components/notes/ImportNotesDialog';
+import { SearchQueryInput } from '@/components/notes/SearchQueryInput';
+import { SmartFolderList } from '@/components/notes/SmartFolderList';
+import { QuickSwitcher } from '@/components/notes/QuickSwitcher';
+import { LabelManagerDialog } from '@/components/notes/LabelManagerDialog';
+import { LabelTree } from '@/components/notes/LabelTree';
+import { ReminderList } from '@/components/notes/ReminderList';
+import { useReminderNotifications } from '@/hooks/useReminderNotifications';
+import { collectJournalEntries, getJournalTemplateId, setJournalTemplateId } from '@/lib/journal';
+import { backupFileName, createNotesBackup, restoreNotesBackup } from '@/lib/noteBackup';
+import {
+  compareSavedSearches,
+  moveSavedSearch,
+  nextSavedSearchPosition,
+  SAVED_SEARCH_QUERY_MAX_LENGTH,
+} from '@/lib/savedSearches';
 
 type NoteListItem = {
   id: string;
   title: string;
   content: string;
-  updatedAt: Timestamp | null;
-  deletedAt: Timestamp | null;
+  createdAtMs: number | null;
+  updatedAtMs: number | null;
+  deletedAtMs: number | null;
   labels: string[];
   pinned: boolean;
+  notebookId: string | null;
+  isTemplate: boolean;
+  hasTasks: boolean;
+  hasCode: boolean;
+  hasDates: boolean;
+  reminders: ChipReminder[];
+  openTaskCount: number;
+  // Set on notes another user shared with the current user.
+  sharedRole: NoteRole | null;
+  isSharedWithOthers: boolean;
   isDeleted: boolean;
 };
 
+// How results are ordered while a search query is active.
+type SearchSort = 'relevance' | 'recent';
+
 type NotesDrawerProps = {
   isSidebarOpen: boolean;
   currentNoteId: string;
   sidebarMode: SidebarMode;
   onSidebarModeChange: (mode: SidebarMode) => void;
+  // Saved search to open, e.g. from a /notes?view=<id> link.
+  requestedSavedSearchId: string | null;
+  // Snooze/Dismiss clicked on a notification while no tab was open.
+  requestedReminderAction: { reminderKey: string; action: ReminderAction } | null;
+  onOpen: () => void;
   onClose: () => void;
 };
 
-type SidebarView = 'all' | 'pinned';
+type SidebarView = SavedSearchView;
 type SidebarMode = 'notes' | 'trash';
 type ThemeMode = 'light' | 'dark';
 type ThemePreference = ThemeMode | 'system';
 
 const THEME_STORAGE_KEY = 'theme';
+const COLLAPSED_NOTEBOOKS_STORAGE_KEY = 'tulis:collapsed-notebooks';
+const COLLAPSED_LABELS_STORAGE_KEY = 'tulis:collapsed-labels';
+const JOURNAL_CALENDAR_OPEN_STORAGE_KEY = 'tulis:journal-calendar-open';
 
 function resolveSystemTheme(): ThemeMode {
   if (typeof window === 'undefined') return 'light';
@@ -64,32 +132,109 @@ function applyThemePreference(preference: ThemePreference) {
 const SIDEBAR_VIEW_OPTIONS: Array<{ value: SidebarView; label: string }> = [
   { value: 'all', label: 'All' },
   { value: 'pinned', label: 'Pinned' },
+  { value: 'shared', label: 'Shared' },
 ];
 
-function normalizeLabelArray(value: unknown): string[] {
-  if (!Array.isArray(value)) return [];
-  const seen = new Set<string>();
-  const labels: string[] = [];
-
-  value.forEach((item) => {
-    if (typeof item !== 'string') return;
-    const normalized = normalizeLabel(item);
-    if (!normalized || seen.has(normalized)) return;
-    seen.add(normalized);
-    if (labels.length < 10) labels.push(normalized);
-  });
+// Index hits (note id -> relevance) for every word of a query.
+function scoreSearchTerms(searchIndex: NoteSearchIndex, terms: string[]): Map<string, Map<string, number>> {
+  return new Map(terms.map((term) => [term, searchIndex.search(term) ?? new Map<string, number>()]));
+}
+
+function matchesSearchFilters(
+  note: NoteListItem,
+  filters: SearchFilters,
+  termScores: Map<string, Map<string, number>>
+): boolean {
+  return !filters.root
+    || matchesSearchNode(note, filters.root, (noteId, term) => termScores.get(term)?.has(noteId) ?? false);
+}
 
-  return labels;
+function toNoteListItem(record: NoteRecord, uid: string): NoteListItem {
+  return {
+    id: record.id,
+    title: record.title.trim() ? record.title : 'Untitled',
+    content: record.content,
+    createdAtMs: record.createdAtMs,
+    updatedAtMs: record.updatedAtMs,
+    deletedAtMs: record.deletedAtMs,
+    labels: record.labels,
+    pinned: record.pinned,
+    notebookId: record.notebookId,
+    isTemplate: record.isTemplate,
+    ...noteContentFeatures(record.contentJson),
+    reminders: noteReminders(record.contentJson),
+    openTaskCount: countOpenTasks(record.contentJson),
+    sharedRole: record.ownerUid === uid ? null : record.collaborators[uid]?.role ?? null,
+    isSharedWithOthers: record.ownerUid === uid && Object.keys(record.collaborators).length > 0,
+    isDeleted: record.isDeleted,
+  };
 }
 
-export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSidebarModeChange, onClose }: NotesDrawerProps) {
+export function NotesDrawer({
+  isSidebarOpen,
+  currentNoteId,
+  sidebarMode,
+  onSidebarModeChange,
+  requestedSavedSearchId,
+  requestedReminderAction,
+  onOpen,
+  onClose,
+}: NotesDrawerProps) {
   const SETTINGS_SHEET_ANIMATION_MS = 200;
   const router = useRouter();
   const [notes, setNotes] = useState<NoteListItem[]>([]);
+  const [sharedNotes, setSharedNotes] = useState<NoteListItem[]>([]);
+  const [templates, setTemplates] = useState<NoteTemplate[]>([]);
+  const [isTemplatePickerOpen, setIsTemplatePickerOpen] = useState(false);
+  // Journal day -> note id.
+  const [journalEntries, setJournalEntries] = useState<Record<string, string>>({});
+  const [journalTemplateId, setJournalTemplateIdState] = useState<string | null>(() => (
+    auth.currentUser ? getJournalTemplateId(auth.currentUser.uid) : null
+  ));
+  const [isJournalCalendarOpen, setIsJournalCalendarOpen] = useState(() => {
+    if (typeof window === 'undefined') return true;
+    try {
+      return window.localStorage.getItem(JOURNAL_CALENDAR_OPEN_STORAGE_KEY) !== 'false';
+    } catch {
+      return true;
+    }
+  });
   const [searchInput, setSearchInput] = useState('');
   const [searchQuery, setSearchQuery] = useState('');
+  const [searchSort, setSearchSort] = useState<SearchSort>('relevance');
   const [activeView, setActiveView] = useState<SidebarView>('all');
   const [activeLabel, setActiveLabel] = useState<string | null>(null);
+  const [labelColors, setLabelColors] = useState<LabelColors>({});
+  const [reminderStates, setReminderStates] = useState<ReminderStates>({});
+  const [labelManagerUid, setLabelManagerUid] = useState<string | null>(null);
+  // Null until the first snapshot arrives.
+  const [savedSearches, setSavedSearches] = useState<SavedSearchRecord[] | null>(null);
+  // Applied once saved searches have loaded and the drawer shows notes.
+  const [pendingSavedSearchId, setPendingSavedSearchId] = useState<string | null>(requestedSavedSearchId);
+  const [previousRequestedSavedSearchId, setPreviousRequestedSavedSearchId] = useState(requestedSavedSearchId);
+  const [previousSidebarMode, setPreviousSidebarMode] = useState(sidebarMode);
+  const [isQuickSwitcherOpen, setIsQuickSwitcherOpen] = useState(false);
+  const [notebooks, setNotebooks] = useState<NotebookRecord[]>([]);
+  // A notebook id, UNFILED_NOTEBOOK_FILTER, or null for every notebook.
+  const [activeNotebookFilter, setActiveNotebookFilter] = useState<string | null>(null);
+  const [collapsedNotebookIds, setCollapsedNotebookIds] = useState<Set<string>>(() => {
+    if (typeof window === 'undefined') return new Set();
+    try {
+      const stored = JSON.parse(window.localStorage.getItem(COLLAPSED_NOTEBOOKS_STORAGE_KEY) ?? '[]') as unknown;
+      return new Set(Array.isArray(stored) ? stored.filter((value): value is string => typeof value === 'string') : []);
+    } catch {
+      return new Set();
+    }
+  });
+  const [collapsedLabels, setCollapsedLabels] = useState<Set<string>>(() => {
+    if (typeof window === 'undefined') return new Set();
+    try {
+      const stored = JSON.parse(window.localStorage.getItem(COLLAPSED_LABELS_STORAGE_KEY) ?? '[]') as unknown;
+      return new Set(Array.isArray(stored) ? stored.filter((value): value is string => typeof value === 'string') : []);
+    } catch {
+      return new Set();
+    }
+  });
   const [openRowMenuId, setOpenRowMenuId] = useState<string | null>(null);
   const [confirmDeleteRowId, setConfirmDeleteRowId] = useState<string | null>(null);
   const [deletingId, setDeletingId] = useState<string | null>(null);
@@ -104,6 +249,11 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
     if (stored === 'light' || stored === 'dark') return stored;
     return 'system';
   });
+  const [storageMode] = useState<NotesStorageMode>(() => getNotesStorageMode());
+  const [backupIncludesTrash, setBackupIncludesTrash] = useState(false);
+  const [importDialogUid, setImportDialogUid] = useState<string | null>(null);
+  const [backupAction, setBackupAction] = useState<'export' | 'restore' | null>(null);
+  const [backupStatus, setBackupStatus] = useState<{ tone: 'info' | 'error'; message: string } | null>(null);
   const mobileSidebarCloseSwipeRef = useRef({
     tracking: false,
     closed: false,
@@ -115,6 +265,7 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
   const previousActiveNoteIdRef = useRef<string | null>(null);
   const currentRouteNoteIdRef = useRef<string>('');
   const settingsSheetCloseTimeoutRef = useRef<number | null>(null);
+  const backupFileInputRef = useRef<HTMLInputElement | null>(null);
   const signOutArmTimeoutRef = useRef<number | null>(null);
 
   const closeOnMobile = useCallback(() => {
@@ -398,37 +549,20 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
     if (!auth.currentUser) return;
 
     const uid = auth.currentUser.uid;
-    const notesQuery = query(
-      appNotesCollection(db),
-      where('ownerUid', '==', uid),
-      orderBy('updatedAt', 'desc')
-    );
 
-    const unsubscribe = onSnapshot(notesQuery, (snapshot) => {
-      const nextNotes = snapshot.docs.map((snapshotDoc) => {
-        const data = snapshotDoc.data();
-        return {
-          id: snapshotDoc.id,
-          title: typeof data.title === 'string' && data.title.trim() ? data.title : 'Untitled',
-          content: typeof data.content === 'string' ? data.content : '',
-          updatedAt: (data.updatedAt as Timestamp | null) || null,
-          deletedAt: (data.deletedAt as Timestamp | null) || null,
-          labels: normalizeLabelArray(data.labels),
-          pinned: Boolean(data.pinned),
-          isDeleted: data.isDeleted === true,
-        };
-      });
+    const unsubscribe = getNotesRepository().subscribeNotes(uid, (records) => {
+      const nextNotes = records.map((record) => toNoteListItem(record, uid));
 
       nextNotes.sort((a, b) => {
         if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
-        const aMillis = a.updatedAt?.toMillis?.() ?? 0;
-        const bMillis = b.updatedAt?.toMillis?.() ?? 0;
-        return bMillis - aMillis;
+        return (b.updatedAtMs ?? 0) - (a.updatedAtMs ?? 0);
       });
 
       setNotes(nextNotes);
+      setTemplates(listNoteTemplates(records));
+      setJournalEntries(collectJournalEntries(records));
     }, (error) => {
-      if (error.code === 'permission-denied') {
+      if (repositoryErrorCode(error) === 'permission-denied') {
         console.warn('Notes sync permission denied for ownerUid query.');
         return;
       }
@@ -438,11 +572,121 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
     return () => unsubscribe();
   }, []);
 
+  useEffect(() => {
+    if (!auth.currentUser || storageMode !== 'cloud') return;
+
+    const uid = auth.currentUser.uid;
+
+    const unsubscribe = getNotesRepository().subscribeSharedNotes(uid, (records) => {
+      // The owner's Trash stays out of the shared list.
+      setSharedNotes(records.filter((record) => !record.isDeleted).map((record) => toNoteListItem(record, uid)));
+    }, (error) => {
+      if (repositoryErrorCode(error) === 'permission-denied') {
+        console.warn('Shared notes sync permission denied for collaborator query.');
+        return;
+      }
+      console.error('Shared notes sync error (collaborators):', error);
+    });
+
+    return () => unsubscribe();
+  }, [storageMode]);
+
+  useEffect(() => {
+    if (!auth.currentUser) return;
+
+    const unsubscribe = getNotesRepository().subscribeNotebooks(auth.currentUser.uid, setNotebooks, (error) => {
+      if (repositoryErrorCode(error) === 'permission-denied') {
+        console.warn('Notebooks sync permission denied for ownerUid query.');
+        return;
+      }
+      console.error('Notebooks sync error (ownerUid):', error);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!auth.currentUser) return;
+
+    const unsubscribe = getNotesRepository().subscribeSavedSearches(auth.currentUser.uid, setSavedSearches, (error) => {
+      if (repositoryErrorCode(error) === 'permission-denied') {
+        console.warn('Saved searches sync permission denied for ownerUid query.');
+        return;
+      }
+      console.error('Saved searches sync error (ownerUid):', error);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!auth.currentUser) return;
+
+    const unsubscribe = getNotesRepository().subscribeUserSettings(auth.currentUser.uid, (settings) => {
+      setLabelColors(settings.labelColors);
+      setReminderStates(settings.reminderStates);
+    }, (error) => {
+      if (repositoryErrorCode(error) === 'permission-denied') {
+        console.warn('User settings sync permission denied.');
+        return;
+      }
+      console.error('User settings sync error:', error);
+    });
+
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    const handler = (event: KeyboardEvent) => {
+      if (!(event.metaKey || event.ctrlKey) || event.shiftKey || event.altKey) return;
+      if (event.key.toLowerCase() !== 'k') return;
+      event.preventDefault();
+      setIsQuickSwitcherOpen((open) => !open);
+    };
+
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, []);
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(COLLAPSED_NOTEBOOKS_STORAGE_KEY, JSON.stringify([...collapsedNotebookIds]));
+    } catch {
+      // Ignore localStorage write failures.
+    }
+  }, [collapsedNotebookIds]);
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(COLLAPSED_LABELS_STORAGE_KEY, JSON.stringify([...collapsedLabels]));
+    } catch {
+      // Ignore localStorage write failures.
+    }
+  }, [collapsedLabels]);
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem(JOURNAL_CALENDAR_OPEN_STORAGE_KEY, String(isJournalCalendarOpen));
+    } catch {
+      // Ignore localStorage write failures.
+    }
+  }, [isJournalCalendarOpen]);
+
   useEffect(() => {
     if (!isSidebarOpen) return;
 
     const handler = (event: KeyboardEvent) => {
       if (event.key === 'Escape') {
+        // The label manager closes itself.
+        if (labelManagerUid) return;
+        if (isQuickSwitcherOpen) {
+          setIsQuickSwitcherOpen(false);
+          return;
+        }
+        if (isTemplatePickerOpen) {
+          setIsTemplatePickerOpen(false);
+          return;
+        }
         if (confirmDeleteRowId) {
           setConfirmDeleteRowId(null);
           return;
@@ -457,7 +701,7 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
 
     window.addEventListener('keydown', handler);
     return () => window.removeEventListener('keydown', handler);
-  }, [confirmDeleteRowId, isSidebarOpen, onClose, openRowMenuId]);
+  }, [confirmDeleteRowId, isQuickSwitcherOpen, isSidebarOpen, isTemplatePickerOpen, labelManagerUid, onClose, openRowMenuId]);
 
   useEffect(() => {
     currentRouteNoteIdRef.current = currentNoteId;
@@ -469,6 +713,19 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
     lastActiveNoteIdRef.current = currentNoteId;
   }, [currentNoteId]);
 
+  useEffect(() => {
+    if (!isTemplatePickerOpen) return;
+
+    const handlePointerDown = (event: MouseEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('[data-template-picker]')) return;
+      setIsTemplatePickerOpen(false);
+    };
+
+    window.addEventListener('mousedown', handlePointerDown);
+    return () => window.removeEventListener('mousedown', handlePointerDown);
+  }, [isTemplatePickerOpen]);
+
   useEffect(() => {
     if (!openRowMenuId) return;
 
@@ -520,11 +777,32 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
     };
   }, [handleMobileSidebarCloseSwipeEnd, handleMobileSidebarCloseSwipeMove]);
 
-  useEffect(() => {
+  // Reset during render rather than in an effect so a saved search applied in
+  // the same update (below) is not wiped straight after.
+  if (previousSidebarMode !== sidebarMode) {
+    setPreviousSidebarMode(sidebarMode);
     setOpenRowMenuId(null);
     setConfirmDeleteRowId(null);
     setActiveLabel(null);
-  }, [sidebarMode]);
+    setActiveNotebookFilter(null);
+  }
+
+  if (previousRequestedSavedSearchId !== requestedSavedSearchId) {
+    setPreviousRequestedSavedSearchId(requestedSavedSearchId);
+    if (requestedSavedSearchId) setPendingSavedSearchId(requestedSavedSearchId);
+  }
+
+  if (pendingSavedSearchId && savedSearches && sidebarMode === 'notes') {
+    setPendingSavedSearchId(null);
+    const savedSearch = savedSearches.find((candidate) => candidate.id === pendingSavedSearchId);
+    if (savedSearch) {
+      setSearchInput(savedSearch.query);
+      setSearchQuery(savedSearch.query);
+      setActiveLabel(savedSearch.label);
+      setActiveView(savedSearch.view === 'shared' && storageMode !== 'cloud' ? 'all' : savedSearch.view);
+      setActiveNotebookFilter(null);
+    }
+  }
 
   const activeNote = useMemo(
     () => notes.find((note) => note.id === currentNoteId) ?? null,
@@ -534,52 +812,427 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
   const notesInTrash = useMemo(() => notes.filter((note) => note.isDeleted), [notes]);
   const notesInMainView = useMemo(() => notes.filter((note) => !note.isDeleted), [notes]);
 
-  const allLabels = useMemo(() => {
-    const labels = new Set<string>();
+  const labelTree = useMemo(() => buildLabelTree(notes), [notes]);
+  const allLabels = useMemo(() => flattenLabelTree(labelTree).map((node) => node.label), [labelTree]);
+
+  const notebookTree = useMemo(() => buildNotebookTree(notebooks), [notebooks]);
+  const notebookOptions = useMemo(() => flattenNotebookTree(notebookTree), [notebookTree]);
+  const knownNotebookIds = useMemo(() => new Set(notebooks.map((notebook) => notebook.id)), [notebooks]);
+
+  // Notes pointing at a notebook deleted on another device count as unfiled.
+  const resolveNotebookId = useCallback((notebookId: string | null) => (
+    notebookId && knownNotebookIds.has(notebookId) ? notebookId : null
+  ), [knownNotebookIds]);
+
+  const directNotebookNoteCounts = useMemo(() => {
+    const counts = new Map<string | null, number>();
     notesInMainView.forEach((note) => {
-      note.labels.forEach((label) => labels.add(label));
+      const notebookId = resolveNotebookId(note.notebookId);
+      counts.set(notebookId, (counts.get(notebookId) ?? 0) + 1);
     });
-    return [...labels].sort((a, b) => a.localeCompare(b));
-  }, [notesInMainView]);
+    return counts;
+  }, [notesInMainView, resolveNotebookId]);
 
   const filters = useMemo(() => parseSearchFilters(searchQuery), [searchQuery]);
-  const effectivePinnedOnly = sidebarMode === 'notes' && (activeView === 'pinned' || filters.pinnedOnly);
-  const effectiveLabelFilter = sidebarMode === 'notes' ? (activeLabel ?? filters.labelFromQuery) : null;
+  const searchIndex = useMemo(() => createNoteSearchIndex(), []);
+  const searchableNotes = useMemo(() => [...notes, ...sharedNotes], [notes, sharedNotes]);
+  // Query word -> relevance of every note matching it.
+  const termScores = useMemo(() => {
+    searchIndex.sync(searchableNotes);
+    return scoreSearchTerms(searchIndex, filters.terms);
+  }, [filters.terms, searchIndex, searchableNotes]);
+  const isRankedSearch = filters.terms.length > 0;
+  const effectivePinnedOnly = sidebarMode === 'notes' && activeView === 'pinned';
+  const effectiveLabelFilter = sidebarMode === 'notes' ? activeLabel : null;
+  const isSharedView = sidebarMode === 'notes' && activeView === 'shared';
+  // Notebooks organize the user's own notes, so they don't scope the shared list.
+  const effectiveNotebookFilter = sidebarMode === 'notes'
+    && !isSharedView
+    && activeNotebookFilter
+    && (activeNotebookFilter === UNFILED_NOTEBOOK_FILTER || knownNotebookIds.has(activeNotebookFilter))
+    ? activeNotebookFilter
+    : null;
+  // Selecting a notebook includes the notes of every notebook nested inside it.
+  const notebookScopeIds = useMemo(() => {
+    if (!effectiveNotebookFilter || effectiveNotebookFilter === UNFILED_NOTEBOOK_FILTER) return null;
+    return collectNotebookSubtreeIds(notebooks, effectiveNotebookFilter);
+  }, [effectiveNotebookFilter, notebooks]);
   const notePendingDelete = useMemo(() => {
     if (!confirmDeleteRowId) return null;
     return notes.find((note) => note.id === confirmDeleteRowId) ?? null;
   }, [confirmDeleteRowId, notes]);
 
   const visibleNotes = useMemo(() => {
-    const source = sidebarMode === 'trash' ? notesInTrash : notesInMainView;
+    const source = sidebarMode === 'trash'
+      ? notesInTrash
+      : isSharedView
+        ? sharedNotes
+        : filters.includesTrash ? notes : notesInMainView;
     const filtered = source.filter((note) => {
       if (effectivePinnedOnly && !note.pinned) return false;
-      if (effectiveLabelFilter && !note.labels.includes(effectiveLabelFilter)) return false;
-      return matchesNoteSearch(note, {
-        normalizedText: filters.normalizedText,
-        labelFromQuery: null,
-        pinnedOnly: false,
-      });
+      if (effectiveLabelFilter && !hasLabel(note.labels, effectiveLabelFilter)) return false;
+      if (effectiveNotebookFilter) {
+        const notebookId = resolveNotebookId(note.notebookId);
+        if (notebookScopeIds ? !notebookId || !notebookScopeIds.has(notebookId) : notebookId !== null) return false;
+      }
+      return matchesSearchFilters(note, filters, termScores);
     });
 
+    if (isRankedSearch && searchSort === 'relevance') {
+      const relevance = (noteId: string) => filters.terms.reduce(
+        (score, term) => score + (termScores.get(term)?.get(noteId) ?? 0),
+        0
+      );
+      return [...filtered].sort((a, b) => relevance(b.id) - relevance(a.id));
+    }
+
     if (sidebarMode !== 'trash') return filtered;
 
     return [...filtered].sort((a, b) => {
-      const aMillis = a.deletedAt?.toMillis?.() ?? 0;
-      const bMillis = b.deletedAt?.toMillis?.() ?? 0;
-      return bMillis - aMillis;
+      return (b.deletedAtMs ?? 0) - (a.deletedAtMs ?? 0);
     });
-  }, [effectivePinnedOnly, effectiveLabelFilter, filters.normalizedText, notesInMainView, notesInTrash, sidebarMode]);
+  }, [
+    effectiveLabelFilter,
+    effectiveNotebookFilter,
+    effectivePinnedOnly,
+    filters,
+    isRankedSearch,
+    isSharedView,
+    notebookScopeIds,
+    notes,
+    notesInMainView,
+    notesInTrash,
+    resolveNotebookId,
+    searchSort,
+    termScores,
+    sharedNotes,
+    sidebarMode,
+  ]);
+
+  const quickSwitcherNotes = useMemo(() => [...notesInMainView, ...sharedNotes], [notesInMainView, sharedNotes]);
+  const sortedSavedSearches = useMemo(() => [...(savedSearches ?? [])].sort(compareSavedSearches), [savedSearches]);
+
+  const savedSearchCounts = useMemo(() => {
+    searchIndex.sync(searchableNotes);
+    return new Map(sortedSavedSearches.map((savedSearch) => {
+      const savedFilters = parseSearchFilters(savedSearch.query);
+      const savedTermScores = scoreSearchTerms(searchIndex, savedFilters.terms);
+      const source = savedSearch.view === 'shared'
+        ? sharedNotes
+        : savedFilters.includesTrash ? notes : notesInMainView;
+      const count = source.filter((note) => (
+        (savedSearch.view !== 'pinned' || note.pinned)
+        && (!savedSearch.label || hasLabel(note.labels, savedSearch.label))
+        && matchesSearchFilters(note, savedFilters, savedTermScores)
+      )).length;
+      return [savedSearch.id, count];
+    }));
+  }, [notes, notesInMainView, searchIndex, searchableNotes, sharedNotes, sortedSavedSearches]);
+
+  const currentSearchText = searchInput.trim().slice(0, SAVED_SEARCH_QUERY_MAX_LENGTH);
+  const canSaveCurrentSearch = sidebarMode === 'notes'
+    && (currentSearchText !== '' || activeLabel !== null || activeView !== 'all');
+  // The smart folder the drawer currently shows, if any.
+  const activeSavedSearchId = sidebarMode === 'notes' && !effectiveNotebookFilter
+    ? sortedSavedSearches.find((savedSearch) => (
+      savedSearch.query === currentSearchText
+      && savedSearch.label === activeLabel
+      && savedSearch.view === activeView
+    ))?.id ?? null
+    : null;
+
+  const selectSavedSearch = useCallback((savedSearchId: string | null) => {
+    if (!savedSearchId) {
+      setSearchInput('');
+      setSearchQuery('');
+      setActiveLabel(null);
+      setActiveView('all');
+      return;
+    }
+    setPendingSavedSearchId(savedSearchId);
+  }, []);
 
-  const createNote = useCallback(async () => {
+  const createSavedSearch = useCallback(async (name: string) => {
     const uid = auth.currentUser?.uid;
     if (!uid) return;
 
-    const createdNoteId = await createEmptyNoteForUser(uid);
+    try {
+      await getNotesRepository().createSavedSearch(uid, {
+        name,
+        query: currentSearchText,
+        label: activeLabel,
+        view: activeView,
+        position: nextSavedSearchPosition(sortedSavedSearches),
+      });
+    } catch (error) {
+      console.error('Failed to save search:', error);
+    }
+  }, [activeLabel, activeView, currentSearchText, sortedSavedSearches]);
+
+  const renameSavedSearch = useCallback(async (savedSearchId: string, name: string) => {
+    try {
+      await getNotesRepository().updateSavedSearch(savedSearchId, { name });
+    } catch (error) {
+      console.error('Failed to rename saved search:', error);
+    }
+  }, []);
+
+  const updateSavedSearchToCurrent = useCallback(async (savedSearchId: string) => {
+    try {
+      await getNotesRepository().updateSavedSearch(savedSearchId, {
+        query: currentSearchText,
+        label: activeLabel,
+        view: activeView,
+      });
+    } catch (error) {
+      console.error('Failed to update saved search:', error);
+    }
+  }, [activeLabel, activeView, currentSearchText]);
+
+  const reorderSavedSearch = useCallback(async (savedSearchId: string, offset: number) => {
+    const repository = getNotesRepository();
+    try {
+      await Promise.all(moveSavedSearch(sortedSavedSearches, savedSearchId, offset).map(({ id, position }) => (
+        repository.updateSavedSearch(id, { position })
+      )));
+    } catch (error) {
+      console.error('Failed to reorder saved searches:', error);
+    }
+  }, [sortedSavedSearches]);
+
+  const deleteSavedSearch = useCallback(async (savedSearchId: string) => {
+    try {
+      await getNotesRepository().deleteSavedSearch(savedSearchId);
+    } catch (error) {
+      console.error('Failed to delete saved search:', error);
+    }
+  }, []);
+
+  // Keep the label filter and smart folders pointing at renamed labels.
+  const followLabelChanges = useCallback(async (changes: LabelChanges) => {
+    const relabel = (label: string | null) => (
+      label && changes.has(label) ? applyLabelChanges([label], changes)[0] ?? null : label
+    );
+
+    setActiveLabel(relabel);
+    try {
+      const repository = getNotesRepository();
+      await Promise.all(sortedSavedSearches
+        .filter((savedSearch) => savedSearch.label && changes.has(savedSearch.label))
+        .map((savedSearch) => repository.updateSavedSearch(savedSearch.id, { label: relabel(savedSearch.label) })));
+    } catch (error) {
+      console.error('Failed to update smart folder labels:', error);
+    }
+  }, [sortedSavedSearches]);
+
+  const allReminders = useMemo<NoteReminder[]>(() => notesInMainView.flatMap((note) => (
+    note.reminders.map((reminder) => ({
+      ...reminder,
+      key: reminderKey(note.id, reminder.reminderId),
+      noteId: note.id,
+      noteTitle: note.title,
+    }))
+  )), [notesInMainView]);
+  // Matches what the Tasks view lists: the user's own notes, templates aside.
+  const openTaskCount = useMemo(() => notesInMainView.reduce((count, note) => (
+    note.sharedRole || note.isTemplate ? count : count + note.openTaskCount
+  ), 0), [notesInMainView]);
+  const scheduledReminders = useMemo(
+    () => scheduleReminders(allReminders, reminderStates),
+    [allReminders, reminderStates],
+  );
+
+  const applyReminderAction = useCallback(async (key: string, action: ReminderAction) => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return;
+
+    try {
+      await getNotesRepository().updateReminderStates(
+        uid,
+        reminderStateChanges(allReminders, reminderStates, key, action, Date.now())
+      );
+    } catch (error) {
+      console.error('Failed to update reminder:', error);
+    }
+  }, [allReminders, reminderStates]);
+
+  const handleReminderAction = useCallback((key: string, action: ReminderAction) => {
+    void applyReminderAction(key, action);
+  }, [applyReminderAction]);
+
+  const {
+    nowMs: reminderCheckedAtMs,
+    permission: notificationPermission,
+    requestPermission: requestNotificationPermission,
+  } = useReminderNotifications(scheduledReminders, handleReminderAction);
+
+  const appliedReminderActionRef = useRef<NotesDrawerProps['requestedReminderAction']>(null);
+  useEffect(() => {
+    if (!requestedReminderAction || appliedReminderActionRef.current === requestedReminderAction) return;
+    // Wait for the note holding the reminder to load.
+    if (!allReminders.some((reminder) => reminder.key === requestedReminderAction.reminderKey)) return;
+
+    appliedReminderActionRef.current = requestedReminderAction;
+    void applyReminderAction(requestedReminderAction.reminderKey, requestedReminderAction.action);
+  }, [allReminders, applyReminderAction, requestedReminderAction]);
+
+  const createNote = useCallback(async (notebookId: string | null = null, template: NoteTemplate | null = null) => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return;
+
+    setIsTemplatePickerOpen(false);
+    if (template) {
+      const { noteId, cursor } = await createNoteFromTemplate(uid, template, { notebookId });
+      closeOnMobile();
+      // A template with {{cursor}} opens with the caret there instead of in the title.
+      router.push(cursor
+        ? `/notes/${noteId}?cursor=${encodeURIComponent(formatTemplateCursor(cursor))}`
+        : `/notes/${noteId}?focus=title`);
+      return;
+    }
+
+    const createdNoteId = await createEmptyNoteForUser(uid, { notebookId });
     closeOnMobile();
     router.push(`/notes/${createdNoteId}?focus=title`);
   }, [closeOnMobile, router]);
 
+  const createNotebook = useCallback(async (name: string, parentId: string | null) => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return;
+
+    try {
+      await getNotesRepository().createNotebook(uid, { name, parentId });
+      if (parentId) {
+        setCollapsedNotebookIds((current) => {
+          if (!current.has(parentId)) return current;
+          const next = new Set(current);
+          next.delete(parentId);
+          return next;
+        });
+      }
+    } catch (error) {
+      console.error('Failed to create notebook:', error);
+    }
+  }, []);
+
+  const renameNotebook = useCallback(async (notebookId: string, name: string) => {
+    try {
+      await getNotesRepository().updateNotebook(notebookId, { name });
+    } catch (error) {
+      console.error('Failed to rename notebook:', error);
+    }
+  }, []);
+
+  const deleteNotebook = useCallback(async (notebookId: string) => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return;
+
+    try {
+      await getNotesRepository().deleteNotebook(uid, notebookId);
+    } catch (error) {
+      console.error('Failed to delete notebook:', error);
+    }
+  }, []);
+
+  const activeJournalDate = useMemo(() => (
+    Object.keys(journalEntries).find((journalDate) => journalEntries[journalDate] === currentNoteId) ?? null
+  ), [currentNoteId, journalEntries]);
+
+  const openJournalDate = useCallback((journalDate: string) => {
+    const noteId = journalEntries[journalDate];
+    closeOnMobile();
+    // Days without an entry go through /notes/today, which creates it.
+    router.push(noteId ? `/notes/${noteId}` : `/notes/today?date=${journalDate}`);
+  }, [closeOnMobile, journalEntries, router]);
+
+  const updateJournalTemplate = useCallback((templateId: string | null) => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return;
+    setJournalTemplateId(uid, templateId);
+    setJournalTemplateIdState(templateId);
+  }, []);
+
+  const exportBackup = useCallback(async () => {
+    const uid = auth.currentUser?.uid;
+    if (!uid || backupAction) return;
+
+    setBackupAction('export');
+    setBackupStatus(null);
+    try {
+      const { blob, noteCount } = await createNotesBackup(uid, { includeTrash: backupIncludesTrash });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = backupFileName();
+      link.click();
+      URL.revokeObjectURL(url);
+      setBackupStatus({ tone: 'info', message: `Exported ${noteCount} ${noteCount === 1 ? 'note' : 'notes'}.` });
+    } catch (error) {
+      console.error('Failed to export backup:', error);
+      setBackupStatus({ tone: 'error', message: 'Could not export your notes. Try again.' });
+    } finally {
+      setBackupAction(null);
+    }
+  }, [backupAction, backupIncludesTrash]);
+
+  const restoreBackup = useCallback(async (file: File) => {
+    const uid = auth.currentUser?.uid;
+    if (!uid || backupAction) return;
+
+    setBackupAction('restore');
+    setBackupStatus(null);
+    try {
+      const { restored, skipped } = await restoreNotesBackup(uid, file, {
+        knownNotebookIds: notebooks.map((notebook) => notebook.id),
+      });
+      const restoredLabel = `Restored ${restored} ${restored === 1 ? 'note' : 'notes'}`;
+      setBackupStatus({
+        tone: 'info',
+        message: skipped > 0 ? `${restoredLabel}; ${skipped} already existed.` : `${restoredLabel}.`,
+      });
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      setBackupStatus({ tone: 'error', message: 'Could not restore this backup. Is it a tulis ZIP?' });
+    } finally {
+      setBackupAction(null);
+    }
+  }, [backupAction, notebooks]);
+
+  const toggleLabelCollapsed = useCallback((label: string) => {
+    setCollapsedLabels((current) => {
+      const next = new Set(current);
+      if (next.has(label)) {
+        next.delete(label);
+      } else {
+        next.add(label);
+      }
+      return next;
+    });
+  }, []);
+
+  const toggleNotebookCollapsed = useCallback((notebookId: string) => {
+    setCollapsedNotebookIds((current) => {
+      const next = new Set(current);
+      if (next.has(notebookId)) {
+        next.delete(notebookId);
+      } else {
+        next.add(notebookId);
+      }
+      return next;
+    });
+  }, []);
+
+  const moveNoteToNotebook = useCallback(async (noteId: string, notebookId: string | null) => {
+    const note = notes.find((candidate) => candidate.id === noteId);
+    if (!note || resolveNotebookId(note.notebookId) === notebookId) return;
+
+    try {
+      await getNotesRepository().updateNote(noteId, { notebookId });
+    } catch (error) {
+      console.error('Failed to move note to notebook:', error);
+    }
+  }, [notes, resolveNotebookId]);
+
   const exitTrashMode = useCallback(async () => {
     onSidebarModeChange('notes');
     setOpenRowMenuId(null);
@@ -595,10 +1248,7 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
   }, [activeNote, onSidebarModeChange, router]);
 
   const togglePinned = useCallback(async (noteId: string, nextPinned: boolean) => {
-    await updateDoc(appNoteDoc(db, noteId), {
-      pinned: nextPinned,
-      updatedAt: serverTimestamp(),
-    });
+    await getNotesRepository().updateNote(noteId, { pinned: nextPinned });
   }, []);
 
   const moveToTrash = useCallback(async (noteId: string) => {
@@ -646,11 +1296,7 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
         });
       }
 
-      await updateDoc(appNoteDoc(db, noteId), {
-        isDeleted: true,
-        deletedAt: serverTimestamp(),
-        updatedAt: serverTimestamp(),
-      });
+      await getNotesRepository().softDeleteNote(noteId);
     } catch (error) {
       console.error('Failed to move note to trash:', error);
     }
@@ -658,11 +1304,7 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
 
   const restoreNote = useCallback(async (noteId: string) => {
     try {
-      await updateDoc(appNoteDoc(db, noteId), {
-        isDeleted: false,
-        deletedAt: deleteField(),
-        updatedAt: serverTimestamp(),
-      });
+      await getNotesRepository().restoreNote(noteId);
       onSidebarModeChange('notes');
       setOpenRowMenuId(null);
       setConfirmDeleteRowId(null);
@@ -678,7 +1320,7 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
     setDeletingId(noteId);
 
     try {
-      await deleteDoc(appNoteDoc(db, noteId));
+      await getNotesRepository().purgeNotes([noteId]);
 
       if (noteId === currentNoteId) {
         if (sidebarMode === 'trash') {
@@ -705,18 +1347,44 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
     }
   }, [closeOnMobile, currentNoteId, notesInTrash, onSidebarModeChange, router, sidebarMode]);
 
+  const leaveSharedNote = useCallback(async (noteId: string) => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return;
+
+    try {
+      await getNotesRepository().setNoteCollaborator(noteId, uid, null);
+      if (noteId === currentNoteId) {
+        const { noteId: nextNoteId, created } = await ensureUserHasNote(uid, { excludeNoteId: noteId });
+        closeOnMobile();
+        router.replace(created ? `/notes/${nextNoteId}?focus=title` : `/notes/${nextNoteId}`);
+      }
+    } catch (error) {
+      console.error('Failed to leave shared note:', error);
+    }
+  }, [closeOnMobile, currentNoteId, router]);
+
   const renderRow = (note: NoteListItem) => {
     const isActive = note.id === currentNoteId;
     const noteHref = `/notes/${note.id}`;
     const isMenuOpen = openRowMenuId === note.id;
     const hasOpenRowMenu = openRowMenuId !== null;
+    const noteNotebookId = resolveNotebookId(note.notebookId);
 
     return (
       <li key={note.id}>
-        <div className={`group relative min-h-[56px] rounded-[var(--rSm)] border px-2 py-1.5 transition-colors ${isActive
-          ? 'border-transparent bg-transparent hover:border-[color:var(--border2)] hover:bg-[color:var(--surface2)]/70'
-          : 'border-transparent hover:border-[color:var(--border2)] hover:bg-[color:var(--surface2)]/70'
-          }`}>
+        <div
+          draggable={sidebarMode === 'notes' && !note.sharedRole}
+          onDragStart={(event) => {
+            if (sidebarMode !== 'notes' || note.sharedRole) return;
+            setOpenRowMenuId(null);
+            event.dataTransfer.setData(NOTE_DRAG_TYPE, note.id);
+            event.dataTransfer.effectAllowed = 'move';
+          }}
+          className={`group relative min-h-[56px] rounded-[var(--rSm)] border px-2 py-1.5 transition-colors ${isActive
+            ? 'border-transparent bg-transparent hover:border-[color:var(--border2)] hover:bg-[color:var(--surface2)]/70'
+            : 'border-transparent hover:border-[color:var(--border2)] hover:bg-[color:var(--surface2)]/70'
+            }`}
+        >
           {isActive && <div className="absolute bottom-1.5 left-0 top-1.5 w-[3px] rounded-full bg-[color:var(--accent)]" />}
 
           <Link
@@ -744,10 +1412,34 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
                     <path d="m12 17 4 4V9l3-5H5l3 5v12l4-4Z" strokeLinecap="round" strokeLinejoin="round" />
                   </svg>
                 )}
+                {note.isSharedWithOthers && (
+                  <svg
+                    className="h-3.5 w-3.5 shrink-0 text-[color:var(--text2)]"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    aria-label="Shared note"
+                  >
+                    <circle cx="9" cy="8" r="3.5" />
+                    <path d="M2.5 20a6.5 6.5 0 0 1 13 0" strokeLinecap="round" />
+                    <path d="M16 4.5a3.5 3.5 0 0 1 0 7M18 14a6.5 6.5 0 0 1 3.5 6" strokeLinecap="round" />
+                  </svg>
+                )}
+                {note.isTemplate && (
+                  <span className="shrink-0 rounded-full border border-[color:var(--border2)] px-1.5 py-0.5 text-[10px] font-medium tulis-muted">
+                    Template
+                  </span>
+                )}
+                {note.sharedRole && (
+                  <span className="shrink-0 rounded-full border border-[color:var(--border2)] px-1.5 py-0.5 text-[10px] font-medium tulis-muted">
+                    {NOTE_ROLE_LABELS[note.sharedRole]}
+                  </span>
+                )}
               </div>
               <p className="shrink-0 text-[11px] font-medium tulis-muted">
-                {note.updatedAt?.toDate
-                  ? new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' }).format(note.updatedAt.toDate())
+                {note.updatedAtMs !== null
+                  ? new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' }).format(new Date(note.updatedAtMs))
                   : 'Recent'}
               </p>
             </div>
@@ -802,7 +1494,18 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
 
             {isMenuOpen && (
               <div className="absolute right-0 top-[calc(100%+0.35rem)] z-40 min-w-[148px] rounded-[var(--rSm)] border border-[color:var(--border2)] bg-[color:var(--surface)] p-1 shadow-sm">
-                {sidebarMode === 'notes' ? (
+                {note.sharedRole ? (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setOpenRowMenuId(null);
+                      void leaveSharedNote(note.id);
+                    }}
+                    className="flex w-full items-center rounded-[calc(var(--rSm)-4px)] px-2 py-1.5 text-left text-xs text-[color:var(--dangerText)] transition-colors hover:bg-[color:var(--surface2)]"
+                  >
+                    Leave shared note
+                  </button>
+                ) : sidebarMode === 'notes' ? (
                   <>
                     <button
                       type="button"
@@ -814,6 +1517,32 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
                     >
                       {note.pinned ? 'Unpin note' : 'Pin note'}
                     </button>
+                    {notebookOptions.length > 0 && (
+                      <div className="mt-0.5 border-t border-[color:var(--border2)] pt-1">
+                        <p className="px-2 pb-0.5 pt-0.5 text-[10px] font-semibold uppercase tracking-[0.12em] text-[color:var(--text3)]">Move to</p>
+                        <div className="max-h-40 overflow-y-auto">
+                          {[{ id: null, name: 'Unfiled', depth: 0 }, ...notebookOptions.map(({ notebook, depth }) => ({
+                            id: notebook.id as string | null,
+                            name: notebook.name,
+                            depth,
+                          }))].map((option) => (
+                            <button
+                              key={option.id ?? UNFILED_NOTEBOOK_FILTER}
+                              type="button"
+                              disabled={option.id === noteNotebookId}
+                              onClick={() => {
+                                setOpenRowMenuId(null);
+                                void moveNoteToNotebook(note.id, option.id);
+                              }}
+                              className="flex w-full items-center truncate rounded-[calc(var(--rSm)-4px)] py-1.5 pr-2 text-left text-xs tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)] disabled:text-[color:var(--accent)] disabled:hover:bg-transparent"
+                              style={{ paddingLeft: `${8 + option.depth * 10}px` }}
+                            >
+                              {option.name}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                     <button
                       type="button"
                       onClick={() => {
@@ -878,39 +1607,88 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
       >
         <div className={`flex h-full min-h-0 flex-col ${isSidebarOpen ? 'opacity-100' : 'md:pointer-events-none md:opacity-0'}`}>
           <div className="shrink-0 px-3 pb-3 pt-4">
-            <button
-              type="button"
-              onClick={() => {
-                if (sidebarMode === 'trash') {
-                  void exitTrashMode();
-                  return;
-                }
-                void createNote();
-              }}
-              aria-label={sidebarMode === 'trash' ? 'Return to notes' : 'Create new note'}
-              title={sidebarMode === 'trash' ? 'Return to notes' : 'Create new note'}
-              className={`flex h-10 w-full items-center justify-center gap-2 rounded-[var(--rSm)] px-3 text-sm font-medium transition-colors ${sidebarMode === 'trash'
-                ? 'tulis-return-notes-btn border border-[color:var(--border2)] text-[color:var(--text2)] hover:bg-[color:var(--surface)] hover:text-[color:var(--text)]'
-                : 'bg-[color:var(--accent)] text-white transition-colors duration-150 hover:bg-[color:var(--accentHover)] active:bg-[color:var(--accentActive)]'
-                }`}
-            >
-              {sidebarMode === 'trash' ? (
-                <>
-                  <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
-                    <polyline points="15 18 9 12 15 6" strokeLinecap="round" strokeLinejoin="round" />
-                  </svg>
-                  <span>Return to Notes</span>
-                </>
-              ) : (
-                <>
+            <div className="relative flex gap-1.5" data-template-picker>
+              <button
+                type="button"
+                onClick={() => {
+                  if (sidebarMode === 'trash') {
+                    void exitTrashMode();
+                    return;
+                  }
+                  // Inside a notebook view, new notes are filed in that notebook.
+                  void createNote(notebookScopeIds ? effectiveNotebookFilter : null);
+                }}
+                aria-label={sidebarMode === 'trash' ? 'Return to notes' : 'Create new note'}
+                title={sidebarMode === 'trash' ? 'Return to notes' : 'Create new note'}
+                className={`flex h-10 min-w-0 flex-1 items-center justify-center gap-2 rounded-[var(--rSm)] px-3 text-sm font-medium transition-colors ${sidebarMode === 'trash'
+                  ? 'tulis-return-notes-btn border border-[color:var(--border2)] text-[color:var(--text2)] hover:bg-[color:var(--surface)] hover:text-[color:var(--text)]'
+                  : 'bg-[color:var(--accent)] text-white transition-colors duration-150 hover:bg-[color:var(--accentHover)] active:bg-[color:var(--accentActive)]'
+                  }`}
+              >
+                {sidebarMode === 'trash' ? (
+                  <>
+                    <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+                      <polyline points="15 18 9 12 15 6" strokeLinecap="round" strokeLinejoin="round" />
+                    </svg>
+                    <span>Return to Notes</span>
+                  </>
+                ) : (
+                  <>
+                    <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+                      <line x1="12" y1="5" x2="12" y2="19" strokeLinecap="round" />
+                      <line x1="5" y1="12" x2="19" y2="12" strokeLinecap="round" />
+                    </svg>
+                    <span>New Note</span>
+                  </>
+                )}
+              </button>
+              {sidebarMode === 'notes' && templates.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setIsTemplatePickerOpen((open) => !open)}
+                  aria-label="New note from template"
+                  aria-expanded={isTemplatePickerOpen}
+                  title="New note from template"
+                  className="flex h-10 w-10 shrink-0 items-center justify-center rounded-[var(--rSm)] bg-[color:var(--accent)] text-white transition-colors duration-150 hover:bg-[color:var(--accentHover)] active:bg-[color:var(--accentActive)]"
+                >
                   <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
-                    <line x1="12" y1="5" x2="12" y2="19" strokeLinecap="round" />
-                    <line x1="5" y1="12" x2="19" y2="12" strokeLinecap="round" />
+                    <polyline points="6 9 12 15 18 9" strokeLinecap="round" strokeLinejoin="round" />
                   </svg>
-                  <span>New Note</span>
-                </>
+                </button>
+              )}
+              {isTemplatePickerOpen && sidebarMode === 'notes' && (
+                <div
+                  role="menu"
+                  aria-label="Templates"
+                  className="absolute left-0 right-0 top-11 z-50 max-h-[320px] overflow-y-auto rounded-[var(--rMd)] border border-[color:var(--border)] bg-[color:var(--surface)] p-1.5 shadow-sm"
+                >
+                  <button
+                    type="button"
+                    role="menuitem"
+                    onClick={() => {
+                      void createNote(notebookScopeIds ? effectiveNotebookFilter : null);
+                    }}
+                    className="flex w-full items-center rounded-[calc(var(--rSm)-2px)] px-2.5 py-2 text-left text-xs tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+                  >
+                    Blank note
+                  </button>
+                  <p className="px-2.5 pb-1 pt-2 text-[10px] font-semibold uppercase tracking-wide tulis-muted">Templates</p>
+                  {templates.map((template) => (
+                    <button
+                      key={template.id}
+                      type="button"
+                      role="menuitem"
+                      onClick={() => {
+                        void createNote(notebookScopeIds ? effectiveNotebookFilter : null, template);
+                      }}
+                      className="mt-0.5 flex w-full items-center rounded-[calc(var(--rSm)-2px)] px-2.5 py-2 text-left text-xs tulis-text transition-colors hover:bg-[color:var(--surface2)]"
+                    >
+                      <span className="truncate">{template.title}</span>
+                    </button>
+                  ))}
+                </div>
               )}
-            </button>
+            </div>
 
             <div className="mt-3">
               <div className="relative">
@@ -920,12 +1698,11 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
                     <path d="m21 21-4.35-4.35" />
                   </svg>
                 </div>
-                <input
-                  type="search"
+                <SearchQueryInput
                   value={searchInput}
-                  onChange={(event) => setSearchInput(event.target.value)}
-                  placeholder={sidebarMode === 'trash' ? 'Search trash' : 'Search title, content, labels'}
-                  className="h-10 w-full rounded-[var(--rSm)] border border-[color:var(--border)] bg-[color:var(--surface)] pl-10 pr-3 text-sm tulis-text placeholder:text-[color:var(--text3)] focus:border-[color:var(--accent)] focus:outline-none"
+                  onChange={setSearchInput}
+                  labels={allLabels}
+                  placeholder={sidebarMode === 'trash' ? 'Search trash' : 'Search, or try #label, is:pinned, updated:7d'}
                 />
               </div>
             </div>
@@ -937,7 +1714,7 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
                   aria-label="Note filters"
                   className="inline-flex h-10 w-full items-center rounded-[calc(var(--rSm)-2px)] border border-[color:var(--border2)] bg-transparent p-0.5"
                 >
-                  {SIDEBAR_VIEW_OPTIONS.map((option) => {
+                  {SIDEBAR_VIEW_OPTIONS.filter((option) => option.value !== 'shared' || storageMode === 'cloud').map((option) => {
                     const isActive = activeView === option.value;
 
                     return (
@@ -964,36 +1741,154 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
 
           <div className="min-h-0 flex-1 overflow-y-auto px-3 pb-3">
             {sidebarMode === 'notes' && (
-              <div>
-                <p className="pl-3 text-[11px] font-semibold uppercase tracking-[0.15em] text-[color:var(--text3)]">Labels</p>
-                <div className="mt-1.5 space-y-1.5">
-                  {allLabels.length === 0 ? (
-                    <p className="pl-4 text-xs tulis-muted">No labels yet</p>
-                  ) : (
-                    allLabels.map((label) => (
-                      <button
-                        key={label}
-                        type="button"
-                        onClick={() => {
-                          setActiveLabel((current) => current === label ? null : label);
-                        }}
-                        className={`w-full rounded-[var(--rSm)] py-1.5 pl-4 pr-2 text-left text-xs font-medium transition-colors ${activeLabel === label
-                          ? 'bg-[color:var(--surface2)] text-[color:var(--text)]'
-                          : 'tulis-muted hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]'
-                          }`}
-                      >
-                        {label}
-                      </button>
-                    ))
-                  )}
-                </div>
+              <div className="mb-3 border-b border-[color:var(--border2)] pb-3">
+                <SmartFolderList
+                  savedSearches={sortedSavedSearches}
+                  counts={savedSearchCounts}
+                  activeId={activeSavedSearchId}
+                  canSaveCurrent={canSaveCurrentSearch}
+                  onSelect={selectSavedSearch}
+                  onCreate={(name) => {
+                    void createSavedSearch(name);
+                  }}
+                  onRename={(savedSearchId, name) => {
+                    void renameSavedSearch(savedSearchId, name);
+                  }}
+                  onUpdateToCurrent={(savedSearchId) => {
+                    void updateSavedSearchToCurrent(savedSearchId);
+                  }}
+                  onMove={(savedSearchId, offset) => {
+                    void reorderSavedSearch(savedSearchId, offset);
+                  }}
+                  onDelete={(savedSearchId) => {
+                    void deleteSavedSearch(savedSearchId);
+                  }}
+                />
               </div>
             )}
+            {sidebarMode === 'notes' && !isSharedView && (
+              <div className="mb-3 border-b border-[color:var(--border2)] pb-3">
+                <button
+                  type="button"
+                  onClick={() => {
+                    closeOnMobile();
+                    router.push('/tasks');
+                  }}
+                  className="flex w-full items-center gap-2 rounded-[var(--rSm)] py-1.5 pl-3 pr-2 text-left text-xs font-medium tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+                  title="Open checklist items across your notes"
+                >
+                  <svg className="h-3.5 w-3.5 shrink-0" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <rect x="3" y="3" width="18" height="18" rx="4" />
+                    <polyline points="8 12 11 15 16 9" strokeLinecap="round" strokeLinejoin="round" />
+                  </svg>
+                  <span className="flex-1">Tasks</span>
+                  <span className="text-[11px] tabular-nums text-[color:var(--text3)]">{openTaskCount}</span>
+                </button>
+              </div>
+            )}
+            {sidebarMode === 'notes' && !isSharedView && (
+              <div className="mb-3 border-b border-[color:var(--border2)] pb-3">
+                <ReminderList
+                  reminders={scheduledReminders}
+                  nowMs={reminderCheckedAtMs}
+                  permission={notificationPermission}
+                  onRequestPermission={() => {
+                    void requestNotificationPermission();
+                  }}
+                  onOpen={(reminder) => router.push(reminderHref(reminder.noteId, reminder.reminderId))}
+                  onAction={handleReminderAction}
+                  onOpenAgenda={() => {
+                    closeOnMobile();
+                    router.push('/agenda');
+                  }}
+                />
+              </div>
+            )}
+            {sidebarMode === 'notes' && !isSharedView && (
+              <div className="mb-3 border-b border-[color:var(--border2)] pb-3">
+                <JournalCalendar
+                  entries={journalEntries}
+                  activeDate={activeJournalDate}
+                  isOpen={isJournalCalendarOpen}
+                  onToggleOpen={() => setIsJournalCalendarOpen((open) => !open)}
+                  onSelectDate={openJournalDate}
+                />
+              </div>
+            )}
+            {sidebarMode === 'notes' && !isSharedView && (
+              <div className="mb-3 border-b border-[color:var(--border2)] pb-3">
+                <NotebookTree
+                  tree={notebookTree}
+                  directNoteCounts={directNotebookNoteCounts}
+                  activeFilter={effectiveNotebookFilter}
+                  collapsedIds={collapsedNotebookIds}
+                  onFilterChange={setActiveNotebookFilter}
+                  onToggleCollapsed={toggleNotebookCollapsed}
+                  onCreateNotebook={(name, parentId) => {
+                    void createNotebook(name, parentId);
+                  }}
+                  onRenameNotebook={(notebookId, name) => {
+                    void renameNotebook(notebookId, name);
+                  }}
+                  onDeleteNotebook={(notebookId) => {
+                    void deleteNotebook(notebookId);
+                  }}
+                  onCreateNote={(notebookId) => {
+                    void createNote(notebookId);
+                  }}
+                  onMoveNote={(noteId, notebookId) => {
+                    void moveNoteToNotebook(noteId, notebookId);
+                  }}
+                />
+              </div>
+            )}
+
+            {sidebarMode === 'notes' && (
+              <LabelTree
+                tree={labelTree}
+                activeLabel={activeLabel}
+                labelColors={labelColors}
+                collapsedLabels={collapsedLabels}
+                onToggleCollapsed={toggleLabelCollapsed}
+                onSelect={setActiveLabel}
+                onManage={() => setLabelManagerUid(auth.currentUser?.uid ?? null)}
+              />
+            )}
 
             <div className={`${sidebarMode === 'notes' ? 'mt-3 border-t border-[color:var(--border2)] pt-3' : ''}`}>
+              {filters.root && visibleNotes.length > 0 && (
+                <div className="mb-2 flex items-center justify-between gap-2 px-1">
+                  <p className="text-[11px] tulis-muted">
+                    {visibleNotes.length} {visibleNotes.length === 1 ? 'result' : 'results'}
+                  </p>
+                  {isRankedSearch && (
+                    <div role="radiogroup" aria-label="Sort results" className="flex items-center gap-0.5">
+                      {(['relevance', 'recent'] as const).map((sort) => (
+                        <button
+                          key={sort}
+                          type="button"
+                          role="radio"
+                          aria-checked={searchSort === sort}
+                          onClick={() => setSearchSort(sort)}
+                          className={`rounded-[calc(var(--rSm)-2px)] px-1.5 py-0.5 text-[11px] font-medium transition-colors ${searchSort === sort
+                            ? 'bg-[color:var(--surface2)] text-[color:var(--text)]'
+                            : 'tulis-muted hover:text-[color:var(--text)]'
+                            }`}
+                        >
+                          {sort === 'relevance' ? 'Relevance' : 'Recent'}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
               {visibleNotes.length === 0 ? (
                 <p className="px-1 py-2 text-xs tulis-muted">
-                  {sidebarMode === 'trash' ? 'Trash is empty.' : 'No notes match this view.'}
+                  {sidebarMode === 'trash'
+                    ? 'Trash is empty.'
+                    : isSharedView && sharedNotes.length === 0
+                      ? 'Notes others share with you appear here.'
+                      : 'No notes match this view.'}
                 </p>
               ) : (
                 <ul className="space-y-1">
@@ -1138,6 +2033,137 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
                       </div>
                     </section>
 
+                    <section>
+                      <div
+                        role="radiogroup"
+                        aria-label="Note storage"
+                        className="inline-flex h-10 w-full items-center rounded-[calc(var(--rSm)-2px)] border border-[color:var(--border2)] bg-transparent p-0.5"
+                      >
+                        {[
+                          { value: 'cloud', label: 'Cloud sync', Icon: FiCloud },
+                          { value: 'local', label: 'This device only', Icon: FiHardDrive },
+                        ].map(({ value, label, Icon }) => {
+                          const selected = storageMode === value;
+
+                          return (
+                            <button
+                              key={value}
+                              type="button"
+                              role="radio"
+                              aria-checked={selected}
+                              onClick={() => {
+                                if (selected) return;
+                                setNotesStorageMode(value as NotesStorageMode);
+                                // The vaults hold different notes, so start over from the list.
+                                window.location.assign('/notes');
+                              }}
+                              className={`flex h-full min-w-0 flex-1 items-center justify-center gap-1.5 rounded-[calc(var(--rSm)-4px)] px-2 text-[13px] font-medium tracking-[0.02em] transition-colors ${selected
+                                ? 'text-[color:var(--accent)]'
+                                : 'bg-transparent text-[color:var(--text2)] hover:text-[color:var(--text)]'
+                                }`}
+                              style={{
+                                backgroundColor: selected ? 'var(--accentTintUi)' : undefined,
+                              }}
+                            >
+                              <Icon className="h-4 w-4" aria-hidden="true" />
+                              <span>{label}</span>
+                            </button>
+                          );
+                        })}
+                      </div>
+                      <p className="mt-2 text-xs tulis-muted">
+                        {storageMode === 'local'
+                          ? 'Notes are kept in this browser and never leave the device.'
+                          : 'Notes sync to your account across devices.'}
+                      </p>
+                    </section>
+
+                    {templates.length > 0 && (
+                      <section>
+                        <label className="flex items-center justify-between gap-3">
+                          <span className="text-xs tulis-muted">Journal template</span>
+                          <select
+                            value={journalTemplateId && templates.some((template) => template.id === journalTemplateId) ? journalTemplateId : ''}
+                            onChange={(event) => updateJournalTemplate(event.target.value || null)}
+                            className="h-9 min-w-0 max-w-[60%] rounded-[var(--rSm)] border border-[color:var(--border)] bg-[color:var(--surface)] px-2 text-xs tulis-text focus:border-[color:var(--accent)] focus:outline-none"
+                          >
+                            <option value="">None</option>
+                            {templates.map((template) => (
+                              <option key={template.id} value={template.id}>{template.title}</option>
+                            ))}
+                          </select>
+                        </label>
+                      </section>
+                    )}
+
+                    <section>
+                      <p className="text-xs tulis-muted">Import</p>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          const uid = auth.currentUser?.uid;
+                          if (!uid) return;
+                          closeSettingsSheet({ immediate: true });
+                          setImportDialogUid(uid);
+                        }}
+                        className="mt-2 h-9 w-full rounded-[var(--rSm)] border border-[color:var(--border)] px-3 text-xs font-medium tulis-text transition-colors hover:bg-[color:var(--surface2)]"
+                      >
+                        Import from Keep, Evernote or Notion…
+                      </button>
+                    </section>
+
+                    <section>
+                      <p className="text-xs tulis-muted">Backup</p>
+                      <div className="mt-2 flex gap-2">
+                        <button
+                          type="button"
+                          disabled={backupAction !== null}
+                          onClick={() => {
+                            void exportBackup();
+                          }}
+                          className="h-9 flex-1 rounded-[var(--rSm)] border border-[color:var(--border)] px-3 text-xs font-medium tulis-text transition-colors hover:bg-[color:var(--surface2)] disabled:opacity-60"
+                        >
+                          {backupAction === 'export' ? 'Exporting…' : 'Export ZIP'}
+                        </button>
+                        <button
+                          type="button"
+                          disabled={backupAction !== null}
+                          onClick={() => backupFileInputRef.current?.click()}
+                          className="h-9 flex-1 rounded-[var(--rSm)] border border-[color:var(--border)] px-3 text-xs font-medium tulis-text transition-colors hover:bg-[color:var(--surface2)] disabled:opacity-60"
+                        >
+                          {backupAction === 'restore' ? 'Restoring…' : 'Restore from ZIP'}
+                        </button>
+                        <input
+                          ref={backupFileInputRef}
+                          type="file"
+                          accept=".zip,application/zip"
+                          className="hidden"
+                          onChange={(event) => {
+                            const file = event.target.files?.[0];
+                            event.target.value = '';
+                            if (file) void restoreBackup(file);
+                          }}
+                        />
+                      </div>
+                      <label className="mt-2 flex items-center gap-2 text-xs tulis-muted">
+                        <input
+                          type="checkbox"
+                          checked={backupIncludesTrash}
+                          onChange={(event) => setBackupIncludesTrash(event.target.checked)}
+                          className="accent-[color:var(--accent)]"
+                        />
+                        Include notes in Trash
+                      </label>
+                      {backupStatus && (
+                        <p
+                          className={`mt-2 text-xs ${backupStatus.tone === 'error' ? 'text-[color:var(--dangerText)]' : 'tulis-muted'}`}
+                          aria-live="polite"
+                        >
+                          {backupStatus.message}
+                        </p>
+                      )}
+                    </section>
+
                     <section>
                       <button
                         type="button"
@@ -1198,6 +2224,41 @@ export function NotesDrawer({ isSidebarOpen, currentNoteId, sidebarMode, onSideb
         </div>
       )}
 
+      {importDialogUid && (
+        <ImportNotesDialog ownerUid={importDialogUid} onClose={() => setImportDialogUid(null)} />
+      )}
+
+      {labelManagerUid && (
+        <LabelManagerDialog
+          ownerUid={labelManagerUid}
+          labelTree={labelTree}
+          labelColors={labelColors}
+          onLabelsChanged={(changes) => {
+            void followLabelChanges(changes);
+          }}
+          onClose={() => setLabelManagerUid(null)}
+        />
+      )}
+
+      {isQuickSwitcherOpen && (
+        <QuickSwitcher
+          notes={quickSwitcherNotes}
+          savedSearches={sortedSavedSearches}
+          savedSearchCounts={savedSearchCounts}
+          onOpenNote={(noteId) => {
+            setIsQuickSwitcherOpen(false);
+            router.push(`/notes/${noteId}`);
+          }}
+          onOpenSavedSearch={(savedSearchId) => {
+            setIsQuickSwitcherOpen(false);
+            if (sidebarMode === 'trash') void exitTrashMode();
+            selectSavedSearch(savedSearchId);
+            onOpen();
+          }}
+          onClose={() => setIsQuickSwitcherOpen(false)}
+        />
+      )}
+
     </>
   );
 }
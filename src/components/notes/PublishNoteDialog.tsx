@@ -0,0 +1,229 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { JSONContent } from '@tiptap/core';
+import {
+  publishedNotePath,
+  publishNote,
+  setAutoRepublish,
+  unpublishNote,
+  updatePublishedSnapshot,
+} from '@/lib/notePublishing';
+
+type PublishNoteDialogProps = {
+  noteId: string;
+  ownerUid: string;
+  publishedSlug: string | null;
+  autoRepublish: boolean;
+  // The note as it should appear publicly right now.
+  getSnapshot: () => { title: string; contentJson: JSONContent };
+  onClose: () => void;
+};
+
+type PublishAction = 'publish' | 'update' | 'unpublish' | 'auto';
+
+type PublishStatus =
+  | { tone: 'info' | 'error'; message: string }
+  | null;
+
+export function PublishNoteDialog({
+  noteId,
+  ownerUid,
+  publishedSlug,
+  autoRepublish,
+  getSnapshot,
+  onClose,
+}: PublishNoteDialogProps) {
+  const [pendingAction, setPendingAction] = useState<PublishAction | null>(null);
+  const [status, setStatus] = useState<PublishStatus>(null);
+
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const publicUrl = publishedSlug ? `${window.location.origin}${publishedNotePath(publishedSlug)}` : null;
+
+  const run = async (action: PublishAction, task: () => Promise<string | null>, failure: string) => {
+    if (pendingAction) return;
+
+    setPendingAction(action);
+    setStatus(null);
+    try {
+      const message = await task();
+      if (message) setStatus({ tone: 'info', message });
+    } catch (error) {
+      console.error('Failed to update note publication:', error);
+      setStatus({ tone: 'error', message: failure });
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const publish = () => run('publish', async () => {
+    await publishNote({ id: noteId, ownerUid, ...getSnapshot() });
+    return 'Anyone with the link can now read this note.';
+  }, 'Could not publish the note. Try again.');
+
+  const updateNow = () => run('update', async () => {
+    if (!publishedSlug) return null;
+    await updatePublishedSnapshot(publishedSlug, getSnapshot());
+    return 'The public page now matches this note.';
+  }, 'Could not update the public page. Try again.');
+
+  const unpublish = () => run('unpublish', async () => {
+    if (!publishedSlug) return null;
+    await unpublishNote(noteId, publishedSlug);
+    return 'The public page was removed.';
+  }, 'Could not unpublish the note. Try again.');
+
+  const toggleAutoRepublish = (enabled: boolean) => run('auto', async () => {
+    await setAutoRepublish(noteId, enabled);
+    return null;
+  }, 'Could not change the update setting. Try again.');
+
+  const copyLink = async () => {
+    if (!publicUrl) return;
+
+    try {
+      await navigator.clipboard.writeText(publicUrl);
+      setStatus({ tone: 'info', message: 'Link copied.' });
+    } catch (error) {
+      console.warn('Failed to copy published link:', error);
+      setStatus({ tone: 'error', message: 'Could not copy the link.' });
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[70] flex items-center justify-center bg-black/40 px-3 py-6"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Publish note"
+        onClick={(event) => event.stopPropagation()}
+        className="tulis-surface flex max-h-full w-full max-w-[440px] flex-col overflow-hidden rounded-[var(--rLg)] border tulis-border shadow-[var(--shadow2)]"
+      >
+        <div className="flex shrink-0 items-center justify-between gap-3 border-b border-[color:var(--divider)] px-4 py-3">
+          <h2 className="text-sm font-semibold tracking-tight tulis-text">Publish to the web</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex h-8 w-8 items-center justify-center rounded-[var(--rSm)] text-[color:var(--text3)] transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text2)]"
+            aria-label="Close publish dialog"
+          >
+            <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+              <path d="M18 6 6 18" strokeLinecap="round" />
+              <path d="m6 6 12 12" strokeLinecap="round" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="space-y-3 px-4 py-3">
+          {publicUrl ? (
+            <>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  value={publicUrl}
+                  aria-label="Public link"
+                  onFocus={(event) => event.target.select()}
+                  className="h-9 min-w-0 flex-1 rounded-[var(--rSm)] border border-[color:var(--border)] bg-[color:var(--surface2)] px-3 text-xs tulis-text focus:border-[color:var(--accent)] focus:outline-none"
+                />
+                <button
+                  type="button"
+                  onClick={() => {
+                    void copyLink();
+                  }}
+                  className="h-9 shrink-0 rounded-[var(--rSm)] border border-[color:var(--border)] px-3 text-xs font-medium tulis-text transition-colors hover:bg-[color:var(--surface2)]"
+                >
+                  Copy
+                </button>
+                <a
+                  href={publicUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex h-9 shrink-0 items-center rounded-[var(--rSm)] border border-[color:var(--border)] px-3 text-xs font-medium tulis-text transition-colors hover:bg-[color:var(--surface2)]"
+                >
+                  Open
+                </a>
+              </div>
+
+              <label className="flex items-start gap-2 text-xs tulis-text">
+                <input
+                  type="checkbox"
+                  checked={autoRepublish}
+                  disabled={pendingAction !== null}
+                  onChange={(event) => {
+                    void toggleAutoRepublish(event.target.checked);
+                  }}
+                  className="mt-0.5 accent-[color:var(--accent)]"
+                />
+                <span>
+                  Update automatically when the note changes
+                  <span className="block tulis-muted">Otherwise the page keeps this snapshot until you update it.</span>
+                </span>
+              </label>
+            </>
+          ) : (
+            <p className="text-xs tulis-muted">
+              Publishing creates a read-only snapshot of this note that anyone with the link can open, without signing in.
+            </p>
+          )}
+
+          <p
+            className={`min-h-[1rem] text-xs ${status?.tone === 'error' ? 'text-[color:var(--dangerText)]' : 'tulis-muted'}`}
+            aria-live="polite"
+          >
+            {status?.message ?? ''}
+          </p>
+        </div>
+
+        <div className="flex shrink-0 items-center justify-end gap-2 border-t border-[color:var(--divider)] px-4 py-3">
+          {publishedSlug ? (
+            <>
+              <button
+                type="button"
+                disabled={pendingAction !== null}
+                onClick={() => {
+                  void unpublish();
+                }}
+                className="h-8 rounded-[var(--rSm)] px-3 text-xs font-medium text-[color:var(--dangerText)] transition-colors hover:bg-[color:var(--dangerTint)] disabled:opacity-60"
+              >
+                {pendingAction === 'unpublish' ? 'Unpublishing…' : 'Unpublish'}
+              </button>
+              <button
+                type="button"
+                disabled={pendingAction !== null}
+                onClick={() => {
+                  void updateNow();
+                }}
+                className="h-8 rounded-[var(--rSm)] bg-[color:var(--accent)] px-3 text-xs font-semibold text-white transition-colors hover:bg-[color:var(--accentHover)] disabled:opacity-60"
+              >
+                {pendingAction === 'update' ? 'Updating…' : 'Update now'}
+              </button>
+            </>
+          ) : (
+            <button
+              type="button"
+              disabled={pendingAction !== null}
+              onClick={() => {
+                void publish();
+              }}
+              className="h-8 rounded-[var(--rSm)] bg-[color:var(--accent)] px-3 text-xs font-semibold text-white transition-colors hover:bg-[color:var(--accentHover)] disabled:opacity-60"
+            >
+              {pendingAction === 'publish' ? 'Publishing…' : 'Publish'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
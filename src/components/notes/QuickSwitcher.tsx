@@ -0,0 +1,169 @@
+'use client';
+
+import { useEffect, useId, useMemo, useRef, useState } from 'react';
+import type { SavedSearchRecord } from '@/lib/notesRepository';
+import { tokenizeSearchText } from '@/lib/noteSearchIndex';
+import { describeSavedSearch } from '@/lib/savedSearches';
+
+type QuickSwitcherNote = {
+  id: string;
+  title: string;
+  updatedAtMs: number | null;
+};
+
+type QuickSwitcherProps = {
+  notes: QuickSwitcherNote[];
+  // Already in sidebar order.
+  savedSearches: SavedSearchRecord[];
+  savedSearchCounts: Map<string, number>;
+  onOpenNote: (noteId: string) => void;
+  onOpenSavedSearch: (savedSearchId: string) => void;
+  onClose: () => void;
+};
+
+type QuickSwitcherItem =
+  | { kind: 'savedSearch'; savedSearch: SavedSearchRecord }
+  | { kind: 'note'; note: QuickSwitcherNote };
+
+const MAX_NOTE_RESULTS = 30;
+
+// Every query word has to start some word of the name.
+const matchesName = (name: string, queryTokens: string[]): boolean => {
+  const nameTokens = tokenizeSearchText(name);
+  return queryTokens.every((queryToken) => nameTokens.some((token) => token.startsWith(queryToken)));
+};
+
+export function QuickSwitcher({
+  notes,
+  savedSearches,
+  savedSearchCounts,
+  onOpenNote,
+  onOpenSavedSearch,
+  onClose,
+}: QuickSwitcherProps) {
+  const listId = useId();
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const listRef = useRef<HTMLUListElement | null>(null);
+
+  const items = useMemo<QuickSwitcherItem[]>(() => {
+    const queryTokens = tokenizeSearchText(query);
+    const matchingSearches = savedSearches
+      .filter((savedSearch) => matchesName(savedSearch.name, queryTokens))
+      .map((savedSearch) => ({ kind: 'savedSearch' as const, savedSearch }));
+    const matchingNotes = notes
+      .filter((note) => matchesName(note.title, queryTokens))
+      .sort((a, b) => (b.updatedAtMs ?? 0) - (a.updatedAtMs ?? 0))
+      .slice(0, MAX_NOTE_RESULTS)
+      .map((note) => ({ kind: 'note' as const, note }));
+    return [...matchingSearches, ...matchingNotes];
+  }, [notes, query, savedSearches]);
+
+  const [previousItems, setPreviousItems] = useState(items);
+  if (previousItems !== items) {
+    setPreviousItems(items);
+    setSelectedIndex(0);
+  }
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    listRef.current?.querySelector('[aria-selected="true"]')?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const selectedItem = items[selectedIndex] as QuickSwitcherItem | undefined;
+
+  const openItem = (item: QuickSwitcherItem | undefined) => {
+    if (!item) return;
+    if (item.kind === 'savedSearch') onOpenSavedSearch(item.savedSearch.id);
+    else onOpenNote(item.note.id);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[170] flex items-start justify-center bg-black/40 px-3 pt-[12vh]"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Quick switcher"
+        onClick={(event) => event.stopPropagation()}
+        className="tulis-surface flex max-h-[70vh] w-full max-w-[520px] flex-col overflow-hidden rounded-[var(--rLg)] border tulis-border shadow-[var(--shadow2)]"
+      >
+        <input
+          ref={inputRef}
+          type="text"
+          role="combobox"
+          aria-expanded="true"
+          aria-controls={listId}
+          aria-activedescendant={items.length > 0 ? `${listId}-${selectedIndex}` : undefined}
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+              event.preventDefault();
+              if (items.length === 0) return;
+              const step = event.key === 'ArrowDown' ? 1 : items.length - 1;
+              setSelectedIndex((selectedIndex + step) % items.length);
+            } else if (event.key === 'Enter') {
+              event.preventDefault();
+              openItem(selectedItem);
+            } else if (event.key === 'Escape') {
+              // Keep the drawer's Escape handler from closing the sidebar too.
+              event.stopPropagation();
+              onClose();
+            }
+          }}
+          placeholder="Jump to a note or smart folder"
+          className="h-12 w-full shrink-0 border-b border-[color:var(--divider)] bg-transparent px-4 text-sm tulis-text placeholder:text-[color:var(--text3)] focus:outline-none"
+        />
+        {items.length === 0 ? (
+          <p className="px-4 py-3 text-xs tulis-muted">Nothing matches.</p>
+        ) : (
+          <ul ref={listRef} id={listId} role="listbox" aria-label="Notes and smart folders" className="min-h-0 flex-1 overflow-y-auto p-1.5">
+            {items.map((item, index) => {
+              const isSelected = index === selectedIndex;
+              const key = item.kind === 'savedSearch' ? `search:${item.savedSearch.id}` : `note:${item.note.id}`;
+
+              return (
+                <li
+                  key={key}
+                  id={`${listId}-${index}`}
+                  role="option"
+                  aria-selected={isSelected}
+                  onMouseDown={(event) => {
+                    // Keep focus in the input.
+                    event.preventDefault();
+                    openItem(item);
+                  }}
+                  onMouseEnter={() => setSelectedIndex(index)}
+                  className={`flex cursor-pointer items-baseline justify-between gap-3 rounded-[var(--rSm)] px-2.5 py-2 text-sm ${isSelected ? 'bg-[color:var(--surface2)]' : ''}`}
+                >
+                  {item.kind === 'savedSearch' ? (
+                    <>
+                      <span className="min-w-0 truncate font-medium tulis-text">{item.savedSearch.name}</span>
+                      <span className="shrink-0 truncate text-xs tulis-muted">
+                        Smart folder · {savedSearchCounts.get(item.savedSearch.id) ?? 0}
+                      </span>
+                    </>
+                  ) : (
+                    <span className="min-w-0 truncate tulis-text">{item.note.title}</span>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        <p className="shrink-0 border-t border-[color:var(--divider)] px-4 py-2 text-[11px] tulis-muted">
+          {selectedItem?.kind === 'savedSearch'
+            ? describeSavedSearch(selectedItem.savedSearch)
+            : 'Enter to open · Esc to close'}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useState } from 'react';
+import type { ReminderAction, ScheduledReminder } from '@/lib/reminders';
+
+type ReminderListProps = {
+  // Soonest first.
+  reminders: ScheduledReminder[];
+  nowMs: number;
+  permission: NotificationPermission | 'unsupported';
+  onRequestPermission: () => void;
+  onOpen: (reminder: ScheduledReminder) => void;
+  onAction: (reminderKey: string, action: ReminderAction) => void;
+  onOpenAgenda: () => void;
+};
+
+const COLLAPSED_REMINDER_COUNT = 5;
+
+const dueFormatter = new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export function ReminderList({ reminders, nowMs, permission, onRequestPermission, onOpen, onAction, onOpenAgenda }: ReminderListProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const visibleReminders = isExpanded ? reminders : reminders.slice(0, COLLAPSED_REMINDER_COUNT);
+  const hiddenCount = reminders.length - visibleReminders.length;
+
+  const actionButtonClassName = 'rounded-[calc(var(--rSm)-4px)] px-1.5 py-0.5 text-[11px] font-medium transition-colors hover:bg-[color:var(--surface)] hover:text-[color:var(--text)]';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between pr-1">
+        <p className="pl-3 text-[11px] font-semibold uppercase tracking-[0.15em] text-[color:var(--text3)]">Reminders</p>
+        <div className="flex items-center">
+          {permission === 'default' && reminders.length > 0 && (
+            <button
+              type="button"
+              onClick={onRequestPermission}
+              className="rounded-[calc(var(--rSm)-4px)] px-1.5 py-0.5 text-[11px] font-medium text-[color:var(--accent)] transition-colors hover:bg-[color:var(--surface2)]"
+            >
+              Turn on notifications
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onOpenAgenda}
+            className="rounded-[calc(var(--rSm)-4px)] px-1.5 py-0.5 text-[11px] font-medium text-[color:var(--text3)] transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+            title="Every date across your notes"
+          >
+            Agenda
+          </button>
+        </div>
+      </div>
+
+      {permission === 'denied' && reminders.length > 0 && (
+        <p className="mt-1 pl-4 text-[11px] tulis-muted">Notifications are blocked in this browser.</p>
+      )}
+
+      <ul aria-label="Reminders" className="mt-1.5 space-y-0.5">
+        {reminders.length === 0 ? (
+          <li>
+            <p className="pl-4 text-xs tulis-muted">Click a date chip to add a reminder</p>
+          </li>
+        ) : (
+          visibleReminders.map((reminder) => {
+            const isOverdue = reminder.dueAtMs <= nowMs;
+
+            return (
+              <li
+                key={reminder.key}
+                className="group flex items-center rounded-[var(--rSm)] pr-1 tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]"
+              >
+                <button
+                  type="button"
+                  onClick={() => onOpen(reminder)}
+                  className="flex min-w-0 flex-1 flex-col py-1.5 pl-4 text-left"
+                >
+                  <span className="truncate text-xs font-medium">{reminder.noteTitle}</span>
+                  <span className={`text-[11px] ${isOverdue ? 'text-[color:var(--dangerText)]' : 'text-[color:var(--text3)]'}`}>
+                    {isOverdue ? 'Overdue · ' : ''}{dueFormatter.format(reminder.dueAtMs)}
+                  </span>
+                </button>
+                <div className="hidden shrink-0 items-center group-focus-within:flex group-hover:flex">
+                  <button
+                    type="button"
+                    onClick={() => onAction(reminder.key, 'snooze')}
+                    className={actionButtonClassName}
+                    title="Remind me again in an hour"
+                  >
+                    Snooze
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onAction(reminder.key, 'dismiss')}
+                    className={actionButtonClassName}
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </li>
+            );
+          })
+        )}
+      </ul>
+
+      {(hiddenCount > 0 || isExpanded) && reminders.length > COLLAPSED_REMINDER_COUNT && (
+        <button
+          type="button"
+          onClick={() => setIsExpanded((current) => !current)}
+          className="mt-0.5 pl-4 text-[11px] font-medium text-[color:var(--text3)] transition-colors hover:text-[color:var(--text)]"
+        >
+          {isExpanded ? 'Show fewer' : `Show ${hiddenCount} more`}
+        </button>
+      )}
+    </div>
+  );
+}
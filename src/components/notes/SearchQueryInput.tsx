@@ -0,0 +1,116 @@
+'use client';
+
+import { useId, useMemo, useRef, useState } from 'react';
+import { applySearchSuggestion, searchCompletions, type SearchSuggestion } from '@/lib/searchAutocomplete';
+
+type SearchQueryInputProps = {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder: string;
+  labels: string[];
+};
+
+export function SearchQueryInput({ value, onChange, placeholder, labels }: SearchQueryInputProps) {
+  const listId = useId();
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  const [caret, setCaret] = useState<number | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  // Escape hides suggestions until the query changes.
+  const [dismissedQuery, setDismissedQuery] = useState<string | null>(null);
+
+  const completion = useMemo(() => (
+    caret === null || dismissedQuery === value ? null : searchCompletions(value, caret, { labels })
+  ), [caret, dismissedQuery, labels, value]);
+
+  const [previousCompletion, setPreviousCompletion] = useState(completion);
+  if (previousCompletion !== completion) {
+    setPreviousCompletion(completion);
+    setSelectedIndex(0);
+  }
+
+  const activeIndex = completion ? Math.min(selectedIndex, completion.suggestions.length - 1) : -1;
+
+  const syncCaret = (input: HTMLInputElement) => {
+    setCaret(document.activeElement === input ? input.selectionStart : null);
+  };
+
+  const accept = (suggestion: SearchSuggestion) => {
+    if (!completion) return;
+
+    const next = applySearchSuggestion(value, completion, suggestion);
+    onChange(next.query);
+    setCaret(next.caret);
+    window.requestAnimationFrame(() => {
+      inputRef.current?.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="search"
+        role="combobox"
+        aria-expanded={completion !== null}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={completion ? `${listId}-${activeIndex}` : undefined}
+        value={value}
+        onChange={(event) => {
+          onChange(event.target.value);
+          syncCaret(event.target);
+        }}
+        onSelect={(event) => syncCaret(event.currentTarget)}
+        onFocus={(event) => syncCaret(event.currentTarget)}
+        onBlur={() => setCaret(null)}
+        onKeyDown={(event) => {
+          if (!completion) return;
+
+          if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+            event.preventDefault();
+            const count = completion.suggestions.length;
+            setSelectedIndex((activeIndex + (event.key === 'ArrowDown' ? 1 : count - 1)) % count);
+          } else if (event.key === 'Enter' || event.key === 'Tab') {
+            event.preventDefault();
+            accept(completion.suggestions[activeIndex]);
+          } else if (event.key === 'Escape') {
+            // Keep Escape from also closing the drawer.
+            event.stopPropagation();
+            setDismissedQuery(value);
+          }
+        }}
+        placeholder={placeholder}
+        className="h-10 w-full rounded-[var(--rSm)] border border-[color:var(--border)] bg-[color:var(--surface)] pl-10 pr-3 text-sm tulis-text placeholder:text-[color:var(--text3)] focus:border-[color:var(--accent)] focus:outline-none"
+      />
+      {completion && (
+        <ul
+          id={listId}
+          role="listbox"
+          aria-label="Search suggestions"
+          className="tulis-surface absolute left-0 right-0 top-full z-20 mt-1 max-h-64 overflow-y-auto rounded-[var(--rMd)] border tulis-border p-1 shadow-[var(--shadow2)]"
+        >
+          {completion.suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion.value}
+              id={`${listId}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={(event) => {
+                // Keep focus (and the caret) in the input.
+                event.preventDefault();
+                accept(suggestion);
+              }}
+              onMouseEnter={() => setSelectedIndex(index)}
+              className={`flex cursor-pointer items-baseline justify-between gap-3 rounded-[var(--rSm)] px-2.5 py-1.5 text-xs ${index === activeIndex ? 'bg-[color:var(--surface2)]' : ''}`}
+            >
+              <span className="font-medium tulis-text" style={{ fontFamily: 'var(--font-geist-mono)' }}>
+                {suggestion.label}
+              </span>
+              <span className="truncate tulis-muted">{suggestion.detail}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
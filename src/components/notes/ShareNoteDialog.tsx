@@ -0,0 +1,184 @@
+'use client';
+
+import { useEffect, useMemo, useState, type FormEvent } from 'react';
+import { MAX_NOTE_COLLABORATORS, NOTE_ROLE_LABELS, shareNoteByEmail } from '@/lib/noteSharing';
+import { getNotesRepository, type NoteCollaborator, type NoteRole } from '@/lib/notesRepository';
+
+type ShareNoteDialogProps = {
+  noteId: string;
+  ownerUid: string;
+  collaborators: Record<string, NoteCollaborator>;
+  onClose: () => void;
+};
+
+type InviteStatus =
+  | { tone: 'info' | 'error'; message: string }
+  | null;
+
+const ROLE_OPTIONS: NoteRole[] = ['viewer', 'editor'];
+
+export function ShareNoteDialog({ noteId, ownerUid, collaborators, onClose }: ShareNoteDialogProps) {
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<NoteRole>('editor');
+  const [isInviting, setIsInviting] = useState(false);
+  const [inviteStatus, setInviteStatus] = useState<InviteStatus>(null);
+  const [pendingUid, setPendingUid] = useState<string | null>(null);
+
+  useEffect(() => {
+    const handleEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+
+    window.addEventListener('keydown', handleEscape);
+    return () => window.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const collaboratorEntries = useMemo(
+    () => Object.entries(collaborators).sort(([, a], [, b]) => a.email.localeCompare(b.email)),
+    [collaborators],
+  );
+
+  const invite = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (isInviting || !email.trim()) return;
+
+    setIsInviting(true);
+    setInviteStatus(null);
+    try {
+      const result = await shareNoteByEmail({ id: noteId, ownerUid, collaborators }, email, role);
+      if (result.status === 'shared') {
+        setEmail('');
+        setInviteStatus({ tone: 'info', message: `Shared with ${result.user.email}.` });
+      } else if (result.status === 'self') {
+        setInviteStatus({ tone: 'error', message: 'You already own this note.' });
+      } else if (result.status === 'limit-reached') {
+        setInviteStatus({ tone: 'error', message: `A note can be shared with at most ${MAX_NOTE_COLLABORATORS} people.` });
+      } else {
+        setInviteStatus({ tone: 'error', message: 'No tulis user with that email.' });
+      }
+    } catch (error) {
+      console.error('Failed to share note:', error);
+      setInviteStatus({ tone: 'error', message: 'Could not share the note. Try again.' });
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const updateCollaborator = async (uid: string, collaborator: NoteCollaborator | null) => {
+    setPendingUid(uid);
+    try {
+      await getNotesRepository().setNoteCollaborator(noteId, uid, collaborator);
+    } catch (error) {
+      console.error('Failed to update note collaborator:', error);
+      setInviteStatus({ tone: 'error', message: 'Could not update access. Try again.' });
+    } finally {
+      setPendingUid(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[70] flex items-center justify-center bg-black/40 px-3 py-6"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Share note"
+        onClick={(event) => event.stopPropagation()}
+        className="tulis-surface flex max-h-full w-full max-w-[440px] flex-col overflow-hidden rounded-[var(--rLg)] border tulis-border shadow-[var(--shadow2)]"
+      >
+        <div className="flex shrink-0 items-center justify-between gap-3 border-b border-[color:var(--divider)] px-4 py-3">
+          <h2 className="text-sm font-semibold tracking-tight tulis-text">Share note</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="flex h-8 w-8 items-center justify-center rounded-[var(--rSm)] text-[color:var(--text3)] transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text2)]"
+            aria-label="Close share dialog"
+          >
+            <svg className="h-4 w-4" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+              <path d="M18 6 6 18" strokeLinecap="round" />
+              <path d="m6 6 12 12" strokeLinecap="round" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={invite} className="shrink-0 border-b border-[color:var(--divider)] px-4 py-3">
+          <div className="flex gap-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              placeholder="Invite by email"
+              aria-label="Email address"
+              autoComplete="off"
+              className="h-9 min-w-0 flex-1 rounded-[var(--rSm)] border border-[color:var(--border)] bg-[color:var(--surface)] px-3 text-sm tulis-text placeholder:text-[color:var(--text3)] focus:border-[color:var(--accent)] focus:outline-none"
+            />
+            <select
+              value={role}
+              onChange={(event) => setRole(event.target.value as NoteRole)}
+              aria-label="Role"
+              className="h-9 rounded-[var(--rSm)] border border-[color:var(--border)] bg-[color:var(--surface)] px-2 text-xs tulis-text focus:border-[color:var(--accent)] focus:outline-none"
+            >
+              {ROLE_OPTIONS.map((option) => (
+                <option key={option} value={option}>{NOTE_ROLE_LABELS[option]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="mt-2 flex items-center justify-between gap-3">
+            <p
+              className={`min-w-0 text-xs ${inviteStatus?.tone === 'error' ? 'text-[color:var(--dangerText)]' : 'tulis-muted'}`}
+              aria-live="polite"
+            >
+              {inviteStatus?.message ?? 'People you invite must already use tulis.'}
+            </p>
+            <button
+              type="submit"
+              disabled={isInviting || !email.trim()}
+              className="h-8 shrink-0 rounded-[var(--rSm)] bg-[color:var(--accent)] px-3 text-xs font-semibold text-white transition-colors hover:bg-[color:var(--accentHover)] disabled:opacity-60"
+            >
+              {isInviting ? 'Inviting…' : 'Invite'}
+            </button>
+          </div>
+        </form>
+
+        <ul className="min-h-0 flex-1 overflow-y-auto p-2">
+          {collaboratorEntries.length === 0 ? (
+            <li className="px-2 py-2 text-xs tulis-muted">Only you can see this note.</li>
+          ) : (
+            collaboratorEntries.map(([uid, collaborator]) => (
+              <li key={uid} className="flex items-center gap-2 rounded-[var(--rSm)] px-2 py-1.5">
+                <p className="min-w-0 flex-1 truncate text-sm tulis-text" title={collaborator.email}>
+                  {collaborator.email || 'Unknown user'}
+                </p>
+                <select
+                  value={collaborator.role}
+                  disabled={pendingUid === uid}
+                  onChange={(event) => {
+                    void updateCollaborator(uid, { ...collaborator, role: event.target.value as NoteRole });
+                  }}
+                  aria-label={`Role for ${collaborator.email}`}
+                  className="h-8 rounded-[var(--rSm)] border border-[color:var(--border)] bg-[color:var(--surface)] px-2 text-xs tulis-text focus:border-[color:var(--accent)] focus:outline-none disabled:opacity-60"
+                >
+                  {ROLE_OPTIONS.map((option) => (
+                    <option key={option} value={option}>{NOTE_ROLE_LABELS[option]}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  disabled={pendingUid === uid}
+                  onClick={() => {
+                    void updateCollaborator(uid, null);
+                  }}
+                  className="h-8 rounded-[var(--rSm)] px-2 text-xs font-medium text-[color:var(--dangerText)] transition-colors hover:bg-[color:var(--dangerTint)] disabled:opacity-60"
+                >
+                  Remove
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+}
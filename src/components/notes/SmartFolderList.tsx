@@ -0,0 +1,296 @@
+'use client';
+
+import { useEffect, useRef, useState, type KeyboardEvent as ReactKeyboardEvent } from 'react';
+import type { SavedSearchRecord } from '@/lib/notesRepository';
+import {
+  describeSavedSearch,
+  normalizeSavedSearchName,
+  SAVED_SEARCH_NAME_MAX_LENGTH,
+  savedSearchHref,
+} from '@/lib/savedSearches';
+
+type SmartFolderEditState =
+  | { mode: 'create' }
+  | { mode: 'rename'; savedSearchId: string };
+
+type SmartFolderListProps = {
+  // Already in sidebar order.
+  savedSearches: SavedSearchRecord[];
+  // Notes each saved search currently matches.
+  counts: Map<string, number>;
+  activeId: string | null;
+  // False while the drawer shows no search, label or tab worth saving.
+  canSaveCurrent: boolean;
+  onSelect: (savedSearchId: string | null) => void;
+  onCreate: (name: string) => void;
+  onRename: (savedSearchId: string, name: string) => void;
+  onUpdateToCurrent: (savedSearchId: string) => void;
+  onMove: (savedSearchId: string, offset: number) => void;
+  onDelete: (savedSearchId: string) => void;
+};
+
+export function SmartFolderList({
+  savedSearches,
+  counts,
+  activeId,
+  canSaveCurrent,
+  onSelect,
+  onCreate,
+  onRename,
+  onUpdateToCurrent,
+  onMove,
+  onDelete,
+}: SmartFolderListProps) {
+  const [editState, setEditState] = useState<SmartFolderEditState | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [openMenuId, setOpenMenuId] = useState<string | null>(null);
+  const [deleteArmedId, setDeleteArmedId] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+  // Set on Escape so the blur that follows does not commit the draft.
+  const editCancelledRef = useRef(false);
+
+  useEffect(() => {
+    if (!editState) return;
+    inputRef.current?.focus();
+    inputRef.current?.select();
+  }, [editState]);
+
+  useEffect(() => {
+    if (!openMenuId) return;
+
+    const handlePointerDown = (event: MouseEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('[data-smart-folder-menu]')) return;
+      setOpenMenuId(null);
+      setDeleteArmedId(null);
+    };
+
+    window.addEventListener('mousedown', handlePointerDown);
+    return () => window.removeEventListener('mousedown', handlePointerDown);
+  }, [openMenuId]);
+
+  const closeMenu = () => {
+    setOpenMenuId(null);
+    setDeleteArmedId(null);
+  };
+
+  const startEditing = (nextState: SmartFolderEditState, initialName: string) => {
+    closeMenu();
+    setDraftName(initialName);
+    editCancelledRef.current = false;
+    setEditState(nextState);
+  };
+
+  const commitEdit = () => {
+    if (!editState || editCancelledRef.current) return;
+    const name = normalizeSavedSearchName(draftName);
+    setEditState(null);
+    if (!name) return;
+
+    if (editState.mode === 'create') {
+      onCreate(name);
+    } else {
+      onRename(editState.savedSearchId, name);
+    }
+  };
+
+  const handleEditKeyDown = (event: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      commitEdit();
+      return;
+    }
+    if (event.key === 'Escape') {
+      // Keep the drawer's own Escape handler from closing the sidebar.
+      event.stopPropagation();
+      editCancelledRef.current = true;
+      setEditState(null);
+    }
+  };
+
+  const copyLink = async (savedSearchId: string) => {
+    closeMenu();
+    try {
+      await navigator.clipboard.writeText(new URL(savedSearchHref(savedSearchId), window.location.origin).toString());
+    } catch (error) {
+      console.warn('Failed to copy smart folder link:', error);
+    }
+  };
+
+  const renderNameInput = () => (
+    <div className="py-0.5 pl-4 pr-2">
+      <input
+        ref={inputRef}
+        value={draftName}
+        maxLength={SAVED_SEARCH_NAME_MAX_LENGTH}
+        onChange={(event) => setDraftName(event.target.value)}
+        onKeyDown={handleEditKeyDown}
+        onBlur={commitEdit}
+        placeholder="Smart folder name"
+        aria-label="Smart folder name"
+        className="h-7 w-full rounded-[calc(var(--rSm)-2px)] border border-[color:var(--border)] bg-[color:var(--surface)] px-2 text-xs tulis-text placeholder:text-[color:var(--text3)] focus:border-[color:var(--accent)] focus:outline-none"
+      />
+    </div>
+  );
+
+  const menuItemClassName = 'mt-0.5 flex w-full items-center rounded-[calc(var(--rSm)-4px)] px-2 py-1.5 text-left text-xs tulis-muted transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)] disabled:opacity-50 disabled:hover:bg-transparent';
+
+  const renderRow = (savedSearch: SavedSearchRecord, index: number) => {
+    const isActive = activeId === savedSearch.id;
+    const isMenuOpen = openMenuId === savedSearch.id;
+    const isRenaming = editState?.mode === 'rename' && editState.savedSearchId === savedSearch.id;
+
+    return (
+      <li key={savedSearch.id}>
+        {isRenaming ? renderNameInput() : (
+          <div
+            className={`group relative flex items-center rounded-[var(--rSm)] pr-1 transition-colors ${isActive
+              ? 'bg-[color:var(--surface2)] text-[color:var(--text)]'
+              : 'tulis-muted hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)]'
+              }`}
+          >
+            <button
+              type="button"
+              onClick={() => onSelect(isActive ? null : savedSearch.id)}
+              aria-pressed={isActive}
+              className="min-w-0 flex-1 truncate py-1.5 pl-4 text-left text-xs font-medium"
+              title={describeSavedSearch(savedSearch)}
+            >
+              {savedSearch.name}
+            </button>
+            <span className={`shrink-0 px-1 text-[11px] tabular-nums text-[color:var(--text3)] ${isMenuOpen ? 'hidden' : 'group-hover:hidden'}`}>
+              {counts.get(savedSearch.id) ?? 0}
+            </span>
+            <div
+              className={`relative shrink-0 items-center ${isMenuOpen ? 'flex' : 'hidden group-hover:flex'}`}
+              data-smart-folder-menu
+            >
+              <button
+                type="button"
+                onClick={() => {
+                  setDeleteArmedId(null);
+                  setOpenMenuId(isMenuOpen ? null : savedSearch.id);
+                }}
+                className="rounded-[calc(var(--rSm)-4px)] p-1 transition-colors hover:bg-[color:var(--surface)] hover:text-[color:var(--text)]"
+                aria-haspopup="menu"
+                aria-expanded={isMenuOpen}
+                aria-label="Open smart folder actions"
+                title="Smart folder actions"
+              >
+                <svg className="h-3.5 w-3.5" viewBox="0 0 24 24" fill="currentColor">
+                  <circle cx="5" cy="12" r="1.8" />
+                  <circle cx="12" cy="12" r="1.8" />
+                  <circle cx="19" cy="12" r="1.8" />
+                </svg>
+              </button>
+
+              {isMenuOpen && (
+                <div className="absolute right-0 top-[calc(100%+0.35rem)] z-40 min-w-[184px] rounded-[var(--rSm)] border border-[color:var(--border2)] bg-[color:var(--surface)] p-1 shadow-sm">
+                  <button
+                    type="button"
+                    onClick={() => startEditing({ mode: 'rename', savedSearchId: savedSearch.id }, savedSearch.name)}
+                    className={menuItemClassName}
+                  >
+                    Rename
+                  </button>
+                  <button
+                    type="button"
+                    disabled={!canSaveCurrent}
+                    onClick={() => {
+                      closeMenu();
+                      onUpdateToCurrent(savedSearch.id);
+                    }}
+                    className={menuItemClassName}
+                    title="Replace the saved search with what the drawer shows now"
+                  >
+                    Save current search here
+                  </button>
+                  <button
+                    type="button"
+                    disabled={index === 0}
+                    onClick={() => {
+                      closeMenu();
+                      onMove(savedSearch.id, -1);
+                    }}
+                    className={menuItemClassName}
+                  >
+                    Move up
+                  </button>
+                  <button
+                    type="button"
+                    disabled={index === savedSearches.length - 1}
+                    onClick={() => {
+                      closeMenu();
+                      onMove(savedSearch.id, 1);
+                    }}
+                    className={menuItemClassName}
+                  >
+                    Move down
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      void copyLink(savedSearch.id);
+                    }}
+                    className={menuItemClassName}
+                  >
+                    Copy link
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      if (deleteArmedId !== savedSearch.id) {
+                        setDeleteArmedId(savedSearch.id);
+                        return;
+                      }
+                      closeMenu();
+                      onDelete(savedSearch.id);
+                    }}
+                    className="mt-0.5 flex w-full items-center rounded-[calc(var(--rSm)-4px)] px-2 py-1.5 text-left text-xs text-[color:var(--dangerText)] transition-colors hover:bg-[color:var(--surface2)]"
+                    title="Notes are not affected"
+                  >
+                    {deleteArmedId === savedSearch.id ? 'Click again to delete' : 'Delete smart folder'}
+                  </button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  const isCreating = editState?.mode === 'create';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between pr-1">
+        <p className="pl-3 text-[11px] font-semibold uppercase tracking-[0.15em] text-[color:var(--text3)]">Smart folders</p>
+        <button
+          type="button"
+          disabled={!canSaveCurrent}
+          onClick={() => startEditing({ mode: 'create' }, '')}
+          className="rounded-[calc(var(--rSm)-4px)] p-1 text-[color:var(--text3)] transition-colors hover:bg-[color:var(--surface2)] hover:text-[color:var(--text)] disabled:opacity-40 disabled:hover:bg-transparent"
+          aria-label="Save current search as a smart folder"
+          title={canSaveCurrent ? 'Save current search as a smart folder' : 'Search or pick a label first'}
+        >
+          <svg className="h-3.5 w-3.5" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.2">
+            <line x1="12" y1="5" x2="12" y2="19" strokeLinecap="round" />
+            <line x1="5" y1="12" x2="19" y2="12" strokeLinecap="round" />
+          </svg>
+        </button>
+      </div>
+
+      <ul aria-label="Smart folders" className="mt-1.5 space-y-0.5">
+        {isCreating && <li>{renderNameInput()}</li>}
+        {savedSearches.length === 0 && !isCreating ? (
+          <li>
+            <p className="pl-4 text-xs tulis-muted">Save a search to keep it here</p>
+          </li>
+        ) : (
+          savedSearches.map((savedSearch, index) => renderRow(savedSearch, index))
+        )}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { Extension, type Editor } from '@tiptap/core';
+import { Plugin, PluginKey, type EditorState, type Transaction } from '@tiptap/pm/state';
+import { Decoration, DecorationSet } from '@tiptap/pm/view';
+import { absolutePositionToRelativePosition, relativePositionToAbsolutePosition, ySyncPluginKey } from '@tiptap/y-tiptap';
+import { FILE_ATTACHMENT_NODE } from '@/editor/FileAttachment';
+import { isImageFile, type AttachmentUploader } from '@/lib/noteAttachments';
+
+export interface AttachmentUploadOptions {
+    // Read on every paste/drop, so uploads switch on once the note and its owner are known.
+    getUploader: () => AttachmentUploader | null;
+}
+
+declare module '@tiptap/core' {
+    interface Commands<ReturnType> {
+        attachmentUpload: {
+            /**
+             * Upload files and insert them as images or download chips
+             */
+            uploadAttachments: (files: File[], position?: number) => ReturnType;
+            /**
+             * Open the system file picker and upload the chosen files
+             */
+            openAttachmentPicker: (accept?: string) => ReturnType;
+        };
+    }
+}
+
+// How long a failed upload stays visible before its placeholder is removed.
+const FAILED_UPLOAD_VISIBLE_MS = 4000;
+
+type UploadState = { progress: number; error: string | null };
+
+// Progress of the uploads started in this tab, keyed by upload id.
+const uploads = new Map<string, UploadState>();
+const uploadListeners = new Set<() => void>();
+
+const setUploadState = (uploadId: string, state: UploadState | null) => {
+    if (state) {
+        uploads.set(uploadId, state);
+    } else {
+        uploads.delete(uploadId);
+    }
+    uploadListeners.forEach((listener) => listener());
+};
+
+// Uploads in flight are widget decorations, never document nodes, so a
+// placeholder can't sync to other devices or outlive the tab that started it.
+type PendingUpload = {
+    uploadId: string;
+    name: string;
+    pos: number;
+    // Position in the shared Yjs document. Collaborative updates replace the
+    // whole ProseMirror document, which plain position mapping can't follow.
+    anchor: unknown;
+};
+
+type PendingUploadMeta = { add: PendingUpload[] } | { remove: string };
+
+const attachmentUploadKey = new PluginKey<PendingUpload[]>('attachmentUpload');
+
+const toYjsAnchor = (state: EditorState, pos: number): unknown => {
+    const ystate = ySyncPluginKey.getState(state);
+    return ystate?.binding ? absolutePositionToRelativePosition(pos, ystate.type, ystate.binding.mapping) : null;
+};
+
+const mapPendingUploads = (pending: PendingUpload[], tr: Transaction, oldState: EditorState): PendingUpload[] => {
+    const ystate = ySyncPluginKey.getState(oldState);
+    const fromYjs = Boolean(ystate?.binding && tr.getMeta(ySyncPluginKey));
+
+    return pending.flatMap((upload) => {
+        if (fromYjs && upload.anchor) {
+            const pos = relativePositionToAbsolutePosition(ystate.doc, ystate.type, upload.anchor, ystate.binding.mapping);
+            return pos === null ? [] : [{ ...upload, pos }];
+        }
+        // Dropped once the content around it is deleted, which cancels the insert.
+        const mapped = tr.mapping.mapResult(upload.pos, -1);
+        return mapped.deletedAcross ? [] : [{ ...upload, pos: mapped.pos }];
+    });
+};
+
+const pendingUploadOf = (editor: Editor, uploadId: string): PendingUpload | null => (
+    attachmentUploadKey.getState(editor.state)?.find((upload) => upload.uploadId === uploadId) ?? null
+);
+
+const removePendingUpload = (editor: Editor, uploadId: string) => {
+    if (editor.isDestroyed || !pendingUploadOf(editor, uploadId)) return;
+    editor.view.dispatch(editor.state.tr.setMeta(attachmentUploadKey, { remove: uploadId } satisfies PendingUploadMeta));
+};
+
+const widgetRenderers = new WeakMap<globalThis.Node, () => void>();
+
+const createUploadWidget = (upload: PendingUpload): HTMLElement => {
+    const dom = document.createElement('div');
+    dom.className = 'attachment-upload';
+    dom.contentEditable = 'false';
+
+    const label = document.createElement('span');
+    label.className = 'attachment-upload-label';
+    const bar = document.createElement('span');
+    bar.className = 'attachment-upload-bar';
+    const fill = document.createElement('span');
+    bar.append(fill);
+    dom.append(label, bar);
+
+    const render = () => {
+        const state = uploads.get(upload.uploadId) ?? { progress: 0, error: null };
+        const name = upload.name || 'file';
+        dom.toggleAttribute('data-error', Boolean(state.error));
+        if (state.error) {
+            label.textContent = `Could not upload ${name}: ${state.error}`;
+            fill.style.width = '0%';
+        } else {
+            label.textContent = `Uploading ${name}… ${Math.round(state.progress * 100)}%`;
+            fill.style.width = `${Math.round(state.progress * 100)}%`;
+        }
+    };
+    render();
+    uploadListeners.add(render);
+    widgetRenderers.set(dom, render);
+    return dom;
+};
+
+const runUpload = async (editor: Editor, uploader: AttachmentUploader, uploadId: string, file: File) => {
+    setUploadState(uploadId, { progress: 0, error: null });
+
+    try {
+        const uploaded = await uploader(file, (progress) => setUploadState(uploadId, { progress, error: null }));
+        setUploadState(uploadId, null);
+
+        // The note may have been closed, or the placeholder's surroundings deleted, mid-upload.
+        const pending = editor.isDestroyed ? null : pendingUploadOf(editor, uploadId);
+        if (!pending) return;
+
+        const content = isImageFile(file)
+            ? { type: 'image', attrs: { src: uploaded.url, alt: uploaded.name, path: uploaded.path } }
+            : {
+                type: FILE_ATTACHMENT_NODE,
+                attrs: {
+                    url: uploaded.url,
+                    name: uploaded.name,
+                    size: uploaded.size,
+                    contentType: uploaded.contentType,
+                    path: uploaded.path,
+                },
+            };
+        editor.chain()
+            .insertContentAt(pending.pos, content, { updateSelection: false })
+            .setMeta(attachmentUploadKey, { remove: uploadId } satisfies PendingUploadMeta)
+            .run();
+    } catch (error) {
+        console.error('Failed to upload attachment:', error);
+        setUploadState(uploadId, {
+            progress: 0,
+            error: error instanceof Error && error.message ? error.message : 'Upload failed.',
+        });
+        window.setTimeout(() => {
+            setUploadState(uploadId, null);
+            removePendingUpload(editor, uploadId);
+        }, FAILED_UPLOAD_VISIBLE_MS);
+    }
+};
+
+export const canUploadAttachments = (editor: Editor): boolean => (
+    editor.isEditable && editor.can().openAttachmentPicker()
+);
+
+export const AttachmentUpload = Extension.create<AttachmentUploadOptions>({
+    name: 'attachmentUpload',
+
+    addOptions() {
+        return {
+            getUploader: () => null,
+        };
+    },
+
+    addCommands() {
+        return {
+            uploadAttachments:
+                (files, position) =>
+                    ({ editor, state, tr, dispatch }) => {
+                        const uploader = this.options.getUploader();
+                        if (!uploader || files.length === 0) return false;
+                        if (!dispatch) return true;
+
+                        const pos = typeof position === 'number' ? position : state.selection.from;
+                        const anchor = toYjsAnchor(state, pos);
+                        const placeholders = files.map((file) => ({
+                            file,
+                            upload: { uploadId: crypto.randomUUID(), name: file.name, pos, anchor },
+                        }));
+                        tr.setMeta(attachmentUploadKey, {
+                            add: placeholders.map(({ upload }) => upload),
+                        } satisfies PendingUploadMeta);
+
+                        placeholders.forEach(({ file, upload }) => {
+                            void runUpload(editor, uploader, upload.uploadId, file);
+                        });
+                        return true;
+                    },
+            openAttachmentPicker:
+                accept =>
+                    ({ editor, dispatch }) => {
+                        if (!this.options.getUploader()) return false;
+                        if (!dispatch) return true;
+
+                        const input = document.createElement('input');
+                        input.type = 'file';
+                        input.multiple = true;
+                        if (accept) input.accept = accept;
+                        input.addEventListener('change', () => {
+                            const files = Array.from(input.files ?? []);
+                            if (files.length > 0) editor.chain().focus().uploadAttachments(files).run();
+                        });
+                        input.click();
+                        return true;
+                    },
+        };
+    },
+
+    addProseMirrorPlugins() {
+        const editor = this.editor;
+
+        return [
+            new Plugin<PendingUpload[]>({
+                key: attachmentUploadKey,
+                state: {
+                    init: () => [],
+                    apply: (tr, pending, oldState) => {
+                        const meta = tr.getMeta(attachmentUploadKey) as PendingUploadMeta | undefined;
+                        const mapped = tr.docChanged ? mapPendingUploads(pending, tr, oldState) : pending;
+                        if (!meta) return mapped;
+                        return 'add' in meta
+                            ? [...mapped, ...meta.add]
+                            : mapped.filter((upload) => upload.uploadId !== meta.remove);
+                    },
+                },
+                props: {
+                    decorations: (state) => {
+                        const pending = attachmentUploadKey.getState(state) ?? [];
+                        if (pending.length === 0) return DecorationSet.empty;
+                        return DecorationSet.create(state.doc, pending.map((upload) => Decoration.widget(
+                            upload.pos,
+                            () => createUploadWidget(upload),
+                            {
+                                key: upload.uploadId,
+                                side: -1,
+                                ignoreSelection: true,
+                                destroy: (dom) => {
+                                    const render = widgetRenderers.get(dom);
+                                    if (render) uploadListeners.delete(render);
+                                },
+                            }
+                        )));
+                    },
+                    handlePaste: (_view, event) => {
+                        const files = Array.from(event.clipboardData?.files ?? []);
+                        if (files.length === 0 || !editor.isEditable) return false;
+                        return editor.commands.uploadAttachments(files);
+                    },
+                    handleDrop: (view, event, _slice, moved) => {
+                        const files = Array.from(event.dataTransfer?.files ?? []);
+                        if (moved || files.length === 0 || !editor.isEditable) return false;
+
+                        const position = view.posAtCoords({ left: event.clientX, top: event.clientY })?.pos;
+                        return editor.commands.uploadAttachments(files, position);
+                    },
+                },
+            }),
+        ];
+    },
+});
@@ -1,16 +1,56 @@
 import { Node, mergeAttributes } from '@tiptap/core';
+import { Plugin, PluginKey } from '@tiptap/pm/state';
+
+export type DateChipEditRequest = {
+    pos: number;
+    date: string | null;
+    reminderAt: string | null;
+};
 
 export interface DateChipOptions {
     HTMLAttributes: Record<string, string | number | boolean | null | undefined>;
+    // Called when an editable chip is clicked, to change its date or reminder.
+    onEdit: (request: DateChipEditRequest) => void;
 }
 
+type DateChipAttributes = {
+    date: string;
+    // ISO time to be reminded at, or null for a plain date.
+    reminderAt?: string | null;
+};
+
+// Reminders are keyed by this id, so snoozes survive edits elsewhere in the note.
+const withReminderId = (attributes: DateChipAttributes, reminderId: string | null = null) => ({
+    ...attributes,
+    reminderId: attributes.reminderAt ? reminderId ?? crypto.randomUUID() : null,
+});
+
+const formatChipText = (dateValue: string | null, reminderValue: string | null): string => {
+    const date = new Date(dateValue ?? '');
+    if (isNaN(date.getTime())) return 'Invalid Date';
+
+    const formattedDate = new Intl.DateTimeFormat('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+    }).format(date);
+    const reminder = reminderValue ? new Date(reminderValue) : null;
+    if (!reminder || isNaN(reminder.getTime())) return formattedDate;
+
+    return `${formattedDate} · ${new Intl.DateTimeFormat('en-US', { hour: 'numeric', minute: '2-digit' }).format(reminder)}`;
+};
+
 declare module '@tiptap/core' {
     interface Commands<ReturnType> {
         dateChip: {
             /**
              * Insert a date chip
              */
-            setDateChip: (attributes: { date: string }) => ReturnType;
+            setDateChip: (attributes: DateChipAttributes) => ReturnType;
+            /**
+             * Change the date or reminder of the chip at `pos`
+             */
+            updateDateChip: (pos: number, attributes: DateChipAttributes) => ReturnType;
         };
     }
 }
@@ -29,6 +69,7 @@ export const DateChip = Node.create<DateChipOptions>({
     addOptions() {
         return {
             HTMLAttributes: {},
+            onEdit: () => {},
         };
     },
 
@@ -47,6 +88,16 @@ export const DateChip = Node.create<DateChipOptions>({
                     };
                 },
             },
+            reminderAt: {
+                default: null,
+                parseHTML: element => element.getAttribute('data-reminder-at'),
+                renderHTML: attributes => (attributes.reminderAt ? { 'data-reminder-at': attributes.reminderAt } : {}),
+            },
+            reminderId: {
+                default: null,
+                parseHTML: element => element.getAttribute('data-reminder-id'),
+                renderHTML: attributes => (attributes.reminderId ? { 'data-reminder-id': attributes.reminderId } : {}),
+            },
         };
     },
 
@@ -59,22 +110,32 @@ export const DateChip = Node.create<DateChipOptions>({
     },
 
     renderHTML({ node, HTMLAttributes }) {
-        const date = new Date(node.attrs.date);
-        const formattedDate = isNaN(date.getTime())
-            ? 'Invalid Date'
-            : new Intl.DateTimeFormat('en-US', {
-                month: 'short',
-                day: 'numeric',
-                year: 'numeric',
-            }).format(date);
-
         return [
             'span',
             mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
                 'data-date-chip': '',
                 class: 'date-chip',
             }),
-            formattedDate,
+            formatChipText(node.attrs.date, node.attrs.reminderAt),
+        ];
+    },
+
+    addProseMirrorPlugins() {
+        return [
+            new Plugin({
+                key: new PluginKey('dateChipEdit'),
+                props: {
+                    handleClickOn: (_view, _pos, node, nodePos) => {
+                        if (node.type.name !== this.name || !this.editor.isEditable) return false;
+                        this.options.onEdit({
+                            pos: nodePos,
+                            date: node.attrs.date,
+                            reminderAt: node.attrs.reminderAt,
+                        });
+                        return true;
+                    },
+                },
+            }),
         ];
     },
 
@@ -86,11 +147,21 @@ export const DateChip = Node.create<DateChipOptions>({
                         return chain()
                             .insertContent({
                                 type: this.name,
-                                attrs: attributes,
+                                attrs: withReminderId(attributes),
                             })
                             .insertContent(' ')
                             .run();
                     },
+            updateDateChip:
+                (pos, attributes) =>
+                    ({ tr, dispatch }) => {
+                        const node = tr.doc.nodeAt(pos);
+                        if (!node || node.type.name !== this.name) return false;
+                        if (dispatch) {
+                            tr.setNodeMarkup(pos, undefined, withReminderId(attributes, node.attrs.reminderId));
+                        }
+                        return true;
+                    },
         };
     },
 });
@@ -0,0 +1,126 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import { formatAttachmentSize } from '@/lib/noteAttachments';
+
+export interface FileAttachmentOptions {
+    HTMLAttributes: Record<string, string | number | boolean | null | undefined>;
+}
+
+export const FILE_ATTACHMENT_NODE = 'fileAttachment';
+
+export const FileAttachment = Node.create<FileAttachmentOptions>({
+    name: FILE_ATTACHMENT_NODE,
+
+    group: 'block',
+
+    atom: true,
+
+    draggable: true,
+
+    addOptions() {
+        return {
+            HTMLAttributes: {},
+        };
+    },
+
+    addAttributes() {
+        return {
+            url: {
+                default: null,
+                parseHTML: element => element.getAttribute('href'),
+                renderHTML: attributes => (attributes.url ? { href: attributes.url } : {}),
+            },
+            name: {
+                default: 'file',
+                parseHTML: element => element.getAttribute('data-name') ?? element.textContent ?? 'file',
+                renderHTML: attributes => ({ 'data-name': attributes.name }),
+            },
+            size: {
+                default: 0,
+                parseHTML: element => Number(element.getAttribute('data-size')) || 0,
+                renderHTML: attributes => (attributes.size ? { 'data-size': attributes.size } : {}),
+            },
+            contentType: {
+                default: null,
+                parseHTML: element => element.getAttribute('type'),
+                renderHTML: attributes => (attributes.contentType ? { type: attributes.contentType } : {}),
+            },
+            path: {
+                default: null,
+                parseHTML: element => element.getAttribute('data-path'),
+                renderHTML: attributes => (attributes.path ? { 'data-path': attributes.path } : {}),
+            },
+        };
+    },
+
+    parseHTML() {
+        return [
+            {
+                tag: 'a[data-file-attachment]',
+            },
+        ];
+    },
+
+    renderHTML({ node, HTMLAttributes }) {
+        return [
+            'a',
+            mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
+                'data-file-attachment': '',
+                class: 'file-attachment',
+                download: node.attrs.name,
+                target: '_blank',
+                rel: 'noopener noreferrer',
+            }),
+            node.attrs.name,
+        ];
+    },
+
+    renderText({ node }) {
+        return node.attrs.name ?? '';
+    },
+
+    addNodeView() {
+        return ({ node: initialNode }) => {
+            let node = initialNode;
+            const dom = document.createElement('div');
+            dom.className = 'file-attachment-block';
+
+            const chip = document.createElement('a');
+            chip.className = 'file-attachment';
+            chip.setAttribute('data-file-attachment', '');
+            chip.target = '_blank';
+            chip.rel = 'noopener noreferrer';
+
+            const name = document.createElement('span');
+            name.className = 'file-attachment-name';
+            const size = document.createElement('span');
+            size.className = 'file-attachment-size';
+            chip.append(name, size);
+            dom.append(chip);
+
+            const render = () => {
+                chip.href = node.attrs.url ?? '';
+                chip.download = node.attrs.name ?? '';
+                name.textContent = node.attrs.name || 'file';
+                size.textContent = formatAttachmentSize(node.attrs.size);
+            };
+            render();
+
+            // Links inside contenteditable are not followed natively.
+            chip.addEventListener('click', (event) => {
+                if (!node.attrs.url || event.button !== 0) return;
+                window.open(node.attrs.url, '_blank', 'noopener');
+                event.preventDefault();
+            });
+
+            return {
+                dom,
+                update: (updatedNode) => {
+                    if (updatedNode.type !== node.type) return false;
+                    node = updatedNode;
+                    render();
+                    return true;
+                },
+            };
+        };
+    },
+});
@@ -0,0 +1,165 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+
+export interface NoteImageOptions {
+    HTMLAttributes: Record<string, string | number | boolean | null | undefined>;
+}
+
+declare module '@tiptap/core' {
+    interface Commands<ReturnType> {
+        noteImage: {
+            /**
+             * Insert an image block
+             */
+            setNoteImage: (attributes: { src: string; alt?: string; path?: string | null }) => ReturnType;
+        };
+    }
+}
+
+const MIN_IMAGE_WIDTH = 80;
+
+export const NoteImage = Node.create<NoteImageOptions>({
+    name: 'image',
+
+    group: 'block',
+
+    atom: true,
+
+    draggable: true,
+
+    addOptions() {
+        return {
+            HTMLAttributes: {},
+        };
+    },
+
+    addAttributes() {
+        return {
+            src: {
+                default: null,
+            },
+            alt: {
+                default: null,
+            },
+            // Rendered width in CSS pixels; null lets the image fill the column.
+            width: {
+                default: null,
+                parseHTML: element => {
+                    const width = Number.parseInt(element.getAttribute('width') ?? '', 10);
+                    return Number.isFinite(width) && width > 0 ? width : null;
+                },
+                renderHTML: attributes => (attributes.width ? { width: attributes.width } : {}),
+            },
+            // Storage object path for uploads, so attachments can be traced back to notes.
+            path: {
+                default: null,
+                parseHTML: element => element.getAttribute('data-path'),
+                renderHTML: attributes => (attributes.path ? { 'data-path': attributes.path } : {}),
+            },
+        };
+    },
+
+    parseHTML() {
+        return [
+            {
+                tag: 'img[src]',
+            },
+        ];
+    },
+
+    renderHTML({ HTMLAttributes }) {
+        return ['img', mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, { class: 'note-image' })];
+    },
+
+    addNodeView() {
+        return ({ node: initialNode, getPos, editor }) => {
+            let node = initialNode;
+            const dom = document.createElement('div');
+            dom.className = 'note-image';
+            dom.setAttribute('data-note-image', '');
+
+            const img = document.createElement('img');
+            img.draggable = false;
+            dom.append(img);
+
+            const render = () => {
+                img.src = node.attrs.src ?? '';
+                img.alt = node.attrs.alt ?? '';
+                img.style.width = node.attrs.width ? `${node.attrs.width}px` : '';
+            };
+            render();
+
+            // Handles on both edges; dragging either one resizes around the left edge.
+            (['left', 'right'] as const).forEach((side) => {
+                const handle = document.createElement('span');
+                handle.className = 'note-image-handle';
+                handle.setAttribute('data-side', side);
+                handle.setAttribute('aria-hidden', 'true');
+
+                handle.addEventListener('pointerdown', (event) => {
+                    if (!editor.isEditable || event.button !== 0) return;
+                    event.preventDefault();
+                    event.stopPropagation();
+
+                    const startX = event.clientX;
+                    const startWidth = img.getBoundingClientRect().width;
+                    const maxWidth = dom.parentElement?.clientWidth ?? startWidth;
+                    const direction = side === 'right' ? 1 : -1;
+                    let width = startWidth;
+
+                    handle.setPointerCapture(event.pointerId);
+                    dom.classList.add('is-resizing');
+
+                    const onMove = (moveEvent: PointerEvent) => {
+                        width = Math.min(maxWidth, Math.max(MIN_IMAGE_WIDTH, startWidth + direction * (moveEvent.clientX - startX)));
+                        img.style.width = `${width}px`;
+                    };
+
+                    const onUp = () => {
+                        handle.removeEventListener('pointermove', onMove);
+                        handle.removeEventListener('pointerup', onUp);
+                        handle.removeEventListener('pointercancel', onUp);
+                        dom.classList.remove('is-resizing');
+
+                        const pos = typeof getPos === 'function' ? getPos() : undefined;
+                        if (typeof pos !== 'number') return;
+                        editor.view.dispatch(editor.state.tr.setNodeMarkup(pos, undefined, {
+                            ...node.attrs,
+                            width: Math.round(width) >= maxWidth ? null : Math.round(width),
+                        }));
+                    };
+
+                    handle.addEventListener('pointermove', onMove);
+                    handle.addEventListener('pointerup', onUp);
+                    handle.addEventListener('pointercancel', onUp);
+                });
+
+                dom.append(handle);
+            });
+
+            return {
+                dom,
+                update: (updatedNode) => {
+                    if (updatedNode.type !== node.type) return false;
+                    node = updatedNode;
+                    render();
+                    return true;
+                },
+                stopEvent: (event) => (event.target as HTMLElement | null)?.classList?.contains('note-image-handle') ?? false,
+                ignoreMutation: () => true,
+            };
+        };
+    },
+
+    addCommands() {
+        return {
+            setNoteImage:
+                attributes =>
+                    ({ commands }) => {
+                        return commands.insertContent({
+                            type: this.name,
+                            attrs: attributes,
+                        });
+                    },
+        };
+    },
+});
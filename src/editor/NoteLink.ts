@@ -0,0 +1,138 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import { getNoteLinkTitle, NOTE_LINK_NODE, subscribeNoteLinkTitles } from '@/lib/noteLinks';
+
+export interface NoteLinkOptions {
+    HTMLAttributes: Record<string, string | number | boolean | null | undefined>;
+    onOpenNote: (noteId: string) => void;
+}
+
+declare module '@tiptap/core' {
+    interface Commands<ReturnType> {
+        noteLink: {
+            /**
+             * Insert a link to another note
+             */
+            insertNoteLink: (attributes: { noteId: string; title: string }) => ReturnType;
+        };
+    }
+}
+
+const notePath = (noteId: string) => `/notes/${encodeURIComponent(noteId)}`;
+
+export const NoteLink = Node.create<NoteLinkOptions>({
+    name: NOTE_LINK_NODE,
+
+    group: 'inline',
+
+    inline: true,
+
+    selectable: true,
+
+    atom: true,
+
+    addOptions() {
+        return {
+            HTMLAttributes: {},
+            onOpenNote: () => {},
+        };
+    },
+
+    addAttributes() {
+        return {
+            noteId: {
+                default: null,
+                parseHTML: element => element.getAttribute('data-note-id'),
+                renderHTML: attributes => (attributes.noteId ? { 'data-note-id': attributes.noteId } : {}),
+            },
+            // Title when the link was made; shown if the target is not one of the user's notes.
+            title: {
+                default: '',
+                parseHTML: element => element.textContent ?? '',
+                renderHTML: () => ({}),
+            },
+        };
+    },
+
+    parseHTML() {
+        return [
+            {
+                tag: 'a[data-note-link]',
+            },
+        ];
+    },
+
+    renderHTML({ node, HTMLAttributes }) {
+        return [
+            'a',
+            mergeAttributes(this.options.HTMLAttributes, HTMLAttributes, {
+                'data-note-link': '',
+                class: 'note-link',
+                href: notePath(node.attrs.noteId ?? ''),
+            }),
+            getNoteLinkTitle(node.attrs.noteId) ?? (node.attrs.title || 'Untitled'),
+        ];
+    },
+
+    renderText({ node }) {
+        return getNoteLinkTitle(node.attrs.noteId) ?? node.attrs.title ?? '';
+    },
+
+    addNodeView() {
+        return ({ node: initialNode, HTMLAttributes }) => {
+            let node = initialNode;
+            const dom = document.createElement('a');
+            Object.entries(mergeAttributes(this.options.HTMLAttributes, HTMLAttributes)).forEach(([name, value]) => {
+                if (value !== null && value !== undefined && value !== false) dom.setAttribute(name, String(value));
+            });
+            dom.setAttribute('data-note-link', '');
+            dom.className = 'note-link';
+
+            const render = () => {
+                const noteId: string = node.attrs.noteId ?? '';
+                dom.setAttribute('href', notePath(noteId));
+                dom.textContent = getNoteLinkTitle(noteId) ?? (node.attrs.title || 'Untitled');
+            };
+            render();
+
+            const unsubscribe = subscribeNoteLinkTitles(render);
+
+            // Links inside contenteditable are not followed natively.
+            dom.addEventListener('click', (event) => {
+                if (!node.attrs.noteId || event.button !== 0) return;
+                if (event.metaKey || event.ctrlKey) {
+                    window.open(notePath(node.attrs.noteId), '_blank', 'noopener');
+                } else {
+                    this.options.onOpenNote(node.attrs.noteId);
+                }
+                event.preventDefault();
+            });
+
+            return {
+                dom,
+                update: (updatedNode) => {
+                    if (updatedNode.type !== node.type) return false;
+                    node = updatedNode;
+                    render();
+                    return true;
+                },
+                destroy: unsubscribe,
+            };
+        };
+    },
+
+    addCommands() {
+        return {
+            insertNoteLink:
+                attributes =>
+                    ({ chain }) => {
+                        return chain()
+                            .insertContent({
+                                type: this.name,
+                                attrs: attributes,
+                            })
+                            .insertContent(' ')
+                            .run();
+                    },
+        };
+    },
+});
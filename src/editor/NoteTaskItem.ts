@@ -0,0 +1,324 @@
+import { InputRule } from '@tiptap/core';
+import { isChangeOrigin } from '@tiptap/extension-collaboration';
+import { Plugin, PluginKey, type EditorState } from '@tiptap/pm/state';
+import { Mapping } from '@tiptap/pm/transform';
+import TaskItem, { type TaskItemOptions } from '@tiptap/extension-task-item';
+import { parseJournalDate, toJournalDate } from '@/lib/journal';
+import {
+    formatTaskDue,
+    parseDueToken,
+    taskAttributesOf,
+    TASK_DUE_INPUT_REGEX,
+    TASK_PRIORITY_INPUT_REGEX,
+    toTaskPriority,
+    type TaskAttributes,
+} from '@/lib/taskAttributes';
+import {
+    completeRecurringTask,
+    dateChipDay,
+    describeTaskRecurrence,
+    parseTaskRecurrence,
+    shiftDateChipAttrs,
+    taskCompletionLog,
+    TASK_REPEAT_INPUT_REGEX,
+    toTaskRecurrence,
+} from '@/lib/taskRecurrence';
+
+export type TaskAttributesEditRequest = {
+    pos: number;
+    attributes: TaskAttributes;
+};
+
+export interface NoteTaskItemOptions extends TaskItemOptions {
+    // Called to open the task popover, from a badge, a right-click on the
+    // checkbox or Alt-Enter.
+    onEditAttributes: (request: TaskAttributesEditRequest) => void;
+    // Display name for an assignee uid, or null when unknown.
+    getAssigneeName: (uid: string) => string | null;
+}
+
+declare module '@tiptap/core' {
+    interface Commands<ReturnType> {
+        noteTaskItem: {
+            /**
+             * Change the due date, priority, assignee or repeat rule of the task item at `pos`
+             */
+            setTaskAttributes: (pos: number, attributes: Partial<TaskAttributes>) => ReturnType;
+        };
+    }
+}
+
+// Position of the task item whose first line holds `pos`, or null.
+const taskItemAtLine = (state: EditorState, pos: number, typeName: string): number | null => {
+    const $pos = state.doc.resolve(pos);
+    if ($pos.depth < 2) return null;
+    const parent = $pos.node($pos.depth - 1);
+    if (parent.type.name !== typeName || $pos.index($pos.depth - 1) !== 0) return null;
+    return $pos.before($pos.depth - 1);
+};
+
+const completionDayFormatter = new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' });
+
+const recurringTaskPluginKey = new PluginKey('noteTaskItemRecurrence');
+
+// Extends TipTap's task item with a due day, priority, assignee and repeat
+// rule, shown as badges after the item's text.
+export const NoteTaskItem = TaskItem.extend<NoteTaskItemOptions>({
+    addOptions() {
+        return {
+            ...this.parent!(),
+            onEditAttributes: () => {},
+            getAssigneeName: () => null,
+        };
+    },
+
+    addAttributes() {
+        return {
+            ...this.parent?.(),
+            due: {
+                default: null,
+                keepOnSplit: false,
+                parseHTML: element => element.getAttribute('data-due'),
+                renderHTML: attributes => (attributes.due ? { 'data-due': attributes.due } : {}),
+            },
+            priority: {
+                default: null,
+                keepOnSplit: false,
+                parseHTML: element => toTaskPriority(element.getAttribute('data-priority')),
+                renderHTML: attributes => (attributes.priority ? { 'data-priority': attributes.priority } : {}),
+            },
+            assignee: {
+                default: null,
+                keepOnSplit: false,
+                parseHTML: element => element.getAttribute('data-assignee'),
+                renderHTML: attributes => (attributes.assignee ? { 'data-assignee': attributes.assignee } : {}),
+            },
+            recurrence: {
+                default: null,
+                keepOnSplit: false,
+                parseHTML: element => toTaskRecurrence(element.getAttribute('data-recurrence')),
+                renderHTML: attributes => (attributes.recurrence ? { 'data-recurrence': attributes.recurrence } : {}),
+            },
+            // Days a repeating item was checked off, most recent last.
+            completions: {
+                default: null,
+                keepOnSplit: false,
+                parseHTML: element => {
+                    const completions = taskCompletionLog(element.getAttribute('data-completions')?.split(','));
+                    return completions.length > 0 ? completions : null;
+                },
+                renderHTML: attributes => (
+                    Array.isArray(attributes.completions) && attributes.completions.length > 0
+                        ? { 'data-completions': attributes.completions.join(',') }
+                        : {}
+                ),
+            },
+        };
+    },
+
+    addNodeView() {
+        const renderParentView = this.parent?.();
+        if (!renderParentView) return null;
+
+        return props => {
+            const view = renderParentView(props);
+            const listItem = view.dom as HTMLElement;
+            const { editor, getPos } = props;
+            const badges = document.createElement('span');
+            badges.className = 'task-badges';
+            badges.contentEditable = 'false';
+
+            const openEditor = (node: typeof props.node) => {
+                const pos = typeof getPos === 'function' ? getPos() : undefined;
+                if (!editor.isEditable || typeof pos !== 'number') return;
+                this.options.onEditAttributes({ pos, attributes: taskAttributesOf(node.attrs) });
+            };
+
+            let currentNode = props.node;
+            const renderBadges = () => {
+                const { due, priority, assignee, recurrence } = taskAttributesOf(currentNode.attrs);
+                const today = toJournalDate(new Date());
+                const entries: Array<{ kind: string; text: string; title: string; isOverdue?: boolean }> = [];
+                if (priority) entries.push({ kind: 'priority', text: `P${priority}`, title: `Priority ${priority}` });
+                if (due) {
+                    entries.push({
+                        kind: 'due',
+                        text: formatTaskDue(due, today),
+                        title: `Due ${due}`,
+                        isOverdue: due < today && !currentNode.attrs.checked,
+                    });
+                }
+                if (assignee) {
+                    const name = this.options.getAssigneeName(assignee);
+                    entries.push({ kind: 'assignee', text: name ? `@${name}` : '@someone', title: 'Assignee' });
+                }
+                const rule = parseTaskRecurrence(recurrence);
+                if (rule) {
+                    const completions = taskCompletionLog(currentNode.attrs.completions).flatMap(day => {
+                        const date = parseJournalDate(day);
+                        return date ? [completionDayFormatter.format(date)] : [];
+                    });
+                    entries.push({
+                        kind: 'recurrence',
+                        text: `↻ ${describeTaskRecurrence(rule)}`,
+                        title: completions.length > 0 ? `Repeats. Done ${completions.reverse().join(', ')}` : 'Repeats',
+                    });
+                }
+
+                badges.replaceChildren(...entries.map(entry => {
+                    const badge = document.createElement('button');
+                    badge.type = 'button';
+                    badge.className = 'task-badge';
+                    badge.dataset.kind = entry.kind;
+                    if (entry.kind === 'priority') badge.dataset.priority = String(priority);
+                    if (entry.isOverdue) badge.dataset.overdue = 'true';
+                    badge.textContent = entry.text;
+                    badge.title = entry.title;
+                    badge.addEventListener('mousedown', event => event.preventDefault());
+                    badge.addEventListener('click', () => openEditor(currentNode));
+                    return badge;
+                }));
+                badges.hidden = entries.length === 0;
+            };
+
+            renderBadges();
+            listItem.appendChild(badges);
+            listItem.querySelector('label')?.addEventListener('contextmenu', event => {
+                if (!editor.isEditable) return;
+                event.preventDefault();
+                openEditor(currentNode);
+            });
+
+            const updateParentView = view.update?.bind(view);
+            view.update = (node, decorations, innerDecorations) => {
+                if (updateParentView && !updateParentView(node, decorations, innerDecorations)) return false;
+                currentNode = node;
+                renderBadges();
+                return true;
+            };
+
+            return view;
+        };
+    },
+
+    addKeyboardShortcuts() {
+        return {
+            ...this.parent?.(),
+            'Alt-Enter': () => {
+                const { state } = this.editor;
+                const pos = taskItemAtLine(state, state.selection.from, this.name);
+                if (pos === null || !this.editor.isEditable) return false;
+                const node = state.doc.nodeAt(pos);
+                if (!node) return false;
+                this.options.onEditAttributes({ pos, attributes: taskAttributesOf(node.attrs) });
+                return true;
+            },
+        };
+    },
+
+    addCommands() {
+        return {
+            setTaskAttributes:
+                (pos, attributes) =>
+                    ({ tr, dispatch }) => {
+                        const node = tr.doc.nodeAt(pos);
+                        if (!node || node.type.name !== this.name) return false;
+                        if (dispatch) {
+                            tr.setNodeMarkup(pos, undefined, { ...node.attrs, ...attributes });
+                        }
+                        return true;
+                    },
+        };
+    },
+
+    addInputRules() {
+        // `!p1` and `@due:fri` set the attribute on the task they are typed in
+        // and disappear; anywhere else they stay plain text.
+        const attributeRule = (find: RegExp, toAttributes: (match: RegExpMatchArray) => Partial<TaskAttributes> | null) => (
+            new InputRule({
+                find,
+                handler: ({ state, range, match }) => {
+                    const attributes = toAttributes(match);
+                    const pos = taskItemAtLine(state, range.from, this.name);
+                    const node = pos === null ? null : state.doc.nodeAt(pos);
+                    if (!attributes || pos === null || !node) return null;
+
+                    // Keep the space before the token.
+                    const start = range.from + match[0].indexOf(match[1]);
+                    state.tr
+                        .delete(start, range.to)
+                        .setNodeMarkup(pos, undefined, { ...node.attrs, ...attributes });
+                },
+            })
+        );
+
+        return [
+            ...(this.parent?.() ?? []),
+            attributeRule(TASK_PRIORITY_INPUT_REGEX, match => ({ priority: toTaskPriority(match[2]) })),
+            attributeRule(TASK_DUE_INPUT_REGEX, match => {
+                const due = parseDueToken(match[2]);
+                return due ? { due } : null;
+            }),
+            attributeRule(TASK_REPEAT_INPUT_REGEX, match => {
+                const recurrence = toTaskRecurrence(match[2]);
+                return recurrence ? { recurrence } : null;
+            }),
+        ];
+    },
+
+    addProseMirrorPlugins() {
+        const typeName = this.name;
+
+        // Checking off a repeating item logs the day and puts it back,
+        // unchecked, at its next occurrence. Changes from collaborators were
+        // already handled on their side.
+        return [
+            ...(this.parent?.() ?? []),
+            new Plugin({
+                key: recurringTaskPluginKey,
+                appendTransaction: (transactions, oldState, newState) => {
+                    const localChanges = transactions.filter(tr => tr.docChanged && !isChangeOrigin(tr));
+                    if (localChanges.length === 0) return null;
+
+                    const mapping = new Mapping();
+                    transactions.forEach(tr => mapping.appendMapping(tr.mapping));
+                    const toOldPos = mapping.invert();
+                    const today = toJournalDate(new Date());
+                    const tr = newState.tr;
+
+                    newState.doc.descendants((node, pos) => {
+                        if (node.type.name !== typeName || node.attrs.checked !== true || !node.attrs.recurrence) return;
+                        const previous = oldState.doc.nodeAt(toOldPos.map(pos, 1));
+                        if (!previous || previous.type.name !== typeName || previous.attrs.checked === true) return;
+
+                        const line = node.firstChild;
+                        const chips: Array<{ pos: number; attrs: Record<string, unknown> }> = [];
+                        line?.forEach((child, offset) => {
+                            if (child.type.name === 'dateChip') chips.push({ pos: pos + 2 + offset, attrs: child.attrs });
+                        });
+                        const chipDays = chips.flatMap(chip => {
+                            const day = dateChipDay(chip.attrs);
+                            return day ? [day] : [];
+                        });
+                        const completion = completeRecurringTask(node.attrs, chipDays, today);
+                        if (!completion) return;
+
+                        tr.setNodeMarkup(pos, undefined, {
+                            ...node.attrs,
+                            checked: false,
+                            due: completion.due,
+                            completions: completion.completions,
+                        });
+                        if (completion.shiftDays !== 0) {
+                            chips.forEach(chip => {
+                                tr.setNodeMarkup(chip.pos, undefined, { ...chip.attrs, ...shiftDateChipAttrs(chip.attrs, completion.shiftDays) });
+                            });
+                        }
+                    });
+
+                    return tr.docChanged ? tr : null;
+                },
+            }),
+        ];
+    },
+});
@@ -0,0 +1,75 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  isReminderActionMessage,
+  markReminderDelivered,
+  reminderNotificationPermission,
+  requestReminderNotificationPermission,
+  showReminderNotification,
+  wasReminderDelivered,
+} from '@/lib/reminderNotifications';
+import type { ReminderAction, ScheduledReminder } from '@/lib/reminders';
+
+// Reminders missed by longer than this while the app was closed only show up
+// in the drawer's list instead of notifying all at once.
+const MISSED_REMINDER_WINDOW_MS = 24 * 60 * 60 * 1000;
+// setTimeout fires immediately for delays past ~24.8 days.
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+// Notifies about reminders as they come due while the app is open and applies
+// Snooze/Dismiss clicked on a notification. nowMs is when the schedule was
+// last checked, for telling overdue reminders from upcoming ones.
+export function useReminderNotifications(
+  reminders: ScheduledReminder[],
+  onAction: (reminderKey: string, action: ReminderAction) => void
+) {
+  const [nowMs, setNowMs] = useState(() => Date.now());
+  const [permission, setPermission] = useState(reminderNotificationPermission);
+
+  useEffect(() => {
+    const checkedAtMs = Date.now();
+
+    if (permission === 'granted') {
+      reminders
+        .filter((reminder) => (
+          reminder.dueAtMs <= checkedAtMs
+          && reminder.dueAtMs > checkedAtMs - MISSED_REMINDER_WINDOW_MS
+          && !wasReminderDelivered(reminder)
+        ))
+        .forEach((reminder) => {
+          markReminderDelivered(reminder);
+          showReminderNotification(reminder).catch((error: unknown) => {
+            console.warn('Failed to show reminder notification:', error);
+          });
+        });
+    }
+
+    const next = reminders.find((reminder) => reminder.dueAtMs > checkedAtMs);
+    if (!next) return;
+
+    const timeoutId = window.setTimeout(() => setNowMs(Date.now()), Math.min(next.dueAtMs - checkedAtMs, MAX_TIMER_DELAY_MS));
+    return () => window.clearTimeout(timeoutId);
+  }, [nowMs, permission, reminders]);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (isReminderActionMessage(event.data)) onAction(event.data.reminderKey, event.data.action);
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [onAction]);
+
+  const requestPermission = useCallback(async () => {
+    try {
+      setPermission(await requestReminderNotificationPermission());
+    } catch (error) {
+      console.warn('Notification permission request failed:', error);
+    }
+  }, []);
+
+  return { nowMs, permission, requestPermission };
+}
@@ -0,0 +1,188 @@
+import type { JSONContent } from '@tiptap/core';
+import { toJournalDate } from '@/lib/journal';
+import { nodePlainText, noteBlocks } from '@/lib/noteContent';
+import type { NoteRecord } from '@/lib/notesRepository';
+
+// Every date chip across the user's notes, for the /agenda view.
+
+export type AgendaItem = {
+  // Unique across notes: the note id and the chip's position in the note.
+  key: string;
+  noteId: string;
+  noteTitle: string;
+  // Local calendar day (YYYY-MM-DD) of the chip.
+  day: string;
+  dateMs: number;
+  reminderAtMs: number | null;
+  reminderId: string | null;
+  // The line of text the chip sits on.
+  context: string;
+};
+
+export type AgendaGroups = {
+  // Most recent first.
+  overdue: AgendaItem[];
+  today: AgendaItem[];
+  // Soonest first.
+  upcoming: AgendaItem[];
+};
+
+export type AgendaIndex = {
+  // Re-reads notes whose content changed and drops missing or trashed ones.
+  // Returns every chip, in date order.
+  sync: (records: NoteRecord[]) => AgendaItem[];
+};
+
+export type AgendaView = 'month' | 'week';
+
+const CONTEXT_MAX_LENGTH = 160;
+
+const finiteTime = (value: unknown): number | null => {
+  if (typeof value !== 'string') return null;
+  const time = new Date(value).getTime();
+  return Number.isFinite(time) ? time : null;
+};
+
+const trimContext = (text: string): string => {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > CONTEXT_MAX_LENGTH ? `${collapsed.slice(0, CONTEXT_MAX_LENGTH - 1).trimEnd()}…` : collapsed;
+};
+
+const compareAgendaItems = (a: AgendaItem, b: AgendaItem) => (
+  a.dateMs - b.dateMs
+  || (a.reminderAtMs ?? 0) - (b.reminderAtMs ?? 0)
+  || a.noteTitle.localeCompare(b.noteTitle)
+  || a.key.localeCompare(b.key)
+);
+
+export const noteAgendaItems = (noteId: string, noteTitle: string, doc: JSONContent | null | undefined): AgendaItem[] => {
+  const items: AgendaItem[] = [];
+
+  // Inline content is split into lines at hard breaks; each chip takes the
+  // text of its own line as context.
+  const readTextblock = (block: JSONContent) => {
+    const lines: string[] = [''];
+    const chips: Array<{ node: JSONContent; line: number }> = [];
+
+    block.content?.forEach((child) => {
+      if (child.type === 'hardBreak') {
+        lines.push('');
+        return;
+      }
+      if (child.type === 'dateChip') chips.push({ node: child, line: lines.length - 1 });
+      lines[lines.length - 1] += nodePlainText(child);
+    });
+
+    chips.forEach(({ node, line }) => {
+      const dateMs = finiteTime(node.attrs?.date);
+      if (dateMs === null) return;
+
+      const reminderAtMs = finiteTime(node.attrs?.reminderAt);
+      items.push({
+        key: `${noteId}:${items.length}`,
+        noteId,
+        noteTitle,
+        day: toJournalDate(new Date(dateMs)),
+        dateMs,
+        reminderAtMs,
+        reminderId: reminderAtMs !== null && typeof node.attrs?.reminderId === 'string' ? node.attrs.reminderId : null,
+        context: trimContext(lines[line]),
+      });
+    });
+  };
+
+  const visit = (node: JSONContent) => {
+    const children = node.content ?? [];
+    if (children.some((child) => child.type === 'text' || child.type === 'dateChip' || child.type === 'hardBreak')) {
+      readTextblock(node);
+      return;
+    }
+    children.forEach(visit);
+  };
+  noteBlocks(doc).forEach(visit);
+
+  return items;
+};
+
+export function createAgendaIndex(): AgendaIndex {
+  const notes = new Map<string, { version: string; items: AgendaItem[] }>();
+  let lastRecords: NoteRecord[] | null = null;
+  let lastItems: AgendaItem[] = [];
+
+  const sync = (records: NoteRecord[]): AgendaItem[] => {
+    if (records === lastRecords) return lastItems;
+    lastRecords = records;
+
+    const liveIds = new Set<string>();
+    let changed = false;
+
+    records.forEach((record) => {
+      if (record.isDeleted) return;
+      liveIds.add(record.id);
+
+      // Content saves always bump updatedAtMs; the title is checked too so a
+      // rename shows up even if the clock did not move.
+      const version = `${record.updatedAtMs ?? 0}:${record.title}`;
+      if (notes.get(record.id)?.version === version) return;
+
+      notes.set(record.id, { version, items: noteAgendaItems(record.id, record.title, record.contentJson) });
+      changed = true;
+    });
+
+    Array.from(notes.keys()).forEach((noteId) => {
+      if (liveIds.has(noteId)) return;
+      notes.delete(noteId);
+      changed = true;
+    });
+
+    if (changed) {
+      lastItems = Array.from(notes.values()).flatMap((note) => note.items).sort(compareAgendaItems);
+    }
+    return lastItems;
+  };
+
+  return { sync };
+}
+
+export const groupAgendaItems = (items: AgendaItem[], today: string): AgendaGroups => ({
+  overdue: items.filter((item) => item.day < today).reverse(),
+  today: items.filter((item) => item.day === today),
+  upcoming: items.filter((item) => item.day > today),
+});
+
+// Chips per day, in date order.
+export const agendaItemsByDay = (items: AgendaItem[]): Map<string, AgendaItem[]> => {
+  const byDay = new Map<string, AgendaItem[]>();
+  items.forEach((item) => {
+    const dayItems = byDay.get(item.day);
+    if (dayItems) {
+      dayItems.push(item);
+    } else {
+      byDay.set(item.day, [item]);
+    }
+  });
+  return byDay;
+};
+
+// The days shown for the view around `anchor`: whole weeks from Sunday,
+// covering the anchor's month or just its week.
+export const agendaViewDays = (view: AgendaView, anchor: Date): string[] => {
+  const first = view === 'month' ? new Date(anchor.getFullYear(), anchor.getMonth(), 1) : new Date(anchor);
+  const start = new Date(first.getFullYear(), first.getMonth(), first.getDate() - first.getDay());
+
+  let dayCount = 7;
+  if (view === 'month') {
+    const monthDays = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0).getDate();
+    dayCount = Math.ceil((first.getDay() + monthDays) / 7) * 7;
+  }
+
+  return Array.from({ length: dayCount }, (_, index) => (
+    toJournalDate(new Date(start.getFullYear(), start.getMonth(), start.getDate() + index))
+  ));
+};
+
+export const shiftAgendaAnchor = (view: AgendaView, anchor: Date, delta: number): Date => (
+  view === 'month'
+    ? new Date(anchor.getFullYear(), anchor.getMonth() + delta, 1)
+    : new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + delta * 7)
+);
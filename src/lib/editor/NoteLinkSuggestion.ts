@@ -0,0 +1,68 @@
+import { Extension, Editor, Range } from '@tiptap/core';
+import { PluginKey } from '@tiptap/pm/state';
+import Suggestion from '@tiptap/suggestion';
+import { LuFileText } from 'react-icons/lu';
+import { getSuggestionConfig } from '@/lib/editor/suggestion';
+import { CommandItem } from '@/components/editor/CommandMenu';
+import type { NoteLinkTarget } from '@/lib/noteLinks';
+
+const MAX_NOTE_LINK_SUGGESTIONS = 8;
+
+type NoteLinkSuggestionOptions = {
+    // Read on every keystroke so renamed and new notes are offered right away.
+    getNotes: () => NoteLinkTarget[];
+};
+
+const toCommandItem = (note: NoteLinkTarget): CommandItem => ({
+    title: note.title.trim() || 'Untitled',
+    description: 'Link to this note',
+    icon: LuFileText,
+    command: ({ editor, range }: { editor: Editor; range: Range }) => {
+        editor.chain().focus().deleteRange(range).insertNoteLink({ noteId: note.id, title: note.title }).run();
+    },
+});
+
+// `[[` opens a note picker; choosing a note inserts a noteLink node.
+export const NoteLinkSuggestion = Extension.create<NoteLinkSuggestionOptions>({
+    name: 'noteLinkSuggestion',
+
+    addOptions() {
+        return {
+            getNotes: () => [],
+        };
+    },
+
+    addProseMirrorPlugins() {
+        const { render } = getSuggestionConfig([]);
+
+        return [
+            Suggestion<CommandItem>({
+                editor: this.editor,
+                pluginKey: new PluginKey('noteLinkSuggestion'),
+                char: '[[',
+                allowSpaces: true,
+                allowedPrefixes: null,
+                command: ({ editor, range, props }) => {
+                    props.command({ editor, range });
+                },
+                items: ({ query }) => {
+                    const lowercaseQuery = query.replace(/\]+$/, '').trim().toLowerCase();
+                    const notes = this.options.getNotes();
+                    const matches = lowercaseQuery
+                        ? notes.filter((note) => note.title.toLowerCase().includes(lowercaseQuery))
+                        : notes;
+
+                    // Titles that start with the query rank first.
+                    return [...matches]
+                        .sort((a, b) => (
+                            Number(!a.title.toLowerCase().startsWith(lowercaseQuery))
+                            - Number(!b.title.toLowerCase().startsWith(lowercaseQuery))
+                        ))
+                        .slice(0, MAX_NOTE_LINK_SUGGESTIONS)
+                        .map(toCommandItem);
+                },
+                render,
+            }),
+        ];
+    },
+});
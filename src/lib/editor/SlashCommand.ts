@@ -3,17 +3,23 @@ import Suggestion from '@tiptap/suggestion';
 import { getSuggestionConfig } from '@/lib/editor/suggestion';
 import { CommandItem } from '@/components/editor/CommandMenu';
 import { TagChipColor } from '@/editor/TagChip';
+import { canUploadAttachments } from '@/editor/AttachmentUpload';
 import { emitOpenDatePicker } from '@/lib/editor/datePickerEvent';
+import { insertTemplateAt } from '@/lib/editor/insertTemplate';
+import type { NoteTemplate } from '@/lib/noteTemplates';
 import {
     LuCalendarDays,
     LuCode,
     LuHeading1,
     LuHeading2,
     LuHeading3,
+    LuImage,
+    LuLayoutTemplate,
     LuList,
     LuListOrdered,
     LuListTodo,
     LuMinus,
+    LuPaperclip,
     LuPilcrow,
     LuQuote,
     LuSun,
@@ -28,11 +34,22 @@ const insertOrRecolorTag = (editor: Editor, color: TagChipColor) => {
     editor.chain().focus().insertTagChip({ color, text: 'tag' }).run();
 };
 
-export const SlashCommand = Extension.create({
+type SlashCommandOptions = {
+    suggestion: {
+        char: string;
+        startOfLine: boolean;
+        command: (props: { editor: Editor; range: Range; props: { command: (props: { editor: Editor; range: Range }) => void } }) => void;
+    };
+    // Read each time the menu filters, so newly marked templates show up without a reload.
+    getTemplates: () => NoteTemplate[];
+};
+
+export const SlashCommand = Extension.create<SlashCommandOptions>({
     name: 'slashCommand',
 
     addOptions() {
         return {
+            getTemplates: () => [],
             suggestion: {
                 char: '/',
                 startOfLine: false,
@@ -206,11 +223,62 @@ export const SlashCommand = Extension.create({
             },
         ];
 
+        // Only offered where uploads work (cloud notes the user can edit).
+        const attachmentItems = (): CommandItem[] => {
+            if (!canUploadAttachments(this.editor)) return [];
+
+            return [
+                {
+                    title: 'Image',
+                    description: 'Upload an image from your device',
+                    icon: LuImage,
+                    aliases: ['image', 'img', 'picture', 'photo'],
+                    command: ({ editor, range }: { editor: Editor; range: Range }) => {
+                        editor.chain().focus().deleteRange(range).openAttachmentPicker('image/*').run();
+                    },
+                },
+                {
+                    title: 'File',
+                    description: 'Attach a file for download',
+                    icon: LuPaperclip,
+                    aliases: ['file', 'attachment', 'upload'],
+                    command: ({ editor, range }: { editor: Editor; range: Range }) => {
+                        editor.chain().focus().deleteRange(range).openAttachmentPicker().run();
+                    },
+                },
+            ];
+        };
+
+        const templateItems = (): CommandItem[] => {
+            const templates = this.options.getTemplates();
+            if (templates.length === 0) {
+                return [{
+                    title: 'Template',
+                    description: 'Mark a note as a template to insert it here',
+                    icon: LuLayoutTemplate,
+                    aliases: ['template', 'tpl'],
+                    command: ({ editor, range }: { editor: Editor; range: Range }) => {
+                        editor.chain().focus().deleteRange(range).run();
+                    },
+                }];
+            }
+
+            return templates.map((template) => ({
+                title: `Template: ${template.title}`,
+                description: 'Insert this template at the cursor',
+                icon: LuLayoutTemplate,
+                aliases: ['template', 'tpl'],
+                command: ({ editor, range }: { editor: Editor; range: Range }) => {
+                    insertTemplateAt(editor, range, template);
+                },
+            }));
+        };
+
         return [
             Suggestion({
                 editor: this.editor,
                 ...this.options.suggestion,
-                ...getSuggestionConfig(items),
+                ...getSuggestionConfig(() => [...items, ...attachmentItems(), ...templateItems()]),
             }),
         ];
     },
@@ -0,0 +1,58 @@
+import type { Editor, Range } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import { noteBlocks } from '@/lib/noteContent';
+import {
+    expandTemplateNode,
+    TEMPLATE_CURSOR_TOKEN,
+    type NoteTemplate,
+    type TemplateCursor,
+} from '@/lib/noteTemplates';
+
+// Replaces `range` with the template's blocks, then moves the caret to the
+// first {{cursor}} placeholder (removing every placeholder it inserted).
+export const insertTemplateAt = (editor: Editor, range: Range, template: NoteTemplate) => {
+    const expanded = expandTemplateNode(template.contentJson, new Date(), { keepCursor: true });
+    const blocks = noteBlocks(expanded);
+    if (blocks.length === 0) {
+        editor.chain().focus().deleteRange(range).run();
+        return;
+    }
+
+    const sizeBefore = editor.state.doc.content.size;
+    editor.chain().focus().insertContentAt(range, blocks).run();
+
+    const { doc } = editor.state;
+    const insertedTo = Math.min(range.to + doc.content.size - sizeBefore, doc.content.size);
+    const cursorPositions: number[] = [];
+    doc.nodesBetween(range.from, insertedTo, (node, pos) => {
+        if (!node.isText || !node.text) return;
+        let index = node.text.indexOf(TEMPLATE_CURSOR_TOKEN);
+        while (index !== -1) {
+            cursorPositions.push(pos + index);
+            index = node.text.indexOf(TEMPLATE_CURSOR_TOKEN, index + TEMPLATE_CURSOR_TOKEN.length);
+        }
+    });
+    if (cursorPositions.length === 0) return;
+
+    // Delete back to front so earlier positions stay valid.
+    const chain = editor.chain();
+    [...cursorPositions].reverse().forEach((from) => {
+        chain.deleteRange({ from, to: from + TEMPLATE_CURSOR_TOKEN.length });
+    });
+    chain.setTextSelection(cursorPositions[0]).focus().run();
+};
+
+// Document position of a cursor recorded when a note was created from a
+// template, or null while the doc does not have that textblock (yet).
+export const resolveTemplateCursor = (doc: ProseMirrorNode, cursor: TemplateCursor): number | null => {
+    let node = doc;
+    let pos = 0;
+    for (const index of cursor.path) {
+        if (index >= node.childCount) return null;
+        for (let i = 0; i < index; i += 1) pos += node.child(i).nodeSize;
+        node = node.child(index);
+        pos += 1;
+    }
+    if (!node.isTextblock) return null;
+    return pos + Math.min(cursor.offset, node.content.size);
+};
@@ -3,10 +3,11 @@ import tippy, { Instance as TippyInstance } from 'tippy.js';
 import { CommandMenu, CommandMenuRef, CommandItem } from '@/components/editor/CommandMenu';
 import { SuggestionProps } from '@tiptap/suggestion';
 
-export const getSuggestionConfig = (items: CommandItem[]) => ({
+// `items` may be a function for commands that depend on app state (e.g. templates).
+export const getSuggestionConfig = (items: CommandItem[] | (() => CommandItem[])) => ({
     items: ({ query }: { query: string }) => {
         const lowercaseQuery = query.toLowerCase();
-        return items.filter((item) =>
+        return (typeof items === 'function' ? items() : items).filter((item) =>
             item.title.toLowerCase().includes(lowercaseQuery) ||
             item.aliases?.some(alias => alias.toLowerCase().includes(lowercaseQuery))
         );
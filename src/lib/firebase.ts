@@ -1,6 +1,13 @@
 import { initializeApp } from 'firebase/app';
 import { getAuth, connectAuthEmulator } from 'firebase/auth';
-import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import {
+  connectFirestoreEmulator,
+  getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+} from 'firebase/firestore';
+import { connectStorageEmulator, getStorage } from 'firebase/storage';
 
 const firebaseConfig = {
   apiKey: process.env.NEXT_PUBLIC_FIREBASE_API_KEY!,
@@ -18,28 +25,30 @@ const app = initializeApp(firebaseConfig);
 // Initialize Auth
 export const auth = getAuth(app);
 
-// Initialize Firestore
-export const db = getFirestore(app);
-
-/* 
-// Temporarily disabled for debugging
-if (typeof window !== 'undefined') {
-  if (!(window as any)._firebasePersistenceEnabled) {
-    enableIndexedDbPersistence(db).then(() => {
-      (window as any)._firebasePersistenceEnabled = true;
-    }).catch((err) => {
-      if (err.code === 'failed-precondition') {
-        console.warn('Persistence failed: Multiple tabs open');
-      } else if (err.code === 'unimplemented') {
-        console.warn('Persistence not available');
-      }
+// Initialize Firestore. In the browser the cache is persisted to IndexedDB and
+// shared across tabs, so notes open offline and writes queue until reconnect.
+function createFirestore() {
+  if (typeof window === 'undefined') return getFirestore(app);
+
+  try {
+    return initializeFirestore(app, {
+      localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
     });
+  } catch (error) {
+    // Already initialized (e.g. after a hot reload) or IndexedDB is unavailable.
+    console.warn('Firestore persistent cache unavailable:', error);
+    return getFirestore(app);
   }
 }
-*/
+
+export const db = createFirestore();
+
+// Initialize Storage (note attachments)
+export const storage = getStorage(app);
 
 // Development: Connect to emulators if running locally
 if (process.env.NODE_ENV === 'development' && process.env.NEXT_PUBLIC_USE_FIREBASE_EMULATOR === 'true') {
   connectAuthEmulator(auth, 'http://localhost:9099');
   connectFirestoreEmulator(db, 'localhost', 8080);
+  connectStorageEmulator(storage, 'localhost', 9199);
 }
@@ -4,6 +4,15 @@ export const APP_ID = 'tulis';
 
 const APP_ROOT_DOC = 'data';
 const NOTES_COLLECTION = 'notes';
+const NOTEBOOKS_COLLECTION = 'notebooks';
+const SAVED_SEARCHES_COLLECTION = 'savedSearches';
+const USER_SETTINGS_COLLECTION = 'userSettings';
+const NOTE_REVISIONS_COLLECTION = 'revisions';
+const NOTE_CRDT_COLLECTION = 'crdt';
+const NOTE_CRDT_STATE_DOC = 'state';
+const NOTE_CRDT_UPDATES_COLLECTION = 'crdtUpdates';
+const PUBLISHED_NOTES_COLLECTION = 'publishedNotes';
+const USER_EMAILS_COLLECTION = 'userEmails';
 
 export function appNotesCollection(db: Firestore) {
   return collection(db, APP_ID, APP_ROOT_DOC, NOTES_COLLECTION);
@@ -13,6 +22,66 @@ export function appNoteDoc(db: Firestore, noteId: string) {
   return doc(appNotesCollection(db), noteId);
 }
 
+export function appNotebooksCollection(db: Firestore) {
+  return collection(db, APP_ID, APP_ROOT_DOC, NOTEBOOKS_COLLECTION);
+}
+
+export function appNotebookDoc(db: Firestore, notebookId: string) {
+  return doc(appNotebooksCollection(db), notebookId);
+}
+
+export function appSavedSearchesCollection(db: Firestore) {
+  return collection(db, APP_ID, APP_ROOT_DOC, SAVED_SEARCHES_COLLECTION);
+}
+
+export function appSavedSearchDoc(db: Firestore, savedSearchId: string) {
+  return doc(appSavedSearchesCollection(db), savedSearchId);
+}
+
+// One document per user, keyed by uid.
+export function appUserSettingsDoc(db: Firestore, userId: string) {
+  return doc(collection(db, APP_ID, APP_ROOT_DOC, USER_SETTINGS_COLLECTION), userId);
+}
+
+export function appNoteRevisionsCollection(db: Firestore, noteId: string) {
+  return collection(appNoteDoc(db, noteId), NOTE_REVISIONS_COLLECTION);
+}
+
+export function appNoteCrdtStateDoc(db: Firestore, noteId: string) {
+  return doc(collection(appNoteDoc(db, noteId), NOTE_CRDT_COLLECTION), NOTE_CRDT_STATE_DOC);
+}
+
+export function appNoteCrdtUpdatesCollection(db: Firestore, noteId: string) {
+  return collection(appNoteDoc(db, noteId), NOTE_CRDT_UPDATES_COLLECTION);
+}
+
+export function appNoteCrdtUpdateDoc(db: Firestore, noteId: string, updateId: string) {
+  return doc(appNoteCrdtUpdatesCollection(db, noteId), updateId);
+}
+
+export function appPublishedNotesCollection(db: Firestore) {
+  return collection(db, APP_ID, APP_ROOT_DOC, PUBLISHED_NOTES_COLLECTION);
+}
+
+export function appPublishedNoteDoc(db: Firestore, slug: string) {
+  return doc(appPublishedNotesCollection(db), slug);
+}
+
+// Share invite lookups, keyed by normalized email (see userRegistration.ts).
+export function appUserEmailDoc(db: Firestore, normalizedEmail: string) {
+  return doc(collection(db, APP_ID, APP_ROOT_DOC, USER_EMAILS_COLLECTION), normalizedEmail);
+}
+
+export function userDirectoryCollection(db: Firestore) {
+  return collection(db, 'users');
+}
+
 export function userDirectoryDoc(db: Firestore, userId: string) {
-  return doc(db, 'users', userId);
+  return doc(userDirectoryCollection(db), userId);
+}
+
+// Firebase Storage prefix for a note's attachments. Keyed by the note owner so
+// rules can check ownership and purging a note removes one folder.
+export function noteAttachmentsStoragePath(ownerUid: string, noteId: string) {
+  return `${APP_ID}/users/${ownerUid}/notes/${noteId}/attachments`;
 }
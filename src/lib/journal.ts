@@ -0,0 +1,77 @@
+import type { NoteRecord } from '@/lib/notesRepository';
+
+// Journal entries are regular notes keyed by a local calendar day (YYYY-MM-DD).
+export const JOURNAL_LABEL = 'journal';
+
+const JOURNAL_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const journalTemplateStorageKey = (uid: string) => `tulis:journal-template:${uid}`;
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+export const toJournalDate = (date: Date): string => (
+  `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`
+);
+
+export const todayJournalDate = (): string => toJournalDate(new Date());
+
+// Local midnight of the given day, or null for anything that is not a real date.
+export const parseJournalDate = (value: string | null | undefined): Date | null => {
+  const match = value ? JOURNAL_DATE_PATTERN.exec(value) : null;
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  return toJournalDate(date) === value ? date : null;
+};
+
+export const shiftJournalDate = (journalDate: string, days: number): string => {
+  const date = parseJournalDate(journalDate) ?? new Date();
+  date.setDate(date.getDate() + days);
+  return toJournalDate(date);
+};
+
+export const formatJournalTitle = (journalDate: string): string => {
+  const date = parseJournalDate(journalDate);
+  if (!date) return journalDate;
+  return new Intl.DateTimeFormat('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' }).format(date);
+};
+
+// Journal day -> note id, skipping Trash. The oldest note wins if a day ended
+// up with two entries (e.g. created on two offline devices).
+export const collectJournalEntries = (records: NoteRecord[]): Record<string, string> => {
+  const entries: Record<string, { id: string; createdAtMs: number }> = {};
+
+  records.forEach((record) => {
+    if (!record.journalDate || record.isDeleted) return;
+    const createdAtMs = record.createdAtMs ?? Number.MAX_SAFE_INTEGER;
+    const existing = entries[record.journalDate];
+    if (!existing || createdAtMs < existing.createdAtMs) {
+      entries[record.journalDate] = { id: record.id, createdAtMs };
+    }
+  });
+
+  return Object.fromEntries(Object.entries(entries).map(([journalDate, entry]) => [journalDate, entry.id]));
+};
+
+export const getJournalTemplateId = (uid: string): string | null => {
+  if (typeof window === 'undefined') return null;
+
+  try {
+    return window.localStorage.getItem(journalTemplateStorageKey(uid)) || null;
+  } catch {
+    return null;
+  }
+};
+
+export const setJournalTemplateId = (uid: string, templateId: string | null): void => {
+  try {
+    if (templateId) {
+      window.localStorage.setItem(journalTemplateStorageKey(uid), templateId);
+    } else {
+      window.localStorage.removeItem(journalTemplateStorageKey(uid));
+    }
+  } catch {
+    // Ignore localStorage write failures.
+  }
+};
@@ -0,0 +1,57 @@
+import type { LabelChanges } from '@/lib/notes';
+
+export type LabelColor = 'red' | 'orange' | 'yellow' | 'green' | 'teal' | 'blue' | 'purple' | 'pink';
+
+// Label -> color; labels without an entry are drawn uncolored.
+export type LabelColors = Record<string, LabelColor>;
+
+export const LABEL_COLORS: LabelColor[] = ['red', 'orange', 'yellow', 'green', 'teal', 'blue', 'purple', 'pink'];
+
+export const LABEL_COLOR_NAMES: Record<LabelColor, string> = {
+  red: 'Red',
+  orange: 'Orange',
+  yellow: 'Yellow',
+  green: 'Green',
+  teal: 'Teal',
+  blue: 'Blue',
+  purple: 'Purple',
+  pink: 'Pink',
+};
+
+export const isLabelColor = (value: unknown): value is LabelColor => (
+  typeof value === 'string' && (LABEL_COLORS as string[]).includes(value)
+);
+
+// Own keys only: labels such as `constructor` are valid.
+export const labelColorOf = (colors: LabelColors, label: string): LabelColor | null => (
+  Object.prototype.hasOwnProperty.call(colors, label) ? colors[label] : null
+);
+
+// CSS color for inline styles; the values live in globals.css.
+export const labelColorValue = (color: LabelColor): string => `var(--label${LABEL_COLOR_NAMES[color]})`;
+
+export const toLabelColors = (value: unknown): LabelColors => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const colors: LabelColors = {};
+  Object.entries(value as Record<string, unknown>).forEach(([label, color]) => {
+    if (isLabelColor(color)) colors[label] = color;
+  });
+  return colors;
+};
+
+// Color updates that go with a set of label changes: a renamed or merged
+// label passes its color on unless the target already has one, and labels
+// that go away lose theirs.
+export const labelColorChanges = (colors: LabelColors, changes: LabelChanges): Record<string, LabelColor | null> => {
+  const updates: Record<string, LabelColor | null> = {};
+
+  changes.forEach((next, label) => {
+    const color = labelColorOf(colors, label);
+    if (!color) return;
+    if (next && !labelColorOf(colors, next) && !Object.prototype.hasOwnProperty.call(updates, next)) updates[next] = color;
+    if (next !== label) updates[label] = null;
+  });
+
+  return updates;
+};
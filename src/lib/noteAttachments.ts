@@ -0,0 +1,139 @@
+import { getDoc } from 'firebase/firestore';
+import {
+  deleteObject,
+  getDownloadURL,
+  listAll,
+  ref,
+  uploadBytesResumable,
+  type StorageReference,
+} from 'firebase/storage';
+import { db, storage } from '@/lib/firebase';
+import { appNoteDoc, noteAttachmentsStoragePath } from '@/lib/firestorePaths';
+
+// What the editor stores in an image or file node once the upload finished.
+export type UploadedAttachment = {
+  url: string;
+  path: string;
+  name: string;
+  size: number;
+  contentType: string;
+};
+
+export type AttachmentUploader = (
+  file: File,
+  onProgress: (fraction: number) => void
+) => Promise<UploadedAttachment>;
+
+// Keep in sync with the size limit in storage.rules.
+export const MAX_ATTACHMENT_BYTES = 20 * 1024 * 1024;
+
+// Longest edge of uploaded images; anything larger is scaled down in the browser.
+const MAX_IMAGE_DIMENSION = 2048;
+const JPEG_QUALITY = 0.85;
+
+// Formats a canvas can't re-encode without losing something (animation, vectors).
+const PASSTHROUGH_IMAGE_TYPES = new Set(['image/gif', 'image/svg+xml']);
+
+export const isImageFile = (file: File): boolean => file.type.startsWith('image/');
+
+export const formatAttachmentSize = (bytes: number): string => {
+  if (!Number.isFinite(bytes) || bytes <= 0) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const storageFileName = (name: string): string => {
+  const cleaned = name.trim().replace(/[/\\?%*:|"<>#[\]]+/g, '-').slice(-120);
+  return cleaned || 'file';
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string) => new Promise<Blob | null>((resolve) => {
+  canvas.toBlob(resolve, type, JPEG_QUALITY);
+});
+
+// Screenshots and phone photos are routinely several times larger than the
+// editor column, so they are resized before upload. Falls back to the original
+// file whenever the browser can't decode or re-encode it.
+export async function downscaleImage(file: File): Promise<File> {
+  if (!isImageFile(file) || PASSTHROUGH_IMAGE_TYPES.has(file.type)) return file;
+
+  let bitmap: ImageBitmap | null = null;
+  try {
+    bitmap = await createImageBitmap(file);
+    const scale = MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height);
+    if (scale >= 1) return file;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    const type = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    const blob = await canvasToBlob(canvas, type);
+    if (!blob || blob.size >= file.size) return file;
+
+    const name = type === file.type ? file.name : file.name.replace(/\.[^.]*$/, '') + '.jpg';
+    return new File([blob], name, { type, lastModified: file.lastModified });
+  } catch (error) {
+    console.warn('Failed to downscale image, uploading the original:', error);
+    return file;
+  } finally {
+    bitmap?.close();
+  }
+}
+
+export async function uploadNoteAttachment({
+  ownerUid,
+  noteId,
+  file,
+  onProgress,
+}: {
+  ownerUid: string;
+  noteId: string;
+  file: File;
+  onProgress?: (fraction: number) => void;
+}): Promise<UploadedAttachment> {
+  const upload = await downscaleImage(file);
+  if (upload.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is larger than ${formatAttachmentSize(MAX_ATTACHMENT_BYTES)}.`);
+  }
+
+  const path = `${noteAttachmentsStoragePath(ownerUid, noteId)}/${crypto.randomUUID()}/${storageFileName(upload.name)}`;
+  const task = uploadBytesResumable(ref(storage, path), upload, {
+    contentType: upload.type || 'application/octet-stream',
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    task.on(
+      'state_changed',
+      (snapshot) => onProgress?.(snapshot.totalBytes ? snapshot.bytesTransferred / snapshot.totalBytes : 0),
+      reject,
+      resolve
+    );
+  });
+
+  return {
+    url: await getDownloadURL(task.snapshot.ref),
+    path,
+    name: upload.name,
+    size: upload.size,
+    contentType: upload.type,
+  };
+}
+
+async function listAllFiles(folder: StorageReference): Promise<StorageReference[]> {
+  const listing = await listAll(folder);
+  const nested = await Promise.all(listing.prefixes.map((prefix) => listAllFiles(prefix)));
+  return [...listing.items, ...nested.flat()];
+}
+
+// Called while purging a note so its uploads don't outlive it.
+export async function deleteNoteAttachments(noteId: string): Promise<void> {
+  const snapshot = await getDoc(appNoteDoc(db, noteId));
+  const ownerUid = snapshot.data()?.ownerUid;
+  if (typeof ownerUid !== 'string' || !ownerUid) return;
+
+  const files = await listAllFiles(ref(storage, noteAttachmentsStoragePath(ownerUid, noteId)));
+  await Promise.all(files.map((file) => deleteObject(file)));
+}
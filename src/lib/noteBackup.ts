@@ -0,0 +1,213 @@
+import type { JSONContent } from '@tiptap/core';
+import { isJsonContentDoc, nodePlainText, noteBlocks } from '@/lib/noteContent';
+import { collectOutgoingLinks } from '@/lib/noteLinks';
+import { markdownFileName, markdownToNote, noteToMarkdown } from '@/lib/noteMarkdown';
+import { normalizeLabels } from '@/lib/notes';
+import { getNotesRepository, type NoteImport, type NoteRecord } from '@/lib/notesRepository';
+import { createZip, readZip, type ZipEntry } from '@/lib/zipArchive';
+
+// Account backup: one Markdown file per note (readable anywhere) plus
+// notes.json with the raw contentJson, which is what restore reads.
+
+const BACKUP_FORMAT = 'tulis-backup';
+const BACKUP_VERSION = 1;
+const BACKUP_MANIFEST = 'notes.json';
+
+type BackupNote = {
+  id: string;
+  title: string;
+  contentJson: JSONContent;
+  labels: string[];
+  pinned: boolean;
+  notebookId: string | null;
+  isTemplate: boolean;
+  journalDate: string | null;
+  isDeleted: boolean;
+  deletedAt: string | null;
+  createdAt: string | null;
+  updatedAt: string | null;
+};
+
+export type BackupRestoreResult = {
+  restored: number;
+  // Notes whose ids already exist in this account.
+  skipped: number;
+};
+
+const isoOrNull = (ms: number | null): string | null => (ms === null ? null : new Date(ms).toISOString());
+
+const msOrNull = (value: unknown): number | null => {
+  const ms = typeof value === 'string' ? Date.parse(value) : Number.NaN;
+  return Number.isNaN(ms) ? null : ms;
+};
+
+const stringOrNull = (value: unknown): string | null => (typeof value === 'string' && value ? value : null);
+
+const frontMatter = (fields: Record<string, unknown>): string => [
+  '---',
+  ...Object.entries(fields)
+    .filter(([, value]) => value !== null && value !== undefined)
+    // JSON strings and arrays are valid YAML flow scalars/sequences.
+    .map(([key, value]) => `${key}: ${value instanceof Date ? value.toISOString() : JSON.stringify(value)}`),
+  '---',
+  '',
+].join('\n');
+
+const toBackupNote = (record: NoteRecord): BackupNote => ({
+  id: record.id,
+  title: record.title,
+  contentJson: record.contentJson,
+  labels: record.labels,
+  pinned: record.pinned,
+  notebookId: record.notebookId,
+  isTemplate: record.isTemplate,
+  journalDate: record.journalDate,
+  isDeleted: record.isDeleted,
+  deletedAt: isoOrNull(record.deletedAtMs),
+  createdAt: isoOrNull(record.createdAtMs),
+  updatedAt: isoOrNull(record.updatedAtMs),
+});
+
+export function backupFileName(now: Date = new Date()): string {
+  return `tulis-backup-${now.toISOString().slice(0, 10)}.zip`;
+}
+
+export async function createNotesBackup(
+  ownerUid: string,
+  options: { includeTrash?: boolean } = {}
+): Promise<{ blob: Blob; noteCount: number }> {
+  const records = (await getNotesRepository().listNotes(ownerUid))
+    .filter((record) => options.includeTrash || !record.isDeleted);
+
+  const usedNames = new Set<string>();
+  const entries: ZipEntry[] = records.map((record) => {
+    // Titles repeat; the id suffix keeps file names unique and traceable.
+    const baseName = markdownFileName(record.title).replace(/\.md$/, '');
+    let fileName = `${baseName}.md`;
+    if (usedNames.has(fileName.toLowerCase())) fileName = `${baseName} (${record.id}).md`;
+    usedNames.add(fileName.toLowerCase());
+
+    const header = frontMatter({
+      id: record.id,
+      title: record.title,
+      labels: record.labels,
+      pinned: record.pinned,
+      createdAt: record.createdAtMs === null ? null : new Date(record.createdAtMs),
+      updatedAt: record.updatedAtMs === null ? null : new Date(record.updatedAtMs),
+      deleted: record.isDeleted || null,
+    });
+
+    return {
+      name: `${record.isDeleted ? 'trash' : 'notes'}/${fileName}`,
+      data: `${header}\n${noteToMarkdown(record)}`,
+      modifiedAt: record.updatedAtMs === null ? undefined : new Date(record.updatedAtMs),
+    };
+  });
+
+  entries.push({
+    name: BACKUP_MANIFEST,
+    data: JSON.stringify({
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      exportedAt: new Date().toISOString(),
+      notes: records.map(toBackupNote),
+    }, null, 2),
+  });
+
+  return { blob: await createZip(entries), noteCount: records.length };
+}
+
+const toNoteImport = (value: unknown, knownNotebookIds: Set<string>): NoteImport | null => {
+  if (!value || typeof value !== 'object') return null;
+  const note = value as Partial<Record<keyof BackupNote, unknown>>;
+  const id = stringOrNull(note.id);
+  if (!id || id.includes('/') || !isJsonContentDoc(note.contentJson)) return null;
+
+  const notebookId = stringOrNull(note.notebookId);
+  const isDeleted = note.isDeleted === true;
+  return {
+    id,
+    title: typeof note.title === 'string' && note.title.trim() ? note.title : 'Untitled',
+    content: noteBlocks(note.contentJson).map((block) => nodePlainText(block)).join('\n'),
+    contentJson: note.contentJson,
+    labels: Array.isArray(note.labels)
+      ? normalizeLabels(note.labels.filter((label): label is string => typeof label === 'string'))
+      : [],
+    pinned: note.pinned === true,
+    // Notebooks are not part of the backup; keep the filing only if it still exists.
+    notebookId: notebookId && knownNotebookIds.has(notebookId) ? notebookId : null,
+    isTemplate: note.isTemplate === true,
+    journalDate: stringOrNull(note.journalDate),
+    outgoingLinks: collectOutgoingLinks(note.contentJson),
+    isDeleted,
+    deletedAtMs: isDeleted ? msOrNull(note.deletedAt) : null,
+    createdAtMs: msOrNull(note.createdAt),
+    updatedAtMs: msOrNull(note.updatedAt),
+  };
+};
+
+const parseFrontMatter = (source: string): { fields: Record<string, unknown>; body: string } => {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(source);
+  if (!match) return { fields: {}, body: source };
+
+  const fields: Record<string, unknown> = {};
+  match[1].split(/\r?\n/).forEach((line) => {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return;
+    const raw = line.slice(separator + 1).trim();
+    let value: unknown = raw;
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      // Unquoted scalars such as ISO dates stay strings.
+    }
+    fields[line.slice(0, separator).trim()] = value;
+  });
+  return { fields, body: source.slice(match[0].length) };
+};
+
+// Archives without notes.json (e.g. edited by hand) restore from the Markdown files.
+const notesFromMarkdownFiles = (files: Map<string, Uint8Array>, knownNotebookIds: Set<string>): NoteImport[] => {
+  const decoder = new TextDecoder();
+  return Array.from(files.entries()).flatMap(([name, data]) => {
+    if (!/\.(md|markdown)$/i.test(name)) return [];
+
+    const { fields, body } = parseFrontMatter(decoder.decode(data));
+    const fallbackTitle = name.split('/').pop()?.replace(/\.(md|markdown)$/i, '') ?? 'Untitled';
+    const parsed = markdownToNote(body, typeof fields.title === 'string' ? fields.title : fallbackTitle);
+    const isDeleted = fields.deleted === true || name.startsWith('trash/');
+
+    return toNoteImport({
+      ...fields,
+      id: stringOrNull(fields.id) ?? crypto.randomUUID().replace(/-/g, ''),
+      title: parsed.title,
+      contentJson: parsed.contentJson,
+      isDeleted,
+      deletedAt: isDeleted ? fields.updatedAt : null,
+    }, knownNotebookIds) ?? [];
+  });
+};
+
+export async function restoreNotesBackup(
+  ownerUid: string,
+  file: Blob,
+  options: { knownNotebookIds?: Iterable<string> } = {}
+): Promise<BackupRestoreResult> {
+  const files = await readZip(file);
+  const knownNotebookIds = new Set(options.knownNotebookIds ?? []);
+
+  const manifest = files.get(BACKUP_MANIFEST);
+  let notes: NoteImport[];
+  if (manifest) {
+    const parsed = JSON.parse(new TextDecoder().decode(manifest)) as { format?: unknown; notes?: unknown };
+    if (parsed.format !== BACKUP_FORMAT || !Array.isArray(parsed.notes)) {
+      throw new Error('This archive is not a tulis backup.');
+    }
+    notes = parsed.notes.flatMap((note) => toNoteImport(note, knownNotebookIds) ?? []);
+  } else {
+    notes = notesFromMarkdownFiles(files, knownNotebookIds);
+  }
+
+  const restoredIds = await getNotesRepository().importNotes(ownerUid, notes);
+  return { restored: restoredIds.length, skipped: notes.length - restoredIds.length };
+}
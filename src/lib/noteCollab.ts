@@ -0,0 +1,320 @@
+import type { JSONContent } from '@tiptap/core';
+import type { Schema } from '@tiptap/pm/model';
+import { prosemirrorJSONToYXmlFragment, yXmlFragmentToProsemirrorJSON } from '@tiptap/y-tiptap';
+import {
+  addDoc,
+  Bytes,
+  getDoc,
+  getDocs,
+  limit,
+  onSnapshot,
+  query,
+  runTransaction,
+  serverTimestamp,
+  writeBatch,
+} from 'firebase/firestore';
+import * as Y from 'yjs';
+import { db } from '@/lib/firebase';
+import { appNoteCrdtStateDoc, appNoteCrdtUpdateDoc, appNoteCrdtUpdatesCollection } from '@/lib/firestorePaths';
+import { noteBlocks } from '@/lib/noteContent';
+
+// `cached` means the session is running from the offline cache and has not
+// seen the server yet, so legacy notes must not be seeded.
+export type NoteCollabStatus = 'connecting' | 'cached' | 'synced' | 'unavailable';
+
+export const NOTE_COLLAB_FIELD = 'default';
+
+// Origins let the session tell Firestore-delivered updates apart from local edits.
+const REMOTE_ORIGIN = 'tulis:remote';
+const FLUSH_DELAY_MS = 250;
+const COMPACT_AFTER_UPDATES = 64;
+const MAX_COMPACT_DELETES = 450;
+// Another device compacting at the same moment makes the transaction give up;
+// its compaction covers ours, so that is not worth reporting.
+const COMPACT_RACE_ERROR_CODES = new Set(['aborted', 'failed-precondition']);
+// Seed content is generated with a fixed client id so two devices seeding the
+// same legacy note at once produce identical Yjs items instead of duplicates.
+const SEED_CLIENT_ID = 0;
+
+type StartNoteCollabSessionOptions = {
+  noteId: string;
+  ownerUid: string;
+  ydoc: Y.Doc;
+  onStatusChange: (status: NoteCollabStatus) => void;
+  onPendingChange?: (hasPendingUpdates: boolean) => void;
+  onError?: (error: unknown) => void;
+};
+
+export function isNoteCollabDocEmpty(ydoc: Y.Doc): boolean {
+  return ydoc.getXmlFragment(NOTE_COLLAB_FIELD).length === 0;
+}
+
+export function seedNoteCollabDoc(ydoc: Y.Doc, schema: Schema, content: JSONContent): boolean {
+  if (!isNoteCollabDocEmpty(ydoc) || noteBlocks(content).length === 0) return false;
+
+  const seedDoc = new Y.Doc();
+  seedDoc.clientID = SEED_CLIENT_ID;
+  prosemirrorJSONToYXmlFragment(schema, content, seedDoc.getXmlFragment(NOTE_COLLAB_FIELD));
+  Y.applyUpdate(ydoc, Y.encodeStateAsUpdate(seedDoc));
+  seedDoc.destroy();
+  return true;
+}
+
+async function compactNoteCollabUpdates(noteId: string, ownerUid: string, ydoc: Y.Doc, updateIds: string[]) {
+  const stateRef = appNoteCrdtStateDoc(db, noteId);
+  const compactedIds = updateIds.slice(0, MAX_COMPACT_DELETES);
+
+  await runTransaction(db, async (transaction) => {
+    const stateSnapshot = await transaction.get(stateRef);
+    const existingState = stateSnapshot.exists() && stateSnapshot.data().state instanceof Bytes
+      ? (stateSnapshot.data().state as Bytes).toUint8Array()
+      : null;
+    // Merge rather than overwrite so a concurrent compaction from another
+    // device can never drop updates this client has not seen yet.
+    const localState = Y.encodeStateAsUpdate(ydoc);
+    const mergedState = existingState ? Y.mergeUpdates([existingState, localState]) : localState;
+
+    transaction.set(stateRef, {
+      ownerUid,
+      state: Bytes.fromUint8Array(mergedState),
+      updatedAt: serverTimestamp(),
+    });
+    compactedIds.forEach((updateId) => {
+      transaction.delete(appNoteCrdtUpdateDoc(db, noteId, updateId));
+    });
+  });
+}
+
+export function startNoteCollabSession({
+  noteId,
+  ownerUid,
+  ydoc,
+  onStatusChange,
+  onPendingChange,
+  onError,
+}: StartNoteCollabSessionOptions): () => void {
+  let disposed = false;
+  let listening = false;
+  let synced = false;
+  let pendingUpdates: Uint8Array[] = [];
+  let flushTimeout: ReturnType<typeof setTimeout> | null = null;
+  let compactInFlight = false;
+  let unsubscribeState: (() => void) | null = null;
+  let unsubscribeUpdates: (() => void) | null = null;
+  let hasState = false;
+  const knownUpdateIds = new Set<string>();
+
+  const reportError = (error: unknown) => {
+    if (disposed) return;
+    onError?.(error);
+  };
+
+  const writeUpdate = (update: Uint8Array) => addDoc(appNoteCrdtUpdatesCollection(db, noteId), {
+    ownerUid,
+    clientId: ydoc.clientID,
+    update: Bytes.fromUint8Array(update),
+    createdAt: serverTimestamp(),
+  });
+
+  const flush = () => {
+    flushTimeout = null;
+    if (disposed || !listening || pendingUpdates.length === 0) return;
+
+    const batch = pendingUpdates;
+    pendingUpdates = [];
+    onPendingChange?.(false);
+
+    // The write lands in Firestore's persistent cache right away but only
+    // resolves once the server acknowledges it, so later flushes don't wait on it.
+    // Compaction is left to sessions that write: viewers (and devices only
+    // watching) may not rewrite the log, and the device that pushed the log
+    // over the limit is the natural one to fold it up.
+    void writeUpdate(Y.mergeUpdates(batch)).then(() => {
+      if (!disposed) void maybeCompact();
+    }, (error) => {
+      // Put the updates back so the next flush retries them.
+      pendingUpdates = [...batch, ...pendingUpdates];
+      reportError(error);
+      if (!disposed) {
+        onPendingChange?.(true);
+        scheduleFlush();
+      }
+    });
+  };
+
+  const scheduleFlush = () => {
+    if (flushTimeout) clearTimeout(flushTimeout);
+    flushTimeout = setTimeout(flush, FLUSH_DELAY_MS);
+  };
+
+  const maybeCompact = async () => {
+    if (compactInFlight || knownUpdateIds.size < COMPACT_AFTER_UPDATES) return;
+    compactInFlight = true;
+    try {
+      await compactNoteCollabUpdates(noteId, ownerUid, ydoc, [...knownUpdateIds]);
+    } catch (error) {
+      const code = typeof error === 'object' && error && 'code' in error
+        ? String((error as { code?: string }).code ?? '')
+        : '';
+      if (!COMPACT_RACE_ERROR_CODES.has(code)) {
+        console.warn('Failed to compact note collaboration updates:', error);
+      }
+    } finally {
+      compactInFlight = false;
+    }
+  };
+
+  const handleLocalUpdate = (update: Uint8Array, origin: unknown) => {
+    if (origin === REMOTE_ORIGIN) return;
+    pendingUpdates.push(update);
+    onPendingChange?.(true);
+    if (listening) scheduleFlush();
+  };
+
+  ydoc.on('update', handleLocalUpdate);
+  onStatusChange('connecting');
+
+  const subscribeToUpdates = () => {
+    unsubscribeUpdates = onSnapshot(appNoteCrdtUpdatesCollection(db, noteId), { includeMetadataChanges: true }, (snapshot) => {
+      snapshot.docChanges().forEach((change) => {
+        if (change.type === 'removed') {
+          knownUpdateIds.delete(change.doc.id);
+          return;
+        }
+        if (change.type !== 'added') return;
+
+        knownUpdateIds.add(change.doc.id);
+        const update = change.doc.data().update;
+        if (update instanceof Bytes) {
+          Y.applyUpdate(ydoc, update.toUint8Array(), REMOTE_ORIGIN);
+        }
+      });
+
+      // An empty offline cache says nothing about the server: seeding a legacy
+      // note from it could duplicate content once the real state arrives.
+      const isUnknownFromCache = snapshot.metadata.fromCache && !hasState && knownUpdateIds.size === 0;
+      if (!synced) {
+        if (!isUnknownFromCache) {
+          synced = true;
+          onStatusChange('synced');
+        } else if (!listening) {
+          onStatusChange('cached');
+        }
+      }
+      if (!listening) {
+        // Local edits are safe to queue either way; Yjs merges them on reconnect.
+        listening = true;
+        if (pendingUpdates.length > 0) scheduleFlush();
+      }
+    }, (error) => {
+      if (!listening) {
+        onStatusChange('unavailable');
+      }
+      reportError(error);
+    });
+  };
+
+  // The compacted state is watched as well: another device may compact (and
+  // delete update docs) between our first state read and the updates listener.
+  unsubscribeState = onSnapshot(appNoteCrdtStateDoc(db, noteId), (snapshot) => {
+    const state = snapshot.exists() ? snapshot.data().state : null;
+    if (state instanceof Bytes) {
+      hasState = true;
+      Y.applyUpdate(ydoc, state.toUint8Array(), REMOTE_ORIGIN);
+    }
+    if (!unsubscribeUpdates) {
+      subscribeToUpdates();
+    }
+  }, (error) => {
+    if (!listening) {
+      onStatusChange('unavailable');
+    }
+    reportError(error);
+  });
+
+  return () => {
+    disposed = true;
+    ydoc.off('update', handleLocalUpdate);
+    unsubscribeState?.();
+    unsubscribeUpdates?.();
+    if (flushTimeout) clearTimeout(flushTimeout);
+    // Best-effort final flush of edits made in the last debounce window.
+    if (listening && pendingUpdates.length > 0) {
+      const remaining = Y.mergeUpdates(pendingUpdates);
+      pendingUpdates = [];
+      void writeUpdate(remaining).catch((error) => {
+        console.error('Failed to flush note collaboration updates:', error);
+      });
+    }
+  };
+}
+
+// Makes a one-off change to a note's collaborative document from outside the
+// editor and appends it to the update log, where open editors merge it like any
+// other edit. Resolves to the resulting document, or null when the note has no
+// collaborative state yet (the editor seeds it from contentJson on first open).
+export async function updateNoteCollabDoc(
+  noteId: string,
+  ownerUid: string,
+  change: (fragment: Y.XmlFragment) => void
+): Promise<JSONContent | null> {
+  const [stateSnapshot, updatesSnapshot] = await Promise.all([
+    getDoc(appNoteCrdtStateDoc(db, noteId)),
+    getDocs(appNoteCrdtUpdatesCollection(db, noteId)),
+  ]);
+
+  const ydoc = new Y.Doc();
+  try {
+    const state = stateSnapshot.exists() ? stateSnapshot.data().state : null;
+    if (state instanceof Bytes) Y.applyUpdate(ydoc, state.toUint8Array(), REMOTE_ORIGIN);
+    updatesSnapshot.docs.forEach((updateDoc) => {
+      const update = updateDoc.data().update;
+      if (update instanceof Bytes) Y.applyUpdate(ydoc, update.toUint8Array(), REMOTE_ORIGIN);
+    });
+
+    if (isNoteCollabDocEmpty(ydoc)) {
+      // Same rule as the editor: an empty offline cache says nothing about the server.
+      if (stateSnapshot.metadata.fromCache || updatesSnapshot.metadata.fromCache) {
+        throw new Error('This note has not synced to this device yet.');
+      }
+      return null;
+    }
+
+    const stateBefore = Y.encodeStateVector(ydoc);
+    ydoc.transact(() => change(ydoc.getXmlFragment(NOTE_COLLAB_FIELD)));
+    const update = Y.encodeStateAsUpdate(ydoc, stateBefore);
+    await addDoc(appNoteCrdtUpdatesCollection(db, noteId), {
+      ownerUid,
+      clientId: ydoc.clientID,
+      update: Bytes.fromUint8Array(update),
+      createdAt: serverTimestamp(),
+    });
+
+    return yXmlFragmentToProsemirrorJSON(ydoc.getXmlFragment(NOTE_COLLAB_FIELD)) as JSONContent;
+  } finally {
+    ydoc.destroy();
+  }
+}
+
+// Whether the note's content already lives in a collaborative document, in
+// which case contentJson is only a projection of it.
+export async function hasNoteCollabData(noteId: string): Promise<boolean> {
+  const [stateSnapshot, updatesSnapshot] = await Promise.all([
+    getDoc(appNoteCrdtStateDoc(db, noteId)),
+    getDocs(query(appNoteCrdtUpdatesCollection(db, noteId), limit(1))),
+  ]);
+  return stateSnapshot.exists() || !updatesSnapshot.empty;
+}
+
+export async function deleteNoteCollabData(noteId: string): Promise<void> {
+  const snapshot = await getDocs(appNoteCrdtUpdatesCollection(db, noteId));
+  const refs = [...snapshot.docs.map((updateDoc) => updateDoc.ref), appNoteCrdtStateDoc(db, noteId)];
+
+  for (let index = 0; index < refs.length; index += 500) {
+    const batch = writeBatch(db);
+    refs.slice(index, index + 500).forEach((ref) => {
+      batch.delete(ref);
+    });
+    await batch.commit();
+  }
+}
@@ -0,0 +1,111 @@
+import type { JSONContent } from '@tiptap/core';
+
+export const createEmptyNoteContent = (): JSONContent => ({ type: 'doc', content: [] });
+
+export const isJsonContentDoc = (value: unknown): value is JSONContent => {
+  return !!value && typeof value === 'object' && !Array.isArray(value) && (value as JSONContent).type === 'doc';
+};
+
+export const toNoteContent = (value: unknown): JSONContent => {
+  return isJsonContentDoc(value) ? value : createEmptyNoteContent();
+};
+
+export const noteBlocks = (doc: JSONContent | null | undefined): JSONContent[] => {
+  return Array.isArray(doc?.content) ? doc.content : [];
+};
+
+const BLOCK_SEPARATED_TYPES = new Set([
+  'paragraph',
+  'heading',
+  'blockquote',
+  'codeBlock',
+  'bulletList',
+  'orderedList',
+  'listItem',
+  'taskList',
+  'taskItem',
+  'horizontalRule',
+  'image',
+  'fileAttachment',
+]);
+
+export const nodePlainText = (node: JSONContent | null | undefined): string => {
+  if (!node) return '';
+  if (node.type === 'text') return node.text ?? '';
+  if (node.type === 'hardBreak') return '\n';
+  if (node.type === 'noteLink') return typeof node.attrs?.title === 'string' ? node.attrs.title : '';
+  if (node.type === 'fileAttachment') return typeof node.attrs?.name === 'string' ? node.attrs.name : '';
+  if (node.type === 'dateChip') {
+    const date = typeof node.attrs?.date === 'string' ? new Date(node.attrs.date) : null;
+    return date && !Number.isNaN(date.getTime()) ? date.toISOString().slice(0, 10) : '';
+  }
+
+  const children = Array.isArray(node.content) ? node.content : [];
+  const separator = children.some((child) => BLOCK_SEPARATED_TYPES.has(child.type ?? '')) ? '\n' : '';
+  return children.map((child) => nodePlainText(child)).join(separator);
+};
+
+// The note's `content` field: blocks separated like the editor's getText().
+export const notePlainText = (doc: JSONContent | null | undefined): string => (
+  noteBlocks(doc).map((block) => nodePlainText(block)).join('\n\n')
+);
+
+export type NoteContentFeatures = {
+  hasTasks: boolean;
+  hasCode: boolean;
+  hasDates: boolean;
+};
+
+// What has:tasks, has:code and has:date search for.
+export const noteContentFeatures = (doc: JSONContent | null | undefined): NoteContentFeatures => {
+  const features: NoteContentFeatures = { hasTasks: false, hasCode: false, hasDates: false };
+
+  const visit = (node: JSONContent) => {
+    if (node.type === 'taskItem') features.hasTasks = true;
+    if (node.type === 'codeBlock' || node.marks?.some((mark) => mark.type === 'code')) features.hasCode = true;
+    if (node.type === 'dateChip') features.hasDates = true;
+    node.content?.forEach(visit);
+  };
+  noteBlocks(doc).forEach(visit);
+
+  return features;
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function deepEqualJsonValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null) return a === b;
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b)) return false;
+    if (a.length !== b.length) return false;
+    for (let index = 0; index < a.length; index += 1) {
+      if (!deepEqualJsonValue(a[index], b[index])) return false;
+    }
+    return true;
+  }
+
+  if (isPlainObject(a) || isPlainObject(b)) {
+    if (!isPlainObject(a) || !isPlainObject(b)) return false;
+    const aKeys = Object.keys(a);
+    const bKeys = Object.keys(b);
+    if (aKeys.length !== bKeys.length) return false;
+    for (const key of aKeys) {
+      if (!Object.prototype.hasOwnProperty.call(b, key)) return false;
+      if (!deepEqualJsonValue(a[key], b[key])) return false;
+    }
+    return true;
+  }
+
+  return false;
+}
+
+// Structural equality: the editor and Firestore may order object keys differently.
+export function isEquivalentNoteContent(a: JSONContent, b: JSONContent): boolean {
+  return deepEqualJsonValue(a, b);
+}
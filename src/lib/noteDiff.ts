@@ -0,0 +1,90 @@
+import type { JSONContent } from '@tiptap/core';
+import { nodePlainText, noteBlocks } from '@/lib/noteContent';
+
+export type NoteBlockDiffKind = 'unchanged' | 'added' | 'removed';
+
+export type NoteBlockDiffEntry = {
+  kind: NoteBlockDiffKind;
+  block: JSONContent;
+  text: string;
+};
+
+export type NoteBlockDiffSummary = {
+  added: number;
+  removed: number;
+};
+
+// Blocks are compared by their serialized JSON so attribute-only edits
+// (a checked task, a recolored tag) still register as a change.
+export const blockSignature = (block: JSONContent): string => JSON.stringify(block);
+
+// Longest common subsequence over block signatures. Returns, for every
+// `before` index, the index of its matching `after` block or -1.
+export function matchBlockSequences(beforeKeys: string[], afterKeys: string[]): number[] {
+  const rows = beforeKeys.length + 1;
+  const cols = afterKeys.length + 1;
+  const lengths: number[][] = Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+  for (let i = beforeKeys.length - 1; i >= 0; i -= 1) {
+    for (let j = afterKeys.length - 1; j >= 0; j -= 1) {
+      lengths[i][j] = beforeKeys[i] === afterKeys[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matches = new Array<number>(beforeKeys.length).fill(-1);
+  let i = 0;
+  let j = 0;
+
+  while (i < beforeKeys.length && j < afterKeys.length) {
+    if (beforeKeys[i] === afterKeys[j]) {
+      matches[i] = j;
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i += 1;
+    } else {
+      j += 1;
+    }
+  }
+
+  return matches;
+}
+
+export function diffNoteBlocks(before: JSONContent, after: JSONContent): NoteBlockDiffEntry[] {
+  const beforeBlocks = noteBlocks(before);
+  const afterBlocks = noteBlocks(after);
+  const matches = matchBlockSequences(beforeBlocks.map(blockSignature), afterBlocks.map(blockSignature));
+
+  const entries: NoteBlockDiffEntry[] = [];
+  let j = 0;
+
+  beforeBlocks.forEach((block, i) => {
+    const matchIndex = matches[i];
+    if (matchIndex === -1) {
+      entries.push({ kind: 'removed', block, text: nodePlainText(block) });
+      return;
+    }
+
+    for (; j < matchIndex; j += 1) {
+      entries.push({ kind: 'added', block: afterBlocks[j], text: nodePlainText(afterBlocks[j]) });
+    }
+    entries.push({ kind: 'unchanged', block: afterBlocks[j], text: nodePlainText(afterBlocks[j]) });
+    j += 1;
+  });
+
+  for (; j < afterBlocks.length; j += 1) {
+    entries.push({ kind: 'added', block: afterBlocks[j], text: nodePlainText(afterBlocks[j]) });
+  }
+
+  return entries;
+}
+
+export function summarizeNoteBlockDiff(entries: NoteBlockDiffEntry[]): NoteBlockDiffSummary {
+  return entries.reduce<NoteBlockDiffSummary>((summary, entry) => {
+    if (entry.kind === 'added') summary.added += 1;
+    if (entry.kind === 'removed') summary.removed += 1;
+    return summary;
+  }, { added: 0, removed: 0 });
+}
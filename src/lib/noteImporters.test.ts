@@ -0,0 +1,204 @@
+import { JSDOM } from 'jsdom';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ARCHIVED_LABEL, commitImport, prepareImport, type ImportedNote } from '@/lib/noteImporters';
+import { setNotesRepositoryOverride } from '@/lib/notesRepository';
+import { createFirestoreNotesRepository } from '@/lib/notesRepositoryFirestore';
+import { fakeFirestore } from '@/lib/testing/fakeFirestore';
+import { createZip } from '@/lib/zipArchive';
+
+vi.mock('@/lib/firebase', () => ({ auth: {}, db: {}, storage: {} }));
+vi.mock('firebase/firestore', () => import('@/lib/testing/fakeFirestore'));
+
+// Keep HTML and Evernote ENML go through DOMParser; File and Blob stay Node's.
+const { window } = new JSDOM();
+vi.stubGlobal('DOMParser', window.DOMParser);
+vi.stubGlobal('document', window.document);
+vi.stubGlobal('Node', window.Node);
+
+const USER = 'user-a';
+const NOTES_PREFIX = 'tulis/data/notes/';
+
+const keepNote = (name: string, note: Record<string, unknown>) => new File([JSON.stringify(note)], name);
+
+const byTitle = (notes: ImportedNote[], title: string) => notes.find((item) => item.note.title === title);
+
+const enex = (...notes: string[]) => new File([
+  `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE en-export SYSTEM "http://xml.evernote.com/pub/evernote-export4.dtd">
+<en-export>${notes.join('')}</en-export>`,
+], 'Notebook.enex');
+
+const enexNote = (fields: string, enml: string) => `<note>${fields}<content><![CDATA[<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE en-note SYSTEM "http://xml.evernote.com/pub/enml2.dtd">
+<en-note>${enml}</en-note>]]></content></note>`;
+
+describe('prepareImport', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('reads Google Keep checklists, labels and archived notes from a Takeout ZIP', async () => {
+    const takeout = await createZip([
+      {
+        name: 'Takeout/Keep/Packing.json',
+        data: JSON.stringify({
+          title: 'Packing',
+          listContent: [{ text: 'Passport', isChecked: true }, { text: 'Charger', isChecked: false }],
+          labels: [{ name: 'Travel' }],
+          annotations: [{ url: 'https://example.com/checklist', title: 'Checklist ideas' }],
+          isArchived: true,
+          isPinned: true,
+          createdTimestampUsec: 1_700_000_000_000_000,
+          userEditedTimestampUsec: 1_700_000_500_000_000,
+        }),
+      },
+      { name: 'Takeout/Keep/Labels.txt', data: 'Travel' },
+    ]);
+
+    const { notes, errors } = await prepareImport([new File([takeout], 'takeout.zip')]);
+
+    expect(errors).toEqual([]);
+    expect(notes).toHaveLength(1);
+    const [packing] = notes;
+    expect(packing).toMatchObject({ source: 'keep', archived: true, taskCount: 2 });
+    expect(packing.note).toMatchObject({
+      labels: [ARCHIVED_LABEL, 'travel'],
+      pinned: true,
+      createdAtMs: 1_700_000_000_000,
+      updatedAtMs: 1_700_000_500_000,
+    });
+    expect(packing.note.contentJson.content?.[0].content?.map((item) => item.attrs?.checked)).toEqual([true, false]);
+    expect(packing.note.outgoingLinks).toEqual([]);
+    expect(packing.note.content).toContain('Checklist ideas');
+  });
+
+  it('falls back to Keep HTML when the JSON file is missing', async () => {
+    const html = `<html><body><div class="note">
+      <div class="heading">Nov 14, 2023, 10:13:20 PM</div>
+      <div class="title">Book list</div>
+      <div class="content">Dune<br>Piranesi</div>
+      <div class="chips"><span class="label"><span class="label-name">Reading</span></span></div>
+    </div></body></html>`;
+
+    const { notes } = await prepareImport([new File([html], 'Book list.html')]);
+
+    expect(notes.map((item) => item.note.title)).toEqual(['Book list']);
+    expect(notes[0].note.labels).toEqual(['reading']);
+    expect(notes[0].note.content).toBe('Dune\nPiranesi');
+  });
+
+  it('reads Evernote notes, including ones without <created>', async () => {
+    const file = () => enex(
+      enexNote(
+        '<title>Trip</title><created>20240105T153000Z</created><updated>20240106T090000Z</updated><tag>travel</tag>',
+        '<div><en-todo checked="true"/>Flights</div><div><en-todo/>Hotel</div><en-media type="image/png" hash="abc"/>'
+      ),
+      enexNote('<title>Undated</title><updated>20240201T080000Z</updated>', '<p>Only an update time</p>'),
+      enexNote('<title></title>', '<p>Scratch &amp; sketches</p>'),
+    );
+
+    const { notes, errors } = await prepareImport([file()]);
+
+    expect(errors).toEqual([]);
+    expect(notes.map((item) => item.note.title)).toEqual(['Trip', 'Undated', 'Scratch & sketches']);
+    expect(byTitle(notes, 'Trip')).toMatchObject({
+      source: 'evernote',
+      taskCount: 2,
+      note: { labels: ['travel'], createdAtMs: Date.UTC(2024, 0, 5, 15, 30), updatedAtMs: Date.UTC(2024, 0, 6, 9) },
+    });
+    expect(byTitle(notes, 'Trip')?.warnings).toHaveLength(1);
+    expect(byTitle(notes, 'Undated')?.note).toMatchObject({ createdAtMs: null, updatedAtMs: Date.UTC(2024, 1, 1, 8) });
+    expect(byTitle(notes, 'Scratch & sketches')?.note).toMatchObject({ createdAtMs: null, updatedAtMs: null });
+
+    // Undated notes still get the same ids the next time.
+    const again = await prepareImport([file()]);
+    expect(again.notes.map((item) => item.note.id)).toEqual(notes.map((item) => item.note.id));
+  });
+
+  it('reports an .enex file that is not XML', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { notes, errors } = await prepareImport([new File(['<en-export><note>'], 'Broken.enex')]);
+
+    expect(notes).toEqual([]);
+    expect(errors).toEqual([{ origin: 'Broken.enex', message: 'This .enex file is not valid XML.' }]);
+  });
+
+  it('reads Notion pages, database properties and links between pages', async () => {
+    const id = (digit: string) => digit.repeat(32);
+    const csv = [
+      'Name,Tags,Notes,Archived',
+      `Plan trip,"travel, summer","Call ""Ana"" first",No`,
+      'Old idea,,"Line one\r\nLine two, with a comma",Yes',
+      '',
+    ].join('\r\n');
+    const exportZip = await createZip([
+      { name: `Projects ${id('a')}.csv`, data: csv },
+      {
+        name: `Projects ${id('a')}/Plan trip ${id('b')}.md`,
+        data: '# Plan trip\n\nTags: travel, summer\nNotes: Call "Ana" first\n\nSee [Packing](../Packing%20' + id('c') + '.md).\n',
+      },
+      { name: `Packing ${id('c')}.md`, data: '# Packing\n\n- [ ] Tent\n\n![map](map.png)\n' },
+    ]);
+
+    const { notes, errors } = await prepareImport([new File([exportZip], 'Export.zip')]);
+
+    expect(errors).toEqual([]);
+    expect(notes.map((item) => item.note.title).sort()).toEqual(['Old idea', 'Packing', 'Plan trip']);
+
+    const packing = byTitle(notes, 'Packing')!;
+    expect(packing).toMatchObject({ source: 'notion', taskCount: 1, warnings: ['1 image not imported'] });
+
+    const plan = byTitle(notes, 'Plan trip')!;
+    expect(plan.note.labels).toEqual(['travel', 'summer']);
+    expect(plan.note.content).toBe('See Packing.');
+    expect(plan.note.outgoingLinks).toEqual([packing.note.id]);
+
+    // Rows without a page come from the CSV alone, quoted newlines and all.
+    const oldIdea = byTitle(notes, 'Old idea')!;
+    expect(oldIdea.archived).toBe(true);
+    expect(oldIdea.note.labels).toEqual([ARCHIVED_LABEL]);
+    expect(oldIdea.note.content).toBe('Notes: Line one\r\nLine two, with a comma');
+  });
+
+  it('takes the fullest of a Notion database\'s two CSV files', async () => {
+    const folder = `Reading ${'d'.repeat(32)}`;
+    const { notes } = await prepareImport([
+      new File(['Name,Author\nDune,Herbert\n'], `${folder}.csv`),
+      new File(['Name,Author\nDune,Herbert\n"Piranesi","Clarke"\n'], `${folder}_all.csv`),
+    ]);
+
+    expect(notes.map((item) => [item.note.title, item.note.content])).toEqual([
+      ['Dune', 'Author: Herbert'],
+      ['Piranesi', 'Author: Clarke'],
+    ]);
+  });
+});
+
+describe('commitImport', () => {
+  beforeEach(() => {
+    fakeFirestore.reset();
+    // Note rules from firestore.rules: unused ids may be fetched, other
+    // users' notes may not.
+    fakeFirestore.canRead = (path, data) => !path.startsWith(NOTES_PREFIX) || data === undefined || data.ownerUid === USER;
+    setNotesRepositoryOverride(createFirestoreNotesRepository());
+  });
+
+  afterEach(() => {
+    setNotesRepositoryOverride(null);
+  });
+
+  it('skips notes brought in by an earlier import of the same export', async () => {
+    const files = () => [
+      keepNote('Groceries.json', { title: 'Groceries', textContent: 'Milk', createdTimestampUsec: 1_700_000_000_000_000 }),
+      keepNote('Ideas.json', { title: 'Ideas', textContent: 'Garden', createdTimestampUsec: 1_700_000_100_000_000 }),
+    ];
+
+    const first = await prepareImport(files());
+    await expect(commitImport(USER, first.notes)).resolves.toEqual({ imported: 2, skipped: 0 });
+    const second = await prepareImport(files());
+    await expect(commitImport(USER, second.notes)).resolves.toEqual({ imported: 0, skipped: 2 });
+
+    const storedIds = [...fakeFirestore.documents.keys()].map((path) => path.slice(NOTES_PREFIX.length)).sort();
+    expect(storedIds).toEqual(first.notes.map((item) => item.note.id).sort());
+  });
+});
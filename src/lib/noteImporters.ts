@@ -0,0 +1,948 @@
+import type { JSONContent } from '@tiptap/core';
+import { nodePlainText } from '@/lib/noteContent';
+import { collectOutgoingLinks, NOTE_LINK_NODE } from '@/lib/noteLinks';
+import { markdownToNote } from '@/lib/noteMarkdown';
+import { normalizeLabel, normalizeLabels } from '@/lib/notes';
+import { getNotesRepository, type NoteImport } from '@/lib/notesRepository';
+import { readZip } from '@/lib/zipArchive';
+
+// Importers for Google Keep Takeout, Evernote .enex and Notion Markdown+CSV
+// exports. prepareImport() only parses, so the wizard can show a preview;
+// nothing is written until commitImport().
+
+export type ImportSource = 'keep' | 'evernote' | 'notion';
+
+export const IMPORT_SOURCE_NAMES: Record<ImportSource, string> = {
+  keep: 'Google Keep',
+  evernote: 'Evernote',
+  notion: 'Notion',
+};
+
+// tulis has no archive, so archived notes keep this label instead.
+export const ARCHIVED_LABEL = 'archived';
+
+export type ImportedNote = {
+  source: ImportSource;
+  // File (and note within it) this came from, shown in the preview.
+  origin: string;
+  note: NoteImport;
+  archived: boolean;
+  taskCount: number;
+  // Content that could not be carried over; the note itself still imports.
+  warnings: string[];
+};
+
+export type ImportError = {
+  origin: string;
+  message: string;
+};
+
+export type ImportPreview = {
+  notes: ImportedNote[];
+  errors: ImportError[];
+};
+
+export type ImportResult = {
+  imported: number;
+  // Notes already brought in by an earlier import of the same export.
+  skipped: number;
+};
+
+type Mark = NonNullable<JSONContent['marks']>[number];
+
+type SourceFile = {
+  path: string;
+  data: Uint8Array;
+};
+
+type ParsedNote = {
+  title: string;
+  blocks: JSONContent[];
+  tags: string[];
+  pinned: boolean;
+  archived: boolean;
+  trashed: boolean;
+  createdAtMs: number | null;
+  updatedAtMs: number | null;
+  warnings: string[];
+};
+
+const MAX_DERIVED_TITLE_LENGTH = 80;
+
+const decoder = new TextDecoder();
+const decodeText = (data: Uint8Array): string => decoder.decode(data).replace(/^\uFEFF/, '');
+
+const extensionOf = (path: string): string => /\.([^./]+)$/.exec(path)?.[1].toLowerCase() ?? '';
+const baseNameOf = (path: string): string => path.split('/').pop()?.replace(/\.[^.]+$/, '') ?? path;
+const directoryOf = (path: string): string => path.slice(0, Math.max(0, path.lastIndexOf('/')));
+
+const errorMessage = (error: unknown, fallback: string): string => (
+  error instanceof Error && error.message ? error.message : fallback
+);
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Ids are derived from the source item, so importing the same export twice
+// skips what is already there instead of duplicating it.
+async function importNoteId(source: ImportSource, key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${source}:${key}`));
+  return Array.from(new Uint8Array(digest).slice(0, 10), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+const textNode = (text: string, marks: Mark[] = []): JSONContent => (
+  marks.length ? { type: 'text', text, marks } : { type: 'text', text }
+);
+
+const paragraph = (content: JSONContent[]): JSONContent => (
+  content.length ? { type: 'paragraph', content } : { type: 'paragraph' }
+);
+
+const codeBlock = (source: string): JSONContent => ({
+  type: 'codeBlock',
+  attrs: { language: null },
+  ...(source ? { content: [{ type: 'text', text: source }] } : {}),
+});
+
+const taskItem = (checked: boolean, content: JSONContent[]): JSONContent => ({
+  type: 'taskItem',
+  attrs: { checked },
+  content: content[0]?.type === 'paragraph' ? content : [{ type: 'paragraph' }, ...content],
+});
+
+const plainTextBlocks = (text: string): JSONContent[] => text
+  .split(/\r?\n/)
+  .filter((line) => line.trim())
+  .map((line) => paragraph([textNode(line)]));
+
+const derivedTitle = (title: string | null | undefined, blocks: JSONContent[]): string => {
+  const trimmed = title?.trim();
+  if (trimmed) return trimmed;
+  const firstLine = blocks.map((block) => nodePlainText(block).trim()).find(Boolean) ?? '';
+  return firstLine.slice(0, MAX_DERIVED_TITLE_LENGTH) || 'Untitled';
+};
+
+const msOrNull = (value: number): number | null => (Number.isFinite(value) && value > 0 ? value : null);
+
+// --- HTML (Keep note bodies, Evernote ENML) -> editor blocks ---------------
+
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'title', 'meta', 'link', 'noscript', 'template']);
+const MEDIA_TAGS = new Set(['en-media', 'video', 'audio', 'object', 'embed', 'iframe', 'svg', 'canvas']);
+const INLINE_TAGS = new Set([
+  'a', 'abbr', 'b', 'big', 'cite', 'code', 'del', 'em', 'font', 'i', 'kbd', 'label', 'mark', 'q',
+  's', 'samp', 'small', 'span', 'strike', 'strong', 'sub', 'sup', 'tt', 'u', 'var',
+]);
+const TAG_MARKS: Record<string, string> = {
+  b: 'bold',
+  strong: 'bold',
+  i: 'italic',
+  em: 'italic',
+  u: 'underline',
+  s: 'strike',
+  strike: 'strike',
+  del: 'strike',
+  code: 'code',
+  kbd: 'code',
+  samp: 'code',
+  tt: 'code',
+};
+
+const withMark = (marks: Mark[], mark: Mark): Mark[] => [...marks.filter((existing) => existing.type !== mark.type), mark];
+
+const elementMarks = (element: Element, marks: Mark[]): Mark[] => {
+  const tag = element.localName.toLowerCase();
+  let next = marks;
+  if (TAG_MARKS[tag]) next = withMark(next, { type: TAG_MARKS[tag] });
+
+  const href = tag === 'a' ? element.getAttribute('href')?.trim() : null;
+  if (href && /^(https?:|mailto:)/i.test(href)) next = withMark(next, { type: 'link', attrs: { href } });
+
+  // Evernote and Keep format with inline styles rather than tags.
+  const style = element.getAttribute('style')?.toLowerCase() ?? '';
+  if (/font-weight:\s*(bold|[6-9]00)/.test(style)) next = withMark(next, { type: 'bold' });
+  if (/font-style:\s*italic/.test(style)) next = withMark(next, { type: 'italic' });
+  if (/text-decoration[^;]*underline/.test(style)) next = withMark(next, { type: 'underline' });
+  if (/text-decoration[^;]*line-through/.test(style)) next = withMark(next, { type: 'strike' });
+  return next;
+};
+
+const sameMarks = (left: JSONContent, right: JSONContent): boolean => (
+  JSON.stringify(left.marks ?? []) === JSON.stringify(right.marks ?? [])
+);
+
+// Collapses the whitespace left over from HTML source formatting and merges
+// neighbouring text that shares marks.
+const tidyInline = (nodes: JSONContent[]): JSONContent[] => {
+  const merged: JSONContent[] = [];
+  nodes.forEach((node) => {
+    const previous = merged[merged.length - 1];
+    if (node.type === 'text' && previous?.type === 'text' && sameMarks(previous, node)) {
+      previous.text = `${previous.text ?? ''}${node.text ?? ''}`.replace(/ {2,}/g, ' ');
+      return;
+    }
+    merged.push({ ...node });
+  });
+
+  while (merged[0]?.type === 'hardBreak') merged.shift();
+  while (merged[merged.length - 1]?.type === 'hardBreak') merged.pop();
+
+  const first = merged[0];
+  if (first?.type === 'text') first.text = (first.text ?? '').trimStart();
+  const last = merged[merged.length - 1];
+  if (last?.type === 'text') last.text = (last.text ?? '').trimEnd();
+  return merged.filter((node) => node.type !== 'text' || node.text);
+};
+
+// Text of a code block, keeping line structure from <br> and block elements.
+const blockText = (element: Element): string => {
+  let text = '';
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent ?? '';
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+    const tag = (node as Element).localName.toLowerCase();
+    if (tag === 'br') {
+      text += '\n';
+      return;
+    }
+    node.childNodes.forEach(visit);
+    if (!INLINE_TAGS.has(tag) && !text.endsWith('\n')) text += '\n';
+  };
+  element.childNodes.forEach(visit);
+  return text.replace(/\u00a0/g, ' ').replace(/\n+$/, '');
+};
+
+const isCodeBlockElement = (element: Element): boolean => (
+  /-en-codeblock:\s*true/i.test(element.getAttribute('style') ?? '')
+);
+
+type HtmlConversion = {
+  blocks: JSONContent[];
+  skippedMedia: number;
+  flattenedTables: number;
+};
+
+function htmlToBlocks(root: Node): HtmlConversion {
+  const result: HtmlConversion = { blocks: [], skippedMedia: 0, flattenedTables: 0 };
+
+  const inlineContent = (blocks: JSONContent[]): JSONContent[] => tidyInline(
+    blocks.flatMap((block, index) => [
+      ...(index > 0 ? [{ type: 'hardBreak' }] : []),
+      ...(block.type === 'paragraph' || block.type === 'heading' ? block.content ?? [] : [textNode(nodePlainText(block))]),
+    ])
+  );
+
+  const convertList = (list: Element, marks: Mark[]): JSONContent[] => {
+    const tag = list.localName.toLowerCase();
+    // Evernote 10 marks checklists with CSS custom properties, Keep with classes.
+    const taskList = /--en-todo:\s*true/i.test(list.getAttribute('style') ?? '')
+      || list.getAttribute('data-type') === 'taskList';
+
+    const items = Array.from(list.children)
+      .filter((child) => child.localName.toLowerCase() === 'li')
+      .map((item) => {
+        const style = item.getAttribute('style') ?? '';
+        const keepItem = item.classList.contains('listitem');
+        const checked = /--en-checked:\s*true/i.test(style)
+          || item.getAttribute('data-checked') === 'true'
+          || (keepItem && item.classList.contains('checked'));
+        const content = convertBlocks(item, marks);
+        if (content.length === 1 && content[0].type === 'taskList') {
+          // <li><en-todo/>…</li> already converted itself.
+          return { task: true, node: content[0].content?.[0] ?? taskItem(false, []) };
+        }
+        if (taskList || keepItem) return { task: true, node: taskItem(checked, content) };
+        return {
+          task: false,
+          node: { type: 'listItem', content: content[0]?.type === 'paragraph' ? content : [{ type: 'paragraph' }, ...content] },
+        };
+      });
+
+    if (items.length === 0) return [];
+    if (items.every((item) => item.task)) return [{ type: 'taskList', content: items.map((item) => item.node) }];
+
+    const start = Number.parseInt(list.getAttribute('start') ?? '', 10);
+    return [{
+      type: tag === 'ol' ? 'orderedList' : 'bulletList',
+      ...(tag === 'ol' && Number.isFinite(start) && start !== 1 ? { attrs: { start } } : {}),
+      content: items.map((item) => (
+        item.task ? { type: 'listItem', content: item.node.content ?? [{ type: 'paragraph' }] } : item.node
+      )),
+    }];
+  };
+
+  // Tables become one paragraph per row; the editor has no table node.
+  const convertTable = (table: Element, marks: Mark[]): JSONContent[] => {
+    result.flattenedTables += 1;
+    return Array.from(table.querySelectorAll('tr')).flatMap((row) => {
+      const cells = Array.from(row.children)
+        .filter((cell) => ['td', 'th'].includes(cell.localName.toLowerCase()))
+        .map((cell) => inlineContent(convertBlocks(cell, marks)))
+        .filter((cell) => cell.length > 0);
+      if (cells.length === 0) return [];
+      return [paragraph(cells.flatMap((cell, index) => (index > 0 ? [textNode(' | '), ...cell] : cell)))];
+    });
+  };
+
+  const convertBlocks = (parent: Node, parentMarks: Mark[]): JSONContent[] => {
+    const blocks: JSONContent[] = [];
+    let inline: JSONContent[] = [];
+    // Set when the current line started with a to-do checkbox.
+    let task: boolean | null = null;
+
+    const flush = () => {
+      const content = tidyInline(inline);
+      if (task !== null) {
+        blocks.push(taskItem(task, [paragraph(content)]));
+      } else if (content.length > 0) {
+        blocks.push(paragraph(content));
+      }
+      inline = [];
+      task = null;
+    };
+
+    const startTask = (checked: boolean) => {
+      // Old ENML puts several to-dos in one <div>, separated by <br>.
+      if (tidyInline(inline).length > 0 || task !== null) flush();
+      inline = [];
+      task = checked;
+    };
+
+    const visit = (node: Node, marks: Mark[]) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        const text = (node.textContent ?? '').replace(/\s+/g, ' ');
+        if (text) inline.push(textNode(text, marks));
+        return;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+      const element = node as Element;
+      const tag = element.localName.toLowerCase();
+      if (SKIPPED_TAGS.has(tag)) return;
+
+      if (MEDIA_TAGS.has(tag)) {
+        result.skippedMedia += 1;
+        return;
+      }
+
+      switch (tag) {
+        case 'br':
+          inline.push({ type: 'hardBreak' });
+          return;
+        case 'en-todo':
+          startTask(element.getAttribute('checked') === 'true');
+          return;
+        case 'input':
+          if (element.getAttribute('type') === 'checkbox') startTask(element.hasAttribute('checked'));
+          return;
+        case 'img': {
+          const src = element.getAttribute('src') ?? '';
+          if (!/^https?:\/\//i.test(src)) {
+            // Inline data: URLs and files inside the export are not uploaded.
+            result.skippedMedia += 1;
+            return;
+          }
+          flush();
+          blocks.push({ type: 'image', attrs: { src, alt: element.getAttribute('alt') || null } });
+          return;
+        }
+        case 'hr':
+          flush();
+          blocks.push({ type: 'horizontalRule' });
+          return;
+        case 'h1':
+        case 'h2':
+        case 'h3':
+        case 'h4':
+        case 'h5':
+        case 'h6': {
+          flush();
+          const content = inlineContent(convertBlocks(element, marks));
+          if (content.length > 0) blocks.push({ type: 'heading', attrs: { level: Number(tag[1]) }, content });
+          return;
+        }
+        case 'ul':
+        case 'ol':
+          flush();
+          blocks.push(...convertList(element, marks));
+          return;
+        case 'blockquote': {
+          flush();
+          const content = convertBlocks(element, marks);
+          if (content.length > 0) blocks.push({ type: 'blockquote', content });
+          return;
+        }
+        case 'pre':
+          flush();
+          blocks.push(codeBlock(blockText(element)));
+          return;
+        case 'table':
+          flush();
+          blocks.push(...convertTable(element, marks));
+          return;
+        default:
+          break;
+      }
+
+      if (isCodeBlockElement(element)) {
+        flush();
+        blocks.push(codeBlock(blockText(element)));
+        return;
+      }
+
+      const childMarks = elementMarks(element, marks);
+      if (INLINE_TAGS.has(tag)) {
+        element.childNodes.forEach((child) => visit(child, childMarks));
+        return;
+      }
+
+      flush();
+      element.childNodes.forEach((child) => visit(child, childMarks));
+      flush();
+    };
+
+    parent.childNodes.forEach((child) => visit(child, parentMarks));
+    flush();
+
+    // Neighbouring to-dos form one checklist.
+    return blocks.reduce<JSONContent[]>((grouped, block) => {
+      const previous = grouped[grouped.length - 1];
+      if (block.type !== 'taskItem') {
+        grouped.push(block);
+      } else if (previous?.type === 'taskList') {
+        previous.content = [...(previous.content ?? []), block];
+      } else {
+        grouped.push({ type: 'taskList', content: [block] });
+      }
+      return grouped;
+    }, []);
+  };
+
+  result.blocks = convertBlocks(root, []);
+  return result;
+}
+
+const htmlWarnings = ({ skippedMedia, flattenedTables }: HtmlConversion): string[] => [
+  ...(skippedMedia > 0 ? [`${plural(skippedMedia, 'image or attachment')} not imported`] : []),
+  ...(flattenedTables > 0 ? [`${plural(flattenedTables, 'table')} flattened to text`] : []),
+];
+
+const parseHtml = (html: string): Document => new DOMParser().parseFromString(html, 'text/html');
+
+// --- Google Keep Takeout -----------------------------------------------------
+
+type KeepNoteJson = {
+  title?: unknown;
+  textContent?: unknown;
+  textContentHtml?: unknown;
+  listContent?: unknown;
+  labels?: unknown;
+  annotations?: unknown;
+  attachments?: unknown;
+  isPinned?: unknown;
+  isArchived?: unknown;
+  isTrashed?: unknown;
+  createdTimestampUsec?: unknown;
+  userEditedTimestampUsec?: unknown;
+};
+
+const keepTimestamp = (usec: unknown): number | null => (
+  typeof usec === 'number' ? msOrNull(Math.round(usec / 1000)) : null
+);
+
+function parseKeepJson(text: string): ParsedNote {
+  const data = JSON.parse(text) as KeepNoteJson | null;
+  if (!data || typeof data !== 'object' || (!('textContent' in data) && !('listContent' in data))) {
+    throw new Error('Not a Google Keep note.');
+  }
+
+  const warnings: string[] = [];
+  let blocks: JSONContent[];
+  if (Array.isArray(data.listContent)) {
+    blocks = [{
+      type: 'taskList',
+      content: data.listContent.map((item: { text?: unknown; isChecked?: unknown }) => taskItem(
+        item?.isChecked === true,
+        [paragraph(typeof item?.text === 'string' && item.text ? [textNode(item.text)] : [])]
+      )),
+    }];
+    if (blocks[0].content?.length === 0) blocks = [];
+  } else if (typeof data.textContentHtml === 'string' && data.textContentHtml.trim()) {
+    const conversion = htmlToBlocks(parseHtml(data.textContentHtml).body);
+    blocks = conversion.blocks;
+    warnings.push(...htmlWarnings(conversion));
+  } else {
+    blocks = plainTextBlocks(typeof data.textContent === 'string' ? data.textContent : '');
+  }
+
+  // Saved web links show up as annotations rather than in the text.
+  if (Array.isArray(data.annotations)) {
+    data.annotations.forEach((annotation: { url?: unknown; title?: unknown }) => {
+      const url = typeof annotation?.url === 'string' ? annotation.url : '';
+      if (!/^https?:\/\//i.test(url)) return;
+      const label = typeof annotation.title === 'string' && annotation.title.trim() ? annotation.title.trim() : url;
+      blocks.push(paragraph([textNode(label, [{ type: 'link', attrs: { href: url } }])]));
+    });
+  }
+
+  const attachmentCount = Array.isArray(data.attachments) ? data.attachments.length : 0;
+  if (attachmentCount > 0) warnings.push(`${plural(attachmentCount, 'image or attachment')} not imported`);
+
+  return {
+    title: derivedTitle(typeof data.title === 'string' ? data.title : null, blocks),
+    blocks,
+    tags: Array.isArray(data.labels)
+      ? data.labels.flatMap((label: { name?: unknown }) => (typeof label?.name === 'string' ? [label.name] : []))
+      : [],
+    pinned: data.isPinned === true,
+    archived: data.isArchived === true,
+    trashed: data.isTrashed === true,
+    createdAtMs: keepTimestamp(data.createdTimestampUsec),
+    updatedAtMs: keepTimestamp(data.userEditedTimestampUsec),
+    warnings,
+  };
+}
+
+// Older Takeouts, or ones where the JSON files were left out, only have HTML.
+function parseKeepHtml(text: string): ParsedNote {
+  const doc = parseHtml(text);
+  const note = doc.querySelector('.note');
+  if (!note) throw new Error('Not a Google Keep note.');
+
+  note.querySelectorAll('.bullet').forEach((bullet) => bullet.remove());
+  const body = document.createElement('div');
+  note.querySelectorAll(':scope > .content, :scope > .list').forEach((part) => body.append(part.cloneNode(true)));
+  const conversion = htmlToBlocks(body);
+  const attachmentCount = note.querySelectorAll('.attachments img, .attachments audio').length;
+  const createdAtMs = msOrNull(Date.parse(note.querySelector('.heading')?.textContent?.trim() ?? ''));
+
+  return {
+    title: derivedTitle(note.querySelector('.title')?.textContent, conversion.blocks),
+    blocks: conversion.blocks,
+    tags: Array.from(note.querySelectorAll('.chips .label-name'), (label) => label.textContent ?? ''),
+    pinned: false,
+    archived: note.querySelector('.archived') !== null,
+    trashed: note.querySelector('.trashed') !== null,
+    createdAtMs,
+    updatedAtMs: createdAtMs,
+    warnings: [
+      ...htmlWarnings({ ...conversion, skippedMedia: conversion.skippedMedia + attachmentCount }),
+    ],
+  };
+}
+
+// --- Evernote .enex ------------------------------------------------------------
+
+// ENEX dates look like 20240105T153000Z.
+const enexDate = (value: string | null | undefined): number | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/.exec(value?.trim() ?? '');
+  if (!match) return null;
+  const [, year, month, day, hours, minutes, seconds] = match.map(Number);
+  return msOrNull(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+};
+
+const childText = (element: Element, name: string): string | null => (
+  Array.from(element.children).find((child) => child.localName === name)?.textContent ?? null
+);
+
+function parseEnexNote(note: Element): ParsedNote {
+  const enml = childText(note, 'content') ?? '';
+  // ENML is XHTML with entities like &nbsp; that need the HTML parser, which
+  // does not understand self-closing custom elements.
+  const html = enml.replace(/<(en-todo|en-media)\b([^>]*?)\/>/g, '<$1$2></$1>');
+  const doc = parseHtml(html);
+  const conversion = htmlToBlocks(doc.querySelector('en-note') ?? doc.body);
+  const createdAtMs = enexDate(childText(note, 'created'));
+
+  return {
+    title: derivedTitle(childText(note, 'title'), conversion.blocks),
+    blocks: conversion.blocks,
+    tags: Array.from(note.children).filter((child) => child.localName === 'tag').map((tag) => tag.textContent ?? ''),
+    pinned: false,
+    archived: false,
+    trashed: false,
+    createdAtMs,
+    updatedAtMs: enexDate(childText(note, 'updated')) ?? createdAtMs,
+    warnings: htmlWarnings(conversion),
+  };
+}
+
+// --- Notion Markdown + CSV ---------------------------------------------------
+
+// Notion appends the page id to every file and folder name.
+const NOTION_ID_PATTERN = /\s+([0-9a-f]{32})$/i;
+const PROPERTY_LINE_PATTERN = /^([^:\s][^:]{0,59}):\s(.*)$/;
+
+const stripNotionId = (name: string): string => name.replace(NOTION_ID_PATTERN, '').trim();
+
+type NotionProperties = Map<string, string>;
+
+const notionPropertyValue = (properties: NotionProperties, pattern: RegExp): string | null => {
+  for (const [key, value] of properties) {
+    if (pattern.test(key.trim())) return value.trim();
+  }
+  return null;
+};
+
+const applyNotionProperties = (note: ParsedNote, properties: NotionProperties) => {
+  const tags = notionPropertyValue(properties, /^(tags?|labels?|categor(y|ies)|multi-?select)$/i);
+  if (tags) note.tags = tags.split(/,\s*/);
+  note.pinned = /^(yes|true)$/i.test(notionPropertyValue(properties, /^(pinned|favou?rite|starred)$/i) ?? '') || note.pinned;
+  note.archived = /^(yes|true)$/i.test(notionPropertyValue(properties, /^archived?$/i) ?? '') || note.archived;
+  note.createdAtMs = msOrNull(Date.parse(notionPropertyValue(properties, /^(created|created time|date created)$/i) ?? ''))
+    ?? note.createdAtMs;
+  note.updatedAtMs = msOrNull(Date.parse(notionPropertyValue(properties, /^(last edited|last edited time|updated)$/i) ?? ''))
+    ?? note.updatedAtMs;
+};
+
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+type NotionDatabase = {
+  // Folder holding the row pages, e.g. "Tasks 0123…abcd".
+  folder: string;
+  rows: { title: string; properties: NotionProperties }[];
+};
+
+function parseNotionDatabase(path: string, text: string): NotionDatabase {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || header.length === 0) throw new Error('This CSV file is empty.');
+  return {
+    folder: path.replace(/(_all)?\.csv$/i, ''),
+    rows: rows.map((cells) => ({
+      title: cells[0]?.trim() ?? '',
+      properties: new Map(header.slice(1).map((key, index) => [key, cells[index + 1] ?? ''])),
+    })),
+  };
+}
+
+// Database row pages repeat their properties as `Key: value` lines under the
+// title; they become labels and flags rather than note text.
+function splitNotionProperties(markdown: string): { markdown: string; properties: NotionProperties } {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  let index = 0;
+  while (index < lines.length && !lines[index].trim()) index += 1;
+  const titleIndex = /^#\s/.test(lines[index] ?? '') ? index : -1;
+  index = titleIndex + 1;
+  while (index < lines.length && !lines[index].trim()) index += 1;
+
+  const properties: NotionProperties = new Map();
+  const start = index;
+  while (index < lines.length && PROPERTY_LINE_PATTERN.test(lines[index])) {
+    const [, key, value] = PROPERTY_LINE_PATTERN.exec(lines[index]) ?? [];
+    properties.set(key, value);
+    index += 1;
+  }
+  if (properties.size === 0 || (index < lines.length && lines[index].trim())) {
+    return { markdown, properties: new Map() };
+  }
+
+  return {
+    markdown: [...lines.slice(0, start), ...lines.slice(index)].join('\n'),
+    properties,
+  };
+}
+
+const resolveRelativePath = (directory: string, href: string): string => {
+  const parts = directory ? directory.split('/') : [];
+  href.split('/').forEach((part) => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const safeDecodeUri = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Turns links to other exported pages into [[note links]]. Images and other
+// links that point into the export folder are dropped.
+function relinkNotionContent(
+  blocks: JSONContent[],
+  directory: string,
+  idsByPath: Map<string, string>
+): { blocks: JSONContent[]; skippedImages: number } {
+  let skippedImages = 0;
+
+  const visit = (nodes: JSONContent[]): JSONContent[] => nodes.flatMap((node) => {
+    if (node.type === 'image') {
+      const src = typeof node.attrs?.src === 'string' ? node.attrs.src : '';
+      if (/^https?:\/\//i.test(src)) return [node];
+      skippedImages += 1;
+      return [];
+    }
+
+    const link = node.type === 'text' ? node.marks?.find((mark) => mark.type === 'link') : undefined;
+    const href = typeof link?.attrs?.href === 'string' ? link.attrs.href : '';
+    if (href && !/^[a-z][a-z0-9+.-]*:/i.test(href) && !href.startsWith('#')) {
+      const target = idsByPath.get(resolveRelativePath(directory, safeDecodeUri(href.split('#')[0])));
+      if (target) return [{ type: NOTE_LINK_NODE, attrs: { noteId: target, title: node.text ?? '' } }];
+      // Other relative links point at files that stay behind in the export.
+      const marks = node.marks?.filter((mark) => mark !== link) ?? [];
+      return [marks.length ? { ...node, marks } : { type: 'text', text: node.text }];
+    }
+
+    return node.content ? [{ ...node, content: visit(node.content) }] : [node];
+  });
+
+  return { blocks: visit(blocks), skippedImages };
+}
+
+const countTasks = (nodes: JSONContent[]): number => nodes.reduce(
+  (count, node) => count + (node.type === 'taskItem' ? 1 : 0) + countTasks(node.content ?? []),
+  0
+);
+
+// --- Collecting files and building the preview --------------------------------
+
+// Expands ZIPs (Takeout and Notion exports, including Notion's nested
+// part ZIPs) into individual files.
+async function collectSourceFiles(files: File[], errors: ImportError[]): Promise<SourceFile[]> {
+  const collected: SourceFile[] = [];
+
+  const add = async (path: string, data: Uint8Array | Blob) => {
+    if (extensionOf(path) !== 'zip') {
+      collected.push({ path, data: data instanceof Blob ? new Uint8Array(await data.arrayBuffer()) : data });
+      return;
+    }
+
+    try {
+      const entries = await readZip(data instanceof Blob ? data : new Blob([data as BlobPart]));
+      for (const [name, entry] of entries) {
+        await add(`${path}/${name}`, entry);
+      }
+    } catch (error) {
+      errors.push({ origin: path, message: errorMessage(error, 'Could not open this ZIP file.') });
+    }
+  };
+
+  for (const file of files) {
+    await add(file.webkitRelativePath || file.name, file);
+  }
+  return collected;
+}
+
+// Builds the preview. Files that are not notes (images, Keep's Labels.txt)
+// are ignored; files that look like notes but fail to parse are reported.
+export async function prepareImport(files: File[]): Promise<ImportPreview> {
+  const errors: ImportError[] = [];
+  const sourceFiles = await collectSourceFiles(files, errors);
+  const paths = new Set(sourceFiles.map((file) => file.path));
+  const parsed: { source: ImportSource; key: string; origin: string; note: ParsedNote; directory?: string }[] = [];
+
+  const tryParse = (origin: string, parse: () => void) => {
+    try {
+      parse();
+    } catch (error) {
+      console.warn(`Failed to import ${origin}:`, error);
+      errors.push({ origin, message: errorMessage(error, 'Could not read this file.') });
+    }
+  };
+
+  const notionDatabases: NotionDatabase[] = [];
+  const notionPages: SourceFile[] = [];
+
+  sourceFiles.forEach((file) => {
+    const extension = extensionOf(file.path);
+    const fileName = file.path.split('/').pop() ?? file.path;
+
+    if (extension === 'json') {
+      tryParse(file.path, () => {
+        const note = parseKeepJson(decodeText(file.data));
+        parsed.push({ source: 'keep', key: `${fileName}:${note.createdAtMs ?? ''}`, origin: file.path, note });
+      });
+    } else if (extension === 'html') {
+      if (paths.has(file.path.replace(/\.html$/i, '.json'))) return;
+      tryParse(file.path, () => {
+        const note = parseKeepHtml(decodeText(file.data));
+        const jsonName = fileName.replace(/\.html$/i, '.json');
+        parsed.push({ source: 'keep', key: `${jsonName}:${note.createdAtMs ?? ''}`, origin: file.path, note });
+      });
+    } else if (extension === 'enex') {
+      tryParse(file.path, () => {
+        const xml = new DOMParser().parseFromString(decodeText(file.data), 'application/xml');
+        if (xml.getElementsByTagName('parsererror').length > 0) throw new Error('This .enex file is not valid XML.');
+
+        Array.from(xml.getElementsByTagName('note')).forEach((element, index) => {
+          const origin = `${file.path} › ${childText(element, 'title')?.trim() || `note ${index + 1}`}`;
+          tryParse(origin, () => {
+            const note = parseEnexNote(element);
+            const key = `${childText(element, 'title') ?? ''}:${childText(element, 'created') ?? index}`;
+            parsed.push({ source: 'evernote', key, origin, note });
+          });
+        });
+      });
+    } else if (extension === 'csv') {
+      tryParse(file.path, () => notionDatabases.push(parseNotionDatabase(file.path, decodeText(file.data))));
+    } else if (extension === 'md' || extension === 'markdown') {
+      notionPages.push(file);
+    }
+  });
+
+  // Notion exports both "DB.csv" and "DB_all.csv"; the _all one has every row.
+  const databasesByFolder = new Map<string, NotionDatabase>();
+  notionDatabases.forEach((database) => {
+    const existing = databasesByFolder.get(database.folder);
+    if (!existing || database.rows.length > existing.rows.length) databasesByFolder.set(database.folder, database);
+  });
+
+  const pagesByFolderTitle = new Set<string>();
+  notionPages.forEach((file) => {
+    const directory = directoryOf(file.path);
+    const database = databasesByFolder.get(directory);
+    tryParse(file.path, () => {
+      const split = database ? splitNotionProperties(decodeText(file.data)) : { markdown: decodeText(file.data), properties: new Map<string, string>() };
+      const imported = markdownToNote(split.markdown, stripNotionId(baseNameOf(file.path)));
+      const note: ParsedNote = {
+        title: imported.title,
+        blocks: imported.contentJson.content ?? [],
+        tags: [],
+        pinned: false,
+        archived: false,
+        trashed: false,
+        createdAtMs: null,
+        updatedAtMs: null,
+        warnings: [],
+      };
+
+      const row = database?.rows.find((candidate) => candidate.title === note.title);
+      applyNotionProperties(note, row?.properties ?? split.properties);
+      if (database) pagesByFolderTitle.add(`${directory}/${note.title}`);
+
+      const notionId = NOTION_ID_PATTERN.exec(baseNameOf(file.path))?.[1];
+      // Without Notion's id, key on the path inside the export (minus the ZIP name).
+      const key = notionId ?? file.path.split('/').slice(1).join('/');
+      parsed.push({ source: 'notion', key, origin: file.path, note, directory });
+    });
+  });
+
+  // Database rows without a page body only exist in the CSV.
+  databasesByFolder.forEach((database) => {
+    database.rows.forEach((row, index) => {
+      if (!row.title || pagesByFolderTitle.has(`${database.folder}/${row.title}`)) return;
+      const note: ParsedNote = {
+        title: row.title,
+        blocks: Array.from(row.properties)
+          .filter(([key, value]) => value.trim() && !/^(tags?|labels?|categor(y|ies)|multi-?select|pinned|favou?rite|starred|archived?)$/i.test(key.trim()))
+          .map(([key, value]) => paragraph([textNode(`${key}: ${value}`)])),
+        tags: [],
+        pinned: false,
+        archived: false,
+        trashed: false,
+        createdAtMs: null,
+        updatedAtMs: null,
+        warnings: [],
+      };
+      applyNotionProperties(note, row.properties);
+      parsed.push({
+        source: 'notion',
+        key: `${database.folder.split('/').slice(1).join('/')}#${index}:${row.title}`,
+        origin: `${database.folder}.csv › ${row.title}`,
+        note,
+      });
+    });
+  });
+
+  const ids = await Promise.all(parsed.map(({ source, key }) => importNoteId(source, key)));
+  const idsByPath = new Map(parsed.flatMap((item, index) => (item.source === 'notion' ? [[item.origin, ids[index]] as const] : [])));
+
+  const seen = new Set<string>();
+  const notes: ImportedNote[] = [];
+  parsed.forEach(({ source, origin, note, directory }, index) => {
+    const id = ids[index];
+    // The same file picked twice, or a Takeout folder and its ZIP together.
+    if (seen.has(id)) return;
+    seen.add(id);
+
+    const warnings = [...note.warnings];
+    let blocks = note.blocks;
+    if (source === 'notion' && directory !== undefined) {
+      const relinked = relinkNotionContent(blocks, directory, idsByPath);
+      blocks = relinked.blocks;
+      if (relinked.skippedImages > 0) warnings.push(`${plural(relinked.skippedImages, 'image')} not imported`);
+    }
+
+    const tags = note.tags.map((tag) => tag.trim()).filter(Boolean);
+    const droppedTags = tags.filter((tag) => !normalizeLabel(tag));
+    if (droppedTags.length > 0) {
+      warnings.push(`Tags that are not valid labels were left out: ${droppedTags.join(', ')}`);
+    }
+    const labels = normalizeLabels(note.archived ? [ARCHIVED_LABEL, ...tags] : tags);
+    const wantedLabels = new Set([...(note.archived ? [ARCHIVED_LABEL] : []), ...tags.flatMap((tag) => normalizeLabel(tag) ?? [])]);
+    if (wantedLabels.size > labels.length) warnings.push(`Only the first ${labels.length} labels were kept`);
+
+    const contentJson: JSONContent = { type: 'doc', content: blocks };
+    notes.push({
+      source,
+      origin,
+      archived: note.archived,
+      taskCount: countTasks(blocks),
+      warnings,
+      note: {
+        id,
+        title: note.title,
+        content: blocks.map((block) => nodePlainText(block)).join('\n'),
+        contentJson,
+        labels,
+        pinned: note.pinned,
+        notebookId: null,
+        isTemplate: false,
+        journalDate: null,
+        outgoingLinks: collectOutgoingLinks(contentJson),
+        isDeleted: note.trashed,
+        deletedAtMs: note.trashed ? note.updatedAtMs : null,
+        createdAtMs: note.createdAtMs,
+        updatedAtMs: note.updatedAtMs,
+      },
+    });
+  });
+
+  return { notes, errors };
+}
+
+export async function commitImport(ownerUid: string, notes: ImportedNote[]): Promise<ImportResult> {
+  const importedIds = await getNotesRepository().importNotes(ownerUid, notes.map((item) => item.note));
+  return { imported: importedIds.length, skipped: notes.length - importedIds.length };
+}
@@ -0,0 +1,73 @@
+import type { JSONContent } from '@tiptap/core';
+import type { NoteRecord } from '@/lib/notesRepository';
+
+export const NOTE_LINK_NODE = 'noteLink';
+
+// Keeps a runaway paste from bloating the note document's outgoing link list.
+export const MAX_OUTGOING_LINKS = 200;
+
+export type NoteLinkTarget = Pick<NoteRecord, 'id' | 'title'>;
+
+// Ids of the notes a document links to, in document order, without duplicates.
+export const collectOutgoingLinks = (doc: JSONContent | null | undefined): string[] => {
+  const linked = new Set<string>();
+
+  const visit = (node: JSONContent) => {
+    if (linked.size >= MAX_OUTGOING_LINKS) return;
+    if (node.type === NOTE_LINK_NODE && typeof node.attrs?.noteId === 'string' && node.attrs.noteId) {
+      linked.add(node.attrs.noteId);
+    }
+    node.content?.forEach(visit);
+  };
+
+  if (doc) visit(doc);
+  return [...linked];
+};
+
+const remapLinkTargets = (node: JSONContent, ids: Map<string, string>): JSONContent => {
+  const target = node.type === NOTE_LINK_NODE && typeof node.attrs?.noteId === 'string' ? ids.get(node.attrs.noteId) : undefined;
+  return {
+    ...node,
+    ...(target ? { attrs: { ...node.attrs, noteId: target } } : {}),
+    ...(node.content ? { content: node.content.map((child) => remapLinkTargets(child, ids)) } : {}),
+  };
+};
+
+// Moves the notes whose ids are taken to ids from `nextId`, and points links
+// between the given notes at the new ids. Used when importing notes whose
+// original ids can't be reused.
+export const reassignNoteIds = <T extends Pick<NoteRecord, 'id' | 'contentJson' | 'outgoingLinks'>>(
+  notes: T[],
+  isTaken: (noteId: string) => boolean,
+  nextId: () => string
+): T[] => {
+  const ids = new Map(notes.filter((note) => isTaken(note.id)).map((note) => [note.id, nextId()]));
+  if (ids.size === 0) return notes;
+
+  return notes.map((note) => ({
+    ...note,
+    id: ids.get(note.id) ?? note.id,
+    contentJson: remapLinkTargets(note.contentJson, ids),
+    outgoingLinks: note.outgoingLinks.map((noteId) => ids.get(noteId) ?? noteId),
+  }));
+};
+
+// Current titles of linkable notes. Link nodes store the target id plus the
+// title at insert time; rendering prefers the live title here so links follow renames.
+const liveTitles = new Map<string, string>();
+const titleListeners = new Set<() => void>();
+
+export const setNoteLinkTitles = (notes: NoteLinkTarget[]): void => {
+  liveTitles.clear();
+  notes.forEach((note) => liveTitles.set(note.id, note.title.trim() || 'Untitled'));
+  titleListeners.forEach((listener) => listener());
+};
+
+export const getNoteLinkTitle = (noteId: string): string | null => liveTitles.get(noteId) ?? null;
+
+export const subscribeNoteLinkTitles = (listener: () => void): (() => void) => {
+  titleListeners.add(listener);
+  return () => {
+    titleListeners.delete(listener);
+  };
+};
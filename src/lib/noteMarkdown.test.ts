@@ -0,0 +1,121 @@
+import type { JSONContent } from '@tiptap/core';
+import { describe, expect, it } from 'vitest';
+import { markdownFileName, markdownToNote, noteToMarkdown } from '@/lib/noteMarkdown';
+
+const doc = (...content: JSONContent[]): JSONContent => ({ type: 'doc', content });
+const paragraph = (...content: JSONContent[]): JSONContent => ({ type: 'paragraph', content });
+const text = (value: string, ...marks: string[]): JSONContent => (
+  marks.length ? { type: 'text', text: value, marks: marks.map((type) => ({ type })) } : { type: 'text', text: value }
+);
+
+const roundTrip = (contentJson: JSONContent) => markdownToNote(noteToMarkdown({ title: 'Note', contentJson }));
+
+describe('noteToMarkdown', () => {
+  it('writes the title as a heading and keeps marks together across nodes', () => {
+    expect(noteToMarkdown({
+      title: 'Weekly plan',
+      contentJson: doc(paragraph(text('Ship '), text('the ', 'bold'), text('importer', 'bold', 'italic'), text(' today'))),
+    })).toBe('# Weekly plan\n\nShip **the *importer*** today\n');
+  });
+
+  it('writes task attributes after the task text', () => {
+    const markdown = noteToMarkdown({
+      title: '',
+      contentJson: doc({
+        type: 'taskList',
+        content: [
+          {
+            type: 'taskItem',
+            attrs: { checked: false, priority: 1, due: '2026-11-02', recurrence: 'monthly:31' },
+            content: [paragraph(text('Pay rent'))],
+          },
+          { type: 'taskItem', attrs: { checked: true }, content: [paragraph(text('Book flights'))] },
+        ],
+      }),
+    });
+
+    expect(markdown).toBe('- [ ] Pay rent !p1 @due:2026-11-02 @repeat:monthly:31\n- [x] Book flights\n');
+  });
+
+  it('escapes text that would read back as chips or block syntax', () => {
+    const markdown = noteToMarkdown({
+      title: '',
+      contentJson: doc(paragraph(text('# not a heading')), paragraph(text('Room #4 on 2026-10-19, 1*2'))),
+    });
+
+    expect(markdown).toBe('\\# not a heading\n\nRoom \\#4 on 2026\\-10-19, 1\\*2\n');
+  });
+});
+
+describe('markdownToNote', () => {
+  it('takes the title from a leading level-one heading, else the file name', () => {
+    expect(markdownToNote('# Groceries\n\nMilk').title).toBe('Groceries');
+    expect(markdownToNote('## Groceries\n\nMilk', 'groceries.md').title).toBe('groceries.md');
+  });
+
+  it('reads tags, dates, links and code spans', () => {
+    const note = markdownToNote('Call #family on 2026-10-19 about [the trip](https://example.com/a_(b)) `#not-a-tag`');
+    const [block] = note.contentJson.content ?? [];
+
+    expect(block.content?.map((node) => node.type)).toEqual(['text', 'tagChip', 'text', 'dateChip', 'text', 'text', 'text', 'text']);
+    expect(block.content?.[1].content).toEqual([text('family')]);
+    expect(block.content?.[3].attrs?.date).toBe(new Date(2026, 9, 19).toISOString());
+    expect(block.content?.[5]).toEqual({
+      type: 'text',
+      text: 'the trip',
+      marks: [{ type: 'link', attrs: { href: 'https://example.com/a_(b)' } }],
+    });
+    expect(block.content?.[7]).toEqual(text('#not-a-tag', 'code'));
+  });
+
+  it('reads task lists with their attributes and nested lists', () => {
+    const note = markdownToNote('- [ ] Water plants !p2 @due:2026-10-20 @repeat:every:3\n  - Fern\n- [x] Done');
+    const [list] = note.contentJson.content ?? [];
+
+    expect(list.type).toBe('taskList');
+    expect(list.content?.[0].attrs).toEqual({ checked: false, due: '2026-10-20', priority: 2, recurrence: 'every:3' });
+    expect(list.content?.[0].content?.map((block) => block.type)).toEqual(['paragraph', 'bulletList']);
+    expect(list.content?.[1].attrs?.checked).toBe(true);
+  });
+
+  it('reads fenced code, quotes, rules and setext headings', () => {
+    const note = markdownToNote('Intro\n=====\n\n> quoted\n\n---\n\n```ts\nconst a = 1;\n```\n');
+
+    expect(note.title).toBe('Intro');
+    expect(note.contentJson.content?.map((block) => block.type)).toEqual(['blockquote', 'horizontalRule', 'codeBlock']);
+    expect(note.contentJson.content?.[2].content).toEqual([text('const a = 1;')]);
+  });
+});
+
+describe('round trip', () => {
+  it('keeps formatted text, lists and code unchanged', () => {
+    const contentJson = doc(
+      { type: 'heading', attrs: { level: 2 }, content: [text('Agenda')] },
+      paragraph(text('Plain, '), text('bold', 'bold'), text(' and '), text('struck', 'strike'), text(' with snake_case.')),
+      {
+        type: 'orderedList',
+        attrs: { start: 3 },
+        content: [
+          { type: 'listItem', content: [paragraph(text('Third'))] },
+          { type: 'listItem', content: [paragraph(text('Fourth'))] },
+        ],
+      },
+      { type: 'codeBlock', attrs: { language: 'typescript' }, content: [text('```inner fence\n```')] },
+    );
+
+    expect(roundTrip(contentJson).contentJson).toEqual(contentJson);
+  });
+
+  it('keeps literal characters that look like Markdown', () => {
+    const contentJson = doc(paragraph(text('1. not a list, #hash, 2026-10-19, [x] and *stars*')));
+
+    expect(roundTrip(contentJson).contentJson).toEqual(contentJson);
+  });
+});
+
+describe('markdownFileName', () => {
+  it('replaces characters file systems reject', () => {
+    expect(markdownFileName('Q3: plans / ideas?')).toBe('Q3- plans - ideas-.md');
+    expect(markdownFileName('   ')).toBe('Untitled.md');
+  });
+});
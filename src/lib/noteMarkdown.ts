@@ -0,0 +1,697 @@
+import type { JSONContent } from '@tiptap/core';
+import { normalizeCodeLanguage } from '@/lib/editor/codeLowlight';
+import { nodePlainText, noteBlocks } from '@/lib/noteContent';
+import { collectOutgoingLinks } from '@/lib/noteLinks';
+import { takeTaskAttributesFromText, taskAttributesMarkdownSuffix } from '@/lib/taskAttributes';
+
+// GitHub-flavored Markdown <-> TipTap contentJson. Only the subset tulis can
+// represent is covered; anything else is kept as plain text on import.
+// Tag chips round-trip as `#tag`, date chips as `YYYY-MM-DD` and a task's
+// priority, due date and repeat rule as ` !p1 @due:YYYY-MM-DD @repeat:daily`
+// after its text.
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+const localIsoDate = (date: Date): string => (
+  `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`
+);
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?![\d-])/;
+const TAG_PATTERN = /^#([\p{L}\p{N}_][\p{L}\p{N}_\-/]*)/u;
+
+// ---------------------------------------------------------------------------
+// Serializer
+
+type MarkDelimiter = { key: string; open: string; close: string };
+
+const markDelimiter = (mark: { type: string; attrs?: Record<string, unknown> }): MarkDelimiter | null => {
+  switch (mark.type) {
+    case 'bold':
+      return { key: 'bold', open: '**', close: '**' };
+    case 'italic':
+      return { key: 'italic', open: '*', close: '*' };
+    case 'strike':
+      return { key: 'strike', open: '~~', close: '~~' };
+    case 'link': {
+      const href = typeof mark.attrs?.href === 'string' ? mark.attrs.href : '';
+      return href ? { key: `link:${href}`, open: '[', close: `](${escapeUrl(href)})` } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+const isWordChar = (char: string | undefined) => !!char && /[\p{L}\p{N}]/u.test(char);
+
+// Parentheses and spaces would end a Markdown link destination early.
+const escapeUrl = (url: string): string => (
+  url.replace(/[()\s]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`)
+);
+
+const escapeText = (text: string): string => (
+  text
+    .replace(/[\\`*[\]~<]/g, '\\$&')
+    // snake_case stays readable; only underscores that could start emphasis are escaped.
+    .replace(/_+/g, (run, offset: number, source: string) => (
+      isWordChar(source[offset - 1]) && isWordChar(source[offset + run.length]) ? run : run.replace(/_/g, '\\_')
+    ))
+    // Keep plain "#word" and dates from turning into chips on re-import.
+    .replace(/(^|[\s([{'"])#(?=[\p{L}\p{N}_])/gu, '$1\\#')
+    .replace(/(^|[^\d\\])(\d{4})-(?=\d{2}-\d{2}(?![\d-]))/g, '$1$2\\-')
+);
+
+// Text at the start of a line that Markdown would read as block syntax.
+const escapeLineStart = (line: string): string => (
+  line.replace(/^(\s*)(#{1,6}(?=\s|$)|>|[-+](?=\s)|-(?=(?:\s*-){2,}\s*$)|=+\s*$|(\d+)(?=[.)]\s))/, (match, indent: string, marker: string, digits?: string) => (
+    digits ? `${indent}${digits}\\` : `${indent}\\${marker}`
+  ))
+);
+
+const codeSpan = (text: string): string => {
+  const longestRun = Math.max(0, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+};
+
+const inlineAtomMarkdown = (node: JSONContent): string => {
+  switch (node.type) {
+    case 'tagChip':
+      return `#${nodePlainText(node).trim().replace(/\s+/g, '-')}`;
+    case 'dateChip': {
+      const date = typeof node.attrs?.date === 'string' ? new Date(node.attrs.date) : null;
+      return date && !Number.isNaN(date.getTime()) ? localIsoDate(date) : '';
+    }
+    case 'noteLink':
+      return `[[${typeof node.attrs?.title === 'string' ? node.attrs.title : ''}]]`;
+    case 'hardBreak':
+      return '\\\n';
+    default:
+      return escapeText(nodePlainText(node));
+  }
+};
+
+// Opens and closes emphasis around runs of text so adjacent nodes that share a
+// mark stay inside one `**...**`, and keeps whitespace outside the delimiters.
+const serializeInline = (nodes: JSONContent[]): string => {
+  const out: string[] = [];
+  const active: MarkDelimiter[] = [];
+  let pendingSpace = '';
+
+  const closeTo = (depth: number) => {
+    while (active.length > depth) {
+      out.push(active.pop()!.close);
+    }
+  };
+
+  nodes.forEach((node) => {
+    const marks = (node.marks ?? []).flatMap((mark) => markDelimiter(mark) ?? []);
+    const isCode = node.type === 'text' && (node.marks ?? []).some((mark) => mark.type === 'code');
+
+    let depth = 0;
+    while (depth < active.length && marks.some((mark) => mark.key === active[depth].key)) depth += 1;
+    closeTo(depth);
+
+    let lead = '';
+    let core: string;
+    let trail = '';
+    if (node.type === 'text' && !isCode) {
+      const text = node.text ?? '';
+      lead = /^\s*/.exec(text)?.[0] ?? '';
+      core = text.slice(lead.length);
+      trail = /\s*$/.exec(core)?.[0] ?? '';
+      core = escapeText(core.slice(0, core.length - trail.length));
+    } else {
+      core = isCode ? codeSpan(node.text ?? '') : inlineAtomMarkdown(node);
+    }
+
+    out.push(pendingSpace, lead);
+    pendingSpace = trail;
+    if (!core) return;
+
+    marks
+      .filter((mark) => !active.some((open) => open.key === mark.key))
+      .forEach((mark) => {
+        out.push(mark.open);
+        active.push(mark);
+      });
+    out.push(core);
+  });
+
+  closeTo(0);
+  out.push(pendingSpace);
+  return out.join('');
+};
+
+const indentLines = (text: string, firstPrefix: string, restPrefix: string): string => (
+  text
+    .split('\n')
+    .map((line, index) => (index === 0 ? firstPrefix : line ? restPrefix : '') + line)
+    .join('\n')
+);
+
+const LIST_TYPES = new Set(['bulletList', 'orderedList', 'taskList']);
+
+// Items stay tight; only a second paragraph inside an item needs a blank line.
+// Nested content is indented to the text after the bullet, not after a task's
+// `[ ]`, as GitHub expects. `suffix` goes at the end of the item's first line.
+const serializeListItem = (item: JSONContent, marker: string, indent = marker.length, suffix = ''): string => {
+  const body = noteBlocks(item)
+    .map((block, index) => `${index > 0 && !LIST_TYPES.has(block.type ?? '') ? '\n' : ''}${serializeBlock(block)}`)
+    .join('\n');
+  return indentLines(suffix ? body.replace(/^[^\n]*/, (line) => `${line}${suffix}`) : body, marker, ' '.repeat(indent));
+};
+
+function serializeBlock(node: JSONContent): string {
+  switch (node.type) {
+    case 'paragraph':
+      return serializeInline(node.content ?? []).split('\n').map(escapeLineStart).join('\n');
+    case 'heading': {
+      const level = Math.min(6, Math.max(1, Number(node.attrs?.level) || 1));
+      return `${'#'.repeat(level)} ${serializeInline(node.content ?? []).replace(/\\\n/g, ' ')}`;
+    }
+    case 'blockquote':
+      return serializeBlocks(noteBlocks(node))
+        .split('\n')
+        .map((line) => (line ? `> ${line}` : '>'))
+        .join('\n');
+    case 'bulletList':
+      return noteBlocks(node).map((item) => serializeListItem(item, '- ')).join('\n');
+    case 'orderedList': {
+      const start = Number(node.attrs?.start) || 1;
+      return noteBlocks(node).map((item, index) => serializeListItem(item, `${start + index}. `)).join('\n');
+    }
+    case 'taskList':
+      return noteBlocks(node)
+        .map((item) => serializeListItem(
+          item,
+          item.attrs?.checked === true ? '- [x] ' : '- [ ] ',
+          2,
+          taskAttributesMarkdownSuffix(item.attrs)
+        ))
+        .join('\n');
+    case 'codeBlock': {
+      const code = (node.content ?? []).map((child) => child.text ?? '').join('');
+      const language = typeof node.attrs?.language === 'string' ? node.attrs.language.trim() : '';
+      const longestRun = Math.max(0, ...(code.match(/^`{3,}/gm) ?? []).map((run) => run.length));
+      const fence = '`'.repeat(Math.max(3, longestRun + 1));
+      return `${fence}${language}\n${code}${code.endsWith('\n') || !code ? '' : '\n'}${fence}`;
+    }
+    case 'horizontalRule':
+      return '---';
+    case 'image': {
+      const src = typeof node.attrs?.src === 'string' ? node.attrs.src : '';
+      const alt = typeof node.attrs?.alt === 'string' ? node.attrs.alt : '';
+      return src ? `![${escapeText(alt)}](${escapeUrl(src)})` : '';
+    }
+    case 'fileAttachment': {
+      const url = typeof node.attrs?.url === 'string' ? node.attrs.url : '';
+      const name = typeof node.attrs?.name === 'string' && node.attrs.name ? node.attrs.name : 'file';
+      return url ? `[${escapeText(name)}](${escapeUrl(url)})` : escapeText(name);
+    }
+    default:
+      // Unknown wrappers: keep their text rather than dropping it.
+      return serializeBlocks(noteBlocks(node)) || escapeText(nodePlainText(node));
+  }
+}
+
+function serializeBlocks(blocks: JSONContent[]): string {
+  return blocks
+    .map((block) => serializeBlock(block))
+    .filter((markdown) => markdown.trim() !== '')
+    .join('\n\n');
+}
+
+export function noteToMarkdown(note: { title: string; contentJson: JSONContent }): string {
+  const title = note.title.trim();
+  const body = serializeBlocks(noteBlocks(note.contentJson));
+  return `${[title ? `# ${escapeText(title)}` : '', body].filter(Boolean).join('\n\n')}\n`;
+}
+
+export function markdownFileName(title: string): string {
+  const base = title.trim().replace(/[/\\?%*:|"<>]+/g, '-').replace(/\s+/g, ' ').slice(0, 100).trim();
+  return `${base || 'Untitled'}.md`;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+
+type Mark = NonNullable<JSONContent['marks']>[number];
+
+const textNode = (value: string, marks: Mark[]): JSONContent => (
+  marks.length > 0 ? { type: 'text', text: value, marks } : { type: 'text', text: value }
+);
+
+// Merges adjacent text nodes with identical marks and drops empty ones.
+const compactInline = (nodes: JSONContent[]): JSONContent[] => {
+  const compacted: JSONContent[] = [];
+  nodes.forEach((node) => {
+    if (node.type === 'text' && !node.text) return;
+    const previous = compacted[compacted.length - 1];
+    if (
+      previous?.type === 'text'
+      && node.type === 'text'
+      && JSON.stringify(previous.marks ?? []) === JSON.stringify(node.marks ?? [])
+    ) {
+      previous.text = `${previous.text ?? ''}${node.text ?? ''}`;
+      return;
+    }
+    compacted.push(node);
+  });
+  return compacted;
+};
+
+const findClosing = (source: string, delimiter: string, from: number): number => {
+  for (let index = from; index < source.length; index += 1) {
+    if (source[index] === '\\') {
+      index += 1;
+      continue;
+    }
+    if (source[index] === '`') {
+      const run = /^`+/.exec(source.slice(index))![0];
+      const end = source.indexOf(run, index + run.length);
+      if (end !== -1) index = end + run.length - 1;
+      continue;
+    }
+    if (source.startsWith(delimiter, index) && !/\s/.test(source[index - 1] ?? ' ')) {
+      // A single `*` must not match half of a `**`, and `***` closes the
+      // inner emphasis first.
+      if (delimiter.length === 1 && source[index + 1] === delimiter) {
+        index += 1;
+        continue;
+      }
+      if (delimiter.length === 2 && source[index + 2] === delimiter[0]) continue;
+      return index;
+    }
+  }
+  return -1;
+};
+
+const findLinkEnd = (source: string, from: number): { label: string; href: string; end: number } | null => {
+  let depth = 0;
+  for (let index = from; index < source.length; index += 1) {
+    const char = source[index];
+    if (char === '\\') {
+      index += 1;
+    } else if (char === '[') {
+      depth += 1;
+    } else if (char === ']') {
+      if (depth > 0) {
+        depth -= 1;
+        continue;
+      }
+      const target = /^\(\s*<?([^\s<>()]*(?:\([^\s()]*\)[^\s<>()]*)*)>?(?:\s+(?:"[^"]*"|'[^']*'))?\s*\)/.exec(source.slice(index + 1));
+      if (!target) return null;
+      return { label: source.slice(from, index), href: target[1], end: index + 1 + target[0].length };
+    }
+  }
+  return null;
+};
+
+const EMPHASIS_DELIMITERS: Array<{ delimiter: string; mark: string }> = [
+  { delimiter: '**', mark: 'bold' },
+  { delimiter: '__', mark: 'bold' },
+  { delimiter: '~~', mark: 'strike' },
+  { delimiter: '*', mark: 'italic' },
+  { delimiter: '_', mark: 'italic' },
+];
+
+function parseInline(source: string, marks: Mark[] = []): JSONContent[] {
+  const nodes: JSONContent[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push(textNode(buffer, marks));
+    buffer = '';
+  };
+  const isWordBoundary = (index: number) => index === 0 || /[\s([{'"]/.test(source[index - 1]);
+
+  let index = 0;
+  while (index < source.length) {
+    const rest = source.slice(index);
+    const char = source[index];
+
+    if (char === '\\' && source[index + 1] === '\n') {
+      flush();
+      nodes.push({ type: 'hardBreak' });
+      index += 2;
+      continue;
+    }
+    if (char === '\\' && /[!-/:-@[-`{-~]/.test(source[index + 1] ?? '')) {
+      buffer += source[index + 1];
+      index += 2;
+      continue;
+    }
+
+    const hardBreak = /^ {2,}\n/.exec(rest);
+    if (hardBreak) {
+      flush();
+      nodes.push({ type: 'hardBreak' });
+      index += hardBreak[0].length;
+      continue;
+    }
+    if (char === '\n') {
+      buffer += ' ';
+      index += 1;
+      continue;
+    }
+
+    if (char === '`') {
+      const run = /^`+/.exec(rest)![0];
+      const end = source.indexOf(run, index + run.length);
+      if (end !== -1) {
+        let code = source.slice(index + run.length, end).replace(/\n/g, ' ');
+        if (/^ .* $/.test(code) && code.trim()) code = code.slice(1, -1);
+        flush();
+        nodes.push(textNode(code, [...marks, { type: 'code' }]));
+        index = end + run.length;
+        continue;
+      }
+      buffer += run;
+      index += run.length;
+      continue;
+    }
+
+    // [[Note title]] stays literal; links are resolved by id, not by title.
+    if (rest.startsWith('[[')) {
+      const end = source.indexOf(']]', index + 2);
+      if (end !== -1) {
+        buffer += source.slice(index, end + 2);
+        index = end + 2;
+        continue;
+      }
+    }
+
+    if (char === '[' || rest.startsWith('![')) {
+      const isImage = char === '!';
+      const link = findLinkEnd(source, index + (isImage ? 2 : 1));
+      if (link) {
+        flush();
+        const linkMarks = [...marks, { type: 'link', attrs: { href: link.href } }];
+        nodes.push(...(isImage ? [textNode(link.label || link.href, linkMarks)] : parseInline(link.label, linkMarks)));
+        index = link.end;
+        continue;
+      }
+    }
+
+    const autolink = /^<(https?:\/\/[^\s<>]+)>/.exec(rest)
+      ?? (isWordBoundary(index) ? /^(https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]])/.exec(rest) : null);
+    if (autolink) {
+      flush();
+      nodes.push(textNode(autolink[1], [...marks, { type: 'link', attrs: { href: autolink[1] } }]));
+      index += autolink[0].length;
+      continue;
+    }
+
+    if (char === '#' && isWordBoundary(index)) {
+      const tag = TAG_PATTERN.exec(rest);
+      if (tag) {
+        flush();
+        nodes.push({ type: 'tagChip', attrs: { color: 'accent' }, content: [{ type: 'text', text: tag[1] }] });
+        index += tag[0].length;
+        continue;
+      }
+    }
+
+    if (/\d/.test(char) && (index === 0 || !/[\w-]/.test(source[index - 1]))) {
+      const match = ISO_DATE_PATTERN.exec(rest);
+      const date = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+      if (match && date && localIsoDate(date) === match[0]) {
+        flush();
+        nodes.push({ type: 'dateChip', attrs: { date: date.toISOString() } });
+        index += match[0].length;
+        continue;
+      }
+    }
+
+    const emphasis = EMPHASIS_DELIMITERS.find(({ delimiter }) => (
+      rest.startsWith(delimiter)
+      && !/\s/.test(source[index + delimiter.length] ?? ' ')
+      // Underscores inside words (snake_case) are not emphasis.
+      && (delimiter[0] !== '_' || isWordBoundary(index))
+    ));
+    if (emphasis) {
+      const end = findClosing(source, emphasis.delimiter, index + emphasis.delimiter.length);
+      if (end !== -1) {
+        flush();
+        nodes.push(...parseInline(source.slice(index + emphasis.delimiter.length, end), [...marks, { type: emphasis.mark }]));
+        index = end + emphasis.delimiter.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    index += 1;
+  }
+
+  flush();
+  return compactInline(nodes);
+}
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE_PATTERN = /^ {0,3}> ?/;
+const LIST_ITEM_PATTERN = /^( {0,3})([-+*]|\d{1,9}[.)])([ \t]+|$)/;
+const TASK_PATTERN = /^\[([ xX])\](?:[ \t]+|$)/;
+
+const SETEXT_UNDERLINE_PATTERN = /^ {0,3}(=+|-+)\s*$/;
+
+const isBlank = (line: string) => line.trim() === '';
+
+const startsBlock = (line: string) => (
+  FENCE_PATTERN.test(line) || HEADING_PATTERN.test(line) || RULE_PATTERN.test(line)
+  || QUOTE_PATTERN.test(line) || LIST_ITEM_PATTERN.test(line)
+);
+
+const indentWidth = (line: string) => (/^[ \t]*/.exec(line)?.[0] ?? '').replace(/\t/g, '    ').length;
+
+const dedent = (line: string, width: number) => {
+  let removed = 0;
+  let index = 0;
+  while (index < line.length && removed < width && (line[index] === ' ' || line[index] === '\t')) {
+    removed += line[index] === '\t' ? 4 : 1;
+    index += 1;
+  }
+  return line.slice(index);
+};
+
+const paragraph = (source: string): JSONContent => {
+  const content = parseInline(source.trim());
+  return content.length > 0 ? { type: 'paragraph', content } : { type: 'paragraph' };
+};
+
+// A paragraph that is nothing but an image becomes an image block.
+const paragraphOrImage = (source: string): JSONContent => {
+  const image = /^!\[([^\]]*)\]\(\s*<?([^\s<>()]+)>?(?:\s+"[^"]*")?\s*\)$/.exec(source.trim());
+  if (image) return { type: 'image', attrs: { src: image[2], alt: image[1] || null } };
+  return paragraph(source);
+};
+
+// List items must start with a paragraph in the editor schema.
+const listItemContent = (blocks: JSONContent[]): JSONContent[] => (
+  blocks[0]?.type === 'paragraph' ? blocks : [{ type: 'paragraph' }, ...blocks]
+);
+
+type ParsedListItem = {
+  ordered: boolean;
+  start: number;
+  task: boolean | null;
+  // Continuation lines belong to the item from markerIndent on; up to
+  // contentIndent (past a `[ ]` box) is stripped.
+  markerIndent: number;
+  contentIndent: number;
+  lines: string[];
+};
+
+function parseList(lines: string[], startIndex: number): { blocks: JSONContent[]; next: number } {
+  const items: ParsedListItem[] = [];
+  let index = startIndex;
+  let previousBlank = false;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    const marker = LIST_ITEM_PATTERN.exec(line);
+    const ordered = marker ? /\d/.test(marker[2]) : false;
+
+    const current = items[items.length - 1];
+
+    if (marker && (!current || (indentWidth(line) < current.markerIndent && ordered === current.ordered))) {
+      const firstLine = line.slice(marker[0].length);
+      const task = ordered ? null : TASK_PATTERN.exec(firstLine);
+      items.push({
+        ordered,
+        start: ordered ? Number.parseInt(marker[2], 10) : 1,
+        task: task ? task[1] !== ' ' : null,
+        markerIndent: marker[0].length,
+        contentIndent: marker[0].length + (task ? task[0].length : 0),
+        lines: [task ? firstLine.slice(task[0].length) : firstLine],
+      });
+      previousBlank = false;
+      index += 1;
+      continue;
+    }
+
+    if (isBlank(line)) {
+      current.lines.push('');
+      previousBlank = true;
+      index += 1;
+      continue;
+    }
+    if (indentWidth(line) >= current.markerIndent) {
+      current.lines.push(dedent(line, Math.min(indentWidth(line), current.contentIndent)));
+    } else if (!previousBlank && !startsBlock(line)) {
+      // Lazy continuation of the item's paragraph.
+      current.lines.push(line.trim());
+    } else {
+      break;
+    }
+    previousBlank = false;
+    index += 1;
+  }
+
+  // Consecutive task items form a task list, the rest a bullet/ordered list.
+  const blocks: JSONContent[] = [];
+  items.forEach((item) => {
+    // Read before inline parsing, which would turn the due date into a chip.
+    const { text: firstLine, due, priority, recurrence } = item.task !== null
+      ? takeTaskAttributesFromText(item.lines[0] ?? '')
+      : { text: item.lines[0] ?? '', due: null, priority: null, recurrence: null };
+    const content = listItemContent(parseBlocks([firstLine, ...item.lines.slice(1)]));
+    const listType = item.task !== null ? 'taskList' : item.ordered ? 'orderedList' : 'bulletList';
+    const listItem: JSONContent = item.task !== null
+      ? { type: 'taskItem', attrs: { checked: item.task, due, priority, recurrence }, content }
+      : { type: 'listItem', content };
+
+    const previous = blocks[blocks.length - 1];
+    if (previous?.type === listType) {
+      previous.content = [...(previous.content ?? []), listItem];
+      return;
+    }
+    blocks.push(listType === 'orderedList'
+      ? { type: listType, attrs: { start: item.start }, content: [listItem] }
+      : { type: listType, content: [listItem] });
+  });
+
+  return { blocks, next: index };
+}
+
+function parseBlocks(lines: string[]): JSONContent[] {
+  const blocks: JSONContent[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (isBlank(line)) {
+      index += 1;
+      continue;
+    }
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const fenceIndent = indentWidth(line);
+      const code: string[] = [];
+      index += 1;
+      while (index < lines.length) {
+        const closing = new RegExp(`^ {0,3}${fence[1][0] === '`' ? '`' : '~'}{${fence[1].length},}\\s*$`);
+        if (closing.test(lines[index])) {
+          index += 1;
+          break;
+        }
+        code.push(dedent(lines[index], fenceIndent));
+        index += 1;
+      }
+      const source = code.join('\n');
+      blocks.push({
+        type: 'codeBlock',
+        attrs: { language: normalizeCodeLanguage(fence[2] || null) },
+        ...(source ? { content: [{ type: 'text', text: source }] } : {}),
+      });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      const content = parseInline(heading[2] ?? '');
+      blocks.push({ type: 'heading', attrs: { level: heading[1].length }, ...(content.length ? { content } : {}) });
+      index += 1;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'horizontalRule' });
+      index += 1;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && !isBlank(lines[index])) {
+        quoted.push(lines[index].replace(QUOTE_PATTERN, ''));
+        index += 1;
+      }
+      const content = parseBlocks(quoted);
+      blocks.push({ type: 'blockquote', content: content.length ? content : [{ type: 'paragraph' }] });
+      continue;
+    }
+
+    if (LIST_ITEM_PATTERN.test(line)) {
+      const list = parseList(lines, index);
+      blocks.push(...list.blocks);
+      index = list.next;
+      continue;
+    }
+
+    const paragraphLines: string[] = [line];
+    index += 1;
+    while (
+      index < lines.length
+      && !isBlank(lines[index])
+      && !startsBlock(lines[index])
+      && !SETEXT_UNDERLINE_PATTERN.test(lines[index])
+    ) {
+      paragraphLines.push(lines[index]);
+      index += 1;
+    }
+
+    // Setext headings: a paragraph underlined with === or ---.
+    const underline = index < lines.length ? SETEXT_UNDERLINE_PATTERN.exec(lines[index]) : null;
+    if (underline) {
+      const content = parseInline(paragraphLines.join('\n').trim());
+      blocks.push({ type: 'heading', attrs: { level: underline[1][0] === '=' ? 1 : 2 }, ...(content.length ? { content } : {}) });
+      index += 1;
+      continue;
+    }
+
+    blocks.push(paragraphOrImage(paragraphLines.join('\n')));
+  }
+
+  return blocks;
+}
+
+// A leading `# Title` becomes the note title; otherwise the file name is used.
+export function markdownToNote(
+  markdown: string,
+  fallbackTitle = 'Untitled'
+): { title: string; content: string; contentJson: JSONContent; outgoingLinks: string[] } {
+  const lines = markdown.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  const blocks = parseBlocks(lines);
+
+  let title = fallbackTitle.trim() || 'Untitled';
+  const first = blocks[0];
+  if (first?.type === 'heading' && first.attrs?.level === 1) {
+    const headingTitle = nodePlainText(first).trim();
+    if (headingTitle) {
+      title = headingTitle;
+      blocks.shift();
+    }
+  }
+
+  const contentJson: JSONContent = { type: 'doc', content: blocks };
+  return {
+    title,
+    content: blocks.map((block) => nodePlainText(block)).join('\n'),
+    contentJson,
+    outgoingLinks: collectOutgoingLinks(contentJson),
+  };
+}
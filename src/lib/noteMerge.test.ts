@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { JSONContent } from '@tiptap/core';
+import { buildMergedNoteContent, mergeNoteBlocks, reconcileRemoteContent } from '@/lib/noteMerge';
+
+const paragraph = (text: string): JSONContent => ({ type: 'paragraph', content: [{ type: 'text', text }] });
+const doc = (...lines: string[]): JSONContent => ({ type: 'doc', content: lines.map(paragraph) });
+
+describe('mergeNoteBlocks', () => {
+  it('takes the remote edit when only the remote side changed', () => {
+    const result = mergeNoteBlocks(doc('a', 'b'), doc('a', 'b'), doc('a', 'B'));
+
+    expect(result.conflicts).toEqual([]);
+    expect(buildMergedNoteContent(result, 'local')).toEqual(doc('a', 'B'));
+  });
+
+  it('combines concurrent edits to different blocks', () => {
+    const result = mergeNoteBlocks(doc('a', 'b', 'c'), doc('A', 'b', 'c'), doc('a', 'b', 'C'));
+
+    expect(result.conflicts).toEqual([]);
+    expect(buildMergedNoteContent(result, 'local')).toEqual(doc('A', 'b', 'C'));
+  });
+
+  it('combines edits to neighbouring blocks', () => {
+    const result = mergeNoteBlocks(doc('a', 'b'), doc('A', 'b'), doc('a', 'B'));
+
+    expect(result.conflicts).toEqual([]);
+    expect(buildMergedNoteContent(result, 'local')).toEqual(doc('A', 'B'));
+  });
+
+  it('keeps blocks inserted on both sides at the same place', () => {
+    const result = mergeNoteBlocks(doc('a'), doc('a', 'mine'), doc('a', 'theirs'));
+
+    expect(result.conflicts).toEqual([]);
+    expect(buildMergedNoteContent(result, 'local')).toEqual(doc('a', 'mine', 'theirs'));
+  });
+
+  it('accepts the same edit made on both sides', () => {
+    const result = mergeNoteBlocks(doc('a', 'b'), doc('a', 'B'), doc('a', 'B'));
+
+    expect(result.conflicts).toEqual([]);
+    expect(buildMergedNoteContent(result, 'remote')).toEqual(doc('a', 'B'));
+  });
+
+  it('flags concurrent edits to the same block as a conflict', () => {
+    const result = mergeNoteBlocks(doc('a', 'b', 'c'), doc('a', 'mine', 'c'), doc('a', 'theirs', 'c'));
+
+    expect(result.conflicts).toEqual([{ base: [paragraph('b')], local: [paragraph('mine')], remote: [paragraph('theirs')] }]);
+    expect(buildMergedNoteContent(result, 'local')).toEqual(doc('a', 'mine', 'c'));
+    expect(buildMergedNoteContent(result, 'remote')).toEqual(doc('a', 'theirs', 'c'));
+  });
+
+  it('flags an edit on one side against a delete on the other', () => {
+    const result = mergeNoteBlocks(doc('a', 'b'), doc('a', 'B'), doc('a'));
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(buildMergedNoteContent(result, 'remote')).toEqual(doc('a'));
+  });
+});
+
+describe('reconcileRemoteContent', () => {
+  const input = {
+    base: doc('a', 'b'),
+    local: doc('a', 'b'),
+    remote: doc('a', 'b'),
+    lastSubmitted: null,
+    isInitialHydration: false,
+    hasUnsavedChanges: false,
+  };
+
+  it('applies remote content when nothing local is pending', () => {
+    expect(reconcileRemoteContent({ ...input, remote: doc('a', 'B') })).toEqual({
+      content: doc('a', 'B'),
+      resave: false,
+      conflict: null,
+    });
+  });
+
+  it("ignores the echo of this editor's own save", () => {
+    const saved = doc('a', 'saved');
+    expect(reconcileRemoteContent({ ...input, local: doc('a', 'newer'), remote: saved, lastSubmitted: saved }).content).toBeNull();
+  });
+
+  it('merges remote edits into unsaved local ones and asks for a re-save', () => {
+    const reconciliation = reconcileRemoteContent({
+      ...input,
+      local: doc('A', 'b'),
+      remote: doc('a', 'B'),
+      hasUnsavedChanges: true,
+    });
+
+    expect(reconciliation).toEqual({ content: doc('A', 'B'), resave: true, conflict: null });
+  });
+
+  it('keeps the local block and reports a conflict when both sides changed it', () => {
+    const reconciliation = reconcileRemoteContent({
+      ...input,
+      local: doc('a', 'mine'),
+      remote: doc('a', 'theirs'),
+      hasUnsavedChanges: true,
+    });
+
+    expect(reconciliation.content).toBeNull();
+    expect(reconciliation.conflict?.appliedContent).toEqual(doc('a', 'mine'));
+    expect(reconciliation.conflict?.result.conflicts).toHaveLength(1);
+  });
+});
@@ -0,0 +1,162 @@
+import type { JSONContent } from '@tiptap/core';
+import { blockSignature, matchBlockSequences } from '@/lib/noteDiff';
+import { isEquivalentNoteContent, noteBlocks } from '@/lib/noteContent';
+
+export type NoteMergeSide = 'local' | 'remote';
+
+export type NoteMergeConflict = {
+  base: JSONContent[];
+  local: JSONContent[];
+  remote: JSONContent[];
+};
+
+export type NoteMergeChunk =
+  | { kind: 'resolved'; blocks: JSONContent[] }
+  | { kind: 'conflict'; conflict: NoteMergeConflict };
+
+export type NoteMergeResult = {
+  chunks: NoteMergeChunk[];
+  conflicts: NoteMergeConflict[];
+};
+
+const sameKeys = (a: string[], b: string[]) => a.length === b.length && a.every((key, index) => key === b[index]);
+
+// Block-level diff3: blocks that survive unchanged on both sides anchor the
+// merge, and each stretch between anchors is resolved independently.
+export function mergeNoteBlocks(base: JSONContent, local: JSONContent, remote: JSONContent): NoteMergeResult {
+  const baseBlocks = noteBlocks(base);
+  const localBlocks = noteBlocks(local);
+  const remoteBlocks = noteBlocks(remote);
+  const baseKeys = baseBlocks.map(blockSignature);
+  const localKeys = localBlocks.map(blockSignature);
+  const remoteKeys = remoteBlocks.map(blockSignature);
+  const localMatches = matchBlockSequences(baseKeys, localKeys);
+  const remoteMatches = matchBlockSequences(baseKeys, remoteKeys);
+
+  const chunks: NoteMergeChunk[] = [];
+  const conflicts: NoteMergeConflict[] = [];
+
+  type Range = [start: number, end: number];
+
+  const resolveStretch = (baseRange: Range, localRange: Range, remoteRange: Range) => {
+    const baseStretch = baseKeys.slice(...baseRange);
+    const localStretch = localKeys.slice(...localRange);
+    const remoteStretch = remoteKeys.slice(...remoteRange);
+    const localSlice = localBlocks.slice(...localRange);
+    const remoteSlice = remoteBlocks.slice(...remoteRange);
+
+    if (baseStretch.length === 0 && localStretch.length === 0 && remoteStretch.length === 0) return;
+
+    // Neighbouring blocks edited in place on different sides: resolve each
+    // position on its own instead of flagging the whole stretch.
+    if (
+      baseStretch.length > 1
+      && localStretch.length === baseStretch.length
+      && remoteStretch.length === baseStretch.length
+    ) {
+      for (let offset = 0; offset < baseStretch.length; offset += 1) {
+        resolveStretch(
+          [baseRange[0] + offset, baseRange[0] + offset + 1],
+          [localRange[0] + offset, localRange[0] + offset + 1],
+          [remoteRange[0] + offset, remoteRange[0] + offset + 1],
+        );
+      }
+      return;
+    }
+
+    if (sameKeys(localStretch, baseStretch)) {
+      chunks.push({ kind: 'resolved', blocks: remoteSlice });
+    } else if (sameKeys(remoteStretch, baseStretch) || sameKeys(localStretch, remoteStretch)) {
+      chunks.push({ kind: 'resolved', blocks: localSlice });
+    } else if (baseStretch.length === 0) {
+      // Both sides only inserted blocks here; keeping both loses nothing.
+      chunks.push({ kind: 'resolved', blocks: [...localSlice, ...remoteSlice] });
+    } else {
+      const conflict = {
+        base: baseBlocks.slice(...baseRange),
+        local: localSlice,
+        remote: remoteSlice,
+      };
+      chunks.push({ kind: 'conflict', conflict });
+      conflicts.push(conflict);
+    }
+  };
+
+  let baseIndex = 0;
+  let localIndex = 0;
+  let remoteIndex = 0;
+
+  baseBlocks.forEach((block, index) => {
+    const localMatch = localMatches[index];
+    const remoteMatch = remoteMatches[index];
+    if (localMatch === -1 || remoteMatch === -1) return;
+
+    resolveStretch([baseIndex, index], [localIndex, localMatch], [remoteIndex, remoteMatch]);
+    chunks.push({ kind: 'resolved', blocks: [block] });
+    baseIndex = index + 1;
+    localIndex = localMatch + 1;
+    remoteIndex = remoteMatch + 1;
+  });
+
+  resolveStretch(
+    [baseIndex, baseBlocks.length],
+    [localIndex, localBlocks.length],
+    [remoteIndex, remoteBlocks.length],
+  );
+
+  return { chunks, conflicts };
+}
+
+export function buildMergedNoteContent(result: NoteMergeResult, conflictSide: NoteMergeSide): JSONContent {
+  const blocks = result.chunks.flatMap((chunk) => (
+    chunk.kind === 'resolved' ? chunk.blocks : chunk.conflict[conflictSide]
+  ));
+
+  return { type: 'doc', content: blocks };
+}
+
+export type RemoteContentInput = {
+  // The last remote contentJson the editor was synced to, if any.
+  base: JSONContent | null;
+  local: JSONContent;
+  remote: JSONContent;
+  // The last contentJson this editor saved, so its own echo is ignored.
+  lastSubmitted: JSONContent | null;
+  isInitialHydration: boolean;
+  hasUnsavedChanges: boolean;
+};
+
+export type RemoteContentReconciliation = {
+  // What the editor should now show; null keeps it as it is.
+  content: JSONContent | null;
+  // The queued save holds the pre-merge document and must be redone.
+  resave: boolean;
+  // Set when some blocks changed differently on both sides; `content` keeps
+  // the local version of those.
+  conflict: { result: NoteMergeResult; appliedContent: JSONContent } | null;
+};
+
+// Document-level sync: what to do with a remote contentJson snapshot. This is
+// the whole of conflict handling for editors without a Yjs session (local
+// vaults, and notes whose CRDT log can't be read). Notes bound to Yjs never get
+// here; their edits merge inside the CRDT, and contentJson is only a projection.
+export function reconcileRemoteContent(input: RemoteContentInput): RemoteContentReconciliation {
+  const { base, local, remote, lastSubmitted, isInitialHydration, hasUnsavedChanges } = input;
+  const unchanged: RemoteContentReconciliation = { content: null, resave: false, conflict: null };
+
+  if (isEquivalentNoteContent(remote, local)) return unchanged;
+  if (!isInitialHydration && lastSubmitted && isEquivalentNoteContent(remote, lastSubmitted)) return unchanged;
+
+  const hasLocalEdits = hasUnsavedChanges && !!base && !isEquivalentNoteContent(local, base);
+  if (isInitialHydration || !hasLocalEdits || !base) return { content: remote, resave: false, conflict: null };
+
+  // Local edits are still unsaved: fold the remote changes in instead of
+  // letting the next save silently overwrite them.
+  const result = mergeNoteBlocks(base, local, remote);
+  const merged = buildMergedNoteContent(result, 'local');
+  return {
+    content: isEquivalentNoteContent(merged, local) ? null : merged,
+    resave: !isEquivalentNoteContent(merged, local),
+    conflict: result.conflicts.length > 0 ? { result, appliedContent: merged } : null,
+  };
+}
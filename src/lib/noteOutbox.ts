@@ -0,0 +1,215 @@
+import type { JSONContent } from '@tiptap/core';
+import { hasNoteCollabData } from '@/lib/noteCollab';
+import { notePlainText } from '@/lib/noteContent';
+import { collectOutgoingLinks } from '@/lib/noteLinks';
+import { buildMergedNoteContent, mergeNoteBlocks } from '@/lib/noteMerge';
+import { getNotesRepository, repositoryErrorCode } from '@/lib/notesRepository';
+
+export type NoteOutboxFields = {
+  title?: string;
+  labels?: string[];
+  content?: string;
+  contentJson?: JSONContent;
+  outgoingLinks?: string[];
+};
+
+// The server copy that queued content edits were made on top of.
+export type NoteOutboxBase = {
+  contentJson: JSONContent;
+  updatedAtMs: number | null;
+};
+
+type NoteOutboxEntry = {
+  fields: NoteOutboxFields;
+  queuedAt: number;
+  base?: NoteOutboxBase;
+};
+
+const CONTENT_FIELDS: Array<keyof NoteOutboxFields> = ['content', 'contentJson', 'outgoingLinks'];
+
+type NoteOutbox = Record<string, NoteOutboxEntry>;
+
+// Pending note writes are recorded here the moment they are made (before any
+// debounce) and cleared once the notes repository acknowledges them. Firestore's own
+// persistent cache replays writes it has accepted; the outbox also covers the
+// debounce window and tabs closed before the write reached the SDK.
+const outboxKey = (userId: string) => `tulis:outbox:${userId}`;
+const listeners = new Set<() => void>();
+
+function readOutbox(userId: string): NoteOutbox {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    const raw = window.localStorage.getItem(outboxKey(userId));
+    if (!raw) return {};
+    const parsed = JSON.parse(raw) as NoteOutbox | null;
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeOutbox(userId: string, outbox: NoteOutbox): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    if (Object.keys(outbox).length === 0) {
+      window.localStorage.removeItem(outboxKey(userId));
+    } else {
+      window.localStorage.setItem(outboxKey(userId), JSON.stringify(outbox));
+    }
+  } catch {
+    // Ignore localStorage write failures; Firestore still queues the write.
+  }
+
+  listeners.forEach((listener) => listener());
+}
+
+// `base` is kept from the first content write until the content settles, so a
+// replay can tell which changes on the server are not ours.
+export function queueNoteWrite(userId: string, noteId: string, fields: NoteOutboxFields, base?: NoteOutboxBase | null): void {
+  const outbox = readOutbox(userId);
+  const existing = outbox[noteId];
+  const nextBase = existing?.base ?? (fields.contentJson && base ? base : undefined);
+  outbox[noteId] = {
+    fields: { ...existing?.fields, ...fields },
+    queuedAt: existing?.queuedAt ?? Date.now(),
+    ...(nextBase ? { base: nextBase } : {}),
+  };
+  writeOutbox(userId, outbox);
+}
+
+// Only drops fields that still hold the acknowledged value, so a newer edit
+// queued while the write was in flight stays in the outbox.
+export function settleNoteWrite(userId: string, noteId: string, fields: NoteOutboxFields): void {
+  const outbox = readOutbox(userId);
+  const entry = outbox[noteId];
+  if (!entry) return;
+
+  const remaining: NoteOutboxFields = { ...entry.fields };
+  (Object.keys(fields) as Array<keyof NoteOutboxFields>).forEach((field) => {
+    if (JSON.stringify(remaining[field]) === JSON.stringify(fields[field])) {
+      delete remaining[field];
+    }
+  });
+
+  if (Object.keys(remaining).length === 0) {
+    delete outbox[noteId];
+  } else {
+    const { base, ...rest } = entry;
+    outbox[noteId] = { ...rest, fields: remaining, ...(remaining.contentJson && base ? { base } : {}) };
+  }
+  writeOutbox(userId, outbox);
+}
+
+export function dropQueuedNoteWrites(userId: string, noteId: string): void {
+  const outbox = readOutbox(userId);
+  if (!outbox[noteId]) return;
+  delete outbox[noteId];
+  writeOutbox(userId, outbox);
+}
+
+export function countQueuedNoteWrites(userId: string, noteId?: string): number {
+  const outbox = readOutbox(userId);
+  if (noteId) return outbox[noteId] ? 1 : 0;
+  return Object.keys(outbox).length;
+}
+
+export function subscribeNoteOutbox(listener: () => void): () => void {
+  listeners.add(listener);
+
+  // Other tabs share the same outbox through localStorage.
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key?.startsWith('tulis:outbox:')) listener();
+  };
+  window.addEventListener('storage', handleStorage);
+
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', handleStorage);
+  };
+}
+
+export async function writeNoteFields(
+  userId: string,
+  noteId: string,
+  fields: NoteOutboxFields,
+  base?: NoteOutboxBase | null
+): Promise<void> {
+  queueNoteWrite(userId, noteId, fields, base);
+  await getNotesRepository().updateNote(noteId, fields);
+  settleNoteWrite(userId, noteId, fields);
+}
+
+const withoutContentFields = (fields: NoteOutboxFields): NoteOutboxFields => (
+  Object.fromEntries(Object.entries(fields).filter(([field]) => !CONTENT_FIELDS.includes(field as keyof NoteOutboxFields)))
+);
+
+// What a queued entry should still write. A whole-document contentJson must
+// not overwrite edits made elsewhere since it was queued:
+// - notes synced through Yjs already carry the edit in their update log (which
+//   Firestore's cache replays), so the projection is left to the editor;
+// - otherwise, when the server copy moved on from the entry's base, the queued
+//   document is merged into it block by block, keeping ours on conflicts as the
+//   editor does.
+async function replayableFields(userId: string, noteId: string, entry: NoteOutboxEntry): Promise<NoteOutboxFields | null> {
+  const { contentJson } = entry.fields;
+  if (!contentJson) return entry.fields;
+
+  const repository = getNotesRepository();
+  if (repository.kind === 'firestore' && await hasNoteCollabData(noteId)) {
+    settleNoteWrite(userId, noteId, entry.fields);
+    return withoutContentFields(entry.fields);
+  }
+
+  const note = await repository.getNote(noteId);
+  if (!note) return null;
+  if (JSON.stringify(note.contentJson) === JSON.stringify(contentJson)) return entry.fields;
+
+  const isServerUnchanged = entry.base
+    ? note.updatedAtMs === entry.base.updatedAtMs
+    : note.updatedAtMs === null || note.updatedAtMs <= entry.queuedAt;
+  if (isServerUnchanged) return entry.fields;
+  if (!entry.base) {
+    // Queued before bases were recorded: there is nothing to merge against,
+    // and the newer server copy wins.
+    console.warn('Dropping a queued note edit that is older than the saved note:', noteId);
+    settleNoteWrite(userId, noteId, entry.fields);
+    return withoutContentFields(entry.fields);
+  }
+
+  const merged = buildMergedNoteContent(mergeNoteBlocks(entry.base.contentJson, contentJson, note.contentJson), 'local');
+  return {
+    ...entry.fields,
+    contentJson: merged,
+    content: notePlainText(merged),
+    outgoingLinks: collectOutgoingLinks(merged),
+  };
+}
+
+export async function replayNoteOutbox(userId: string): Promise<void> {
+  const outbox = readOutbox(userId);
+
+  await Promise.all(Object.entries(outbox).map(async ([noteId, entry]) => {
+    try {
+      const fields = await replayableFields(userId, noteId, entry);
+      if (!fields) {
+        dropQueuedNoteWrites(userId, noteId);
+        return;
+      }
+      if (Object.keys(fields).length === 0) return;
+
+      await getNotesRepository().updateNote(noteId, fields);
+      // Settle what was queued, not a merge result, so newer edits stay put.
+      settleNoteWrite(userId, noteId, entry.fields);
+    } catch (error) {
+      const code = repositoryErrorCode(error);
+      // The note was purged or is no longer ours; nothing left to replay into.
+      if (code === 'not-found' || code === 'permission-denied') {
+        dropQueuedNoteWrites(userId, noteId);
+        return;
+      }
+      console.warn('Failed to replay queued note write:', error);
+    }
+  }));
+}
@@ -0,0 +1,129 @@
+import type { JSONContent } from '@tiptap/core';
+import {
+  deleteDoc,
+  getDoc,
+  serverTimestamp,
+  Timestamp,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { appNoteDoc, appPublishedNoteDoc } from '@/lib/firestorePaths';
+import { toNoteContent } from '@/lib/noteContent';
+import type { NoteRecord } from '@/lib/notesRepository';
+
+// Public, read-only copy of a note served at /p/<slug>. It only changes when
+// the owner (or an editor, with auto-republish on) pushes a new snapshot.
+export type PublishedNote = {
+  slug: string;
+  noteId: string;
+  title: string;
+  contentJson: JSONContent;
+  publishedAtMs: number | null;
+  updatedAtMs: number | null;
+};
+
+// Wait for typing to settle before pushing the public snapshot again.
+export const REPUBLISH_DELAY_MS = 5000;
+
+const SLUG_BASE_MAX_LENGTH = 48;
+const SLUG_SUFFIX_LENGTH = 8;
+const SLUG_PATTERN = /^[a-z0-9-]{1,80}$/;
+
+const timestampMillis = (value: unknown): number | null => (
+  value instanceof Timestamp ? value.toMillis() : null
+);
+
+function randomSlugSuffix(): string {
+  const bytes = new Uint8Array(SLUG_SUFFIX_LENGTH);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => (byte % 36).toString(36)).join('');
+}
+
+// Readable prefix from the title plus a random suffix, so slugs are not guessable
+// and notes with the same title get distinct pages.
+export function createPublishSlug(title: string): string {
+  const base = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, SLUG_BASE_MAX_LENGTH)
+    .replace(/^-+|-+$/g, '');
+
+  return `${base || 'note'}-${randomSlugSuffix()}`;
+}
+
+export function publishedNotePath(slug: string): string {
+  return `/p/${slug}`;
+}
+
+export async function publishNote(
+  note: Pick<NoteRecord, 'id' | 'ownerUid' | 'title' | 'contentJson'>
+): Promise<string> {
+  const slug = createPublishSlug(note.title);
+  const timestamp = serverTimestamp();
+  const batch = writeBatch(db);
+
+  batch.set(appPublishedNoteDoc(db, slug), {
+    noteId: note.id,
+    ownerUid: note.ownerUid,
+    title: note.title,
+    contentJson: note.contentJson,
+    publishedAt: timestamp,
+    updatedAt: timestamp,
+  });
+  // Publishing is not an edit, so the note keeps its place in the list.
+  batch.update(appNoteDoc(db, note.id), { publishedSlug: slug });
+
+  await batch.commit();
+  return slug;
+}
+
+export async function updatePublishedSnapshot(
+  slug: string,
+  snapshot: { title: string; contentJson: JSONContent }
+): Promise<void> {
+  await updateDoc(appPublishedNoteDoc(db, slug), {
+    title: snapshot.title,
+    contentJson: snapshot.contentJson,
+    updatedAt: serverTimestamp(),
+  });
+}
+
+export async function unpublishNote(noteId: string, slug: string): Promise<void> {
+  const batch = writeBatch(db);
+  batch.delete(appPublishedNoteDoc(db, slug));
+  batch.update(appNoteDoc(db, noteId), { publishedSlug: null });
+  await batch.commit();
+}
+
+export async function setAutoRepublish(noteId: string, enabled: boolean): Promise<void> {
+  await updateDoc(appNoteDoc(db, noteId), { autoRepublish: enabled });
+}
+
+export async function getPublishedNote(slug: string): Promise<PublishedNote | null> {
+  if (!SLUG_PATTERN.test(slug)) return null;
+
+  const snapshot = await getDoc(appPublishedNoteDoc(db, slug));
+  const data = snapshot.data();
+  if (!data) return null;
+
+  return {
+    slug,
+    noteId: typeof data.noteId === 'string' ? data.noteId : '',
+    title: typeof data.title === 'string' ? data.title : '',
+    contentJson: toNoteContent(data.contentJson),
+    publishedAtMs: timestampMillis(data.publishedAt),
+    updatedAtMs: timestampMillis(data.updatedAt),
+  };
+}
+
+// Called while purging a note so its public page goes away with it.
+export async function deleteNotePublication(noteId: string): Promise<void> {
+  const snapshot = await getDoc(appNoteDoc(db, noteId));
+  const slug = snapshot.data()?.publishedSlug;
+  if (typeof slug !== 'string' || !slug) return;
+
+  await deleteDoc(appPublishedNoteDoc(db, slug));
+}
@@ -0,0 +1,108 @@
+import type { JSONContent } from '@tiptap/core';
+import {
+  addDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  serverTimestamp,
+  Timestamp,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { appNoteRevisionsCollection } from '@/lib/firestorePaths';
+import { noteBlocks, toNoteContent } from '@/lib/noteContent';
+
+export type NoteRevisionReason = 'interval' | 'before-clear' | 'before-restore';
+
+export type NoteRevision = {
+  id: string;
+  title: string;
+  content: string;
+  contentJson: JSONContent;
+  reason: NoteRevisionReason;
+  createdAt: Timestamp | null;
+};
+
+// Snapshot at most this often while someone keeps editing the same note.
+export const REVISION_INTERVAL_MS = 10 * 60 * 1000;
+const REVISION_LIST_LIMIT = 50;
+
+export function shouldCaptureRevision(lastRevisionAtMs: number | null, nowMs: number): boolean {
+  if (lastRevisionAtMs === null) return true;
+  return nowMs - lastRevisionAtMs >= REVISION_INTERVAL_MS;
+}
+
+function toNoteRevisionReason(value: unknown): NoteRevisionReason {
+  if (value === 'before-clear' || value === 'before-restore') return value;
+  return 'interval';
+}
+
+export async function createNoteRevision(
+  noteId: string,
+  revision: {
+    ownerUid: string;
+    title: string;
+    content: string;
+    contentJson: JSONContent;
+    reason: NoteRevisionReason;
+  }
+): Promise<string | null> {
+  // Empty documents are not worth keeping; there is nothing to restore.
+  if (noteBlocks(revision.contentJson).length === 0) return null;
+
+  const created = await addDoc(appNoteRevisionsCollection(db, noteId), {
+    ownerUid: revision.ownerUid,
+    title: revision.title,
+    content: revision.content,
+    contentJson: revision.contentJson,
+    reason: revision.reason,
+    createdAt: serverTimestamp(),
+  });
+
+  return created.id;
+}
+
+export async function listNoteRevisions(noteId: string): Promise<NoteRevision[]> {
+  const snapshot = await getDocs(query(
+    appNoteRevisionsCollection(db, noteId),
+    orderBy('createdAt', 'desc'),
+    limit(REVISION_LIST_LIMIT)
+  ));
+
+  return snapshot.docs.map((revisionDoc) => {
+    const data = revisionDoc.data();
+    return {
+      id: revisionDoc.id,
+      title: typeof data.title === 'string' ? data.title : '',
+      content: typeof data.content === 'string' ? data.content : '',
+      contentJson: toNoteContent(data.contentJson),
+      reason: toNoteRevisionReason(data.reason),
+      createdAt: (data.createdAt as Timestamp | null) || null,
+    };
+  });
+}
+
+export async function getLatestNoteRevisionMillis(noteId: string): Promise<number | null> {
+  const snapshot = await getDocs(query(
+    appNoteRevisionsCollection(db, noteId),
+    orderBy('createdAt', 'desc'),
+    limit(1)
+  ));
+
+  const createdAt = (snapshot.docs[0]?.data().createdAt as Timestamp | null | undefined) ?? null;
+  return createdAt?.toMillis?.() ?? null;
+}
+
+export async function deleteNoteRevisions(noteId: string): Promise<void> {
+  const snapshot = await getDocs(appNoteRevisionsCollection(db, noteId));
+  if (snapshot.empty) return;
+
+  for (let index = 0; index < snapshot.docs.length; index += 500) {
+    const batch = writeBatch(db);
+    snapshot.docs.slice(index, index + 500).forEach((revisionDoc) => {
+      batch.delete(revisionDoc.ref);
+    });
+    await batch.commit();
+  }
+}
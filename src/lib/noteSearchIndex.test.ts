@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { createNoteSearchIndex, tokenizeSearchText, type SearchIndexNote } from '@/lib/noteSearchIndex';
+
+const note = (id: string, title: string, content = '', labels: string[] = []): SearchIndexNote => ({ id, title, content, labels });
+
+const indexOf = (notes: SearchIndexNote[]) => {
+  const index = createNoteSearchIndex();
+  index.sync(notes);
+  return index;
+};
+
+// Note ids from best to worst match.
+const ranked = (scores: Map<string, number> | null) => (
+  scores ? [...scores].sort(([, a], [, b]) => b - a).map(([id]) => id) : null
+);
+
+describe('tokenizeSearchText', () => {
+  it('lowercases, folds accents and splits on anything but letters and digits', () => {
+    expect(tokenizeSearchText('Café-Menü, 2026 (draft)')).toEqual(['cafe', 'menu', '2026', 'draft']);
+  });
+});
+
+describe('createNoteSearchIndex', () => {
+  it('has no result for a query without terms', () => {
+    expect(indexOf([note('a', 'Garden')]).search(' -- ')).toBeNull();
+  });
+
+  it('requires every term to match', () => {
+    const index = indexOf([
+      note('both', 'Garden plan', 'Tomatoes and beans'),
+      note('one', 'Garden tools'),
+    ]);
+
+    expect(ranked(index.search('garden beans'))).toEqual(['both']);
+    expect(ranked(index.search('garden'))?.sort()).toEqual(['both', 'one']);
+    expect(ranked(index.search('garden pumpkin'))).toEqual([]);
+  });
+
+  it('ranks title matches above labels above body text', () => {
+    const index = indexOf([
+      note('body', 'Weekend', 'Buy seeds for the garden'),
+      note('label', 'Weekend', 'Buy seeds', ['garden']),
+      note('title', 'Garden', 'Buy seeds'),
+    ]);
+
+    expect(ranked(index.search('garden'))).toEqual(['title', 'label', 'body']);
+  });
+
+  it('weighs rare terms above common ones', () => {
+    const index = indexOf([
+      note('rare', 'Notes', 'meeting kickoff'),
+      note('common-1', 'Notes', 'meeting meeting'),
+      note('common-2', 'Notes', 'meeting'),
+    ]);
+
+    const scores = index.search('kickoff meeting')!;
+    expect([...scores.keys()]).toEqual(['rare']);
+    expect(index.search('kickoff')!.get('rare')).toBeGreaterThan(index.search('meeting')!.get('rare')!);
+  });
+
+  it('matches prefixes and typos below exact words', () => {
+    const index = indexOf([
+      note('exact', 'Plan'),
+      note('prefix', 'Planning'),
+      note('typo', 'Plam'),
+      note('longer', 'Planet Earth'),
+    ]);
+
+    expect(ranked(index.search('plan'))).toEqual(['exact', 'prefix', 'longer', 'typo']);
+    expect(ranked(index.search('recieve'))).toEqual([]);
+    expect(ranked(indexOf([note('a', 'Receive invoices')]).search('recieve'))).toEqual(['a']);
+    // Short terms must match exactly or as a prefix.
+    expect(ranked(indexOf([note('a', 'Cat')]).search('cot'))).toEqual([]);
+  });
+
+  it('keeps the index in step with the notes it is synced to', () => {
+    const index = createNoteSearchIndex();
+    const first = [note('a', 'Groceries', 'milk'), note('b', 'Errands', 'post office')];
+    index.sync(first);
+    expect(ranked(index.search('milk'))).toEqual(['a']);
+
+    index.sync([note('a', 'Groceries', 'bread'), note('c', 'Errands', 'milk run')]);
+    expect(ranked(index.search('milk'))).toEqual(['c']);
+    expect(ranked(index.search('bread'))).toEqual(['a']);
+    expect(ranked(index.search('post'))).toEqual([]);
+  });
+});
@@ -0,0 +1,238 @@
+// Client-side inverted index over the notes list. Every query term has to
+// match (AND); a term also matches words it is a prefix of and, from four
+// letters on, words with a typo or two. Matches are ranked with BM25 over
+// title, labels and body, with the title weighted most.
+
+export type SearchIndexNote = {
+  id: string;
+  title: string;
+  content: string;
+  labels: string[];
+};
+
+export type NoteSearchIndex = {
+  // Re-indexes changed notes and drops missing ones. Calling it again with the
+  // same array is free.
+  sync: (notes: SearchIndexNote[]) => void;
+  // Relevance of every note matching all query terms, or null when the query
+  // has no terms.
+  search: (query: string) => Map<string, number> | null;
+};
+
+type FieldName = 'title' | 'labels' | 'content';
+
+type FieldCounts = Record<FieldName, number>;
+
+type IndexedNote = {
+  title: string;
+  content: string;
+  labelsKey: string;
+  lengths: FieldCounts;
+  // Term -> occurrences per field.
+  terms: Map<string, FieldCounts>;
+};
+
+const FIELDS: FieldName[] = ['title', 'labels', 'content'];
+const FIELD_BOOSTS: FieldCounts = { title: 3, labels: 2, content: 1 };
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Share of an exact match's score that prefix and typo matches earn.
+const PREFIX_MATCH_WEIGHT = 0.7;
+const FUZZY_MATCH_WEIGHT = 0.4;
+
+const emptyCounts = (): FieldCounts => ({ title: 0, labels: 0, content: 0 });
+
+// Lowercased words with accents folded, so "Café" and "cafe" meet.
+export const tokenizeSearchText = (text: string): string[] => (
+  text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+);
+
+const allowedTypos = (length: number): number => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+// Optimal string alignment distance (adjacent swaps count once), giving up as
+// soon as it must exceed `max`.
+function withinEditDistance(left: string, right: string, max: number): boolean {
+  if (Math.abs(left.length - right.length) > max) return false;
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: right.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= left.length; i += 1) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= right.length; j += 1) {
+      const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && left[i - 1] === right[j - 2] && left[i - 2] === right[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return false;
+  }
+  return row[right.length] <= max;
+}
+
+export function createNoteSearchIndex(): NoteSearchIndex {
+  const notes = new Map<string, IndexedNote>();
+  const postings = new Map<string, Set<string>>();
+  const totalLengths = emptyCounts();
+  let sortedTerms: string[] | null = null;
+  let lastSynced: SearchIndexNote[] | null = null;
+
+  const removeNote = (noteId: string) => {
+    const indexed = notes.get(noteId);
+    if (!indexed) return;
+
+    indexed.terms.forEach((_, term) => {
+      const noteIds = postings.get(term);
+      noteIds?.delete(noteId);
+      if (noteIds?.size === 0) {
+        postings.delete(term);
+        sortedTerms = null;
+      }
+    });
+    FIELDS.forEach((field) => {
+      totalLengths[field] -= indexed.lengths[field];
+    });
+    notes.delete(noteId);
+  };
+
+  const addNote = (note: SearchIndexNote) => {
+    const indexed: IndexedNote = {
+      title: note.title,
+      content: note.content,
+      labelsKey: note.labels.join(' '),
+      lengths: emptyCounts(),
+      terms: new Map(),
+    };
+
+    const fieldText: Record<FieldName, string> = { title: note.title, labels: indexed.labelsKey, content: note.content };
+    FIELDS.forEach((field) => {
+      const tokens = tokenizeSearchText(fieldText[field]);
+      indexed.lengths[field] = tokens.length;
+      totalLengths[field] += tokens.length;
+      tokens.forEach((token) => {
+        const counts = indexed.terms.get(token) ?? emptyCounts();
+        counts[field] += 1;
+        indexed.terms.set(token, counts);
+      });
+    });
+
+    indexed.terms.forEach((_, term) => {
+      const noteIds = postings.get(term);
+      if (noteIds) {
+        noteIds.add(note.id);
+      } else {
+        postings.set(term, new Set([note.id]));
+        sortedTerms = null;
+      }
+    });
+    notes.set(note.id, indexed);
+  };
+
+  const sync = (nextNotes: SearchIndexNote[]) => {
+    if (nextNotes === lastSynced) return;
+    lastSynced = nextNotes;
+
+    const seen = new Set<string>();
+    nextNotes.forEach((note) => {
+      if (seen.has(note.id)) return;
+      seen.add(note.id);
+
+      const indexed = notes.get(note.id);
+      if (
+        indexed
+        && indexed.title === note.title
+        && indexed.content === note.content
+        && indexed.labelsKey === note.labels.join(' ')
+      ) {
+        return;
+      }
+      removeNote(note.id);
+      addNote(note);
+    });
+
+    Array.from(notes.keys()).forEach((noteId) => {
+      if (!seen.has(noteId)) removeNote(noteId);
+    });
+  };
+
+  // Index terms a query term stands for, with the share of the score each earns.
+  const expandTerm = (queryTerm: string): Map<string, number> => {
+    const expansions = new Map<string, number>();
+    if (postings.has(queryTerm)) expansions.set(queryTerm, 1);
+
+    sortedTerms ??= Array.from(postings.keys()).sort();
+    let low = 0;
+    let high = sortedTerms.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (sortedTerms[middle] < queryTerm) low = middle + 1;
+      else high = middle;
+    }
+    for (let index = low; index < sortedTerms.length && sortedTerms[index].startsWith(queryTerm); index += 1) {
+      if (sortedTerms[index] !== queryTerm) expansions.set(sortedTerms[index], PREFIX_MATCH_WEIGHT);
+    }
+
+    const typos = allowedTypos(queryTerm.length);
+    if (typos === 0) return expansions;
+
+    sortedTerms.forEach((term) => {
+      if (expansions.has(term)) return;
+      if (withinEditDistance(queryTerm, term, typos)) {
+        expansions.set(term, FUZZY_MATCH_WEIGHT);
+      } else if (term.length > queryTerm.length && withinEditDistance(queryTerm, term.slice(0, queryTerm.length), typos)) {
+        // A typo in a word that is still being typed.
+        expansions.set(term, FUZZY_MATCH_WEIGHT * PREFIX_MATCH_WEIGHT);
+      }
+    });
+    return expansions;
+  };
+
+  const termScore = (term: string, indexed: IndexedNote): number => {
+    const counts = indexed.terms.get(term);
+    if (!counts) return 0;
+
+    const documentFrequency = postings.get(term)?.size ?? 0;
+    const idf = Math.log(1 + (notes.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+    return FIELDS.reduce((score, field) => {
+      const frequency = counts[field];
+      if (frequency === 0) return score;
+      const averageLength = totalLengths[field] / Math.max(1, notes.size) || 1;
+      const normalization = 1 - BM25_B + BM25_B * (indexed.lengths[field] / averageLength);
+      return score + FIELD_BOOSTS[field] * idf * ((frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * normalization));
+    }, 0);
+  };
+
+  const search = (query: string): Map<string, number> | null => {
+    const queryTerms = [...new Set(tokenizeSearchText(query))];
+    if (queryTerms.length === 0) return null;
+
+    // Notes matching every term so far, with their summed scores.
+    let scores: Map<string, number> | null = null;
+    for (const queryTerm of queryTerms) {
+      const matched: Map<string, number> | null = scores;
+      // Best-scoring expansion per note, so many prefix matches don't pile up.
+      const termScores = new Map<string, number>();
+      expandTerm(queryTerm).forEach((weight, term) => {
+        postings.get(term)?.forEach((noteId) => {
+          if (matched && !matched.has(noteId)) return;
+          const indexed = notes.get(noteId);
+          if (!indexed) return;
+          const score = weight * termScore(term, indexed);
+          if (score > (termScores.get(noteId) ?? 0)) termScores.set(noteId, score);
+        });
+      });
+
+      termScores.forEach((score, noteId) => termScores.set(noteId, score + (matched?.get(noteId) ?? 0)));
+      scores = termScores;
+      if (scores.size === 0) break;
+    }
+    return scores;
+  };
+
+  return { sync, search };
+}
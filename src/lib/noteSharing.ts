@@ -0,0 +1,43 @@
+import { getNotesRepository, type NoteRecord, type NoteRole } from '@/lib/notesRepository';
+import { findTulisUserByEmail, type DirectoryUser } from '@/lib/userRegistration';
+
+export const MAX_NOTE_COLLABORATORS = 20;
+
+export type NoteAccess = 'owner' | NoteRole;
+
+export type ShareNoteResult =
+  | { status: 'shared'; user: DirectoryUser }
+  | { status: 'not-found' }
+  | { status: 'self' }
+  | { status: 'limit-reached' };
+
+export const NOTE_ROLE_LABELS: Record<NoteRole, string> = {
+  viewer: 'Can view',
+  editor: 'Can edit',
+};
+
+export function resolveNoteAccess(
+  note: Pick<NoteRecord, 'ownerUid' | 'collaborators'>,
+  uid: string
+): NoteAccess | null {
+  if (note.ownerUid === uid) return 'owner';
+  return note.collaborators[uid]?.role ?? null;
+}
+
+export async function shareNoteByEmail(
+  note: Pick<NoteRecord, 'id' | 'ownerUid' | 'collaborators'>,
+  email: string,
+  role: NoteRole
+): Promise<ShareNoteResult> {
+  const user = await findTulisUserByEmail(email);
+  if (!user) return { status: 'not-found' };
+  if (user.uid === note.ownerUid) return { status: 'self' };
+
+  const isNewCollaborator = !note.collaborators[user.uid];
+  if (isNewCollaborator && Object.keys(note.collaborators).length >= MAX_NOTE_COLLABORATORS) {
+    return { status: 'limit-reached' };
+  }
+
+  await getNotesRepository().setNoteCollaborator(note.id, user.uid, { role, email: user.email });
+  return { status: 'shared', user };
+}
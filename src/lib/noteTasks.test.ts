@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { JSONContent } from '@tiptap/core';
+import { createEmptyNoteRecord, setNotesRepositoryOverride, type NotesRepository } from '@/lib/notesRepository';
+import { createMemoryNotesRepository } from '@/lib/notesRepositoryMemory';
+import { noteOpenTasks, setTaskChecked } from '@/lib/noteTasks';
+
+// The Firestore backend is never used here; skip initializing Firebase.
+vi.mock('@/lib/firebase', () => ({ auth: {}, db: {}, storage: {} }));
+
+const USER = 'user-a';
+
+const taskList = (attrs: Record<string, unknown>, line: JSONContent[]): JSONContent => ({
+  type: 'doc',
+  content: [{
+    type: 'taskList',
+    content: [{ type: 'taskItem', attrs: { checked: false, ...attrs }, content: [{ type: 'paragraph', content: line }] }],
+  }],
+});
+
+let repository: NotesRepository;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date(2026, 2, 10, 9, 0));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  setNotesRepositoryOverride(null);
+});
+
+describe('setTaskChecked', () => {
+  it("rewrites a repeating task's content and links along with its dates", async () => {
+    const contentJson = taskList({ recurrence: 'daily' }, [
+      { type: 'text', text: 'Water plants ' },
+      { type: 'dateChip', attrs: { date: new Date(2026, 2, 10, 12).toISOString() } },
+      { type: 'text', text: ' see ' },
+      { type: 'noteLink', attrs: { noteId: 'garden', title: 'Garden' } },
+    ]);
+    repository = createMemoryNotesRepository([{ ...createEmptyNoteRecord('chores', USER, 1_000), contentJson, outgoingLinks: [] }]);
+    setNotesRepositoryOverride(repository);
+
+    const [task] = noteOpenTasks((await repository.getNote('chores'))!);
+    await setTaskChecked(USER, task, true);
+
+    const note = await repository.getNote('chores');
+    expect(noteOpenTasks(note!)[0].days).toEqual(['2026-03-11']);
+    expect(note?.content).toContain('2026-03-11');
+    expect(note?.content).not.toContain('2026-03-10');
+    expect(note?.outgoingLinks).toEqual(['garden']);
+  });
+
+  it('checks off a one-off task', async () => {
+    const contentJson = taskList({}, [{ type: 'text', text: 'Call the plumber' }]);
+    repository = createMemoryNotesRepository([{ ...createEmptyNoteRecord('todo', USER, 1_000), contentJson }]);
+    setNotesRepositoryOverride(repository);
+
+    const [task] = noteOpenTasks((await repository.getNote('todo'))!);
+    await setTaskChecked(USER, task, true);
+
+    const note = await repository.getNote('todo');
+    expect(noteOpenTasks(note!)).toEqual([]);
+    expect(note?.content).toBe('Call the plumber');
+  });
+});
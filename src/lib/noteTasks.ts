@@ -0,0 +1,261 @@
+import type { JSONContent } from '@tiptap/core';
+import * as Y from 'yjs';
+import { shiftJournalDate, toJournalDate } from '@/lib/journal';
+import { updateNoteCollabDoc } from '@/lib/noteCollab';
+import { nodePlainText, noteBlocks, notePlainText } from '@/lib/noteContent';
+import { collectOutgoingLinks } from '@/lib/noteLinks';
+import { getNotesRepository, type NoteRecord } from '@/lib/notesRepository';
+import { taskAttributesOf, type TaskPriority } from '@/lib/taskAttributes';
+import {
+  completeRecurringTask,
+  completeRecurringTaskItem,
+  dateChipDay,
+  parseTaskRecurrence,
+  shiftDateChipAttrs,
+  type TaskRecurrence,
+} from '@/lib/taskRecurrence';
+
+// Open checklist items across notes, for the /tasks view.
+
+export type OpenTask = {
+  // Unique across notes: the note id and the item's position among its tasks.
+  key: string;
+  noteId: string;
+  noteTitle: string;
+  noteLabels: string[];
+  // Position among the note's task items (checked or not), in document order.
+  taskIndex: number;
+  // The item's own line, chips included (dates as YYYY-MM-DD).
+  text: string;
+  // Just the typed text of that line; used to find the item again when
+  // writing back, since the note may have changed in the meantime.
+  signature: string;
+  // Lines of the enclosing task items, outermost first.
+  parents: string[];
+  // Local days (YYYY-MM-DD) of the date chips on the item's own line.
+  days: string[];
+  // The item's own due day and priority, set from the note's task popover.
+  due: string | null;
+  priority: TaskPriority | null;
+  // Repeat rule; checking a repeating task moves it on instead of closing it.
+  recurrence: TaskRecurrence | null;
+};
+
+// The editor's Yjs binding keeps node attributes with their JSON types.
+type YTaskItem = Y.XmlElement<{ checked: boolean; due: string | null; recurrence: string | null; completions: string[] | null }>;
+type YDateChip = Y.XmlElement<{ date: string | null; reminderAt: string | null }>;
+
+// Which tasks to show by their due day and the date chips on their line.
+export type TaskDateFilter = 'all' | 'dated' | 'overdue' | 'today' | 'week' | 'undated';
+
+type TaskCandidate<T> = {
+  signature: string;
+  checked: boolean;
+  target: T;
+};
+
+// The first child of a task item is its own line; the rest are nested blocks.
+const taskLine = (taskItem: JSONContent): JSONContent | null => taskItem.content?.[0] ?? null;
+
+const lineSignature = (line: JSONContent | null): string => (
+  (line?.content ?? []).map((child) => (child.type === 'text' ? child.text ?? '' : '')).join('')
+);
+
+const lineDays = (line: JSONContent | null): string[] => (
+  (line?.content ?? []).flatMap((child) => {
+    const day = child.type === 'dateChip' ? dateChipDay(child.attrs) : null;
+    return day ? [day] : [];
+  })
+);
+
+const lineText = (line: JSONContent | null): string => nodePlainText(line).replace(/\s+/g, ' ').trim();
+
+export const noteOpenTasks = (record: Pick<NoteRecord, 'id' | 'title' | 'labels' | 'contentJson'>): OpenTask[] => {
+  const tasks: OpenTask[] = [];
+  let taskIndex = 0;
+
+  const visit = (node: JSONContent, parents: string[]) => {
+    if (node.type !== 'taskItem') {
+      node.content?.forEach((child) => visit(child, parents));
+      return;
+    }
+
+    const line = taskLine(node);
+    const text = lineText(line);
+    if (node.attrs?.checked !== true) {
+      const { due, priority } = taskAttributesOf(node.attrs);
+      tasks.push({
+        key: `${record.id}:${taskIndex}`,
+        noteId: record.id,
+        noteTitle: record.title,
+        noteLabels: record.labels,
+        taskIndex,
+        text,
+        signature: lineSignature(line),
+        parents,
+        days: lineDays(line),
+        due,
+        priority,
+        recurrence: parseTaskRecurrence(node.attrs?.recurrence),
+      });
+    }
+    taskIndex += 1;
+    node.content?.slice(1).forEach((child) => visit(child, [...parents, text]));
+  };
+  noteBlocks(record.contentJson).forEach((block) => visit(block, []));
+
+  return tasks;
+};
+
+export const countOpenTasks = (doc: JSONContent | null | undefined): number => {
+  let count = 0;
+  const visit = (node: JSONContent) => {
+    if (node.type === 'taskItem' && node.attrs?.checked !== true) count += 1;
+    node.content?.forEach(visit);
+  };
+  noteBlocks(doc).forEach(visit);
+  return count;
+};
+
+// `today` is a local day (YYYY-MM-DD); `week` is today and the six days after.
+export const matchesTaskDateFilter = (task: OpenTask, filter: TaskDateFilter, today: string): boolean => {
+  const days = task.due ? [task.due, ...task.days] : task.days;
+  switch (filter) {
+    case 'all':
+      return true;
+    case 'dated':
+      return days.length > 0;
+    case 'undated':
+      return days.length === 0;
+    case 'overdue':
+      return days.some((day) => day < today);
+    case 'today':
+      return days.includes(today);
+    case 'week': {
+      const weekEnd = shiftJournalDate(today, 6);
+      return days.some((day) => day >= today && day <= weekEnd);
+    }
+  }
+};
+
+// The item at the task's index if it still reads the same, otherwise the only
+// item with that text still in the opposite state.
+const locateTask = <T>(candidates: TaskCandidate<T>[], task: OpenTask, checked: boolean): T => {
+  const atIndex = candidates[task.taskIndex];
+  if (atIndex?.signature === task.signature) return atIndex.target;
+
+  const matches = candidates.filter((candidate) => candidate.signature === task.signature && candidate.checked !== checked);
+  if (matches.length !== 1) throw new Error('This task was changed in its note. Reload and try again.');
+  return matches[0].target;
+};
+
+const yElementSignature = (element: Y.XmlElement | undefined): string => (
+  (element?.toArray() ?? [])
+    .map((child) => (child instanceof Y.XmlText
+      ? child.toDelta().map((op: { insert?: unknown }) => (typeof op.insert === 'string' ? op.insert : '')).join('')
+      : ''))
+    .join('')
+);
+
+const yTaskCandidates = (fragment: Y.XmlFragment): TaskCandidate<YTaskItem>[] => {
+  const candidates: TaskCandidate<YTaskItem>[] = [];
+  const visit = (node: Y.XmlElement | Y.XmlText | Y.XmlHook) => {
+    if (!(node instanceof Y.XmlElement)) return;
+    if (node.nodeName === 'taskItem') {
+      const taskItem = node as unknown as YTaskItem;
+      const line = node.get(0);
+      candidates.push({
+        signature: yElementSignature(line instanceof Y.XmlElement ? line : undefined),
+        checked: taskItem.getAttribute('checked') === true,
+        target: taskItem,
+      });
+    }
+    node.toArray().forEach(visit);
+  };
+  fragment.toArray().forEach(visit);
+  return candidates;
+};
+
+const jsonTaskCandidates = (doc: JSONContent): TaskCandidate<JSONContent>[] => {
+  const candidates: TaskCandidate<JSONContent>[] = [];
+  const visit = (node: JSONContent) => {
+    if (node.type === 'taskItem') {
+      candidates.push({ signature: lineSignature(taskLine(node)), checked: node.attrs?.checked === true, target: node });
+    }
+    node.content?.forEach(visit);
+  };
+  noteBlocks(doc).forEach(visit);
+  return candidates;
+};
+
+// Checking off a repeating item the way the editor does: it stays unchecked,
+// logs the day and moves on, date chips included.
+const completeRecurringYTask = (taskItem: YTaskItem, today: string): boolean => {
+  const line = taskItem.get(0);
+  const chips = line instanceof Y.XmlElement
+    ? line.toArray().flatMap((child) => (
+      child instanceof Y.XmlElement && child.nodeName === 'dateChip' ? [child as unknown as YDateChip] : []
+    ))
+    : [];
+  const chipDays = chips.flatMap((chip) => {
+    const day = dateChipDay(chip.getAttributes());
+    return day ? [day] : [];
+  });
+  const completion = completeRecurringTask(taskItem.getAttributes(), chipDays, today);
+  if (!completion) return false;
+
+  taskItem.setAttribute('checked', false);
+  taskItem.setAttribute('due', completion.due);
+  taskItem.setAttribute('completions', completion.completions);
+  if (completion.shiftDays !== 0) {
+    chips.forEach((chip) => {
+      const { date, reminderAt } = shiftDateChipAttrs(chip.getAttributes(), completion.shiftDays);
+      chip.setAttribute('date', date);
+      chip.setAttribute('reminderAt', reminderAt);
+    });
+  }
+  return true;
+};
+
+// Checks (or unchecks) a task in its note. Synced notes take the change as a
+// Yjs update so it merges with whatever an open editor is doing; the note's
+// contentJson is then refreshed so lists and search see it right away.
+// Written together, as the editor's save does, so search and backlinks see a
+// repeating task's new dates without the note being opened.
+const contentFields = (contentJson: JSONContent) => ({
+  contentJson,
+  content: notePlainText(contentJson),
+  outgoingLinks: collectOutgoingLinks(contentJson),
+});
+
+export async function setTaskChecked(ownerUid: string, task: OpenTask, checked: boolean): Promise<void> {
+  const repository = getNotesRepository();
+  const today = toJournalDate(new Date());
+
+  if (repository.kind === 'firestore') {
+    const contentJson = await updateNoteCollabDoc(task.noteId, ownerUid, (fragment) => {
+      const taskItem = locateTask(yTaskCandidates(fragment), task, checked);
+      if (!checked || !completeRecurringYTask(taskItem, today)) taskItem.setAttribute('checked', checked);
+    });
+    if (contentJson) {
+      await repository.updateNote(task.noteId, contentFields(contentJson));
+      return;
+    }
+  }
+
+  // Local vaults and notes that predate collaborative sync keep their content
+  // in contentJson alone. The write starts from the latest copy, and an editor
+  // with unsaved edits merges it in block by block.
+  const note = await repository.getNote(task.noteId);
+  if (!note) throw new Error('This note no longer exists.');
+
+  const contentJson = structuredClone(note.contentJson);
+  const target = locateTask(jsonTaskCandidates(contentJson), task, checked);
+  const completed = checked ? completeRecurringTaskItem(target, today) : null;
+  if (completed) {
+    Object.assign(target, completed);
+  } else {
+    target.attrs = { ...target.attrs, checked };
+  }
+  await repository.updateNote(task.noteId, contentFields(contentJson));
+}
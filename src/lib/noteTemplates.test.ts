@@ -0,0 +1,90 @@
+import { getSchema, type JSONContent } from '@tiptap/core';
+import { Node as ProseMirrorNode } from '@tiptap/pm/model';
+import StarterKit from '@tiptap/starter-kit';
+import { describe, expect, it } from 'vitest';
+import { resolveTemplateCursor } from '@/lib/editor/insertTemplate';
+import { expandNoteTemplate, formatTemplateCursor, parseTemplateCursor } from '@/lib/noteTemplates';
+
+const schema = getSchema([StarterKit]);
+const NOW = new Date(2026, 9, 19, 14, 5);
+
+const paragraph = (...content: JSONContent[]): JSONContent => ({ type: 'paragraph', content });
+const text = (value: string): JSONContent => ({ type: 'text', text: value });
+
+const template = (content: JSONContent[]) => ({
+  title: 'Meeting {{date}}',
+  contentJson: { type: 'doc', content },
+});
+
+// The caret position and the text right after it, as the editor would see them.
+const caretIn = (contentJson: JSONContent, pos: number) => {
+  const doc = ProseMirrorNode.fromJSON(schema, contentJson);
+  const $pos = doc.resolve(pos);
+  return { parent: $pos.parent.type.name, after: doc.textBetween(pos, $pos.end()) };
+};
+
+describe('expandNoteTemplate', () => {
+  it('strips {{cursor}} but reports where it was', () => {
+    const expanded = expandNoteTemplate(template([
+      { type: 'heading', attrs: { level: 2 }, content: [text('Notes for {{date}}')] },
+      paragraph(text('Agenda: {{cursor}}then {{time}}')),
+    ]), NOW);
+
+    expect(expanded.title).toBe('Meeting 2026-10-19');
+    expect(expanded.contentJson.content?.[1]).toEqual(paragraph(text('Agenda: then 14:05')));
+    expect(expanded.cursor).toEqual({ path: [1], offset: 8 });
+
+    const pos = resolveTemplateCursor(ProseMirrorNode.fromJSON(schema, expanded.contentJson), expanded.cursor!);
+    expect(caretIn(expanded.contentJson, pos!)).toEqual({ parent: 'paragraph', after: 'then 14:05' });
+  });
+
+  it('places the caret in a paragraph that held only the placeholder', () => {
+    const expanded = expandNoteTemplate(template([
+      { type: 'heading', attrs: { level: 2 }, content: [text('Actions')] },
+      {
+        type: 'bulletList',
+        content: [
+          { type: 'listItem', content: [paragraph(text('First'))] },
+          { type: 'listItem', content: [paragraph(text('{{cursor}}'))] },
+        ],
+      },
+    ]), NOW);
+
+    expect(expanded.cursor).toEqual({ path: [1, 1, 0], offset: 0 });
+    expect(expanded.content).not.toContain('{{cursor}}');
+
+    const doc = ProseMirrorNode.fromJSON(schema, expanded.contentJson);
+    const pos = resolveTemplateCursor(doc, expanded.cursor!);
+    expect(doc.resolve(pos!).parent.type.name).toBe('paragraph');
+    expect(doc.resolve(pos!).node(2).childCount).toBe(1);
+    expect(doc.resolve(pos!).index(1)).toBe(1);
+  });
+
+  it('counts inline nodes before the placeholder', () => {
+    const expanded = expandNoteTemplate(template([
+      paragraph(text('Line'), { type: 'hardBreak' }, text('{{cursor}}next')),
+    ]), NOW);
+
+    expect(expanded.cursor).toEqual({ path: [0], offset: 5 });
+    const pos = resolveTemplateCursor(ProseMirrorNode.fromJSON(schema, expanded.contentJson), expanded.cursor!);
+    expect(caretIn(expanded.contentJson, pos!).after).toBe('next');
+  });
+
+  it('has no cursor when the template has no placeholder', () => {
+    expect(expandNoteTemplate(template([paragraph(text('Plain'))]), NOW).cursor).toBeNull();
+  });
+});
+
+describe('template cursor params', () => {
+  it('round-trips through the query string', () => {
+    const cursor = { path: [1, 1, 0], offset: 4 };
+    expect(parseTemplateCursor(formatTemplateCursor(cursor))).toEqual(cursor);
+    expect(parseTemplateCursor('1.x:4')).toBeNull();
+    expect(parseTemplateCursor(null)).toBeNull();
+  });
+
+  it('is unresolved while the doc lacks the textblock', () => {
+    const doc = ProseMirrorNode.fromJSON(schema, { type: 'doc', content: [paragraph(text('Only'))] });
+    expect(resolveTemplateCursor(doc, { path: [3], offset: 0 })).toBeNull();
+  });
+});
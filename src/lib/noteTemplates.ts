@@ -0,0 +1,128 @@
+import type { JSONContent } from '@tiptap/core';
+import { nodePlainText, noteBlocks } from '@/lib/noteContent';
+import { collectOutgoingLinks } from '@/lib/noteLinks';
+import type { NoteRecord } from '@/lib/notesRepository';
+
+export type NoteTemplate = Pick<NoteRecord, 'id' | 'title' | 'contentJson'>;
+
+// Caret spot in a note created from a template: the child-index path from the
+// doc to a textblock, plus a character offset inside that textblock.
+export type TemplateCursor = { path: number[]; offset: number };
+
+// Where the caret lands after a template is inserted or a note is created from one.
+export const TEMPLATE_CURSOR_TOKEN = '{{cursor}}';
+
+const TEMPLATE_VARIABLE_PATTERN = /\{\{\s*(date|time|weekday)\s*\}\}/gi;
+
+const pad2 = (value: number) => String(value).padStart(2, '0');
+
+export const listNoteTemplates = (records: NoteRecord[]): NoteTemplate[] => (
+  records
+    .filter((record) => record.isTemplate && !record.isDeleted)
+    .map(({ id, title, contentJson }) => ({ id, title: title.trim() || 'Untitled', contentJson }))
+    .sort((a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base' }))
+);
+
+// {{date}} -> 2026-10-19, {{time}} -> 14:05, {{weekday}} -> Monday, all in local time.
+export const expandTemplateText = (text: string, now: Date): string => (
+  text.replace(TEMPLATE_VARIABLE_PATTERN, (_, name: string) => {
+    switch (name.toLowerCase()) {
+      case 'date':
+        return `${now.getFullYear()}-${pad2(now.getMonth() + 1)}-${pad2(now.getDate())}`;
+      case 'time':
+        return `${pad2(now.getHours())}:${pad2(now.getMinutes())}`;
+      default:
+        return now.toLocaleDateString('en-US', { weekday: 'long' });
+    }
+  })
+);
+
+const stripCursorToken = (text: string): string => text.split(TEMPLATE_CURSOR_TOKEN).join('');
+
+// Expands variables in every text node. {{cursor}} is kept only when the caller
+// positions the caret itself; otherwise it is dropped.
+export const expandTemplateNode = (
+  node: JSONContent,
+  now: Date,
+  options: { keepCursor?: boolean } = {}
+): JSONContent | null => {
+  if (node.type === 'text') {
+    const expanded = expandTemplateText(node.text ?? '', now);
+    const text = options.keepCursor ? expanded : stripCursorToken(expanded);
+    // ProseMirror rejects empty text nodes.
+    return text ? { ...node, text } : null;
+  }
+
+  if (!Array.isArray(node.content)) return { ...node };
+  return {
+    ...node,
+    content: node.content.flatMap((child) => expandTemplateNode(child, now, options) ?? []),
+  };
+};
+
+// Drops every {{cursor}} placeholder and reports where the first one was.
+export const takeTemplateCursor = (
+  doc: JSONContent
+): { contentJson: JSONContent; cursor: TemplateCursor | null } => {
+  let cursor: TemplateCursor | null = null;
+
+  const visit = (node: JSONContent, path: number[]): JSONContent => {
+    if (!Array.isArray(node.content)) return node;
+
+    const content: JSONContent[] = [];
+    let offset = 0;
+    node.content.forEach((child) => {
+      if (child.type !== 'text') {
+        content.push(visit(child, [...path, content.length]));
+        // Inline leaves such as hard breaks and chips take one position.
+        offset += 1;
+        return;
+      }
+
+      const text = child.text ?? '';
+      const index = text.indexOf(TEMPLATE_CURSOR_TOKEN);
+      if (index !== -1 && !cursor) cursor = { path, offset: offset + index };
+      const stripped = stripCursorToken(text);
+      offset += stripped.length;
+      if (stripped) content.push({ ...child, text: stripped });
+    });
+    return { ...node, content };
+  };
+
+  const contentJson = visit(doc, []);
+  return { contentJson, cursor };
+};
+
+// Query value for a template cursor, e.g. `2.0:5`.
+export const formatTemplateCursor = (cursor: TemplateCursor): string => (
+  `${cursor.path.join('.')}:${cursor.offset}`
+);
+
+export const parseTemplateCursor = (value: string | null | undefined): TemplateCursor | null => {
+  const match = /^(\d+(?:\.\d+)*):(\d+)$/.exec(value ?? '');
+  if (!match) return null;
+  return { path: match[1].split('.').map(Number), offset: Number(match[2]) };
+};
+
+export const expandNoteTemplate = (
+  template: Pick<NoteTemplate, 'title' | 'contentJson'>,
+  now: Date = new Date()
+): {
+  title: string;
+  content: string;
+  contentJson: JSONContent;
+  outgoingLinks: string[];
+  cursor: TemplateCursor | null;
+} => {
+  const expanded = expandTemplateNode(template.contentJson, now, { keepCursor: true }) ?? { type: 'doc', content: [] };
+  const { contentJson, cursor } = takeTemplateCursor(expanded);
+  const title = stripCursorToken(expandTemplateText(template.title, now)).trim();
+
+  return {
+    title: title || 'Untitled',
+    content: noteBlocks(contentJson).map((block) => nodePlainText(block)).join('\n'),
+    contentJson,
+    outgoingLinks: collectOutgoingLinks(contentJson),
+    cursor,
+  };
+};
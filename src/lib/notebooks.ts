@@ -0,0 +1,67 @@
+import type { NotebookRecord } from '@/lib/notesRepository';
+
+export const NOTEBOOK_NAME_MAX_LENGTH = 60;
+
+export type NotebookTreeNode = {
+  notebook: NotebookRecord;
+  depth: number;
+  children: NotebookTreeNode[];
+};
+
+export const normalizeNotebookName = (value: string): string | null => {
+  const normalized = value.replace(/\s+/g, ' ').trim().slice(0, NOTEBOOK_NAME_MAX_LENGTH).trim();
+  return normalized || null;
+};
+
+const compareNotebooksByName = (a: NotebookRecord, b: NotebookRecord): number => (
+  a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }) || a.id.localeCompare(b.id)
+);
+
+export const buildNotebookTree = (notebooks: NotebookRecord[]): NotebookTreeNode[] => {
+  const knownIds = new Set(notebooks.map((notebook) => notebook.id));
+  const childrenByParent = new Map<string | null, NotebookRecord[]>();
+
+  notebooks.forEach((notebook) => {
+    // A notebook whose parent was deleted elsewhere shows up at the top level.
+    const parentId = notebook.parentId && knownIds.has(notebook.parentId) ? notebook.parentId : null;
+    const siblings = childrenByParent.get(parentId) ?? [];
+    siblings.push(notebook);
+    childrenByParent.set(parentId, siblings);
+  });
+
+  const visited = new Set<string>();
+  const buildLevel = (parentId: string | null, depth: number): NotebookTreeNode[] => (
+    [...(childrenByParent.get(parentId) ?? [])]
+      .sort(compareNotebooksByName)
+      .flatMap((notebook) => {
+        // Guards against parent cycles written by concurrent moves.
+        if (visited.has(notebook.id)) return [];
+        visited.add(notebook.id);
+        return [{ notebook, depth, children: buildLevel(notebook.id, depth + 1) }];
+      })
+  );
+
+  return buildLevel(null, 0);
+};
+
+export const flattenNotebookTree = (tree: NotebookTreeNode[]): NotebookTreeNode[] => (
+  tree.flatMap((node) => [node, ...flattenNotebookTree(node.children)])
+);
+
+// The notebook itself plus every notebook nested below it.
+export const collectNotebookSubtreeIds = (notebooks: NotebookRecord[], rootId: string): Set<string> => {
+  const subtree = new Set([rootId]);
+  let grew = true;
+
+  while (grew) {
+    grew = false;
+    notebooks.forEach((notebook) => {
+      if (notebook.parentId && subtree.has(notebook.parentId) && !subtree.has(notebook.id)) {
+        subtree.add(notebook.id);
+        grew = true;
+      }
+    });
+  }
+
+  return subtree;
+};
@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyLabelChanges,
+  buildLabelTree,
+  flattenLabelTree,
+  hasLabel,
+  labelsNeedChanges,
+  matchesSearchNode,
+  normalizeLabel,
+  parseSearchFilters,
+  renameLabelChanges,
+  type SearchableNote,
+} from '@/lib/notes';
+
+const NOW = new Date(2026, 2, 10, 15, 30);
+
+const localMs = (year: number, month: number, day: number) => new Date(year, month - 1, day).getTime();
+
+const parse = (query: string) => parseSearchFilters(query, NOW);
+
+const searchable = (overrides: Partial<SearchableNote> = {}): SearchableNote => ({
+  id: 'note',
+  title: 'Quarterly review',
+  content: 'Out of office until Friday. Well-known issues listed below.',
+  labels: ['work/reviews'],
+  pinned: false,
+  isDeleted: false,
+  createdAtMs: localMs(2026, 2, 15),
+  updatedAtMs: new Date(2026, 2, 8, 9).getTime(),
+  hasTasks: true,
+  hasCode: false,
+  hasDates: false,
+  ...overrides,
+});
+
+// Terms match when the note's title or body contains the word, standing in
+// for the full-text index.
+const matches = (query: string, note: SearchableNote = searchable()) => {
+  const { root } = parse(query);
+  if (!root) return true;
+  const words = `${note.title} ${note.content}`.toLowerCase();
+  return matchesSearchNode(note, root, (_, term) => words.includes(term));
+};
+
+describe('parseSearchFilters', () => {
+  it('treats an empty query as matching everything', () => {
+    expect(parse('   ')).toEqual({ root: null, terms: [], includesTrash: false });
+  });
+
+  it('ANDs words and binds OR tighter than juxtaposition', () => {
+    expect(parse('#work OR #home budget').root).toEqual({
+      type: 'and',
+      children: [
+        { type: 'or', children: [{ type: 'label', label: 'work' }, { type: 'label', label: 'home' }] },
+        { type: 'term', value: 'budget' },
+      ],
+    });
+    expect(parse('budget AND (#work OR #home)')).toEqual(parse('budget #work OR #home'));
+  });
+
+  it('negates with a leading dash or NOT', () => {
+    expect(parse('-is:pinned').root).toEqual({ type: 'not', child: { type: 'is', value: 'pinned' } });
+    expect(parse('NOT is:pinned')).toEqual(parse('-is:pinned'));
+    expect(parse('plan -(draft OR old)').root).toEqual({
+      type: 'and',
+      children: [
+        { type: 'term', value: 'plan' },
+        { type: 'not', child: { type: 'or', children: [{ type: 'term', value: 'draft' }, { type: 'term', value: 'old' }] } },
+      ],
+    });
+  });
+
+  it('keeps dashes inside and around quoted phrases straight', () => {
+    expect(parse('"well-known issues"').root).toEqual({ type: 'phrase', value: 'well-known issues' });
+    expect(parse('-"out of office"').root).toEqual({ type: 'not', child: { type: 'phrase', value: 'out of office' } });
+    // A dash inside quotes is text, not negation.
+    expect(parse('"review -draft"').root).toEqual({ type: 'phrase', value: 'review -draft' });
+    // A lone dash negates nothing.
+    expect(parse('plan - review').root).toEqual({
+      type: 'and',
+      children: [{ type: 'term', value: 'plan' }, { type: 'term', value: 'review' }],
+    });
+    expect(parse('"out of office" plan').terms).toEqual(['plan']);
+  });
+
+  it('reads operators, including quoted values', () => {
+    expect(parse('title:"quarterly review" has:tasks label:Work/Reviews is:trash').root).toEqual({
+      type: 'and',
+      children: [
+        { type: 'title', value: 'quarterly review' },
+        { type: 'has', value: 'tasks' },
+        { type: 'label', label: 'work/reviews' },
+        { type: 'is', value: 'trash' },
+      ],
+    });
+    // Unknown values fall back to text.
+    expect(parse('is:great').root).toEqual({ type: 'term', value: 'is:great' });
+  });
+
+  it('reads relative dates back from now', () => {
+    // Calendar days, so a DST change in between does not shift the time of day.
+    expect(parse('updated:7d').root).toEqual({ type: 'date', field: 'updated', fromMs: new Date(2026, 2, 3, 15, 30).getTime(), toMs: null });
+    expect(parse('created:2w').root).toMatchObject({ fromMs: new Date(2026, 1, 24, 15, 30).getTime() });
+    expect(parse('updated:1m').root).toMatchObject({ fromMs: new Date(2026, 1, 10, 15, 30).getTime() });
+  });
+
+  it('reads calendar days, months, comparisons and ranges in local time', () => {
+    expect(parse('created:2026-01-31').root).toMatchObject({ fromMs: localMs(2026, 1, 31), toMs: localMs(2026, 2, 1) });
+    expect(parse('created:2026-02').root).toMatchObject({ fromMs: localMs(2026, 2, 1), toMs: localMs(2026, 3, 1) });
+    expect(parse('created:>2026-01-31').root).toMatchObject({ fromMs: localMs(2026, 2, 1), toMs: null });
+    expect(parse('created:<=2026-01').root).toMatchObject({ fromMs: null, toMs: localMs(2026, 2, 1) });
+    expect(parse('created:2026-01-01..2026-01-31').root).toMatchObject({ fromMs: localMs(2026, 1, 1), toMs: localMs(2026, 2, 1) });
+    expect(parse('updated:..yesterday').root).toMatchObject({ fromMs: null, toMs: localMs(2026, 3, 10) });
+    expect(parse('created:2026-13').root).toEqual({ type: 'term', value: 'created:2026-13' });
+  });
+
+  it('includes Trash only when is:trash is not negated', () => {
+    expect(parse('is:trash').includesTrash).toBe(true);
+    expect(parse('budget OR is:trash').includesTrash).toBe(true);
+    expect(parse('-is:trash').includesTrash).toBe(false);
+    expect(parse('NOT -is:trash').includesTrash).toBe(true);
+  });
+
+  it('skips unbalanced parentheses and dangling operators', () => {
+    expect(parse('(budget OR').root).toEqual({ type: 'term', value: 'budget' });
+    expect(parse('budget) review').terms).toEqual(['budget', 'review']);
+  });
+});
+
+describe('matchesSearchNode', () => {
+  it('evaluates the parsed query against a note', () => {
+    expect(matches('quarterly -"out of office"')).toBe(false);
+    expect(matches('quarterly -"on leave"')).toBe(true);
+    expect(matches('#work has:tasks updated:7d')).toBe(true);
+    expect(matches('updated:1d')).toBe(false);
+    expect(matches('created:2026-01-01..2026-01-31')).toBe(false);
+    expect(matches('created:2026-02 (budget OR review)')).toBe(true);
+    expect(matches('#work/reviews/q1 OR is:pinned')).toBe(false);
+  });
+
+  it('never matches a date filter on a note without that date', () => {
+    expect(matches('created:>2000', searchable({ createdAtMs: null }))).toBe(false);
+  });
+});
+
+describe('normalizeLabel', () => {
+  it('normalizes each segment of a nested label', () => {
+    expect(normalizeLabel('#Work / Client Projects//Acme/')).toBe('work/client-projects/acme');
+    expect(normalizeLabel('a/b/c/d/e')).toBeNull();
+    expect(normalizeLabel('work/caf\u00e9')).toBeNull();
+    expect(normalizeLabel(' / ')).toBeNull();
+  });
+});
+
+describe('label rename and merge', () => {
+  const allLabels = ['work', 'work/clients', 'work/clients/acme', 'workshop', 'home'];
+
+  // What renaming `from` to `to` in the drawer does to one note's labels.
+  const rename = (labels: string[], from: string, to: string) => {
+    const changes = renameLabelChanges(allLabels, from, to);
+    return labelsNeedChanges(labels, changes) ? applyLabelChanges(labels, changes) : labels;
+  };
+
+  it('moves nested labels along with their parent', () => {
+    expect(renameLabelChanges(allLabels, 'work', 'job')).toEqual(new Map([
+      ['work', 'job'],
+      ['work/clients', 'job/clients'],
+      ['work/clients/acme', 'job/clients/acme'],
+    ]));
+    expect(rename(['work/clients/acme', 'workshop'], 'work', 'job')).toEqual(['job/clients/acme', 'workshop']);
+  });
+
+  it('merges into a label that already exists, without duplicates', () => {
+    expect(rename(['home', 'work'], 'work', 'home')).toEqual(['home']);
+    expect(rename(['work/clients', 'home/clients'], 'work', 'home')).toEqual(['home/clients']);
+  });
+
+  it('folds labels that would nest too deep into the new parent', () => {
+    expect(renameLabelChanges(allLabels, 'work', 'archive/old/2025').get('work/clients/acme')).toBe('archive/old/2025');
+    expect(rename(['work/clients/acme'], 'work', 'archive/old/2025')).toEqual(['archive/old/2025']);
+  });
+
+  it('leaves nested labels alone when a label moves under its own child', () => {
+    expect(renameLabelChanges(allLabels, 'work', 'work/clients/old')).toEqual(new Map([['work', 'work/clients/old']]));
+  });
+
+  it('drops labels mapped to null and skips notes without them', () => {
+    const changes = new Map([['home', null]]);
+    expect(applyLabelChanges(['home', 'work'], changes)).toEqual(['work']);
+    expect(labelsNeedChanges(['work/clients'], changes)).toBe(false);
+  });
+});
+
+describe('label hierarchy', () => {
+  it('matches a parent filter against nested labels only', () => {
+    expect(hasLabel(['work/clients/acme'], 'work')).toBe(true);
+    expect(hasLabel(['workshop'], 'work')).toBe(false);
+  });
+
+  it('builds a tree with implied parents, counting notes outside Trash', () => {
+    const tree = buildLabelTree([
+      { labels: ['work/clients/acme', 'work/clients'], isDeleted: false },
+      { labels: ['work/admin'], isDeleted: false },
+      { labels: ['work/admin'], isDeleted: true },
+    ]);
+
+    expect(flattenLabelTree(tree).map(({ label, name, depth, count }) => [label, name, depth, count])).toEqual([
+      ['work', 'work', 0, 2],
+      ['work/admin', 'admin', 1, 1],
+      ['work/clients', 'clients', 1, 1],
+      ['work/clients/acme', 'acme', 2, 1],
+    ]);
+  });
+});
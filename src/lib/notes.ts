@@ -1,29 +1,75 @@
-const LABEL_PATTERN = /^[a-z0-9_-]+$/;
+const LABEL_SEGMENT_PATTERN = /^[a-z0-9_-]+$/;
+
+// `/` nests labels: `work/clients/acme` sits under `work/clients`.
+export const LABEL_SEPARATOR = '/';
+export const LABEL_SEGMENT_MAX_LENGTH = 24;
+export const LABEL_MAX_DEPTH = 4;
+
+export type SearchIsValue = 'pinned' | 'unpinned' | 'trash';
+
+export type SearchHasValue = 'tasks' | 'code' | 'date';
+
+export type SearchDateField = 'created' | 'updated';
+
+// A parsed search query. Juxtaposition is AND and binds looser than OR, so
+// `#work OR #home budget` means (#work OR #home) AND budget.
+export type SearchNode =
+  | { type: 'and'; children: SearchNode[] }
+  | { type: 'or'; children: SearchNode[] }
+  | { type: 'not'; child: SearchNode }
+  // A word, matched through the full-text index (prefixes and typos count).
+  | { type: 'term'; value: string }
+  // "Quoted text", matched literally (ignoring case) in the title or body.
+  | { type: 'phrase'; value: string }
+  | { type: 'label'; label: string }
+  | { type: 'title'; value: string }
+  | { type: 'is'; value: SearchIsValue }
+  | { type: 'has'; value: SearchHasValue }
+  // [fromMs, toMs) in local time; either end may be open.
+  | { type: 'date'; field: SearchDateField; fromMs: number | null; toMs: number | null };
 
 export type SearchFilters = {
-  normalizedText: string;
-  labelFromQuery: string | null;
-  pinnedOnly: boolean;
+  // Null for an empty query, which matches every note.
+  root: SearchNode | null;
+  // Words for the full-text index; their scores rank the results.
+  terms: string[];
+  // The query asks for trashed notes (is:trash), which the notes views otherwise leave out.
+  includesTrash: boolean;
 };
 
 export type SearchableNote = {
-  title?: string | null;
-  content?: string | null;
-  labels?: string[] | null;
-  pinned?: boolean | null;
+  id: string;
+  title: string;
+  content: string;
+  labels: string[];
+  pinned: boolean;
+  isDeleted: boolean;
+  createdAtMs: number | null;
+  updatedAtMs: number | null;
+  hasTasks: boolean;
+  hasCode: boolean;
+  hasDates: boolean;
 };
 
+export const SEARCH_IS_VALUES: SearchIsValue[] = ['pinned', 'unpinned', 'trash'];
+export const SEARCH_HAS_VALUES: SearchHasValue[] = ['tasks', 'code', 'date'];
+export const SEARCH_DATE_FIELDS: SearchDateField[] = ['created', 'updated'];
+
+// Each `/`-separated segment follows the flat label rules; empty segments
+// (`work//acme`, a trailing `/`) are dropped.
 export const normalizeLabel = (value: string): string | null => {
-  const trimmed = value
+  const segments = value
     .trim()
     .toLowerCase()
     .replace(/^#+/, '')
-    .replace(/[\s/]+/g, '-')
-    .replace(/-+/g, '-');
-  if (!trimmed) return null;
-  if (trimmed.length > 24) return null;
-  if (!LABEL_PATTERN.test(trimmed)) return null;
-  return trimmed;
+    .split(LABEL_SEPARATOR)
+    .map((segment) => segment.trim().replace(/\s+/g, '-').replace(/-+/g, '-'))
+    .filter(Boolean);
+  if (segments.length === 0 || segments.length > LABEL_MAX_DEPTH) return null;
+  if (segments.some((segment) => segment.length > LABEL_SEGMENT_MAX_LENGTH || !LABEL_SEGMENT_PATTERN.test(segment))) {
+    return null;
+  }
+  return segments.join(LABEL_SEPARATOR);
 };
 
 export const normalizeLabels = (values: string[]): string[] => {
@@ -39,55 +85,413 @@ export const normalizeLabels = (values: string[]): string[] => {
   return [...deduped];
 };
 
-export const parseSearchFilters = (query: string): SearchFilters => {
-  const tokens = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
-  let pinnedOnly = false;
-  let labelFromQuery: string | null = null;
-  const textParts: string[] = [];
+// Old label -> new label, or null to drop it. Renames, merges and deletes
+// labels across notes.
+export type LabelChanges = Map<string, string | null>;
 
-  tokens.forEach((token) => {
-    if (token === 'is:pinned') {
-      pinnedOnly = true;
-      return;
-    }
+export const applyLabelChanges = (labels: string[], changes: LabelChanges): string[] => normalizeLabels(
+  labels.flatMap((label) => {
+    if (!changes.has(label)) return [label];
+    const next = changes.get(label);
+    return next ? [next] : [];
+  })
+);
+
+export const labelsNeedChanges = (labels: string[], changes: LabelChanges): boolean => (
+  labels.some((label) => changes.has(label))
+);
+
+// True when `label` is `parent` or nested anywhere below it.
+export const labelIncludes = (parent: string, label: string): boolean => (
+  label === parent || label.startsWith(`${parent}${LABEL_SEPARATOR}`)
+);
+
+// Whether a note's labels match a label filter, counting nested labels.
+export const hasLabel = (labels: string[], filter: string): boolean => (
+  labels.some((label) => labelIncludes(filter, label))
+);
+
+// `work/clients/acme` -> ['work', 'work/clients', 'work/clients/acme'].
+export const labelAncestry = (label: string): string[] => {
+  const segments = label.split(LABEL_SEPARATOR);
+  return segments.map((_, index) => segments.slice(0, index + 1).join(LABEL_SEPARATOR));
+};
+
+export const labelLeafName = (label: string): string => label.slice(label.lastIndexOf(LABEL_SEPARATOR) + 1);
+
+// Moves `from` and every label nested below it under `to`. A nested label
+// that would grow past LABEL_MAX_DEPTH is merged into `to` itself.
+export const renameLabelChanges = (labels: Iterable<string>, from: string, to: string): LabelChanges => {
+  const changes: LabelChanges = new Map([[from, to]]);
+  // Moving a label under its own child keeps the nested labels in place.
+  if (labelIncludes(from, to)) return changes;
+
+  for (const label of labels) {
+    if (label === from || !labelIncludes(from, label)) continue;
+    changes.set(label, normalizeLabel(`${to}${label.slice(from.length)}`) ?? to);
+  }
+
+  return changes;
+};
+
+// Labels on notes outside Trash with the number of notes carrying each,
+// sorted by name.
+export const collectLabelCounts = (notes: Array<{ labels: string[]; isDeleted: boolean }>): Map<string, number> => {
+  const counts = new Map<string, number>();
+
+  notes.forEach((note) => {
+    if (note.isDeleted) return;
+    normalizeLabels(note.labels).forEach((label) => {
+      counts.set(label, (counts.get(label) ?? 0) + 1);
+    });
+  });
+
+  return new Map([...counts].sort(([a], [b]) => a.localeCompare(b)));
+};
 
-    if (token.startsWith('#')) {
-      const normalized = normalizeLabel(token);
-      if (normalized) {
-        labelFromQuery = normalized;
+export const collectLabels = (notes: Array<{ labels: string[]; isDeleted: boolean }>): string[] => (
+  [...collectLabelCounts(notes).keys()]
+);
+
+export type LabelTreeNode = {
+  label: string;
+  // Last path segment, shown in the tree.
+  name: string;
+  depth: number;
+  // Notes outside Trash carrying this label or one nested below it.
+  count: number;
+  children: LabelTreeNode[];
+};
+
+// Parents appear even when no note carries them directly, so `work/acme`
+// alone still shows up under `work`.
+export const buildLabelTree = (notes: Array<{ labels: string[]; isDeleted: boolean }>): LabelTreeNode[] => {
+  const counts = new Map<string, number>();
+
+  notes.forEach((note) => {
+    if (note.isDeleted) return;
+    new Set(normalizeLabels(note.labels).flatMap(labelAncestry)).forEach((label) => {
+      counts.set(label, (counts.get(label) ?? 0) + 1);
+    });
+  });
+
+  const childrenByParent = new Map<string | null, string[]>();
+  [...counts.keys()].sort((a, b) => a.localeCompare(b)).forEach((label) => {
+    const separator = label.lastIndexOf(LABEL_SEPARATOR);
+    const parent = separator < 0 ? null : label.slice(0, separator);
+    childrenByParent.set(parent, [...(childrenByParent.get(parent) ?? []), label]);
+  });
+
+  const buildLevel = (parent: string | null, depth: number): LabelTreeNode[] => (
+    (childrenByParent.get(parent) ?? []).map((label) => ({
+      label,
+      name: labelLeafName(label),
+      depth,
+      count: counts.get(label) ?? 0,
+      children: buildLevel(label, depth + 1),
+    }))
+  );
+
+  return buildLevel(null, 0);
+};
+
+export const flattenLabelTree = (tree: LabelTreeNode[]): LabelTreeNode[] => (
+  tree.flatMap((node) => [node, ...flattenLabelTree(node.children)])
+);
+
+type QueryToken =
+  | { type: 'open' | 'close' | 'or' | 'not' }
+  // quoteStart: offset in text where a quoted part began, so `title:"a b"`
+  // stays an operator while `"a:b"` is a phrase.
+  | { type: 'atom'; text: string; quoteStart: number | null };
+
+const RELATIVE_DATE_PATTERN = /^(\d+)([dwmy])$/;
+const CALENDAR_DATE_PATTERN = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/;
+const DATE_COMPARISON_PATTERN = /^(>=|<=|>|<)(.+)$/;
+
+// Case- and accent-insensitive text for phrase and title matching.
+const foldSearchText = (text: string): string => (
+  text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().replace(/\s+/g, ' ')
+);
+
+const tokenizeQuery = (query: string): QueryToken[] => {
+  const tokens: QueryToken[] = [];
+  let index = 0;
+
+  while (index < query.length) {
+    const char = query[index];
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close' });
+      index += 1;
+    } else if (char === '-' && index + 1 < query.length && !/[\s)]/.test(query[index + 1])) {
+      tokens.push({ type: 'not' });
+      index += 1;
+    } else {
+      // An atom runs to the next space or parenthesis; quotes may span spaces.
+      let text = '';
+      let quoteStart: number | null = null;
+      while (index < query.length && !/[\s()]/.test(query[index])) {
+        if (query[index] === '"') {
+          const close = query.indexOf('"', index + 1);
+          const end = close === -1 ? query.length : close;
+          quoteStart ??= text.length;
+          text += query.slice(index + 1, end);
+          index = end + 1;
+        } else {
+          text += query[index];
+          index += 1;
+        }
       }
-      return;
+
+      if (quoteStart === null && text === 'OR') tokens.push({ type: 'or' });
+      else if (quoteStart === null && text === 'NOT') tokens.push({ type: 'not' });
+      // AND is what juxtaposition means anyway.
+      else if (quoteStart !== null || text !== 'AND') tokens.push({ type: 'atom', text, quoteStart });
     }
+  }
 
-    textParts.push(token);
-  });
+  return tokens;
+};
 
-  return {
-    normalizedText: textParts.join(' '),
-    labelFromQuery,
-    pinnedOnly,
-  };
+const startOfDay = (year: number, month: number, day: number): number => new Date(year, month, day).getTime();
+
+// A calendar day, month or year in local time, as [start, end).
+const parseDateSpan = (value: string, now: Date): { start: number; end: number } | null => {
+  if (value === 'today' || value === 'yesterday') {
+    const day = now.getDate() - (value === 'yesterday' ? 1 : 0);
+    return {
+      start: startOfDay(now.getFullYear(), now.getMonth(), day),
+      end: startOfDay(now.getFullYear(), now.getMonth(), day + 1),
+    };
+  }
+
+  const match = CALENDAR_DATE_PATTERN.exec(value);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : null;
+  const day = match[3] ? Number(match[3]) : null;
+  if (month !== null && (month < 0 || month > 11)) return null;
+  if (day !== null && (day < 1 || day > 31)) return null;
+
+  if (month === null) return { start: startOfDay(year, 0, 1), end: startOfDay(year + 1, 0, 1) };
+  if (day === null) return { start: startOfDay(year, month, 1), end: startOfDay(year, month + 1, 1) };
+  return { start: startOfDay(year, month, day), end: startOfDay(year, month, day + 1) };
 };
 
-export const matchesNoteSearch = (note: SearchableNote, filters: SearchFilters): boolean => {
-  const title = (note.title || '').toLowerCase();
-  const content = (note.content || '').toLowerCase();
-  const labels = (note.labels || []).map((label) => label.toLowerCase());
+// `7d`/`2w`/`3m`/`1y` (that long ago until now), `>2026-01-01`, `<=2026-03`,
+// `2026-01-01..2026-01-31`, or a single day, month or year.
+const parseDateRange = (value: string, now: Date): { fromMs: number | null; toMs: number | null } | null => {
+  const relative = RELATIVE_DATE_PATTERN.exec(value);
+  if (relative) {
+    const amount = Number(relative[1]);
+    const from = new Date(now);
+    if (relative[2] === 'd') from.setDate(from.getDate() - amount);
+    else if (relative[2] === 'w') from.setDate(from.getDate() - amount * 7);
+    else if (relative[2] === 'm') from.setMonth(from.getMonth() - amount);
+    else from.setFullYear(from.getFullYear() - amount);
+    return { fromMs: from.getTime(), toMs: null };
+  }
+
+  const comparison = DATE_COMPARISON_PATTERN.exec(value);
+  if (comparison) {
+    const span = parseDateSpan(comparison[2], now);
+    if (!span) return null;
+    if (comparison[1] === '>') return { fromMs: span.end, toMs: null };
+    if (comparison[1] === '>=') return { fromMs: span.start, toMs: null };
+    if (comparison[1] === '<') return { fromMs: null, toMs: span.start };
+    return { fromMs: null, toMs: span.end };
+  }
 
-  if (filters.pinnedOnly && !note.pinned) {
-    return false;
+  const bounds = value.split('..');
+  if (bounds.length === 2) {
+    const from = bounds[0] ? parseDateSpan(bounds[0], now) : null;
+    const to = bounds[1] ? parseDateSpan(bounds[1], now) : null;
+    if ((bounds[0] && !from) || (bounds[1] && !to) || (!from && !to)) return null;
+    return { fromMs: from?.start ?? null, toMs: to?.end ?? null };
   }
 
-  if (filters.labelFromQuery && !labels.includes(filters.labelFromQuery)) {
-    return false;
+  const span = parseDateSpan(value, now);
+  return span ? { fromMs: span.start, toMs: span.end } : null;
+};
+
+// Operators with a value they don't understand fall back to plain text, so
+// `is:great` still finds notes containing those words.
+const parseOperator = (key: string, value: string, now: Date): SearchNode | null => {
+  const normalized = value.trim().toLowerCase();
+  switch (key) {
+    case 'is':
+      return SEARCH_IS_VALUES.includes(normalized as SearchIsValue) ? { type: 'is', value: normalized as SearchIsValue } : null;
+    case 'has':
+      return SEARCH_HAS_VALUES.includes(normalized as SearchHasValue) ? { type: 'has', value: normalized as SearchHasValue } : null;
+    case 'title':
+      return normalized ? { type: 'title', value: foldSearchText(normalized) } : null;
+    case 'label': {
+      const label = normalizeLabel(value);
+      return label ? { type: 'label', label } : null;
+    }
+    case 'created':
+    case 'updated': {
+      const range = parseDateRange(normalized, now);
+      return range ? { type: 'date', field: key, ...range } : null;
+    }
+    default:
+      return null;
   }
+};
+
+const parseAtom = (text: string, quoteStart: number | null, now: Date): SearchNode | null => {
+  if (quoteStart === 0) {
+    const phrase = foldSearchText(text).trim();
+    return phrase ? { type: 'phrase', value: phrase } : null;
+  }
+
+  const separator = text.indexOf(':');
+  if (separator > 0 && (quoteStart === null || separator < quoteStart)) {
+    const operator = parseOperator(text.slice(0, separator).toLowerCase(), text.slice(separator + 1), now);
+    if (operator) return operator;
+  }
+
+  if (text.startsWith('#')) {
+    const label = normalizeLabel(text);
+    if (label) return { type: 'label', label };
+  }
+
+  const value = text.toLowerCase();
+  return /[\p{L}\p{N}]/u.test(value) ? { type: 'term', value } : null;
+};
+
+const combineNodes = (type: 'and' | 'or', children: SearchNode[]): SearchNode | null => {
+  const flattened = children.flatMap((child) => (child.type === type ? child.children : [child]));
+  if (flattened.length === 0) return null;
+  if (flattened.length === 1) return flattened[0];
+  return { type, children: flattened };
+};
+
+// Recursive descent over the tokens. Mistakes such as unbalanced parentheses
+// or a dangling OR are skipped rather than reported, since the query is
+// re-parsed on every keystroke.
+const parseQueryTokens = (tokens: QueryToken[], now: Date): SearchNode | null => {
+  let position = 0;
+
+  const parseUnary = (): SearchNode | null => {
+    const token = tokens[position];
+    if (!token) return null;
 
-  if (!filters.normalizedText) {
-    return true;
+    if (token.type === 'not') {
+      position += 1;
+      const child = parseUnary();
+      return child ? { type: 'not', child } : null;
+    }
+    if (token.type === 'open') {
+      position += 1;
+      const inner = parseAnd();
+      if (tokens[position]?.type === 'close') position += 1;
+      return inner;
+    }
+    if (token.type === 'atom') {
+      position += 1;
+      return parseAtom(token.text, token.quoteStart, now);
+    }
+    return null;
+  };
+
+  const parseOr = (): SearchNode | null => {
+    const children: SearchNode[] = [];
+    const first = parseUnary();
+    if (first) children.push(first);
+    while (tokens[position]?.type === 'or') {
+      position += 1;
+      const next = parseUnary();
+      if (next) children.push(next);
+    }
+    return combineNodes('or', children);
+  };
+
+  const parseAnd = (): SearchNode | null => {
+    const children: SearchNode[] = [];
+    while (position < tokens.length && tokens[position].type !== 'close') {
+      if (tokens[position].type === 'or') {
+        position += 1;
+        continue;
+      }
+      const child = parseOr();
+      if (child) children.push(child);
+    }
+    return combineNodes('and', children);
+  };
+
+  const children: SearchNode[] = [];
+  while (position < tokens.length) {
+    const node = parseAnd();
+    if (node) children.push(node);
+    // A stray closing parenthesis.
+    if (tokens[position]?.type === 'close') position += 1;
   }
+  return combineNodes('and', children);
+};
+
+const collectSearchTerms = (node: SearchNode | null, terms: Set<string> = new Set()): Set<string> => {
+  if (!node) return terms;
+  if (node.type === 'term') terms.add(node.value);
+  if (node.type === 'and' || node.type === 'or') node.children.forEach((child) => collectSearchTerms(child, terms));
+  if (node.type === 'not') collectSearchTerms(node.child, terms);
+  return terms;
+};
 
-  const haystack = `${title}\n${content}\n${labels.join(' ')}`;
-  return haystack.includes(filters.normalizedText);
+const mentionsTrash = (node: SearchNode | null, negated = false): boolean => {
+  if (!node) return false;
+  if (node.type === 'is') return node.value === 'trash' && !negated;
+  if (node.type === 'not') return mentionsTrash(node.child, !negated);
+  if (node.type === 'and' || node.type === 'or') return node.children.some((child) => mentionsTrash(child, negated));
+  return false;
+};
+
+export const parseSearchFilters = (query: string, now: Date = new Date()): SearchFilters => {
+  const root = parseQueryTokens(tokenizeQuery(query), now);
+  return {
+    root,
+    terms: [...collectSearchTerms(root)],
+    includesTrash: mentionsTrash(root),
+  };
+};
+
+// `matchesTerm` answers for words, which go through the full-text index.
+export const matchesSearchNode = (
+  note: SearchableNote,
+  node: SearchNode,
+  matchesTerm: (noteId: string, term: string) => boolean
+): boolean => {
+  switch (node.type) {
+    case 'and':
+      return node.children.every((child) => matchesSearchNode(note, child, matchesTerm));
+    case 'or':
+      return node.children.some((child) => matchesSearchNode(note, child, matchesTerm));
+    case 'not':
+      return !matchesSearchNode(note, node.child, matchesTerm);
+    case 'term':
+      return matchesTerm(note.id, node.value);
+    case 'phrase':
+      return foldSearchText(`${note.title}\n${note.content}`).includes(node.value);
+    case 'label':
+      return hasLabel(note.labels, node.label);
+    case 'title':
+      return foldSearchText(note.title).includes(node.value);
+    case 'is':
+      if (node.value === 'trash') return note.isDeleted;
+      return node.value === 'pinned' ? note.pinned : !note.pinned;
+    case 'has':
+      if (node.value === 'tasks') return note.hasTasks;
+      return node.value === 'code' ? note.hasCode : note.hasDates;
+    case 'date': {
+      const ms = node.field === 'created' ? note.createdAtMs : note.updatedAtMs;
+      if (ms === null) return false;
+      return (node.fromMs === null || ms >= node.fromMs) && (node.toMs === null || ms < node.toMs);
+    }
+    default:
+      return true;
+  }
 };
 
 export const notePreview = (content: string | null | undefined): string => {
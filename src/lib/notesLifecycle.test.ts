@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createEmptyNoteRecord, setNotesRepositoryOverride, type NoteRecord, type NotesRepository } from '@/lib/notesRepository';
+import { createMemoryNotesRepository } from '@/lib/notesRepositoryMemory';
+import { ensureJournalNote, ensureUserHasNote } from '@/lib/notesLifecycle';
+import { getLatestUserNoteId } from '@/lib/notesQuery';
+
+// The Firestore backend is never used here; skip initializing Firebase.
+vi.mock('@/lib/firebase', () => ({ auth: {}, db: {}, storage: {} }));
+
+const USER = 'user-a';
+const OTHER_USER = 'user-b';
+
+const note = (id: string, updatedAtMs: number, overrides: Partial<NoteRecord> = {}): NoteRecord => ({
+  ...createEmptyNoteRecord(id, USER, updatedAtMs),
+  ...overrides,
+});
+
+let repository: NotesRepository;
+
+const useNotes = (seed: NoteRecord[]) => {
+  repository = createMemoryNotesRepository(seed);
+  setNotesRepositoryOverride(repository);
+};
+
+beforeEach(() => {
+  useNotes([]);
+});
+
+afterEach(() => {
+  setNotesRepositoryOverride(null);
+});
+
+describe('ensureUserHasNote', () => {
+  it('creates a note when the user has none', async () => {
+    const result = await ensureUserHasNote(USER);
+
+    expect(result.created).toBe(true);
+    const notes = await repository.listNotes(USER);
+    expect(notes.map((record) => record.id)).toEqual([result.noteId]);
+  });
+
+  it('opens the most recently updated note', async () => {
+    useNotes([note('older', 1_000), note('newer', 2_000)]);
+
+    await expect(ensureUserHasNote(USER)).resolves.toEqual({ noteId: 'newer', created: false });
+  });
+
+  it("ignores other users' notes", async () => {
+    useNotes([note('theirs', 2_000, { ownerUid: OTHER_USER })]);
+
+    const result = await ensureUserHasNote(USER);
+
+    expect(result.created).toBe(true);
+    expect(result.noteId).not.toBe('theirs');
+  });
+
+  it('prefers an accessible preferred note and skips the excluded one', async () => {
+    useNotes([note('older', 1_000), note('newer', 2_000)]);
+
+    await expect(ensureUserHasNote(USER, { preferredNoteId: 'older' })).resolves.toEqual({ noteId: 'older', created: false });
+    await expect(ensureUserHasNote(USER, { excludeNoteId: 'newer' })).resolves.toEqual({ noteId: 'older', created: false });
+  });
+
+  it('creates only one note for concurrent calls', async () => {
+    const [first, second] = await Promise.all([ensureUserHasNote(USER), ensureUserHasNote(USER)]);
+
+    expect(second).toEqual(first);
+    expect(await repository.listNotes(USER)).toHaveLength(1);
+  });
+});
+
+describe('trash flows', () => {
+  it('skips notes in Trash and brings restored notes back', async () => {
+    useNotes([note('older', 1_000), note('newer', 2_000)]);
+
+    await repository.softDeleteNote('newer');
+    expect(await getLatestUserNoteId(USER)).toBe('older');
+    await expect(ensureUserHasNote(USER, { preferredNoteId: 'newer' })).resolves.toEqual({ noteId: 'older', created: false });
+
+    await repository.restoreNote('newer');
+    const restored = await repository.getNote('newer');
+    expect(restored?.isDeleted).toBe(false);
+    expect(restored?.deletedAtMs).toBeNull();
+    expect(await getLatestUserNoteId(USER)).toBe('newer');
+  });
+
+  it('creates a fresh note once every note is in Trash', async () => {
+    useNotes([note('only', 1_000)]);
+
+    await repository.softDeleteNote('only');
+    const result = await ensureUserHasNote(USER);
+
+    expect(result.created).toBe(true);
+    expect(result.noteId).not.toBe('only');
+  });
+
+  it('purges notes for good', async () => {
+    useNotes([note('trashed', 1_000, { isDeleted: true, deletedAtMs: 1_000 }), note('kept', 2_000)]);
+
+    await repository.purgeNotes(['trashed']);
+
+    expect(await repository.getNote('trashed')).toBeNull();
+    expect((await repository.listNotes(USER)).map((record) => record.id)).toEqual(['kept']);
+  });
+});
+
+describe('ensureJournalNote', () => {
+  it('creates the day once and reuses it afterwards', async () => {
+    const [first, second] = await Promise.all([
+      ensureJournalNote(USER, '2026-03-14'),
+      ensureJournalNote(USER, '2026-03-14'),
+    ]);
+
+    expect(first.created).toBe(true);
+    expect(second).toEqual(first);
+    await expect(ensureJournalNote(USER, '2026-03-14')).resolves.toEqual({ noteId: first.noteId, created: false });
+
+    const journal = await repository.getNote(first.noteId);
+    expect(journal?.journalDate).toBe('2026-03-14');
+    expect(journal?.labels).toEqual(['journal']);
+  });
+});
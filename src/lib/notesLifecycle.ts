@@ -1,7 +1,8 @@
-import { addDoc, getDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
-import { appNoteDoc, appNotesCollection } from '@/lib/firestorePaths';
-import { getLatestUserNoteId } from '@/lib/notesQuery';
+import { formatJournalTitle, JOURNAL_LABEL, parseJournalDate } from '@/lib/journal';
+import { getNotesRepository, type NoteUpdate } from '@/lib/notesRepository';
+import { createEmptyNoteContent } from '@/lib/noteContent';
+import { expandNoteTemplate, type NoteTemplate, type TemplateCursor } from '@/lib/noteTemplates';
+import { findJournalNoteId, getLatestUserNoteId } from '@/lib/notesQuery';
 
 export type EnsureUserNoteResult = {
   noteId: string;
@@ -9,34 +10,44 @@ export type EnsureUserNoteResult = {
 };
 
 const ensureInFlight = new Map<string, Promise<EnsureUserNoteResult>>();
+const journalInFlight = new Map<string, Promise<EnsureUserNoteResult>>();
 
 async function isUserAccessibleNoteId(userId: string, noteId: string): Promise<boolean> {
   try {
-    const snapshot = await getDoc(appNoteDoc(db, noteId));
-    if (!snapshot.exists()) return false;
-    const data = snapshot.data();
-    return data.ownerUid === userId && data.isDeleted !== true;
+    const note = await getNotesRepository().getNote(noteId);
+    if (!note) return false;
+    return note.ownerUid === userId && !note.isDeleted;
   } catch {
     return false;
   }
 }
 
-export async function createEmptyNoteForUser(userId: string): Promise<string> {
-  const timestamp = serverTimestamp();
-  const created = await addDoc(appNotesCollection(db), {
-    ownerUid: userId,
-    title: 'Untitled',
-    content: '',
-    contentJson: { type: 'doc', content: [] },
-    labels: [],
-    pinned: false,
-    isDeleted: false,
-    deletedAt: null,
-    createdAt: timestamp,
-    updatedAt: timestamp,
-  });
-
-  return created.id;
+export type CreatedTemplateNote = {
+  noteId: string;
+  cursor: TemplateCursor | null;
+};
+
+export async function createEmptyNoteForUser(
+  userId: string,
+  options: { notebookId?: string | null } = {}
+): Promise<string> {
+  const initial: NoteUpdate = {};
+  if (options.notebookId) initial.notebookId = options.notebookId;
+  return getNotesRepository().createNote(userId, initial);
+}
+
+// Also returns where the template's {{cursor}} ended up, so the editor can
+// put the caret there.
+export async function createNoteFromTemplate(
+  userId: string,
+  template: NoteTemplate,
+  options: { notebookId?: string | null } = {}
+): Promise<CreatedTemplateNote> {
+  const { cursor, ...expanded } = expandNoteTemplate(template);
+  const initial: NoteUpdate = expanded;
+  if (options.notebookId) initial.notebookId = options.notebookId;
+  const noteId = await getNotesRepository().createNote(userId, initial);
+  return { noteId, cursor };
 }
 
 export async function ensureUserHasNote(
@@ -79,3 +90,63 @@ export async function ensureUserHasNote(
     }
   }
 }
+
+async function resolveJournalTemplate(templateId: string | null | undefined): Promise<NoteTemplate | null> {
+  if (!templateId) return null;
+
+  try {
+    const template = await getNotesRepository().getNote(templateId);
+    return template?.isTemplate && !template.isDeleted ? template : null;
+  } catch (error) {
+    console.warn('Failed to load journal template:', error);
+    return null;
+  }
+}
+
+function buildJournalNote(journalDate: string, template: NoteTemplate | null): NoteUpdate {
+  // Placeholders see the journal's day at the current time of day.
+  const now = new Date();
+  const day = parseJournalDate(journalDate) ?? now;
+  day.setHours(now.getHours(), now.getMinutes(), now.getSeconds());
+  const expanded = template ? expandNoteTemplate(template, day) : null;
+
+  return {
+    title: formatJournalTitle(journalDate),
+    content: expanded?.content ?? '',
+    contentJson: expanded?.contentJson ?? createEmptyNoteContent(),
+    outgoingLinks: expanded?.outgoingLinks ?? [],
+    labels: [JOURNAL_LABEL],
+    journalDate,
+  };
+}
+
+export async function ensureJournalNote(
+  userId: string,
+  journalDate: string,
+  options: { templateId?: string | null } = {}
+): Promise<EnsureUserNoteResult> {
+  const inFlightKey = `${userId}:${journalDate}`;
+  const existingInFlight = journalInFlight.get(inFlightKey);
+  if (existingInFlight) return existingInFlight;
+
+  const ensurePromise = (async () => {
+    const existingNoteId = await findJournalNoteId(userId, journalDate);
+    if (existingNoteId) {
+      return { noteId: existingNoteId, created: false };
+    }
+
+    const template = await resolveJournalTemplate(options.templateId);
+    const createdNoteId = await getNotesRepository().createNote(userId, buildJournalNote(journalDate, template));
+    return { noteId: createdNoteId, created: true };
+  })();
+
+  journalInFlight.set(inFlightKey, ensurePromise);
+
+  try {
+    return await ensurePromise;
+  } finally {
+    if (journalInFlight.get(inFlightKey) === ensurePromise) {
+      journalInFlight.delete(inFlightKey);
+    }
+  }
+}
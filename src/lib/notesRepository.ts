@@ -0,0 +1,254 @@
+import type { JSONContent } from '@tiptap/core';
+import type { LabelColor, LabelColors } from '@/lib/labelColors';
+import type { ReminderState, ReminderStates } from '@/lib/reminders';
+import type { LabelChanges } from '@/lib/notes';
+import { createFirestoreNotesRepository } from '@/lib/notesRepositoryFirestore';
+import { createIndexedDbNotesRepository } from '@/lib/notesRepositoryIndexedDb';
+
+export type NotesRepositoryKind = 'firestore' | 'indexeddb' | 'memory';
+
+// Where notes live: synced through Firestore, or a local-only vault kept in
+// this browser's IndexedDB.
+export type NotesStorageMode = 'cloud' | 'local';
+
+export type NoteRole = 'viewer' | 'editor';
+
+export type NoteCollaborator = {
+  role: NoteRole;
+  // Shown in the share dialog; captured from the user directory at invite time.
+  email: string;
+};
+
+export type NoteRecord = {
+  id: string;
+  ownerUid: string;
+  title: string;
+  content: string;
+  contentJson: JSONContent;
+  labels: string[];
+  pinned: boolean;
+  // Null when the note is not filed in any notebook.
+  notebookId: string | null;
+  // Template notes are offered when creating a note and by the /template command.
+  isTemplate: boolean;
+  // Local calendar day (YYYY-MM-DD) for daily journal entries, null otherwise.
+  journalDate: string | null;
+  // Ids of notes this note links to via [[links]]; rewritten on every content save.
+  outgoingLinks: string[];
+  // Keyed by collaborator uid. Only the owner may change roles.
+  collaborators: Record<string, NoteCollaborator>;
+  // Slug of the public /p/<slug> snapshot, or null when the note is not published.
+  publishedSlug: string | null;
+  // Refresh the public snapshot whenever the note is saved.
+  autoRepublish: boolean;
+  isDeleted: boolean;
+  deletedAtMs: number | null;
+  createdAtMs: number | null;
+  updatedAtMs: number | null;
+};
+
+export type NoteUpdate = Partial<Pick<NoteRecord, 'title' | 'content' | 'contentJson' | 'labels' | 'pinned' | 'notebookId' | 'isTemplate' | 'journalDate' | 'outgoingLinks'>>;
+
+// A note restored from a backup. It keeps its original id so restoring the
+// same backup twice does not duplicate anything.
+export type NoteImport = Pick<
+  NoteRecord,
+  | 'id'
+  | 'title'
+  | 'content'
+  | 'contentJson'
+  | 'labels'
+  | 'pinned'
+  | 'notebookId'
+  | 'isTemplate'
+  | 'journalDate'
+  | 'outgoingLinks'
+  | 'isDeleted'
+  | 'deletedAtMs'
+  | 'createdAtMs'
+  | 'updatedAtMs'
+>;
+
+export type NotebookRecord = {
+  id: string;
+  ownerUid: string;
+  name: string;
+  // Null for top-level notebooks.
+  parentId: string | null;
+  createdAtMs: number | null;
+  updatedAtMs: number | null;
+};
+
+export type NotebookUpdate = Partial<Pick<NotebookRecord, 'name' | 'parentId'>>;
+
+// The drawer tab a saved search opens.
+export type SavedSearchView = 'all' | 'pinned' | 'shared';
+
+// A named drawer search ("smart folder"): query text, label filter and tab.
+export type SavedSearchRecord = {
+  id: string;
+  ownerUid: string;
+  name: string;
+  query: string;
+  label: string | null;
+  view: SavedSearchView;
+  // Sidebar order, ascending.
+  position: number;
+  createdAtMs: number | null;
+  updatedAtMs: number | null;
+};
+
+export type SavedSearchUpdate = Partial<Pick<SavedSearchRecord, 'name' | 'query' | 'label' | 'view' | 'position'>>;
+
+// Per-user preferences that follow the account across devices.
+export type UserSettings = {
+  labelColors: LabelColors;
+  reminderStates: ReminderStates;
+};
+
+export type NoteSnapshotMeta = {
+  // True when the data came from a local cache that may lag behind the server.
+  fromCache: boolean;
+};
+
+export type Unsubscribe = () => void;
+
+export interface NotesRepository {
+  readonly kind: NotesRepositoryKind;
+  createNote(ownerUid: string, initial?: NoteUpdate): Promise<string>;
+  getNote(noteId: string): Promise<NoteRecord | null>;
+  // All of the owner's notes (including Trash), most recently updated first.
+  listNotes(ownerUid: string): Promise<NoteRecord[]>;
+  updateNote(noteId: string, update: NoteUpdate): Promise<void>;
+  softDeleteNote(noteId: string): Promise<void>;
+  restoreNote(noteId: string): Promise<void>;
+  // Removes notes for good, including anything stored alongside them.
+  purgeNotes(noteIds: string[]): Promise<void>;
+  // Recreates notes under their original ids, skipping ids the owner already
+  // has. Ids that belong to someone else get fresh ones, with links between
+  // the imported notes following along. Resolves to the ids that were written.
+  importNotes(ownerUid: string, notes: NoteImport[]): Promise<string[]>;
+  // Rewrites the labels of every note the owner has, Trash included, without
+  // touching updatedAt. Resolves to the number of notes changed.
+  relabelNotes(ownerUid: string, changes: LabelChanges): Promise<number>;
+  // Grants, changes or (with null) revokes one user's access to a note.
+  setNoteCollaborator(noteId: string, uid: string, collaborator: NoteCollaborator | null): Promise<void>;
+  subscribeNotes(
+    ownerUid: string,
+    onChange: (notes: NoteRecord[]) => void,
+    onError?: (error: unknown) => void
+  ): Unsubscribe;
+  // Notes other users have shared with this user, in any role.
+  subscribeSharedNotes(
+    uid: string,
+    onChange: (notes: NoteRecord[]) => void,
+    onError?: (error: unknown) => void
+  ): Unsubscribe;
+  subscribeNote(
+    noteId: string,
+    onChange: (note: NoteRecord | null, meta: NoteSnapshotMeta) => void,
+    onError?: (error: unknown) => void
+  ): Unsubscribe;
+  createNotebook(ownerUid: string, initial: Pick<NotebookRecord, 'name' | 'parentId'>): Promise<string>;
+  updateNotebook(notebookId: string, update: NotebookUpdate): Promise<void>;
+  // Deletes the notebook only; its notes and sub-notebooks move up to its parent.
+  deleteNotebook(ownerUid: string, notebookId: string): Promise<void>;
+  subscribeNotebooks(
+    ownerUid: string,
+    onChange: (notebooks: NotebookRecord[]) => void,
+    onError?: (error: unknown) => void
+  ): Unsubscribe;
+  subscribeUserSettings(
+    ownerUid: string,
+    onChange: (settings: UserSettings) => void,
+    onError?: (error: unknown) => void
+  ): Unsubscribe;
+  // Sets label colors; null clears a label's color.
+  updateLabelColors(ownerUid: string, colors: Record<string, LabelColor | null>): Promise<void>;
+  // Sets reminder snooze/dismiss state; null forgets a reminder's state.
+  updateReminderStates(ownerUid: string, states: Record<string, ReminderState | null>): Promise<void>;
+  createSavedSearch(
+    ownerUid: string,
+    initial: Pick<SavedSearchRecord, 'name' | 'query' | 'label' | 'view' | 'position'>
+  ): Promise<string>;
+  updateSavedSearch(savedSearchId: string, update: SavedSearchUpdate): Promise<void>;
+  deleteSavedSearch(savedSearchId: string): Promise<void>;
+  subscribeSavedSearches(
+    ownerUid: string,
+    onChange: (savedSearches: SavedSearchRecord[]) => void,
+    onError?: (error: unknown) => void
+  ): Unsubscribe;
+}
+
+export const NOTES_STORAGE_MODE_KEY = 'tulis:storage-mode';
+
+export function createEmptyNoteRecord(id: string, ownerUid: string, nowMs: number | null): NoteRecord {
+  return {
+    id,
+    ownerUid,
+    title: 'Untitled',
+    content: '',
+    contentJson: { type: 'doc', content: [] },
+    labels: [],
+    pinned: false,
+    notebookId: null,
+    isTemplate: false,
+    journalDate: null,
+    outgoingLinks: [],
+    collaborators: {},
+    publishedSlug: null,
+    autoRepublish: false,
+    isDeleted: false,
+    deletedAtMs: null,
+    createdAtMs: nowMs,
+    updatedAtMs: nowMs,
+  };
+}
+
+export function compareNotesByUpdatedAtDesc(a: NoteRecord, b: NoteRecord): number {
+  return (b.updatedAtMs ?? 0) - (a.updatedAtMs ?? 0);
+}
+
+export function repositoryErrorCode(error: unknown): string {
+  return typeof error === 'object' && error && 'code' in error
+    ? String((error as { code?: string }).code ?? '')
+    : '';
+}
+
+export function getNotesStorageMode(): NotesStorageMode {
+  if (typeof window === 'undefined') return 'cloud';
+
+  try {
+    return window.localStorage.getItem(NOTES_STORAGE_MODE_KEY) === 'local' ? 'local' : 'cloud';
+  } catch {
+    return 'cloud';
+  }
+}
+
+export function setNotesStorageMode(mode: NotesStorageMode): void {
+  try {
+    window.localStorage.setItem(NOTES_STORAGE_MODE_KEY, mode);
+  } catch {
+    // Ignore localStorage write failures.
+  }
+  activeRepository = null;
+}
+
+let activeRepository: NotesRepository | null = null;
+let overrideRepository: NotesRepository | null = null;
+
+export function getNotesRepository(): NotesRepository {
+  if (overrideRepository) return overrideRepository;
+  if (!activeRepository) {
+    activeRepository = getNotesStorageMode() === 'local'
+      ? createIndexedDbNotesRepository()
+      : createFirestoreNotesRepository();
+  }
+  return activeRepository;
+}
+
+// Swaps the repository used by the app, e.g. an in-memory one to exercise
+// lifecycle flows without Firebase. Pass null to restore the default.
+export function setNotesRepositoryOverride(repository: NotesRepository | null): void {
+  overrideRepository = repository;
+}
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NoteImport } from '@/lib/notesRepository';
+import { getPublishedNote } from '@/lib/notePublishing';
+import { createFirestoreNotesRepository } from '@/lib/notesRepositoryFirestore';
+import { fakeFirestore } from '@/lib/testing/fakeFirestore';
+
+vi.mock('@/lib/firebase', () => ({ auth: {}, db: {}, storage: {} }));
+vi.mock('firebase/firestore', () => import('@/lib/testing/fakeFirestore'));
+
+const USER = 'user-a';
+const OTHER_USER = 'user-b';
+const NOTES_PREFIX = 'tulis/data/notes/';
+const PUBLISHED_PREFIX = 'tulis/data/publishedNotes/';
+
+const notePath = (noteId: string) => `${NOTES_PREFIX}${noteId}`;
+const publishedPath = (slug: string) => `${PUBLISHED_PREFIX}${slug}`;
+
+const backupNote = (id: string, overrides: Partial<NoteImport> = {}): NoteImport => ({
+  id,
+  title: id,
+  content: '',
+  contentJson: { type: 'doc', content: [] },
+  labels: [],
+  pinned: false,
+  notebookId: null,
+  isTemplate: false,
+  journalDate: null,
+  outgoingLinks: [],
+  isDeleted: false,
+  deletedAtMs: null,
+  createdAtMs: 1_000,
+  updatedAtMs: 1_000,
+  ...overrides,
+});
+
+const repository = createFirestoreNotesRepository();
+
+const ownedNoteIds = async (ownerUid: string) => (await repository.listNotes(ownerUid)).map((note) => note.id).sort();
+
+// The note rules from firestore.rules, signed in as USER: an unused id may be
+// fetched, another user's unshared note may not, and only owners write notes.
+// Only the owner may delete a published snapshot, and only one that exists.
+beforeEach(() => {
+  fakeFirestore.reset();
+  fakeFirestore.canRead = (path, data) => (
+    !path.startsWith(NOTES_PREFIX) || data === undefined || data.ownerUid === USER
+  );
+  fakeFirestore.canWrite = (path, before, after) => {
+    if (path.startsWith(PUBLISHED_PREFIX) && after === undefined) return before?.ownerUid === USER;
+    return !path.startsWith(NOTES_PREFIX)
+      || ((before === undefined || before.ownerUid === USER) && (after === undefined || after.ownerUid === USER));
+  };
+});
+
+describe('importNotes', () => {
+  it('restores deleted notes under their original ids and skips them the second time', async () => {
+    await repository.importNotes(USER, [backupNote('kept'), backupNote('purged')]);
+    // Purged for good since the backup was taken.
+    fakeFirestore.documents.delete(notePath('purged'));
+
+    const backup = [backupNote('kept'), backupNote('purged')];
+    await expect(repository.importNotes(USER, backup)).resolves.toEqual(['purged']);
+    await expect(repository.importNotes(USER, backup)).resolves.toEqual([]);
+    expect(await ownedNoteIds(USER)).toEqual(['kept', 'purged']);
+  });
+
+  it('moves ids owned by another account to fresh ones instead of failing the batch', async () => {
+    fakeFirestore.documents.set(notePath('theirs'), { ownerUid: OTHER_USER, title: 'Private' });
+
+    const written = await repository.importNotes(USER, [
+      backupNote('theirs'),
+      backupNote('linking', { outgoingLinks: ['theirs'] }),
+    ]);
+
+    const [movedId] = written;
+    expect(written).toHaveLength(2);
+    expect(movedId).not.toBe('theirs');
+    expect(fakeFirestore.documents.get(notePath('theirs'))?.title).toBe('Private');
+    expect(fakeFirestore.documents.get(notePath('linking'))?.outgoingLinks).toEqual([movedId]);
+    expect(await ownedNoteIds(USER)).toEqual([movedId, 'linking'].sort());
+  });
+});
+
+describe('softDeleteNote', () => {
+  it('takes the public page down when a published note is trashed', async () => {
+    fakeFirestore.documents.set(notePath('plan'), { ownerUid: USER, title: 'Plan', publishedSlug: 'plan-abc' });
+    fakeFirestore.documents.set(publishedPath('plan-abc'), { noteId: 'plan', ownerUid: USER, title: 'Plan' });
+
+    await repository.softDeleteNote('plan');
+
+    expect(fakeFirestore.documents.has(publishedPath('plan-abc'))).toBe(false);
+    await expect(getPublishedNote('plan-abc')).resolves.toBeNull();
+    expect(await repository.getNote('plan')).toMatchObject({ isDeleted: true, publishedSlug: null });
+
+    await repository.restoreNote('plan');
+    expect(await repository.getNote('plan')).toMatchObject({ isDeleted: false, publishedSlug: null });
+  });
+
+  it('still trashes a note whose public page is already gone', async () => {
+    fakeFirestore.documents.set(notePath('stale'), { ownerUid: USER, title: 'Stale', publishedSlug: 'stale-abc' });
+
+    await repository.softDeleteNote('stale');
+
+    expect(await repository.getNote('stale')).toMatchObject({ isDeleted: true, publishedSlug: null });
+  });
+});
@@ -0,0 +1,487 @@
+import {
+  deleteDoc,
+  deleteField,
+  doc,
+  DocumentData,
+  DocumentSnapshot,
+  getDoc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  Timestamp,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import {
+  appNotebookDoc,
+  appNotebooksCollection,
+  appNoteDoc,
+  appNotesCollection,
+  appPublishedNoteDoc,
+  appSavedSearchDoc,
+  appSavedSearchesCollection,
+  appUserSettingsDoc,
+} from '@/lib/firestorePaths';
+import { toLabelColors } from '@/lib/labelColors';
+import { toReminderStates } from '@/lib/reminders';
+import { deleteNoteAttachments } from '@/lib/noteAttachments';
+import { deleteNoteCollabData } from '@/lib/noteCollab';
+import { reassignNoteIds } from '@/lib/noteLinks';
+import { toNoteContent } from '@/lib/noteContent';
+import { deleteNotePublication } from '@/lib/notePublishing';
+import { deleteNoteRevisions } from '@/lib/noteRevisions';
+import { applyLabelChanges, labelsNeedChanges, normalizeLabels } from '@/lib/notes';
+import {
+  compareNotesByUpdatedAtDesc,
+  type NotebookRecord,
+  type NoteCollaborator,
+  type NoteRecord,
+  type NotesRepository,
+  type NoteUpdate,
+  type SavedSearchRecord,
+} from '@/lib/notesRepository';
+
+const BATCH_LIMIT = 500;
+
+const timestampMillis = (value: unknown): number | null => (
+  value instanceof Timestamp ? value.toMillis() : null
+);
+
+const optionalId = (value: unknown): string | null => (
+  typeof value === 'string' && value ? value : null
+);
+
+function toCollaborators(value: unknown): Record<string, NoteCollaborator> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const collaborators: Record<string, NoteCollaborator> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([uid, entry]) => {
+    if (!entry || typeof entry !== 'object') return;
+    const { role, email } = entry as { role?: unknown; email?: unknown };
+    if (role !== 'viewer' && role !== 'editor') return;
+    collaborators[uid] = { role, email: typeof email === 'string' ? email : '' };
+  });
+  return collaborators;
+}
+
+function toNoteRecord(snapshot: DocumentSnapshot<DocumentData>): NoteRecord | null {
+  // Pending server timestamps resolve to a local estimate so freshly written
+  // notes sort correctly before the server acknowledges them.
+  const data = snapshot.data({ serverTimestamps: 'estimate' });
+  if (!data) return null;
+
+  return {
+    id: snapshot.id,
+    ownerUid: typeof data.ownerUid === 'string' ? data.ownerUid : '',
+    title: typeof data.title === 'string' ? data.title : '',
+    content: typeof data.content === 'string' ? data.content : '',
+    contentJson: toNoteContent(data.contentJson),
+    labels: Array.isArray(data.labels)
+      ? normalizeLabels(data.labels.filter((value): value is string => typeof value === 'string'))
+      : [],
+    pinned: Boolean(data.pinned),
+    notebookId: optionalId(data.notebookId),
+    isTemplate: data.isTemplate === true,
+    journalDate: optionalId(data.journalDate),
+    outgoingLinks: Array.isArray(data.outgoingLinks)
+      ? data.outgoingLinks.filter((value): value is string => typeof value === 'string')
+      : [],
+    collaborators: toCollaborators(data.collaborators),
+    publishedSlug: optionalId(data.publishedSlug),
+    autoRepublish: data.autoRepublish === true,
+    isDeleted: data.isDeleted === true,
+    deletedAtMs: timestampMillis(data.deletedAt),
+    createdAtMs: timestampMillis(data.createdAt),
+    updatedAtMs: timestampMillis(data.updatedAt),
+  };
+}
+
+function toNotebookRecord(snapshot: DocumentSnapshot<DocumentData>): NotebookRecord | null {
+  const data = snapshot.data({ serverTimestamps: 'estimate' });
+  if (!data) return null;
+
+  return {
+    id: snapshot.id,
+    ownerUid: typeof data.ownerUid === 'string' ? data.ownerUid : '',
+    name: typeof data.name === 'string' ? data.name : '',
+    parentId: optionalId(data.parentId),
+    createdAtMs: timestampMillis(data.createdAt),
+    updatedAtMs: timestampMillis(data.updatedAt),
+  };
+}
+
+function toSavedSearchRecord(snapshot: DocumentSnapshot<DocumentData>): SavedSearchRecord | null {
+  const data = snapshot.data({ serverTimestamps: 'estimate' });
+  if (!data) return null;
+
+  return {
+    id: snapshot.id,
+    ownerUid: typeof data.ownerUid === 'string' ? data.ownerUid : '',
+    name: typeof data.name === 'string' ? data.name : '',
+    query: typeof data.query === 'string' ? data.query : '',
+    label: optionalId(data.label),
+    view: data.view === 'pinned' || data.view === 'shared' ? data.view : 'all',
+    position: typeof data.position === 'number' ? data.position : 0,
+    createdAtMs: timestampMillis(data.createdAt),
+    updatedAtMs: timestampMillis(data.updatedAt),
+  };
+}
+
+// Offline, a write waits in the persistent cache until reconnect and the
+// document already reads from there, so don't block the caller on the server ack.
+async function commitCreate(write: Promise<void>, description: string): Promise<void> {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    void write.catch((error) => {
+      console.error(`Failed to sync ${description} created offline:`, error);
+    });
+    return;
+  }
+  await write;
+}
+
+// Rules let anyone fetch an unused id, so only another user's unshared note is
+// denied; any other failure aborts the import rather than guessing.
+async function isNoteIdTaken(noteId: string): Promise<boolean> {
+  try {
+    return (await getDoc(appNoteDoc(db, noteId))).exists();
+  } catch (error) {
+    const code = typeof error === 'object' && error && 'code' in error ? String(error.code) : '';
+    if (code === 'permission-denied') return true;
+    throw error;
+  }
+}
+
+// Firestore does not cascade deletes, so a note's subcollections (plus its public
+// snapshot and Storage attachments) are purged explicitly before the note
+// document itself goes away.
+async function purgeNoteSubcollections(noteId: string): Promise<void> {
+  const results = await Promise.allSettled([
+    deleteNoteRevisions(noteId),
+    deleteNoteCollabData(noteId),
+    deleteNotePublication(noteId),
+    deleteNoteAttachments(noteId),
+  ]);
+
+  results.forEach((result) => {
+    if (result.status === 'rejected') {
+      console.warn('Failed to purge note subcollection:', result.reason);
+    }
+  });
+}
+
+export function createFirestoreNotesRepository(): NotesRepository {
+  return {
+    kind: 'firestore',
+
+    async createNote(ownerUid, initial = {}) {
+      const timestamp = serverTimestamp();
+      const noteRef = doc(appNotesCollection(db));
+      const write = setDoc(noteRef, {
+        ownerUid,
+        title: 'Untitled',
+        content: '',
+        contentJson: { type: 'doc', content: [] },
+        labels: [],
+        pinned: false,
+        notebookId: null,
+        isTemplate: false,
+        journalDate: null,
+        outgoingLinks: [],
+        collaborators: {},
+        ...initial,
+        isDeleted: false,
+        deletedAt: null,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      });
+
+      await commitCreate(write, 'note');
+      return noteRef.id;
+    },
+
+    async getNote(noteId) {
+      const snapshot = await getDoc(appNoteDoc(db, noteId));
+      return snapshot.exists() ? toNoteRecord(snapshot) : null;
+    },
+
+    async listNotes(ownerUid) {
+      const snapshot = await getDocs(query(
+        appNotesCollection(db),
+        where('ownerUid', '==', ownerUid),
+        orderBy('updatedAt', 'desc')
+      ));
+      return snapshot.docs.flatMap((noteDoc) => toNoteRecord(noteDoc) ?? []);
+    },
+
+    async updateNote(noteId, update: NoteUpdate) {
+      await updateDoc(appNoteDoc(db, noteId), {
+        ...update,
+        updatedAt: serverTimestamp(),
+      });
+    },
+
+    // Trashing also unpublishes, so /p/<slug> stops serving the note; restoring
+    // it from Trash does not publish it again.
+    async softDeleteNote(noteId) {
+      const noteRef = appNoteDoc(db, noteId);
+      const slug = (await getDoc(noteRef)).data()?.publishedSlug;
+      const batch = writeBatch(db);
+
+      if (typeof slug === 'string' && slug) {
+        const publishedRef = appPublishedNoteDoc(db, slug);
+        // The rules only allow deleting a snapshot that is still there.
+        if ((await getDoc(publishedRef)).exists()) batch.delete(publishedRef);
+      }
+      batch.update(noteRef, {
+        isDeleted: true,
+        deletedAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+        publishedSlug: null,
+      });
+      await batch.commit();
+    },
+
+    async restoreNote(noteId) {
+      await updateDoc(appNoteDoc(db, noteId), {
+        isDeleted: false,
+        deletedAt: deleteField(),
+        updatedAt: serverTimestamp(),
+      });
+    },
+
+    async purgeNotes(noteIds) {
+      for (const noteId of noteIds) {
+        await purgeNoteSubcollections(noteId);
+      }
+
+      for (let index = 0; index < noteIds.length; index += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        noteIds.slice(index, index + BATCH_LIMIT).forEach((noteId) => {
+          batch.delete(appNoteDoc(db, noteId));
+        });
+        await batch.commit();
+      }
+    },
+
+    async importNotes(ownerUid, notes) {
+      const existing = await getDocs(query(appNotesCollection(db), where('ownerUid', '==', ownerUid)));
+      const ownIds = new Set(existing.docs.map((noteDoc) => noteDoc.id));
+      const candidates = notes.filter((note) => !ownIds.has(note.id));
+      // Note ids are global: one the owner doesn't have may still belong to
+      // someone else, and the rules would reject it along with its whole batch.
+      const takenIds = new Set((await Promise.all(
+        candidates.map(async ({ id }) => ((await isNoteIdTaken(id)) ? [id] : []))
+      )).flat());
+      const fresh = reassignNoteIds(candidates, (noteId) => takenIds.has(noteId), () => doc(appNotesCollection(db)).id);
+      const timestampOrNow = (ms: number | null) => (ms === null ? serverTimestamp() : Timestamp.fromMillis(ms));
+
+      for (let index = 0; index < fresh.length; index += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        fresh.slice(index, index + BATCH_LIMIT).forEach(({ id, deletedAtMs, createdAtMs, updatedAtMs, ...note }) => {
+          batch.set(appNoteDoc(db, id), {
+            ...note,
+            ownerUid,
+            collaborators: {},
+            deletedAt: note.isDeleted ? timestampOrNow(deletedAtMs) : null,
+            createdAt: timestampOrNow(createdAtMs),
+            updatedAt: timestampOrNow(updatedAtMs),
+          });
+        });
+        await batch.commit();
+      }
+
+      return fresh.map((note) => note.id);
+    },
+
+    async relabelNotes(ownerUid, changes) {
+      const noteDocs = await getDocs(query(appNotesCollection(db), where('ownerUid', '==', ownerUid)));
+      const updates = noteDocs.docs.flatMap((snapshot) => {
+        const record = toNoteRecord(snapshot);
+        if (!record || !labelsNeedChanges(record.labels, changes)) return [];
+        return [{ ref: snapshot.ref, labels: applyLabelChanges(record.labels, changes) }];
+      });
+
+      // Relabeling is not an edit, so updatedAt is left alone and notes keep their order.
+      for (let index = 0; index < updates.length; index += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        updates.slice(index, index + BATCH_LIMIT).forEach(({ ref, labels }) => {
+          batch.update(ref, { labels });
+        });
+        await batch.commit();
+      }
+
+      return updates.length;
+    },
+
+    subscribeNotes(ownerUid, onChange, onError) {
+      const notesQuery = query(
+        appNotesCollection(db),
+        where('ownerUid', '==', ownerUid),
+        orderBy('updatedAt', 'desc')
+      );
+
+      return onSnapshot(notesQuery, (snapshot) => {
+        onChange(snapshot.docs.flatMap((noteDoc) => toNoteRecord(noteDoc) ?? []));
+      }, (error) => {
+        onError?.(error);
+      });
+    },
+
+    async setNoteCollaborator(noteId, uid, collaborator) {
+      // Only the one map entry changes, and sharing is not an edit, so updatedAt stays put.
+      await updateDoc(appNoteDoc(db, noteId), {
+        [`collaborators.${uid}`]: collaborator ?? deleteField(),
+      });
+    },
+
+    subscribeSharedNotes(uid, onChange, onError) {
+      const sharedQuery = query(
+        appNotesCollection(db),
+        where(`collaborators.${uid}.role`, 'in', ['viewer', 'editor'])
+      );
+
+      return onSnapshot(sharedQuery, (snapshot) => {
+        onChange(snapshot.docs.flatMap((noteDoc) => toNoteRecord(noteDoc) ?? []).sort(compareNotesByUpdatedAtDesc));
+      }, (error) => {
+        onError?.(error);
+      });
+    },
+
+    subscribeNote(noteId, onChange, onError) {
+      return onSnapshot(appNoteDoc(db, noteId), (snapshot) => {
+        onChange(snapshot.exists() ? toNoteRecord(snapshot) : null, { fromCache: snapshot.metadata.fromCache });
+      }, (error) => {
+        onError?.(error);
+      });
+    },
+
+    async createNotebook(ownerUid, initial) {
+      const timestamp = serverTimestamp();
+      const notebookRef = doc(appNotebooksCollection(db));
+      await commitCreate(setDoc(notebookRef, {
+        ownerUid,
+        name: initial.name,
+        parentId: initial.parentId,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      }), 'notebook');
+      return notebookRef.id;
+    },
+
+    async updateNotebook(notebookId, update) {
+      await updateDoc(appNotebookDoc(db, notebookId), {
+        ...update,
+        updatedAt: serverTimestamp(),
+      });
+    },
+
+    async deleteNotebook(ownerUid, notebookId) {
+      const notebookSnapshot = await getDoc(appNotebookDoc(db, notebookId));
+      const parentId = notebookSnapshot.exists() ? toNotebookRecord(notebookSnapshot)?.parentId ?? null : null;
+
+      const [noteDocs, childNotebookDocs] = await Promise.all([
+        getDocs(query(
+          appNotesCollection(db),
+          where('ownerUid', '==', ownerUid),
+          where('notebookId', '==', notebookId)
+        )),
+        getDocs(query(
+          appNotebooksCollection(db),
+          where('ownerUid', '==', ownerUid),
+          where('parentId', '==', notebookId)
+        )),
+      ]);
+
+      // Re-filing is not an edit, so updatedAt is left alone on the moved documents.
+      const moves = [
+        ...noteDocs.docs.map((snapshot) => ({ ref: snapshot.ref, data: { notebookId: parentId } })),
+        ...childNotebookDocs.docs.map((snapshot) => ({ ref: snapshot.ref, data: { parentId } })),
+      ];
+      for (let index = 0; index < moves.length; index += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        moves.slice(index, index + BATCH_LIMIT).forEach(({ ref, data }) => {
+          batch.update(ref, data);
+        });
+        await batch.commit();
+      }
+
+      await deleteDoc(appNotebookDoc(db, notebookId));
+    },
+
+    subscribeNotebooks(ownerUid, onChange, onError) {
+      const notebooksQuery = query(appNotebooksCollection(db), where('ownerUid', '==', ownerUid));
+
+      return onSnapshot(notebooksQuery, (snapshot) => {
+        onChange(snapshot.docs.flatMap((notebookDoc) => toNotebookRecord(notebookDoc) ?? []));
+      }, (error) => {
+        onError?.(error);
+      });
+    },
+
+    subscribeUserSettings(ownerUid, onChange, onError) {
+      return onSnapshot(appUserSettingsDoc(db, ownerUid), (snapshot) => {
+        const data = snapshot.data();
+        onChange({
+          labelColors: toLabelColors(data?.labelColors),
+          reminderStates: toReminderStates(data?.reminderStates),
+        });
+      }, (error) => {
+        onError?.(error);
+      });
+    },
+
+    async updateLabelColors(ownerUid, colors) {
+      await setDoc(appUserSettingsDoc(db, ownerUid), {
+        ownerUid,
+        labelColors: Object.fromEntries(Object.entries(colors).map(([label, color]) => [label, color ?? deleteField()])),
+        updatedAt: serverTimestamp(),
+      }, { merge: true });
+    },
+
+    async updateReminderStates(ownerUid, states) {
+      await setDoc(appUserSettingsDoc(db, ownerUid), {
+        ownerUid,
+        reminderStates: Object.fromEntries(Object.entries(states).map(([key, state]) => [key, state ?? deleteField()])),
+        updatedAt: serverTimestamp(),
+      }, { merge: true });
+    },
+
+    async createSavedSearch(ownerUid, initial) {
+      const timestamp = serverTimestamp();
+      const savedSearchRef = doc(appSavedSearchesCollection(db));
+      await commitCreate(setDoc(savedSearchRef, {
+        ownerUid,
+        ...initial,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+      }), 'saved search');
+      return savedSearchRef.id;
+    },
+
+    async updateSavedSearch(savedSearchId, update) {
+      await updateDoc(appSavedSearchDoc(db, savedSearchId), {
+        ...update,
+        updatedAt: serverTimestamp(),
+      });
+    },
+
+    async deleteSavedSearch(savedSearchId) {
+      await deleteDoc(appSavedSearchDoc(db, savedSearchId));
+    },
+
+    subscribeSavedSearches(ownerUid, onChange, onError) {
+      const savedSearchesQuery = query(appSavedSearchesCollection(db), where('ownerUid', '==', ownerUid));
+
+      return onSnapshot(savedSearchesQuery, (snapshot) => {
+        onChange(snapshot.docs.flatMap((savedSearchDoc) => toSavedSearchRecord(savedSearchDoc) ?? []));
+      }, (error) => {
+        onError?.(error);
+      });
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import type { NotesRepository } from '@/lib/notesRepository';
+import { createLocalNotesRepository, type LocalRecordCollection } from '@/lib/notesRepositoryLocal';
+
+const DB_NAME = 'tulis-local-vault';
+const DB_VERSION = 4;
+const NOTES_STORE = 'notes';
+const NOTEBOOKS_STORE = 'notebooks';
+const SAVED_SEARCHES_STORE = 'savedSearches';
+const SETTINGS_STORE = 'settings';
+// Tabs of the same vault tell each other to re-read after a write.
+const CHANGE_CHANNEL = 'tulis-local-vault';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openVaultDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        [NOTES_STORE, NOTEBOOKS_STORE, SAVED_SEARCHES_STORE, SETTINGS_STORE].forEach((storeName) => {
+          if (database.objectStoreNames.contains(storeName)) return;
+          const store = database.createObjectStore(storeName, { keyPath: 'id' });
+          store.createIndex('ownerUid', 'ownerUid');
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runTransaction<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const database = await openVaultDb();
+
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+function createStoreCollection<T extends { id: string }>(storeName: string): LocalRecordCollection<T> {
+  return {
+    async getAll() {
+      return (await runTransaction<T[]>(storeName, 'readonly', (store) => store.getAll())) ?? [];
+    },
+    async get(id) {
+      return (await runTransaction<T | undefined>(storeName, 'readonly', (store) => store.get(id))) ?? null;
+    },
+    async put(records) {
+      if (records.length === 0) return;
+      await runTransaction(storeName, 'readwrite', (store) => {
+        records.forEach((record) => store.put(record));
+      });
+    },
+    async delete(ids) {
+      await runTransaction(storeName, 'readwrite', (store) => {
+        ids.forEach((id) => store.delete(id));
+      });
+    },
+  };
+}
+
+export function createIndexedDbNotesRepository(): NotesRepository {
+  const channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANGE_CHANNEL);
+
+  return createLocalNotesRepository('indexeddb', {
+    notes: createStoreCollection(NOTES_STORE),
+    notebooks: createStoreCollection(NOTEBOOKS_STORE),
+    savedSearches: createStoreCollection(SAVED_SEARCHES_STORE),
+    settings: createStoreCollection(SETTINGS_STORE),
+    onExternalChange(listener) {
+      if (!channel) return () => undefined;
+      const handleMessage = () => listener();
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    },
+    notifyExternal() {
+      channel?.postMessage('changed');
+    },
+  });
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createEmptyNoteRecord, type NoteImport, type NoteRecord } from '@/lib/notesRepository';
+import { createMemoryNotesRepository } from '@/lib/notesRepositoryMemory';
+
+// The Firestore backend is never used here; skip initializing Firebase.
+vi.mock('@/lib/firebase', () => ({ auth: {}, db: {}, storage: {} }));
+
+const USER = 'user-a';
+const OTHER_USER = 'user-b';
+
+const linkTo = (noteId: string) => ({
+  type: 'doc',
+  content: [{ type: 'paragraph', content: [{ type: 'noteLink', attrs: { noteId, title: 'Linked' } }] }],
+});
+
+const backupNote = (id: string, overrides: Partial<NoteImport> = {}): NoteImport => ({
+  id,
+  title: 'Untitled',
+  content: '',
+  contentJson: { type: 'doc', content: [] },
+  labels: [],
+  pinned: false,
+  notebookId: null,
+  isTemplate: false,
+  journalDate: null,
+  outgoingLinks: [],
+  isDeleted: false,
+  deletedAtMs: null,
+  createdAtMs: 1_000,
+  updatedAtMs: 1_000,
+  ...overrides,
+});
+
+const stored = (id: string, ownerUid: string): NoteRecord => createEmptyNoteRecord(id, ownerUid, 1_000);
+
+describe('importNotes', () => {
+  it('skips ids the owner already has', async () => {
+    const repository = createMemoryNotesRepository([stored('mine', USER)]);
+
+    const written = await repository.importNotes(USER, [backupNote('mine'), backupNote('new')]);
+
+    expect(written).toEqual(['new']);
+    expect((await repository.listNotes(USER)).map((note) => note.id).sort()).toEqual(['mine', 'new']);
+  });
+
+  it('gives ids owned by someone else fresh ones and keeps links pointing at them', async () => {
+    const repository = createMemoryNotesRepository([stored('taken', OTHER_USER)]);
+
+    const written = await repository.importNotes(USER, [
+      backupNote('taken', { title: 'Target' }),
+      backupNote('source', { contentJson: linkTo('taken'), outgoingLinks: ['taken'] }),
+    ]);
+
+    const [targetId] = written;
+    expect(targetId).not.toBe('taken');
+    expect((await repository.getNote('taken'))?.ownerUid).toBe(OTHER_USER);
+    expect((await repository.getNote(targetId))?.title).toBe('Target');
+
+    const source = await repository.getNote('source');
+    expect(source?.outgoingLinks).toEqual([targetId]);
+    expect(source?.contentJson).toEqual(linkTo(targetId));
+  });
+});
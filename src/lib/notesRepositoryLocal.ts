@@ -0,0 +1,364 @@
+import {
+  compareNotesByUpdatedAtDesc,
+  createEmptyNoteRecord,
+  type NotebookRecord,
+  type NoteRecord,
+  type NotesRepository,
+  type NotesRepositoryKind,
+  type SavedSearchRecord,
+  type Unsubscribe,
+  type UserSettings,
+} from '@/lib/notesRepository';
+import { applyLabelChanges, labelsNeedChanges } from '@/lib/notes';
+import { labelColorOf, type LabelColors } from '@/lib/labelColors';
+import { reassignNoteIds } from '@/lib/noteLinks';
+import type { ReminderStates } from '@/lib/reminders';
+
+// Stored under the owner's uid.
+export type UserSettingsRecord = UserSettings & { id: string; ownerUid: string };
+
+// Minimal async key/value collection the local repositories are built on.
+export type LocalRecordCollection<T extends { id: string }> = {
+  getAll(): Promise<T[]>;
+  get(id: string): Promise<T | null>;
+  put(records: T[]): Promise<void>;
+  delete(ids: string[]): Promise<void>;
+};
+
+export type LocalNoteStore = {
+  notes: LocalRecordCollection<NoteRecord>;
+  notebooks: LocalRecordCollection<NotebookRecord>;
+  savedSearches: LocalRecordCollection<SavedSearchRecord>;
+  settings: LocalRecordCollection<UserSettingsRecord>;
+  // Fires when another tab changes the same store.
+  onExternalChange?(listener: () => void): Unsubscribe;
+  notifyExternal?(): void;
+};
+
+const NOTE_ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+// Same shape as Firestore auto-ids so routes and outbox keys look alike.
+function generateRecordId(): string {
+  const bytes = new Uint8Array(20);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => NOTE_ID_ALPHABET[byte % NOTE_ID_ALPHABET.length]).join('');
+}
+
+function notFoundError(description: string, id: string): Error {
+  // Mirrors Firestore's error code so callers can share handling.
+  return Object.assign(new Error(`${description} ${id} does not exist.`), { code: 'not-found' });
+}
+
+// Records written by older versions lack fields added since; fill in the defaults.
+function withNoteDefaults(record: NoteRecord): NoteRecord {
+  return { ...createEmptyNoteRecord(record.id, record.ownerUid, 0), ...record };
+}
+
+export function createLocalNotesRepository(kind: NotesRepositoryKind, store: LocalNoteStore): NotesRepository {
+  const listeners = new Set<() => void>();
+  const noteRecords: LocalRecordCollection<NoteRecord> = {
+    ...store.notes,
+    async getAll() {
+      return (await store.notes.getAll()).map(withNoteDefaults);
+    },
+    async get(noteId) {
+      const record = await store.notes.get(noteId);
+      return record && withNoteDefaults(record);
+    },
+  };
+
+  const notify = () => {
+    listeners.forEach((listener) => listener());
+    store.notifyExternal?.();
+  };
+
+  const watch = (refresh: () => void): Unsubscribe => {
+    listeners.add(refresh);
+    const unsubscribeExternal = store.onExternalChange?.(refresh);
+    refresh();
+    return () => {
+      listeners.delete(refresh);
+      unsubscribeExternal?.();
+    };
+  };
+
+  const mutate = async (noteId: string, change: (note: NoteRecord) => NoteRecord) => {
+    const existing = await noteRecords.get(noteId);
+    if (!existing) throw notFoundError('Note', noteId);
+    await noteRecords.put([change(existing)]);
+    notify();
+  };
+
+  const repository: NotesRepository = {
+    kind,
+
+    async createNote(ownerUid, initial = {}) {
+      const record = { ...createEmptyNoteRecord(generateRecordId(), ownerUid, Date.now()), ...initial };
+      await noteRecords.put([record]);
+      notify();
+      return record.id;
+    },
+
+    getNote(noteId) {
+      return noteRecords.get(noteId);
+    },
+
+    async listNotes(ownerUid) {
+      const notes = await noteRecords.getAll();
+      return notes.filter((note) => note.ownerUid === ownerUid).sort(compareNotesByUpdatedAtDesc);
+    },
+
+    updateNote(noteId, update) {
+      return mutate(noteId, (note) => ({ ...note, ...update, updatedAtMs: Date.now() }));
+    },
+
+    softDeleteNote(noteId) {
+      const nowMs = Date.now();
+      return mutate(noteId, (note) => ({ ...note, isDeleted: true, deletedAtMs: nowMs, updatedAtMs: nowMs }));
+    },
+
+    restoreNote(noteId) {
+      return mutate(noteId, (note) => ({ ...note, isDeleted: false, deletedAtMs: null, updatedAtMs: Date.now() }));
+    },
+
+    async purgeNotes(noteIds) {
+      if (noteIds.length === 0) return;
+      await noteRecords.delete(noteIds);
+      notify();
+    },
+
+    async importNotes(ownerUid, notes) {
+      const existing = await noteRecords.getAll();
+      const ownIds = new Set(existing.filter((note) => note.ownerUid === ownerUid).map((note) => note.id));
+      const takenIds = new Set(existing.map((note) => note.id));
+      const fresh = reassignNoteIds(
+        notes.filter((note) => !ownIds.has(note.id)),
+        (noteId) => takenIds.has(noteId),
+        generateRecordId
+      );
+      if (fresh.length === 0) return [];
+
+      const nowMs = Date.now();
+      await noteRecords.put(fresh.map((note) => ({
+        ...createEmptyNoteRecord(note.id, ownerUid, nowMs),
+        ...note,
+        deletedAtMs: note.isDeleted ? note.deletedAtMs ?? nowMs : null,
+        createdAtMs: note.createdAtMs ?? nowMs,
+        updatedAtMs: note.updatedAtMs ?? nowMs,
+      })));
+      notify();
+      return fresh.map((note) => note.id);
+    },
+
+    async relabelNotes(ownerUid, changes) {
+      const notes = await noteRecords.getAll();
+      const changed = notes
+        .filter((note) => note.ownerUid === ownerUid && labelsNeedChanges(note.labels, changes))
+        .map((note) => ({ ...note, labels: applyLabelChanges(note.labels, changes) }));
+      await noteRecords.put(changed);
+      if (changed.length > 0) notify();
+      return changed.length;
+    },
+
+    subscribeNotes(ownerUid, onChange, onError) {
+      let active = true;
+      const unsubscribe = watch(() => {
+        void repository.listNotes(ownerUid).then((notes) => {
+          if (active) onChange(notes);
+        }, (error: unknown) => {
+          if (active) onError?.(error);
+        });
+      });
+
+      return () => {
+        active = false;
+        unsubscribe();
+      };
+    },
+
+    setNoteCollaborator(noteId, uid, collaborator) {
+      return mutate(noteId, (note) => {
+        const collaborators = { ...note.collaborators };
+        if (collaborator) {
+          collaborators[uid] = collaborator;
+        } else {
+          delete collaborators[uid];
+        }
+        return { ...note, collaborators };
+      });
+    },
+
+    subscribeSharedNotes(uid, onChange, onError) {
+      let active = true;
+      const unsubscribe = watch(() => {
+        void noteRecords.getAll().then((notes) => {
+          if (!active) return;
+          onChange(notes.filter((note) => note.ownerUid !== uid && uid in note.collaborators).sort(compareNotesByUpdatedAtDesc));
+        }, (error: unknown) => {
+          if (active) onError?.(error);
+        });
+      });
+
+      return () => {
+        active = false;
+        unsubscribe();
+      };
+    },
+
+    subscribeNote(noteId, onChange, onError) {
+      let active = true;
+      const unsubscribe = watch(() => {
+        void noteRecords.get(noteId).then((note) => {
+          if (active) onChange(note, { fromCache: false });
+        }, (error: unknown) => {
+          if (active) onError?.(error);
+        });
+      });
+
+      return () => {
+        active = false;
+        unsubscribe();
+      };
+    },
+
+    async createNotebook(ownerUid, initial) {
+      const nowMs = Date.now();
+      const record: NotebookRecord = {
+        id: generateRecordId(),
+        ownerUid,
+        name: initial.name,
+        parentId: initial.parentId,
+        createdAtMs: nowMs,
+        updatedAtMs: nowMs,
+      };
+      await store.notebooks.put([record]);
+      notify();
+      return record.id;
+    },
+
+    async updateNotebook(notebookId, update) {
+      const existing = await store.notebooks.get(notebookId);
+      if (!existing) throw notFoundError('Notebook', notebookId);
+      await store.notebooks.put([{ ...existing, ...update, updatedAtMs: Date.now() }]);
+      notify();
+    },
+
+    async deleteNotebook(ownerUid, notebookId) {
+      const [notebook, notes, notebooks] = await Promise.all([
+        store.notebooks.get(notebookId),
+        noteRecords.getAll(),
+        store.notebooks.getAll(),
+      ]);
+      const parentId = notebook?.parentId ?? null;
+
+      await noteRecords.put(notes
+        .filter((note) => note.ownerUid === ownerUid && note.notebookId === notebookId)
+        .map((note) => ({ ...note, notebookId: parentId })));
+      await store.notebooks.put(notebooks
+        .filter((child) => child.ownerUid === ownerUid && child.parentId === notebookId)
+        .map((child) => ({ ...child, parentId })));
+      await store.notebooks.delete([notebookId]);
+      notify();
+    },
+
+    subscribeNotebooks(ownerUid, onChange, onError) {
+      let active = true;
+      const unsubscribe = watch(() => {
+        void store.notebooks.getAll().then((notebooks) => {
+          if (active) onChange(notebooks.filter((notebook) => notebook.ownerUid === ownerUid));
+        }, (error: unknown) => {
+          if (active) onError?.(error);
+        });
+      });
+
+      return () => {
+        active = false;
+        unsubscribe();
+      };
+    },
+
+    subscribeUserSettings(ownerUid, onChange, onError) {
+      let active = true;
+      const unsubscribe = watch(() => {
+        void store.settings.get(ownerUid).then((settings) => {
+          if (active) {
+            onChange({ labelColors: settings?.labelColors ?? {}, reminderStates: settings?.reminderStates ?? {} });
+          }
+        }, (error: unknown) => {
+          if (active) onError?.(error);
+        });
+      });
+
+      return () => {
+        active = false;
+        unsubscribe();
+      };
+    },
+
+    async updateLabelColors(ownerUid, colors) {
+      const existing = await store.settings.get(ownerUid);
+      const labelColors: LabelColors = { ...existing?.labelColors };
+      Object.entries(colors).forEach(([label, color]) => {
+        if (color) labelColors[label] = color;
+        else if (labelColorOf(labelColors, label)) delete labelColors[label];
+      });
+      await store.settings.put([{ id: ownerUid, ownerUid, reminderStates: {}, ...existing, labelColors }]);
+      notify();
+    },
+
+    async updateReminderStates(ownerUid, states) {
+      const existing = await store.settings.get(ownerUid);
+      const reminderStates: ReminderStates = { ...existing?.reminderStates };
+      Object.entries(states).forEach(([key, state]) => {
+        if (state) reminderStates[key] = state;
+        else delete reminderStates[key];
+      });
+      await store.settings.put([{ id: ownerUid, ownerUid, labelColors: {}, ...existing, reminderStates }]);
+      notify();
+    },
+
+    async createSavedSearch(ownerUid, initial) {
+      const nowMs = Date.now();
+      const record: SavedSearchRecord = {
+        id: generateRecordId(),
+        ownerUid,
+        ...initial,
+        createdAtMs: nowMs,
+        updatedAtMs: nowMs,
+      };
+      await store.savedSearches.put([record]);
+      notify();
+      return record.id;
+    },
+
+    async updateSavedSearch(savedSearchId, update) {
+      const existing = await store.savedSearches.get(savedSearchId);
+      if (!existing) throw notFoundError('Saved search', savedSearchId);
+      await store.savedSearches.put([{ ...existing, ...update, updatedAtMs: Date.now() }]);
+      notify();
+    },
+
+    async deleteSavedSearch(savedSearchId) {
+      await store.savedSearches.delete([savedSearchId]);
+      notify();
+    },
+
+    subscribeSavedSearches(ownerUid, onChange, onError) {
+      let active = true;
+      const unsubscribe = watch(() => {
+        void store.savedSearches.getAll().then((savedSearches) => {
+          if (active) onChange(savedSearches.filter((savedSearch) => savedSearch.ownerUid === ownerUid));
+        }, (error: unknown) => {
+          if (active) onError?.(error);
+        });
+      });
+
+      return () => {
+        active = false;
+        unsubscribe();
+      };
+    },
+  };
+
+  return repository;
+}
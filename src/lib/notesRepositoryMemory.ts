@@ -0,0 +1,37 @@
+import type { NotebookRecord, NoteRecord, NotesRepository, SavedSearchRecord } from '@/lib/notesRepository';
+import { createLocalNotesRepository, type LocalRecordCollection } from '@/lib/notesRepositoryLocal';
+
+function createMapCollection<T extends { id: string }>(seed: T[]): LocalRecordCollection<T> {
+  const records = new Map(seed.map((record) => [record.id, structuredClone(record)]));
+
+  return {
+    async getAll() {
+      return [...records.values()].map((record) => structuredClone(record));
+    },
+    async get(id) {
+      const record = records.get(id);
+      return record ? structuredClone(record) : null;
+    },
+    async put(nextRecords) {
+      nextRecords.forEach((record) => records.set(record.id, structuredClone(record)));
+    },
+    async delete(ids) {
+      ids.forEach((id) => records.delete(id));
+    },
+  };
+}
+
+// Keeps notes in a Map for the lifetime of the page. The lifecycle and trash
+// tests install it with setNotesRepositoryOverride so they run without Firebase.
+export function createMemoryNotesRepository(
+  seed: NoteRecord[] = [],
+  notebookSeed: NotebookRecord[] = [],
+  savedSearchSeed: SavedSearchRecord[] = []
+): NotesRepository {
+  return createLocalNotesRepository('memory', {
+    notes: createMapCollection(seed),
+    notebooks: createMapCollection(notebookSeed),
+    savedSearches: createMapCollection(savedSearchSeed),
+    settings: createMapCollection([]),
+  });
+}
@@ -0,0 +1,85 @@
+import { reminderHref, type ReminderAction, type ScheduledReminder } from '@/lib/reminders';
+
+// Posted by public/sw.js when a notification's Snooze or Dismiss is clicked.
+export const REMINDER_ACTION_MESSAGE = 'tulis:reminder-action';
+
+export type ReminderActionMessage = {
+  type: typeof REMINDER_ACTION_MESSAGE;
+  reminderKey: string;
+  action: ReminderAction;
+};
+
+const DELIVERED_STORAGE_KEY = 'tulis:delivered-reminders';
+const MAX_DELIVERED_ENTRIES = 200;
+
+export const isReminderActionMessage = (value: unknown): value is ReminderActionMessage => {
+  if (!value || typeof value !== 'object') return false;
+  const message = value as Record<string, unknown>;
+  return message.type === REMINDER_ACTION_MESSAGE
+    && typeof message.reminderKey === 'string'
+    && (message.action === 'snooze' || message.action === 'dismiss');
+};
+
+export const reminderNotificationPermission = (): NotificationPermission | 'unsupported' => (
+  typeof window !== 'undefined' && 'Notification' in window ? Notification.permission : 'unsupported'
+);
+
+export const requestReminderNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (reminderNotificationPermission() === 'unsupported') return 'unsupported';
+  return Notification.requestPermission();
+};
+
+// Each due time notifies once per device, even across reloads.
+const deliveryKey = (reminder: ScheduledReminder) => `${reminder.key}@${reminder.dueAtMs}`;
+
+const readDelivered = (): string[] => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(DELIVERED_STORAGE_KEY) ?? '[]') as unknown;
+    return Array.isArray(stored) ? stored.filter((value): value is string => typeof value === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const wasReminderDelivered = (reminder: ScheduledReminder): boolean => readDelivered().includes(deliveryKey(reminder));
+
+export const markReminderDelivered = (reminder: ScheduledReminder) => {
+  try {
+    const delivered = [...readDelivered(), deliveryKey(reminder)].slice(-MAX_DELIVERED_ENTRIES);
+    window.localStorage.setItem(DELIVERED_STORAGE_KEY, JSON.stringify(delivered));
+  } catch {
+    // Ignore localStorage write failures.
+  }
+};
+
+export const showReminderNotification = async (reminder: ScheduledReminder): Promise<void> => {
+  const url = reminderHref(reminder.noteId, reminder.reminderId);
+  const options: NotificationOptions = {
+    body: `Reminder · ${new Intl.DateTimeFormat('en-US', { dateStyle: 'medium', timeStyle: 'short' }).format(reminder.remindAtMs)}`,
+    tag: reminder.key,
+    icon: '/icons/icon-192.png',
+    data: { url, reminderKey: reminder.key },
+  };
+
+  // The service worker only runs in production builds; without it there are
+  // no action buttons and a click simply opens the note.
+  const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+  if (registration) {
+    // `actions` is missing from TypeScript's DOM typings.
+    await registration.showNotification(reminder.noteTitle, {
+      ...options,
+      actions: [
+        { action: 'snooze', title: 'Snooze 1 hour' },
+        { action: 'dismiss', title: 'Dismiss' },
+      ],
+    } as NotificationOptions);
+    return;
+  }
+
+  const notification = new Notification(reminder.noteTitle, options);
+  notification.onclick = () => {
+    window.focus();
+    window.location.assign(url);
+    notification.close();
+  };
+};
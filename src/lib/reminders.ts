@@ -0,0 +1,114 @@
+import type { JSONContent } from '@tiptap/core';
+import { noteBlocks } from '@/lib/noteContent';
+
+export const REMINDER_SNOOZE_MS = 60 * 60 * 1000;
+
+// A reminder set on one date chip.
+export type ChipReminder = {
+  reminderId: string;
+  remindAtMs: number;
+};
+
+export type NoteReminder = ChipReminder & {
+  // Unique across notes; copies of a note share reminder ids.
+  key: string;
+  noteId: string;
+  noteTitle: string;
+};
+
+export type ScheduledReminder = NoteReminder & {
+  // The reminder time, or the end of its snooze.
+  dueAtMs: number;
+};
+
+// Per-user snooze/dismiss state, keyed by NoteReminder.key. remindAtMs is the
+// chip time the state was written for; moving the reminder starts it over.
+export type ReminderState = {
+  remindAtMs: number;
+  snoozedUntilMs: number | null;
+  dismissed: boolean;
+};
+
+export type ReminderStates = Record<string, ReminderState>;
+
+export type ReminderAction = 'snooze' | 'dismiss';
+
+export const reminderKey = (noteId: string, reminderId: string): string => `${noteId}:${reminderId}`;
+
+// Opens the note scrolled to the chip.
+export const reminderHref = (noteId: string, reminderId: string): string => (
+  `/notes/${encodeURIComponent(noteId)}?reminder=${encodeURIComponent(reminderId)}`
+);
+
+export const noteReminders = (doc: JSONContent | null | undefined): ChipReminder[] => {
+  const reminders: ChipReminder[] = [];
+
+  const visit = (node: JSONContent) => {
+    if (node.type === 'dateChip' && typeof node.attrs?.reminderId === 'string' && typeof node.attrs.reminderAt === 'string') {
+      const remindAtMs = new Date(node.attrs.reminderAt).getTime();
+      if (Number.isFinite(remindAtMs)) reminders.push({ reminderId: node.attrs.reminderId, remindAtMs });
+    }
+    node.content?.forEach(visit);
+  };
+  noteBlocks(doc).forEach(visit);
+
+  return reminders;
+};
+
+const finiteOrNull = (value: unknown): number | null => (
+  typeof value === 'number' && Number.isFinite(value) ? value : null
+);
+
+export const toReminderStates = (value: unknown): ReminderStates => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  return Object.fromEntries(Object.entries(value).flatMap(([key, state]): Array<[string, ReminderState]> => {
+    if (!state || typeof state !== 'object') return [];
+    const fields = state as Record<string, unknown>;
+    const remindAtMs = finiteOrNull(fields.remindAtMs);
+    if (remindAtMs === null) return [];
+    return [[key, { remindAtMs, snoozedUntilMs: finiteOrNull(fields.snoozedUntilMs), dismissed: fields.dismissed === true }]];
+  }));
+};
+
+const currentState = (states: ReminderStates, reminder: NoteReminder): ReminderState | null => {
+  const state = Object.prototype.hasOwnProperty.call(states, reminder.key) ? states[reminder.key] : null;
+  return state && state.remindAtMs === reminder.remindAtMs ? state : null;
+};
+
+// Reminders that have not been dismissed, soonest first.
+export const scheduleReminders = (reminders: NoteReminder[], states: ReminderStates): ScheduledReminder[] => (
+  reminders
+    .flatMap((reminder) => {
+      const state = currentState(states, reminder);
+      if (state?.dismissed) return [];
+      return [{ ...reminder, dueAtMs: state?.snoozedUntilMs ?? reminder.remindAtMs }];
+    })
+    .sort((a, b) => a.dueAtMs - b.dueAtMs || a.key.localeCompare(b.key))
+);
+
+// State updates for snoozing or dismissing one reminder. Entries for
+// reminders that no longer exist are dropped along the way.
+export const reminderStateChanges = (
+  reminders: NoteReminder[],
+  states: ReminderStates,
+  key: string,
+  action: ReminderAction,
+  nowMs: number
+): Record<string, ReminderState | null> => {
+  const liveKeys = new Set(reminders.map((reminder) => reminder.key));
+  const changes: Record<string, ReminderState | null> = Object.fromEntries(
+    Object.keys(states).filter((stateKey) => !liveKeys.has(stateKey)).map((stateKey) => [stateKey, null])
+  );
+
+  const reminder = reminders.find((item) => item.key === key);
+  if (reminder) {
+    changes[key] = {
+      remindAtMs: reminder.remindAtMs,
+      snoozedUntilMs: action === 'snooze' ? nowMs + REMINDER_SNOOZE_MS : null,
+      dismissed: action === 'dismiss',
+    };
+  }
+
+  return changes;
+};
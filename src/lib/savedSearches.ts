@@ -0,0 +1,53 @@
+import type { SavedSearchRecord, SavedSearchView } from '@/lib/notesRepository';
+
+export const SAVED_SEARCH_NAME_MAX_LENGTH = 60;
+export const SAVED_SEARCH_QUERY_MAX_LENGTH = 500;
+
+const VIEW_LABELS: Record<SavedSearchView, string> = {
+  all: 'All notes',
+  pinned: 'Pinned',
+  shared: 'Shared',
+};
+
+export const normalizeSavedSearchName = (value: string): string | null => {
+  const normalized = value.replace(/\s+/g, ' ').trim().slice(0, SAVED_SEARCH_NAME_MAX_LENGTH).trim();
+  return normalized || null;
+};
+
+export const compareSavedSearches = (a: SavedSearchRecord, b: SavedSearchRecord): number => (
+  a.position - b.position
+  || (a.createdAtMs ?? 0) - (b.createdAtMs ?? 0)
+  || a.id.localeCompare(b.id)
+);
+
+// Deep link that opens the drawer on this saved search.
+export const savedSearchHref = (savedSearchId: string): string => `/notes?view=${encodeURIComponent(savedSearchId)}`;
+
+// One-line summary, e.g. "Pinned · #work · budget".
+export const describeSavedSearch = ({ query, label, view }: Pick<SavedSearchRecord, 'query' | 'label' | 'view'>): string => (
+  [VIEW_LABELS[view], ...(label ? [`#${label}`] : []), ...(query.trim() ? [query.trim()] : [])].join(' · ')
+);
+
+export const nextSavedSearchPosition = (savedSearches: SavedSearchRecord[]): number => (
+  savedSearches.reduce((max, savedSearch) => Math.max(max, savedSearch.position + 1), 0)
+);
+
+// New positions after moving one saved search `offset` places in the sorted
+// list. The list is renumbered from 0 so ties left by concurrent creates
+// resolve; only the entries whose position changes are returned.
+export const moveSavedSearch = (
+  sorted: SavedSearchRecord[],
+  savedSearchId: string,
+  offset: number
+): Array<{ id: string; position: number }> => {
+  const from = sorted.findIndex((savedSearch) => savedSearch.id === savedSearchId);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= sorted.length) return [];
+
+  const reordered = [...sorted];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return reordered.flatMap((savedSearch, position) => (
+    savedSearch.position === position ? [] : [{ id: savedSearch.id, position }]
+  ));
+};
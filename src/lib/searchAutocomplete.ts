@@ -0,0 +1,130 @@
+import { toJournalDate } from '@/lib/journal';
+import { SEARCH_HAS_VALUES, SEARCH_IS_VALUES } from '@/lib/notes';
+
+// Completions for the search box, based on the query token under the caret.
+
+export type SearchSuggestion = {
+  // Replaces the token under the caret.
+  value: string;
+  label: string;
+  detail: string;
+};
+
+export type SearchCompletion = {
+  from: number;
+  to: number;
+  suggestions: SearchSuggestion[];
+};
+
+const MAX_SUGGESTIONS = 8;
+
+const OPERATORS: Array<{ key: string; detail: string }> = [
+  { key: 'is', detail: 'pinned, unpinned or trash' },
+  { key: 'has', detail: 'tasks, code or date' },
+  { key: 'title', detail: 'Words in the title' },
+  { key: 'created', detail: 'Date or range, e.g. 7d, >2026-01-01' },
+  { key: 'updated', detail: 'Date or range, e.g. 7d, >2026-01-01' },
+];
+
+const IS_DETAILS: Record<string, string> = {
+  pinned: 'Pinned notes',
+  unpinned: 'Notes that are not pinned',
+  trash: 'Notes in Trash',
+};
+
+const HAS_DETAILS: Record<string, string> = {
+  tasks: 'Notes with checklists',
+  code: 'Notes with code',
+  date: 'Notes with date chips',
+};
+
+const dateSuggestions = (now: Date): Array<{ value: string; detail: string }> => {
+  const today = toJournalDate(now);
+  return [
+    { value: 'today', detail: 'Today' },
+    { value: '7d', detail: 'In the last 7 days' },
+    { value: '30d', detail: 'In the last 30 days' },
+    { value: '1y', detail: 'In the last year' },
+    { value: today.slice(0, 7), detail: 'This month' },
+    { value: `<${today}`, detail: 'Before today' },
+  ];
+};
+
+export function searchCompletions(
+  query: string,
+  caret: number,
+  options: { labels: string[]; now?: Date }
+): SearchCompletion | null {
+  // Inside an open quote the user is typing a phrase.
+  if ((query.slice(0, caret).match(/"/g)?.length ?? 0) % 2 === 1) return null;
+
+  let from = caret;
+  while (from > 0 && !/[\s(]/.test(query[from - 1])) from -= 1;
+  let to = caret;
+  while (to < query.length && !/[\s)]/.test(query[to])) to += 1;
+
+  const token = query.slice(from, caret);
+  const negation = token.startsWith('-') ? '-' : '';
+  const body = token.slice(negation.length);
+  if (!body) return null;
+
+  const labelSuggestions = (prefix: string, partial: string): SearchSuggestion[] => options.labels
+    .filter((label) => label.startsWith(partial.toLowerCase()))
+    .map((label) => ({ value: `${negation}${prefix}${label}`, label: `#${label}`, detail: 'Label' }));
+
+  let suggestions: SearchSuggestion[];
+  const separator = body.indexOf(':');
+  if (body.startsWith('#')) {
+    suggestions = labelSuggestions('#', body.slice(1));
+  } else if (separator > 0) {
+    const key = body.slice(0, separator).toLowerCase();
+    const partial = body.slice(separator + 1).toLowerCase();
+    const withKey = (values: Array<{ value: string; detail: string }>) => values
+      .filter(({ value }) => value.startsWith(partial))
+      .map(({ value, detail }) => ({ value: `${negation}${key}:${value}`, label: `${key}:${value}`, detail }));
+
+    if (key === 'is') {
+      suggestions = withKey(SEARCH_IS_VALUES.map((value) => ({ value, detail: IS_DETAILS[value] })));
+    } else if (key === 'has') {
+      suggestions = withKey(SEARCH_HAS_VALUES.map((value) => ({ value, detail: HAS_DETAILS[value] })));
+    } else if (key === 'created' || key === 'updated') {
+      suggestions = withKey(dateSuggestions(options.now ?? new Date()));
+    } else if (key === 'label') {
+      suggestions = labelSuggestions('label:', partial);
+    } else {
+      suggestions = [];
+    }
+  } else {
+    // Plain words only suggest operators from two letters on (and OR when
+    // capitalized), so typing ordinary words stays quiet.
+    const partial = body.toLowerCase();
+    suggestions = [
+      ...OPERATORS
+        .filter(({ key }) => partial.length >= 2 && key.startsWith(partial))
+        .map(({ key, detail }) => ({ value: `${negation}${key}:`, label: `${key}:`, detail })),
+      ...(!negation && body === 'O'
+        ? [{ value: 'OR', label: 'OR', detail: 'Match either side' }]
+        : []),
+    ];
+  }
+
+  const current = query.slice(from, to);
+  const remaining = suggestions.filter((suggestion) => suggestion.value !== current).slice(0, MAX_SUGGESTIONS);
+  return remaining.length > 0 ? { from, to, suggestions: remaining } : null;
+}
+
+// The query after accepting a suggestion, and where the caret goes.
+export function applySearchSuggestion(
+  query: string,
+  completion: SearchCompletion,
+  suggestion: SearchSuggestion
+): { query: string; caret: number } {
+  // Operators wait for their value; anything else is complete, so the caret
+  // moves past a separating space.
+  const endsOperator = suggestion.value.endsWith(':');
+  const suffix = endsOperator || /^\s/.test(query.slice(completion.to)) ? '' : ' ';
+  return {
+    query: `${query.slice(0, completion.from)}${suggestion.value}${suffix}${query.slice(completion.to)}`,
+    caret: completion.from + suggestion.value.length + (endsOperator ? 0 : 1),
+  };
+}
@@ -0,0 +1,141 @@
+import type { JSONContent } from '@tiptap/core';
+import { describe, expect, it } from 'vitest';
+import {
+  formatTaskDue,
+  parseDueToken,
+  sortTaskItems,
+  taskAttributesMarkdownSuffix,
+  taskAttributesOf,
+  takeTaskAttributesFromText,
+  TASK_DUE_INPUT_REGEX,
+  TASK_PRIORITY_INPUT_REGEX,
+} from '@/lib/taskAttributes';
+
+// A Tuesday.
+const TODAY = '2026-03-10';
+
+const task = (text: string, attrs: Record<string, unknown> = {}): JSONContent => ({
+  type: 'taskItem',
+  attrs: { checked: false, ...attrs },
+  content: [{ type: 'paragraph', content: [{ type: 'text', text }] }],
+});
+
+const taskList = (...items: JSONContent[]): JSONContent => ({ type: 'taskList', content: items });
+
+const itemTexts = (list: JSONContent | undefined) => (
+  (list?.content ?? []).map((item) => item.content?.[0].content?.[0].text)
+);
+
+describe('parseDueToken', () => {
+  it('reads relative days and weeks', () => {
+    expect(parseDueToken('today', TODAY)).toBe('2026-03-10');
+    expect(parseDueToken('Tom', TODAY)).toBe('2026-03-11');
+    expect(parseDueToken('3d', TODAY)).toBe('2026-03-13');
+    expect(parseDueToken('2w', TODAY)).toBe('2026-03-24');
+  });
+
+  it('reads weekdays as the coming one, a week out when it is today', () => {
+    expect(parseDueToken('fri', TODAY)).toBe('2026-03-13');
+    expect(parseDueToken('Thurs', TODAY)).toBe('2026-03-12');
+    expect(parseDueToken('monday', TODAY)).toBe('2026-03-16');
+    expect(parseDueToken('tue', TODAY)).toBe('2026-03-17');
+    expect(parseDueToken('mo', TODAY)).toBeNull();
+  });
+
+  it('accepts real calendar days only', () => {
+    expect(parseDueToken('2026-12-31', TODAY)).toBe('2026-12-31');
+    expect(parseDueToken('2026-02-30', TODAY)).toBeNull();
+    expect(parseDueToken('someday', TODAY)).toBeNull();
+  });
+});
+
+describe('formatTaskDue', () => {
+  it('names nearby days and shows the date otherwise', () => {
+    expect(formatTaskDue('2026-03-10', TODAY)).toBe('Today');
+    expect(formatTaskDue('2026-03-11', TODAY)).toBe('Tomorrow');
+    expect(formatTaskDue('2026-03-16', TODAY)).toBe('Mon');
+    expect(formatTaskDue('2026-03-17', TODAY)).toBe('Mar 17');
+    expect(formatTaskDue('2026-03-09', TODAY)).toBe('Mar 9');
+  });
+});
+
+describe('taskAttributesOf', () => {
+  it('drops values that are not valid attributes', () => {
+    expect(taskAttributesOf({ due: '2026-02-30', priority: 4, assignee: '', recurrence: 'fortnightly' })).toEqual({
+      due: null,
+      priority: null,
+      assignee: null,
+      recurrence: null,
+    });
+    expect(taskAttributesOf({ due: '2026-03-14', priority: '2', assignee: 'uid-1', recurrence: 'weekdays' })).toEqual({
+      due: '2026-03-14',
+      priority: 2,
+      assignee: 'uid-1',
+      recurrence: 'weekly:mon,tue,wed,thu,fri',
+    });
+  });
+});
+
+describe('input rules', () => {
+  it('fire once a token is followed by a space', () => {
+    expect(TASK_PRIORITY_INPUT_REGEX.exec('Call mom !P1 ')?.[2]).toBe('1');
+    expect(TASK_PRIORITY_INPUT_REGEX.test('Call mom !p4 ')).toBe(false);
+    expect(TASK_DUE_INPUT_REGEX.exec('Pay rent @due:fri ')?.[2]).toBe('fri');
+    expect(TASK_DUE_INPUT_REGEX.test('mail@due:fri ')).toBe(false);
+  });
+});
+
+describe('Markdown suffix', () => {
+  it('writes and reads back priority, due day and repeat rule', () => {
+    const suffix = taskAttributesMarkdownSuffix({ priority: 1, due: '2026-03-14', recurrence: 'weekly:mon', assignee: 'uid-1' });
+    expect(suffix).toBe(' !p1 @due:2026-03-14 @repeat:weekly:mon');
+    expect(takeTaskAttributesFromText(`Water plants${suffix}`)).toEqual({
+      text: 'Water plants',
+      priority: 1,
+      due: '2026-03-14',
+      recurrence: 'weekly:mon',
+    });
+  });
+
+  it('leaves text that only looks like attributes', () => {
+    expect(takeTaskAttributesFromText('Email support@due:2026-03-14')).toMatchObject({ text: 'Email support@due:2026-03-14', due: null });
+    expect(takeTaskAttributesFromText('Plan @repeat:sometimes')).toMatchObject({ text: 'Plan @repeat:sometimes', recurrence: null });
+    // Only the last of two priorities is an attribute.
+    expect(takeTaskAttributesFromText('Fix !p2 !p1')).toMatchObject({ text: 'Fix !p2', priority: 1 });
+  });
+});
+
+describe('sortTaskItems', () => {
+  it('puts open tasks first, then by due day and priority, keeping ties in order', () => {
+    const doc: JSONContent = {
+      type: 'doc',
+      content: [taskList(
+        task('done', { checked: true, due: '2026-03-01' }),
+        task('no date'),
+        task('later p1', { due: '2026-03-20', priority: 1 }),
+        task('soon p3', { due: '2026-03-11', priority: 3 }),
+        task('soon p1', { due: '2026-03-11', priority: 1 }),
+        task('p2 only', { priority: 2 }),
+        task('also no date'),
+      )],
+    };
+
+    const { doc: sorted, changed } = sortTaskItems(doc);
+
+    expect(changed).toBe(true);
+    expect(itemTexts(sorted.content?.[0])).toEqual(['soon p1', 'soon p3', 'later p1', 'p2 only', 'no date', 'also no date', 'done']);
+    expect(sortTaskItems(sorted)).toEqual({ doc: sorted, changed: false });
+  });
+
+  it('sorts nested task lists too', () => {
+    const nested = taskList(task('b', { due: '2026-03-12' }), task('a', { due: '2026-03-11' }));
+    const doc: JSONContent = {
+      type: 'doc',
+      content: [taskList({ ...task('parent'), content: [...(task('parent').content ?? []), nested] })],
+    };
+
+    const { doc: sorted } = sortTaskItems(doc);
+
+    expect(itemTexts(sorted.content?.[0].content?.[0].content?.[1])).toEqual(['a', 'b']);
+  });
+});
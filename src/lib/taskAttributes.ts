@@ -0,0 +1,158 @@
+import type { JSONContent } from '@tiptap/core';
+import { parseJournalDate, shiftJournalDate, toJournalDate } from '@/lib/journal';
+import { toTaskRecurrence } from '@/lib/taskRecurrence';
+
+// Extra attributes on task items, next to TipTap's own `checked`.
+
+export type TaskPriority = 1 | 2 | 3;
+
+export const TASK_PRIORITIES: TaskPriority[] = [1, 2, 3];
+
+export type TaskAttributes = {
+  // Local calendar day (YYYY-MM-DD).
+  due: string | null;
+  priority: TaskPriority | null;
+  // Uid of the owner or a collaborator; only offered on shared notes.
+  assignee: string | null;
+  // Repeat rule in its stored form (see taskRecurrence.ts).
+  recurrence: string | null;
+};
+
+// Typed at the end of a word inside a task: `!p1`, `@due:fri`.
+export const TASK_PRIORITY_INPUT_REGEX = /(?:^|\s)(!p([1-3]))\s$/i;
+export const TASK_DUE_INPUT_REGEX = /(?:^|\s)(@due:(\S+))\s$/i;
+
+const WEEKDAY_PREFIXES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+export const toTaskPriority = (value: unknown): TaskPriority | null => {
+  const priority = Number(value);
+  return priority === 1 || priority === 2 || priority === 3 ? priority : null;
+};
+
+export const toTaskDue = (value: unknown): string | null => (
+  typeof value === 'string' && parseJournalDate(value) ? value : null
+);
+
+export const taskAttributesOf = (attrs: Record<string, unknown> | undefined): TaskAttributes => ({
+  due: toTaskDue(attrs?.due),
+  priority: toTaskPriority(attrs?.priority),
+  assignee: typeof attrs?.assignee === 'string' && attrs.assignee ? attrs.assignee : null,
+  recurrence: toTaskRecurrence(attrs?.recurrence),
+});
+
+// `today`, `tomorrow`, a weekday (`fri`, `friday`; the coming one, a week out
+// when it is today), `3d`/`2w` from today, or `2026-03-14`.
+export const parseDueToken = (token: string, today: string = toJournalDate(new Date())): string | null => {
+  const value = token.trim().toLowerCase();
+  if (value === 'today' || value === 'tod') return today;
+  if (value === 'tomorrow' || value === 'tom' || value === 'tmr') return shiftJournalDate(today, 1);
+
+  const offset = /^(\d{1,3})([dw])$/.exec(value);
+  if (offset) return shiftJournalDate(today, Number(offset[1]) * (offset[2] === 'w' ? 7 : 1));
+
+  const weekday = WEEKDAY_NAMES.findIndex((name, index) => (
+    value.length >= 3 && name.startsWith(value) && value.startsWith(WEEKDAY_PREFIXES[index])
+  ));
+  if (weekday !== -1) {
+    const todayWeekday = parseJournalDate(today)?.getDay() ?? 0;
+    return shiftJournalDate(today, ((weekday - todayWeekday + 6) % 7) + 1);
+  }
+
+  return toTaskDue(value);
+};
+
+const shortDueFormatter = new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric' });
+const weekdayDueFormatter = new Intl.DateTimeFormat('en-US', { weekday: 'short' });
+
+// "Today", "Tomorrow", a weekday within the coming week, else "Mar 14".
+export const formatTaskDue = (due: string, today: string = toJournalDate(new Date())): string => {
+  const date = parseJournalDate(due);
+  if (!date) return due;
+  if (due === today) return 'Today';
+  if (due === shiftJournalDate(today, 1)) return 'Tomorrow';
+  if (due > today && due <= shiftJournalDate(today, 6)) return weekdayDueFormatter.format(date);
+  return shortDueFormatter.format(date);
+};
+
+// Open tasks first, then by due day and priority; items without either go
+// after those with. Ties keep their order.
+const compareTaskItems = (a: JSONContent, b: JSONContent): number => {
+  const checkedOrder = Number(a.attrs?.checked === true) - Number(b.attrs?.checked === true);
+  if (checkedOrder !== 0) return checkedOrder;
+
+  const left = taskAttributesOf(a.attrs);
+  const right = taskAttributesOf(b.attrs);
+  if (left.due !== right.due) {
+    if (!left.due) return 1;
+    if (!right.due) return -1;
+    return left.due < right.due ? -1 : 1;
+  }
+  return (left.priority ?? 4) - (right.priority ?? 4);
+};
+
+const sortTaskItemsInNode = (node: JSONContent): { node: JSONContent; changed: boolean } => {
+  if (!Array.isArray(node.content)) return { node, changed: false };
+
+  let changed = false;
+  let children = node.content.map((child) => {
+    const result = sortTaskItemsInNode(child);
+    changed = changed || result.changed;
+    return result.node;
+  });
+
+  if (node.type === 'taskList') {
+    const sorted = children
+      .map((child, index) => ({ child, index }))
+      .sort((a, b) => compareTaskItems(a.child, b.child) || a.index - b.index)
+      .map(({ child }) => child);
+    if (sorted.some((child, index) => child !== children[index])) {
+      children = sorted;
+      changed = true;
+    }
+  }
+
+  return changed ? { node: { ...node, content: children }, changed } : { node, changed };
+};
+
+// Sorts every task list in the document, nested ones included.
+export const sortTaskItems = (doc: JSONContent): { doc: JSONContent; changed: boolean } => {
+  const result = sortTaskItemsInNode(doc);
+  return { doc: result.node, changed: result.changed };
+};
+
+// ` !p1 @due:2026-03-14 @repeat:weekly:mon` after a task's text in Markdown.
+export const taskAttributesMarkdownSuffix = (attrs: Record<string, unknown> | undefined): string => {
+  const { due, priority, recurrence } = taskAttributesOf(attrs);
+  return `${priority ? ` !p${priority}` : ''}${due ? ` @due:${due}` : ''}${recurrence ? ` @repeat:${recurrence}` : ''}`;
+};
+
+const TRAILING_TASK_TOKEN_REGEX = /\s+(?:!p([1-3])|@due:(\d{4}-\d{2}-\d{2})|@repeat:(\S+))\s*$/i;
+
+// Reads the Markdown suffix back off a task's first line.
+export const takeTaskAttributesFromText = (text: string): {
+  text: string;
+  due: string | null;
+  priority: TaskPriority | null;
+  recurrence: string | null;
+} => {
+  let rest = text;
+  let due: string | null = null;
+  let priority: TaskPriority | null = null;
+  let recurrence: string | null = null;
+
+  for (let match = TRAILING_TASK_TOKEN_REGEX.exec(rest); match; match = TRAILING_TASK_TOKEN_REGEX.exec(rest)) {
+    if (match[1] && !priority) {
+      priority = toTaskPriority(match[1]);
+    } else if (match[2] && !due && toTaskDue(match[2])) {
+      due = match[2];
+    } else if (match[3] && !recurrence && toTaskRecurrence(match[3])) {
+      recurrence = toTaskRecurrence(match[3]);
+    } else {
+      break;
+    }
+    rest = rest.slice(0, match.index);
+  }
+
+  return { text: rest, due, priority, recurrence };
+};
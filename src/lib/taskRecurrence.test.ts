@@ -0,0 +1,133 @@
+import type { JSONContent } from '@tiptap/core';
+import { describe, expect, it } from 'vitest';
+import {
+  completeRecurringTask,
+  completeRecurringTaskItem,
+  describeTaskRecurrence,
+  nextTaskOccurrence,
+  parseTaskRecurrence,
+  TASK_COMPLETION_LOG_LIMIT,
+  toTaskRecurrence,
+} from '@/lib/taskRecurrence';
+
+// A Tuesday.
+const TODAY = '2026-03-10';
+
+const localIso = (year: number, month: number, day: number, hours = 0) => new Date(year, month - 1, day, hours).toISOString();
+
+describe('parseTaskRecurrence', () => {
+  it('reads stored rules and shorthands', () => {
+    expect(parseTaskRecurrence('daily')).toEqual({ kind: 'daily' });
+    expect(parseTaskRecurrence('Weekdays')).toEqual({ kind: 'weekly', weekdays: [1, 2, 3, 4, 5] });
+    expect(parseTaskRecurrence('weekly')).toEqual({ kind: 'interval', days: 7 });
+    expect(parseTaskRecurrence('weekly:thu,mon,mon')).toEqual({ kind: 'weekly', weekdays: [1, 4] });
+    expect(parseTaskRecurrence('friday,tues')).toEqual({ kind: 'weekly', weekdays: [2, 5] });
+    expect(parseTaskRecurrence('monthly:31')).toEqual({ kind: 'monthly', day: 31 });
+    expect(parseTaskRecurrence('3d')).toEqual({ kind: 'interval', days: 3 });
+    expect(parseTaskRecurrence('every:2w')).toEqual({ kind: 'interval', days: 14 });
+  });
+
+  it('rejects rules out of range or unknown', () => {
+    ['monthly:0', 'monthly:32', 'every:0', 'every:400', '5', 'weekly:', 'mon,xyz', 'fortnightly', 42].forEach((value) => {
+      expect(parseTaskRecurrence(value)).toBeNull();
+    });
+  });
+
+  it('stores every accepted rule in one form', () => {
+    expect(toTaskRecurrence('Mon, Thu')).toBe('weekly:mon,thu');
+    expect(toTaskRecurrence('2w')).toBe('every:14');
+    expect(toTaskRecurrence('day')).toBe('daily');
+    expect(toTaskRecurrence(toTaskRecurrence('monthly:31'))).toBe('monthly:31');
+  });
+
+  it('describes rules for the task popover', () => {
+    expect(describeTaskRecurrence({ kind: 'weekly', weekdays: [1, 2, 3, 4, 5] })).toBe('Every weekday');
+    expect(describeTaskRecurrence({ kind: 'weekly', weekdays: [1, 4] })).toBe('Weekly on Mon, Thu');
+    expect(describeTaskRecurrence({ kind: 'monthly', day: 31 })).toBe('Monthly on day 31');
+    expect(describeTaskRecurrence({ kind: 'interval', days: 1 })).toBe('Every day');
+  });
+});
+
+describe('nextTaskOccurrence', () => {
+  it('clamps a monthly rule on the 31st to short months', () => {
+    const monthly31 = { kind: 'monthly', day: 31 } as const;
+
+    expect(nextTaskOccurrence(monthly31, '2026-01-31')).toBe('2026-02-28');
+    expect(nextTaskOccurrence(monthly31, '2026-02-28')).toBe('2026-03-31');
+    expect(nextTaskOccurrence(monthly31, '2026-03-31')).toBe('2026-04-30');
+    expect(nextTaskOccurrence(monthly31, '2026-04-30')).toBe('2026-05-31');
+    expect(nextTaskOccurrence(monthly31, '2028-01-31')).toBe('2028-02-29');
+    expect(nextTaskOccurrence(monthly31, '2026-12-31')).toBe('2027-01-31');
+  });
+
+  it('stays in the month when the day is still ahead', () => {
+    expect(nextTaskOccurrence({ kind: 'monthly', day: 15 }, '2026-03-10')).toBe('2026-03-15');
+    expect(nextTaskOccurrence({ kind: 'monthly', day: 15 }, '2026-03-15')).toBe('2026-04-15');
+  });
+
+  it('finds the next listed weekday', () => {
+    expect(nextTaskOccurrence({ kind: 'weekly', weekdays: [1, 4] }, TODAY)).toBe('2026-03-12');
+    expect(nextTaskOccurrence({ kind: 'weekly', weekdays: [1, 4] }, '2026-03-12')).toBe('2026-03-16');
+    expect(nextTaskOccurrence({ kind: 'weekly', weekdays: [2] }, TODAY)).toBe('2026-03-17');
+    expect(nextTaskOccurrence({ kind: 'weekly', weekdays: [1, 2, 3, 4, 5] }, '2026-03-13')).toBe('2026-03-16');
+  });
+
+  it('counts days across month ends', () => {
+    expect(nextTaskOccurrence({ kind: 'daily' }, '2026-02-28')).toBe('2026-03-01');
+    expect(nextTaskOccurrence({ kind: 'interval', days: 3 }, '2026-03-30')).toBe('2026-04-02');
+  });
+});
+
+describe('completeRecurringTask', () => {
+  it('moves the due day on from itself, or from today once it has passed', () => {
+    expect(completeRecurringTask({ recurrence: 'every:7', due: '2026-03-12' }, [], TODAY)).toMatchObject({ due: '2026-03-19' });
+    expect(completeRecurringTask({ recurrence: 'every:7', due: '2026-03-01' }, [], TODAY)).toMatchObject({ due: '2026-03-17' });
+    expect(completeRecurringTask({ recurrence: 'daily' }, [], TODAY)).toMatchObject({ due: '2026-03-11', shiftDays: 0 });
+  });
+
+  it('moves date chips instead when the item has no due day', () => {
+    expect(completeRecurringTask({ recurrence: 'monthly:31' }, ['2026-01-31'], '2026-01-31')).toEqual({
+      due: null,
+      completions: ['2026-01-31'],
+      shiftDays: 28,
+    });
+  });
+
+  it('keeps the last completions only', () => {
+    const completions = Array.from({ length: TASK_COMPLETION_LOG_LIMIT }, (_, index) => `2026-02-${String(index + 1).padStart(2, '0')}`);
+    const result = completeRecurringTask({ recurrence: 'daily', completions: [...completions, 'not a day'] }, [], TODAY);
+
+    expect(result?.completions).toHaveLength(TASK_COMPLETION_LOG_LIMIT);
+    expect(result?.completions.at(0)).toBe('2026-02-02');
+    expect(result?.completions.at(-1)).toBe(TODAY);
+  });
+
+  it('does nothing for items without a valid rule', () => {
+    expect(completeRecurringTask({ recurrence: 'sometimes' }, [], TODAY)).toBeNull();
+  });
+});
+
+describe('completeRecurringTaskItem', () => {
+  it('unchecks the item and shifts its date chip and reminder to the next month end', () => {
+    const item: JSONContent = {
+      type: 'taskItem',
+      attrs: { checked: true, recurrence: 'monthly:31' },
+      content: [{
+        type: 'paragraph',
+        content: [
+          { type: 'text', text: 'Invoice clients ' },
+          { type: 'dateChip', attrs: { date: localIso(2026, 1, 31), reminderAt: localIso(2026, 1, 31, 9) } },
+        ],
+      }],
+    };
+
+    const next = completeRecurringTaskItem(item, '2026-01-31');
+
+    expect(next?.attrs).toEqual({ checked: false, recurrence: 'monthly:31', due: null, completions: ['2026-01-31'] });
+    expect(next?.content?.[0].content?.[1].attrs).toEqual({
+      date: localIso(2026, 2, 28),
+      reminderAt: localIso(2026, 2, 28, 9),
+    });
+    expect(completeRecurringTaskItem({ ...item, attrs: { checked: true } }, '2026-01-31')).toBeNull();
+  });
+});
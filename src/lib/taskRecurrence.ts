@@ -0,0 +1,211 @@
+import type { JSONContent } from '@tiptap/core';
+import { parseJournalDate, shiftJournalDate, toJournalDate } from '@/lib/journal';
+
+// Repeating task items. The rule is stored on the item as a short string
+// (`daily`, `weekly:mon,thu`, `monthly:15`, `every:3`); checking the item off
+// logs the day and moves it, unchecked, to its next occurrence.
+
+export type TaskRecurrence =
+  | { kind: 'daily' }
+  // Days of the week, 0 = Sunday, ascending.
+  | { kind: 'weekly'; weekdays: number[] }
+  // Day of the month; short months use their last day.
+  | { kind: 'monthly'; day: number }
+  | { kind: 'interval'; days: number };
+
+// Typed at the end of a word inside a task: `@repeat:weekly:mon,thu`.
+export const TASK_REPEAT_INPUT_REGEX = /(?:^|\s)(@repeat:(\S+))\s$/i;
+
+// Completion days kept on an item, most recent last.
+export const TASK_COMPLETION_LOG_LIMIT = 10;
+
+const WEEKDAY_KEYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const MAX_INTERVAL_DAYS = 365;
+
+// Accepts the stored form plus a few shorthands: `weekdays`, `weekly` (every
+// 7 days), `mon,thu`, `3d`, `every:2w`.
+export const parseTaskRecurrence = (value: unknown): TaskRecurrence | null => {
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase();
+  if (text === 'daily' || text === 'day') return { kind: 'daily' };
+  if (text === 'weekdays') return { kind: 'weekly', weekdays: [1, 2, 3, 4, 5] };
+  if (text === 'weekly') return { kind: 'interval', days: 7 };
+
+  const monthly = /^monthly:(\d{1,2})$/.exec(text);
+  if (monthly) {
+    const day = Number(monthly[1]);
+    return day >= 1 && day <= 31 ? { kind: 'monthly', day } : null;
+  }
+
+  const interval = /^(?:every:)?(\d{1,3})([dw]?)$/.exec(text);
+  if (interval && (interval[2] || text.startsWith('every:'))) {
+    const days = Number(interval[1]) * (interval[2] === 'w' ? 7 : 1);
+    return days >= 1 && days <= MAX_INTERVAL_DAYS ? { kind: 'interval', days } : null;
+  }
+
+  const weekdayList = text.startsWith('weekly:') ? text.slice('weekly:'.length) : text;
+  const weekdays = weekdayList.split(',').map((name) => {
+    const weekday = WEEKDAY_KEYS.indexOf(name.trim().slice(0, 3));
+    return weekday !== -1 && WEEKDAY_NAMES[weekday].startsWith(name.trim()) ? weekday : -1;
+  });
+  if (weekdayList && weekdays.every((weekday) => weekday !== -1)) {
+    return { kind: 'weekly', weekdays: [...new Set(weekdays)].sort((a, b) => a - b) };
+  }
+
+  return null;
+};
+
+export const formatTaskRecurrence = (recurrence: TaskRecurrence): string => {
+  switch (recurrence.kind) {
+    case 'daily':
+      return 'daily';
+    case 'weekly':
+      return `weekly:${recurrence.weekdays.map((weekday) => WEEKDAY_KEYS[weekday]).join(',')}`;
+    case 'monthly':
+      return `monthly:${recurrence.day}`;
+    case 'interval':
+      return `every:${recurrence.days}`;
+  }
+};
+
+// The stored form of any accepted rule, or null.
+export const toTaskRecurrence = (value: unknown): string | null => {
+  const recurrence = parseTaskRecurrence(value);
+  return recurrence ? formatTaskRecurrence(recurrence) : null;
+};
+
+// "Every day", "Weekly on Mon, Thu", "Monthly on day 15", "Every 3 days".
+export const describeTaskRecurrence = (recurrence: TaskRecurrence): string => {
+  switch (recurrence.kind) {
+    case 'daily':
+      return 'Every day';
+    case 'weekly':
+      return recurrence.weekdays.join() === '1,2,3,4,5'
+        ? 'Every weekday'
+        : `Weekly on ${recurrence.weekdays.map((weekday) => WEEKDAY_LABELS[weekday]).join(', ')}`;
+    case 'monthly':
+      return `Monthly on day ${recurrence.day}`;
+    case 'interval':
+      return recurrence.days === 1 ? 'Every day' : `Every ${recurrence.days} days`;
+  }
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(year, month + 1, 0).getDate();
+
+// The first day after `after` (YYYY-MM-DD) that the rule falls on.
+export const nextTaskOccurrence = (recurrence: TaskRecurrence, after: string): string => {
+  switch (recurrence.kind) {
+    case 'daily':
+      return shiftJournalDate(after, 1);
+    case 'interval':
+      return shiftJournalDate(after, recurrence.days);
+    case 'weekly': {
+      const weekday = parseJournalDate(after)?.getDay() ?? 0;
+      const offset = [1, 2, 3, 4, 5, 6, 7].find((days) => recurrence.weekdays.includes((weekday + days) % 7)) ?? 7;
+      return shiftJournalDate(after, offset);
+    }
+    case 'monthly': {
+      const date = parseJournalDate(after) ?? new Date();
+      const inMonth = (year: number, month: number) => (
+        toJournalDate(new Date(year, month, Math.min(recurrence.day, daysInMonth(year, month))))
+      );
+      const candidate = inMonth(date.getFullYear(), date.getMonth());
+      return candidate > after ? candidate : inMonth(date.getFullYear(), date.getMonth() + 1);
+    }
+  }
+};
+
+const daysBetween = (from: string, to: string): number => {
+  const start = parseJournalDate(from);
+  const end = parseJournalDate(to);
+  if (!start || !end) return 0;
+  const utc = (date: Date) => Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  return Math.round((utc(end) - utc(start)) / (24 * 60 * 60 * 1000));
+};
+
+// Moves an ISO timestamp by whole local days, keeping its time of day.
+const shiftIsoDays = (value: unknown, days: number): string | null => {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  date.setDate(date.getDate() + days);
+  return date.toISOString();
+};
+
+export const dateChipDay = (attrs: Record<string, unknown> | undefined): string | null => {
+  if (typeof attrs?.date !== 'string') return null;
+  const date = new Date(attrs.date);
+  return Number.isNaN(date.getTime()) ? null : toJournalDate(date);
+};
+
+// A date chip (and its reminder) moved by whole days.
+export const shiftDateChipAttrs = (attrs: Record<string, unknown>, days: number): { date: string | null; reminderAt: string | null } => ({
+  date: shiftIsoDays(attrs.date, days),
+  reminderAt: shiftIsoDays(attrs.reminderAt, days),
+});
+
+export const taskCompletionLog = (value: unknown): string[] => (
+  Array.isArray(value) ? value.filter((day): day is string => typeof day === 'string' && parseJournalDate(day) !== null) : []
+);
+
+export type RecurringTaskCompletion = {
+  due: string | null;
+  completions: string[];
+  // How far the date chips on the item's line move.
+  shiftDays: number;
+};
+
+// What checking off a repeating item on `today` changes. The next occurrence
+// counts from the item's due day, else its first date chip, else today; one
+// that is already past starts from today instead. Items dated only by chips
+// keep them as their date, the rest get a due day.
+export const completeRecurringTask = (
+  attrs: Record<string, unknown> | undefined,
+  chipDays: string[],
+  today: string
+): RecurringTaskCompletion | null => {
+  const recurrence = parseTaskRecurrence(attrs?.recurrence);
+  if (!recurrence) return null;
+
+  const due = typeof attrs?.due === 'string' && parseJournalDate(attrs.due) ? attrs.due : null;
+  const base = due ?? chipDays[0] ?? today;
+  const next = nextTaskOccurrence(recurrence, base > today ? base : today);
+
+  return {
+    due: due || chipDays.length === 0 ? next : null,
+    completions: [...taskCompletionLog(attrs?.completions), today].slice(-TASK_COMPLETION_LOG_LIMIT),
+    shiftDays: chipDays.length > 0 ? daysBetween(chipDays[0], next) : 0,
+  };
+};
+
+// The JSON form of checking off a repeating task item: the item itself comes
+// back unchecked and moved on. Null when the item does not repeat.
+export const completeRecurringTaskItem = (taskItem: JSONContent, today: string): JSONContent | null => {
+  const [line, ...rest] = taskItem.content ?? [];
+  const chips = line?.content ?? [];
+  const chipDays = chips.flatMap((child) => {
+    const day = child.type === 'dateChip' ? dateChipDay(child.attrs) : null;
+    return day ? [day] : [];
+  });
+  const completion = completeRecurringTask(taskItem.attrs, chipDays, today);
+  if (!completion) return null;
+
+  const nextLine = line && completion.shiftDays !== 0
+    ? {
+      ...line,
+      content: chips.map((child) => (
+        child.type === 'dateChip' && child.attrs
+          ? { ...child, attrs: { ...child.attrs, ...shiftDateChipAttrs(child.attrs, completion.shiftDays) } }
+          : child
+      )),
+    }
+    : line;
+
+  return {
+    ...taskItem,
+    attrs: { ...taskItem.attrs, checked: false, due: completion.due, completions: completion.completions },
+    ...(nextLine ? { content: [nextLine, ...rest] } : {}),
+  };
+};
@@ -0,0 +1,203 @@
+// In-memory stand-in for the parts of `firebase/firestore` the repositories
+// use, for Vitest. Tests swap it in with:
+//
+//   vi.mock('firebase/firestore', () => import('@/lib/testing/fakeFirestore'));
+//
+// Reads and writes go through `fakeFirestore.canRead` / `canWrite`, so a test
+// can mirror the rules in firestore.rules; a denied request throws
+// `permission-denied` like the SDK does.
+
+type DocumentData = Record<string, unknown>;
+
+type CollectionRef = { kind: 'collection'; path: string; id: string };
+type DocumentRef = { kind: 'document'; path: string; id: string };
+
+type Constraint =
+  | { kind: 'where'; field: string; value: unknown }
+  | { kind: 'orderBy'; field: string; direction: 'asc' | 'desc' }
+  | { kind: 'limit'; count: number };
+
+type Query = { kind: 'query'; collection: CollectionRef; constraints: Constraint[] };
+
+type ReadRule = (path: string, data: DocumentData | undefined) => boolean;
+type WriteRule = (path: string, before: DocumentData | undefined, after: DocumentData | undefined) => boolean;
+
+const DELETE_FIELD = Symbol('deleteField');
+const AUTO_ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+export class Timestamp {
+  constructor(private readonly ms: number) {}
+
+  static fromMillis(ms: number): Timestamp {
+    return new Timestamp(ms);
+  }
+
+  static now(): Timestamp {
+    return new Timestamp(Date.now());
+  }
+
+  toMillis(): number {
+    return this.ms;
+  }
+}
+
+export const fakeFirestore = {
+  documents: new Map<string, DocumentData>(),
+  canRead: (() => true) as ReadRule,
+  canWrite: (() => true) as WriteRule,
+
+  reset() {
+    this.documents = new Map();
+    this.canRead = () => true;
+    this.canWrite = () => true;
+  },
+};
+
+const autoId = (): string => Array.from(
+  { length: 20 },
+  () => AUTO_ID_ALPHABET[Math.floor(Math.random() * AUTO_ID_ALPHABET.length)]
+).join('');
+
+const lastSegment = (path: string): string => path.split('/').pop() ?? '';
+
+export function collection(parent: unknown, ...segments: string[]): CollectionRef {
+  const base = (parent as Partial<DocumentRef>)?.kind === 'document' ? (parent as DocumentRef).path : '';
+  const path = [base, ...segments].filter(Boolean).join('/');
+  return { kind: 'collection', path, id: lastSegment(path) };
+}
+
+export function doc(parent: unknown, ...segments: string[]): DocumentRef {
+  const base = (parent as Partial<CollectionRef>)?.kind === 'collection' ? (parent as CollectionRef).path : '';
+  const path = [base, ...(segments.length ? segments : [autoId()])].filter(Boolean).join('/');
+  return { kind: 'document', path, id: lastSegment(path) };
+}
+
+export const where = (field: string, _op: '==', value: unknown): Constraint => ({ kind: 'where', field, value });
+export const orderBy = (field: string, direction: 'asc' | 'desc' = 'asc'): Constraint => ({ kind: 'orderBy', field, direction });
+export const limit = (count: number): Constraint => ({ kind: 'limit', count });
+export const query = (collectionRef: CollectionRef, ...constraints: Constraint[]): Query => ({
+  kind: 'query',
+  collection: collectionRef,
+  constraints,
+});
+
+export const serverTimestamp = (): Timestamp => Timestamp.now();
+export const deleteField = (): symbol => DELETE_FIELD;
+
+const snapshotOf = (ref: DocumentRef, data: DocumentData | undefined) => ({
+  id: ref.id,
+  ref,
+  exists: () => data !== undefined,
+  data: () => (data ? { ...data } : undefined),
+});
+
+const permissionDenied = () => Object.assign(new Error('Missing or insufficient permissions.'), { code: 'permission-denied' });
+
+const assertReadable = (path: string, data: DocumentData | undefined) => {
+  if (!fakeFirestore.canRead(path, data)) throw permissionDenied();
+};
+
+const write = (path: string, after: DocumentData | undefined) => {
+  if (!fakeFirestore.canWrite(path, fakeFirestore.documents.get(path), after)) throw permissionDenied();
+  if (after) {
+    fakeFirestore.documents.set(path, after);
+  } else {
+    fakeFirestore.documents.delete(path);
+  }
+};
+
+export async function getDoc(ref: DocumentRef) {
+  const data = fakeFirestore.documents.get(ref.path);
+  assertReadable(ref.path, data);
+  return snapshotOf(ref, data);
+}
+
+export async function getDocs(target: Query | CollectionRef) {
+  const { collection: collectionRef, constraints } = target.kind === 'query'
+    ? target
+    : { collection: target, constraints: [] as Constraint[] };
+  const prefix = `${collectionRef.path}/`;
+
+  let matches = [...fakeFirestore.documents.entries()]
+    .filter(([path]) => path.startsWith(prefix) && !path.slice(prefix.length).includes('/'))
+    .filter(([, data]) => constraints.every((constraint) => (
+      constraint.kind !== 'where' || data[constraint.field] === constraint.value
+    )));
+  // Queries must only match readable documents, as with the real rules.
+  matches.forEach(([path, data]) => assertReadable(path, data));
+
+  constraints.forEach((constraint) => {
+    if (constraint.kind === 'orderBy') {
+      const sign = constraint.direction === 'desc' ? -1 : 1;
+      const value = (data: DocumentData) => {
+        const field = data[constraint.field];
+        return field instanceof Timestamp ? field.toMillis() : Number(field ?? 0);
+      };
+      matches = [...matches].sort(([, a], [, b]) => sign * (value(a) - value(b)));
+    } else if (constraint.kind === 'limit') {
+      matches = matches.slice(0, constraint.count);
+    }
+  });
+
+  const docs = matches.map(([path, data]) => snapshotOf({ kind: 'document', path, id: lastSegment(path) }, data));
+  return { docs, empty: docs.length === 0, size: docs.length };
+}
+
+const applyUpdate = (current: DocumentData, update: DocumentData): DocumentData => {
+  const next = { ...current };
+  Object.entries(update).forEach(([field, value]) => {
+    if (value === DELETE_FIELD) {
+      delete next[field];
+    } else {
+      next[field] = value;
+    }
+  });
+  return next;
+};
+
+const notFound = (path: string) => Object.assign(new Error(`No document to update: ${path}`), { code: 'not-found' });
+
+export async function setDoc(ref: DocumentRef, data: DocumentData, options?: { merge?: boolean }) {
+  const current = fakeFirestore.documents.get(ref.path);
+  write(ref.path, options?.merge && current ? applyUpdate(current, data) : applyUpdate({}, data));
+}
+
+export async function updateDoc(ref: DocumentRef, data: DocumentData) {
+  const current = fakeFirestore.documents.get(ref.path);
+  if (!current) throw notFound(ref.path);
+  write(ref.path, applyUpdate(current, data));
+}
+
+export async function deleteDoc(ref: DocumentRef) {
+  write(ref.path, undefined);
+}
+
+// Writes apply together on commit; one denied or failed write rolls back the
+// whole batch, as it does in Firestore.
+export function writeBatch() {
+  const writes: Array<() => Promise<void>> = [];
+  const batch = {
+    set(ref: DocumentRef, data: DocumentData, options?: { merge?: boolean }) {
+      writes.push(() => setDoc(ref, data, options));
+      return batch;
+    },
+    update(ref: DocumentRef, data: DocumentData) {
+      writes.push(() => updateDoc(ref, data));
+      return batch;
+    },
+    delete(ref: DocumentRef) {
+      writes.push(() => deleteDoc(ref));
+      return batch;
+    },
+    async commit() {
+      const snapshot = new Map(fakeFirestore.documents);
+      try {
+        for (const apply of writes) await apply();
+      } catch (error) {
+        fakeFirestore.documents = snapshot;
+        throw error;
+      }
+    },
+  };
+  return batch;
+}
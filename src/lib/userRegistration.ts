@@ -1,7 +1,7 @@
 import { User } from 'firebase/auth';
 import { getDoc, serverTimestamp, setDoc, updateDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import { APP_ID, userDirectoryDoc } from '@/lib/firestorePaths';
+import { APP_ID, appUserEmailDoc, userDirectoryDoc } from '@/lib/firestorePaths';
 
 type SharedUserRecord = Record<string, unknown>;
 
@@ -27,6 +27,12 @@ export type KiraRegistrationCheck = {
   sharedUserData: SharedUserRecord | null;
 };
 
+export type DirectoryUser = {
+  uid: string;
+  email: string;
+  displayName: string | null;
+};
+
 export type TulisRegistrationResolution =
   | { status: 'signed_out'; check: TulisRegistrationCheck }
   | { status: 'registered'; check: TulisRegistrationCheck }
@@ -125,6 +131,35 @@ export async function activateExistingSharedUserForTulis(user: User) {
   }
 }
 
+// Emails are matched case-insensitively; Firebase Auth allows one account per address.
+export function normalizeDirectoryEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+const publishedEmailLookups = new Set<string>();
+
+// Share invites resolve an email through a lookup doc that can only be fetched
+// by exact address, so the user directory itself never has to be listable.
+// Written once per session, which also fills it in for users registered
+// before the lookup existed. Only verified addresses are published.
+async function publishEmailLookup(user: User): Promise<void> {
+  const email = user.email ? normalizeDirectoryEmail(user.email) : '';
+  if (!email || !user.emailVerified || email.includes('/') || publishedEmailLookups.has(user.uid)) return;
+
+  publishedEmailLookups.add(user.uid);
+  try {
+    await setDoc(appUserEmailDoc(db, email), {
+      uid: user.uid,
+      email: user.email,
+      displayName: user.displayName ?? null,
+      updatedAt: serverTimestamp(),
+    });
+  } catch (error) {
+    publishedEmailLookups.delete(user.uid);
+    console.warn('Failed to publish email lookup for sharing:', error);
+  }
+}
+
 export async function resolveTulisRegistration(user: User | null): Promise<TulisRegistrationResolution> {
   const check = await getTulisRegistrationCheck(user);
 
@@ -133,11 +168,13 @@ export async function resolveTulisRegistration(user: User | null): Promise<Tulis
   }
 
   if (check.isRegisteredForTulis) {
+    void publishEmailLookup(user);
     return { status: 'registered', check };
   }
 
   if (!check.sharedUserDocExists) {
     await createSharedUserDocAndRegisterTulis(user);
+    void publishEmailLookup(user);
     return {
       status: 'created_shared_user_and_registered',
       check: {
@@ -149,6 +186,7 @@ export async function resolveTulisRegistration(user: User | null): Promise<Tulis
   }
 
   await activateExistingSharedUserForTulis(user);
+  void publishEmailLookup(user);
   return {
     status: 'activated_existing_shared_user_and_registered',
     check: {
@@ -157,3 +195,22 @@ export async function resolveTulisRegistration(user: User | null): Promise<Tulis
     },
   };
 }
+
+// Looks up another tulis user by email for sharing. Only users who have
+// signed in to tulis have a lookup doc.
+export async function findTulisUserByEmail(email: string): Promise<DirectoryUser | null> {
+  const normalized = normalizeDirectoryEmail(email);
+  if (!normalized || normalized.includes('/')) return null;
+
+  const snapshot = await getDoc(appUserEmailDoc(db, normalized));
+  if (!snapshot.exists()) return null;
+
+  const data = snapshot.data() as SharedUserRecord;
+  if (typeof data.uid !== 'string' || !data.uid) return null;
+
+  return {
+    uid: data.uid,
+    email: typeof data.email === 'string' ? data.email : normalized,
+    displayName: typeof data.displayName === 'string' ? data.displayName : null,
+  };
+}
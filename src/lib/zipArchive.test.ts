@@ -0,0 +1,117 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createZip, readZip } from '@/lib/zipArchive';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const textFiles = (files: Map<string, Uint8Array>) => (
+  Object.fromEntries([...files].map(([name, data]) => [name, decoder.decode(data)]))
+);
+
+// One stored entry whose sizes and offset are saturated in the central
+// directory and carried in a ZIP64 extra field, the way large Takeout exports
+// are written.
+const zip64Archive = (name: string, text: string): Blob => {
+  const nameBytes = encoder.encode(name);
+  const data = encoder.encode(text);
+
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint16(4, 45, true);
+  local.setUint32(18, data.length, true);
+  local.setUint32(22, data.length, true);
+  local.setUint16(26, nameBytes.length, true);
+
+  const central = new DataView(new ArrayBuffer(46));
+  central.setUint32(0, 0x02014b50, true);
+  central.setUint16(4, 45, true);
+  central.setUint16(6, 45, true);
+  central.setUint32(20, 0xffffffff, true);
+  central.setUint32(24, 0xffffffff, true);
+  central.setUint16(28, nameBytes.length, true);
+  central.setUint16(30, 32, true);
+  central.setUint32(42, 0xffffffff, true);
+
+  // An unrelated extra field first, then the ZIP64 one.
+  const extra = new DataView(new ArrayBuffer(32));
+  extra.setUint16(0, 0x5455, true);
+  extra.setUint16(2, 0, true);
+  extra.setUint16(4, 0x0001, true);
+  extra.setUint16(6, 24, true);
+  extra.setUint32(8, data.length, true);
+  extra.setUint32(16, data.length, true);
+  extra.setUint32(24, 0, true);
+  const extraBytes = new Uint8Array(extra.buffer);
+
+  const directoryOffset = 30 + nameBytes.length + data.length;
+  const directorySize = 46 + nameBytes.length + extraBytes.length;
+
+  const zip64End = new DataView(new ArrayBuffer(56));
+  zip64End.setUint32(0, 0x06064b50, true);
+  zip64End.setUint32(4, 44, true);
+  zip64End.setUint32(24, 1, true);
+  zip64End.setUint32(32, 1, true);
+  zip64End.setUint32(40, directorySize, true);
+  zip64End.setUint32(48, directoryOffset, true);
+
+  const locator = new DataView(new ArrayBuffer(20));
+  locator.setUint32(0, 0x07064b50, true);
+  locator.setUint32(8, directoryOffset + directorySize, true);
+  locator.setUint32(16, 1, true);
+
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, 0xffff, true);
+  end.setUint16(10, 0xffff, true);
+  end.setUint32(12, 0xffffffff, true);
+  end.setUint32(16, 0xffffffff, true);
+
+  return new Blob([
+    new Uint8Array(local.buffer), nameBytes, data,
+    new Uint8Array(central.buffer), nameBytes, extraBytes,
+    new Uint8Array(zip64End.buffer), new Uint8Array(locator.buffer), new Uint8Array(end.buffer),
+  ] as BlobPart[]);
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('zipArchive', () => {
+  it('reads back what it writes', async () => {
+    const zip = await createZip([
+      { name: 'notes.json', data: '{"notes":[]}' },
+      { name: 'Notes/Émoji ✓.md', data: '# Title\n\n'.repeat(50) },
+    ]);
+
+    expect(textFiles(await readZip(zip))).toEqual({
+      'notes.json': '{"notes":[]}',
+      'Notes/Émoji ✓.md': '# Title\n\n'.repeat(50),
+    });
+  });
+
+  it('reads ZIP64 end records and extra fields', async () => {
+    const files = await readZip(zip64Archive('Takeout/Keep/Groceries.json', '{"title":"Groceries"}'));
+
+    expect(textFiles(files)).toEqual({ 'Takeout/Keep/Groceries.json': '{"title":"Groceries"}' });
+  });
+
+  it('writes ZIP64 end records past 65,535 entries', async () => {
+    // Stored entries keep this fast; compression is covered above.
+    vi.stubGlobal('CompressionStream', undefined);
+    const entries = Array.from({ length: 0x10000 }, (_, index) => ({ name: `n/${index}.md`, data: `${index}` }));
+
+    const zip = await createZip(entries);
+    const bytes = new Uint8Array(await zip.arrayBuffer());
+    const end = new DataView(bytes.buffer, bytes.length - 22);
+    expect(end.getUint16(10, true)).toBe(0xffff);
+
+    const files = await readZip(zip);
+    expect(files.size).toBe(0x10000);
+    expect(decoder.decode(files.get('n/65535.md'))).toBe('65535');
+  }, 30_000);
+
+  it('rejects archives without an end record', async () => {
+    await expect(readZip(new Blob([encoder.encode('not a zip')]))).rejects.toThrow('Not a ZIP archive.');
+  });
+});
@@ -0,0 +1,257 @@
+// Minimal ZIP (PKWARE APPNOTE 6.3) writer and reader for backups. Entries are
+// deflated with the browser's CompressionStream when available, stored
+// otherwise. ZIP64 records are used past 65,535 entries or 4 GB of offsets;
+// single entries over 4 GB, encryption and multi-disk archives are not supported.
+
+export type ZipEntry = {
+  name: string;
+  data: Uint8Array | string;
+  modifiedAt?: Date;
+};
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+const UINT32_RANGE = 0x100000000;
+const UTF8_FILE_NAME_FLAG = 0x0800;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let index = 0; index < data.length; index += 1) {
+    crc = CRC32_TABLE[(crc ^ data[index]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date/time in local time, as ZIP tools expect.
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+async function transform(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([data as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+// DataView has no 64-bit number accessors below ES2020; ZIP offsets stay well
+// inside Number.MAX_SAFE_INTEGER.
+function getUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * UINT32_RANGE;
+}
+
+function setUint64(view: DataView, offset: number, value: number) {
+  view.setUint32(offset, value % UINT32_RANGE, true);
+  view.setUint32(offset + 4, Math.floor(value / UINT32_RANGE), true);
+}
+
+const canDeflate = () => typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined';
+
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const raw = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const deflated = canDeflate() ? await transform(raw, new CompressionStream('deflate-raw')) : null;
+    const useDeflate = deflated !== null && deflated.length < raw.length;
+    const body = useDeflate ? deflated : raw;
+    if (raw.length > MAX_UINT32 || body.length > MAX_UINT32) {
+      throw new Error(`${entry.name} is too large for a ZIP archive (over 4 GB).`);
+    }
+    const checksum = crc32(raw);
+    const { time, date } = dosDateTime(entry.modifiedAt ?? new Date());
+    // Entries starting past 4 GB keep their offset in a ZIP64 extra field.
+    const needsZip64 = offset >= MAX_UINT32;
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, LOCAL_FILE_HEADER, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, UTF8_FILE_NAME_FLAG, true);
+    header.setUint16(8, useDeflate ? METHOD_DEFLATED : METHOD_STORED, true);
+    header.setUint16(10, time, true);
+    header.setUint16(12, date, true);
+    header.setUint32(14, checksum, true);
+    header.setUint32(18, body.length, true);
+    header.setUint32(22, raw.length, true);
+    header.setUint16(26, name.length, true);
+    header.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46 + (needsZip64 ? 12 : 0)));
+    central.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    central.setUint16(4, needsZip64 ? 45 : 20, true);
+    central.setUint16(6, needsZip64 ? 45 : 20, true);
+    central.setUint16(8, UTF8_FILE_NAME_FLAG, true);
+    central.setUint16(10, useDeflate ? METHOD_DEFLATED : METHOD_STORED, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, checksum, true);
+    central.setUint32(20, body.length, true);
+    central.setUint32(24, raw.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, needsZip64 ? MAX_UINT32 : offset, true);
+    if (needsZip64) {
+      central.setUint16(30, 12, true);
+      central.setUint16(46, ZIP64_EXTRA_FIELD, true);
+      central.setUint16(48, 8, true);
+      setUint64(central, 50, offset);
+    }
+
+    const centralHeader = new Uint8Array(central.buffer);
+    parts.push(new Uint8Array(header.buffer), name, body);
+    // The name sits between the fixed header and the extra field.
+    centralDirectory.push(centralHeader.subarray(0, 46), name, centralHeader.subarray(46));
+    offset += 30 + name.length + body.length;
+  }
+
+  const directorySize = centralDirectory.reduce((size, part) => size + part.length, 0);
+  const endRecords: Uint8Array[] = [];
+  const countOverflows = entries.length >= MAX_UINT16;
+  const sizeOverflows = directorySize >= MAX_UINT32;
+  const offsetOverflows = offset >= MAX_UINT32;
+
+  if (countOverflows || sizeOverflows || offsetOverflows) {
+    const zip64End = new DataView(new ArrayBuffer(56));
+    zip64End.setUint32(0, ZIP64_END_OF_CENTRAL_DIRECTORY, true);
+    setUint64(zip64End, 4, 44);
+    zip64End.setUint16(12, 45, true);
+    zip64End.setUint16(14, 45, true);
+    setUint64(zip64End, 24, entries.length);
+    setUint64(zip64End, 32, entries.length);
+    setUint64(zip64End, 40, directorySize);
+    setUint64(zip64End, 48, offset);
+
+    const locator = new DataView(new ArrayBuffer(20));
+    locator.setUint32(0, ZIP64_END_LOCATOR, true);
+    setUint64(locator, 8, offset + directorySize);
+    locator.setUint32(16, 1, true);
+
+    endRecords.push(new Uint8Array(zip64End.buffer), new Uint8Array(locator.buffer));
+  }
+
+  // Fields that overflow are saturated; readers take them from the ZIP64 record.
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, countOverflows ? MAX_UINT16 : entries.length, true);
+  end.setUint16(10, countOverflows ? MAX_UINT16 : entries.length, true);
+  end.setUint32(12, sizeOverflows ? MAX_UINT32 : directorySize, true);
+  end.setUint32(16, offsetOverflows ? MAX_UINT32 : offset, true);
+  endRecords.push(new Uint8Array(end.buffer));
+
+  return new Blob([...parts, ...centralDirectory, ...endRecords] as BlobPart[], { type: 'application/zip' });
+}
+
+// File name -> contents for every file entry (directories are skipped).
+export async function readZip(blob: Blob): Promise<Map<string, Uint8Array>> {
+  let buffer: ArrayBuffer;
+  try {
+    buffer = await blob.arrayBuffer();
+  } catch (error) {
+    if (error instanceof RangeError) throw new Error('This archive is too large to open in the browser.');
+    throw error;
+  }
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end record sits in the last 22 bytes plus an optional comment of up to 64 KB.
+  let endOffset = -1;
+  for (let index = bytes.length - 22; index >= Math.max(0, bytes.length - 22 - 0xffff); index -= 1) {
+    if (view.getUint32(index, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = index;
+      break;
+    }
+  }
+  if (endOffset === -1) throw new Error('Not a ZIP archive.');
+
+  let entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+
+  // Archives past 65,535 entries or 4 GB (Takeout exports, for one) keep the
+  // real count and directory offset in a ZIP64 record found via its locator.
+  const locatorOffset = endOffset - 20;
+  if (locatorOffset >= 0 && view.getUint32(locatorOffset, true) === ZIP64_END_LOCATOR) {
+    const zip64EndOffset = getUint64(view, locatorOffset + 8);
+    if (zip64EndOffset + 56 > bytes.length || view.getUint32(zip64EndOffset, true) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+      throw new Error('Corrupt ZIP64 directory.');
+    }
+    entryCount = getUint64(view, zip64EndOffset + 32);
+    offset = getUint64(view, zip64EndOffset + 48);
+  }
+
+  const decoder = new TextDecoder();
+  const files = new Map<string, Uint8Array>();
+
+  for (let entry = 0; entry < entryCount; entry += 1) {
+    if (offset + 46 > bytes.length || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP directory.');
+    }
+
+    const method = view.getUint16(offset + 10, true);
+    let compressedSize = view.getUint32(offset + 20, true);
+    const uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    let localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    // Saturated fields continue in the ZIP64 extra field, in this order.
+    if (compressedSize === MAX_UINT32 || uncompressedSize === MAX_UINT32 || localOffset === MAX_UINT32) {
+      const extraEnd = offset + 46 + nameLength + extraLength;
+      let field = offset + 46 + nameLength;
+      while (field + 4 <= extraEnd && view.getUint16(field, true) !== ZIP64_EXTRA_FIELD) {
+        field += 4 + view.getUint16(field + 2, true);
+      }
+      if (field + 4 > extraEnd) throw new Error('Corrupt ZIP64 directory.');
+
+      let value = field + 4;
+      if (uncompressedSize === MAX_UINT32) value += 8;
+      if (compressedSize === MAX_UINT32) {
+        compressedSize = getUint64(view, value);
+        value += 8;
+      }
+      if (localOffset === MAX_UINT32) localOffset = getUint64(view, value);
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) {
+      files.set(name, data);
+    } else if (method === METHOD_DEFLATED && canDeflate()) {
+      files.set(name, await transform(data, new DecompressionStream('deflate-raw')));
+    } else {
+      console.warn(`Skipping ${name}: unsupported ZIP compression method ${method}.`);
+    }
+  }
+
+  return files;
+}